@@ -3,6 +3,8 @@ import Debug from 'debug';
 import { EventEmitter } from 'events';
 
 import { L2capChannelId } from '../l2cap/L2capChannelId';
+import { DisconnectionCompleteEvent } from '../hci/HciEvent';
+import { AbortError, AbortOptions, onAbort } from '../utils/Abort';
 
 import { AttOpcode } from './AttOpcode';
 import { AttErrorCode } from './AttError';
@@ -29,8 +31,11 @@ const debug = Debug('nble-att');
 
 type AttEvents = keyof typeof AttOpcode;
 
+type AttDisconnectReason = DisconnectionCompleteEvent['reason'];
+
 interface L2cap extends EventEmitter {
-  on(event: 'AttData', listener: (connectionHandle: number, payload: Buffer) => void): this;
+  on(event: 'AttData',      listener: (connectionHandle: number, payload: Buffer) => void): this;
+  on(event: 'Disconnected', listener: (connectionHandle: number, reason: AttDisconnectReason) => void): this;
   writeAclData: (connectionHandle: number, channelId: L2capChannelId, data: Buffer) => void;
 }
 
@@ -66,6 +71,8 @@ export declare interface Att {
   on(event: 'HandleValueCfm',          listener: (event: AttHandleValueCfmMsg) => void): this;
   on(event: 'MultipleHandleValueNtf',  listener: (event: AttMultipleHandleValueNtfMsg) => void): this;
 
+  on(event: 'Disconnected',            listener: (reason: AttDisconnectReason) => void): this;
+
   on<T>(event: AttEvents, listener: (event: T) => void): this;
 }
 
@@ -105,11 +112,13 @@ export class Att extends EventEmitter {
 
   constructor (private l2cap: L2cap, private connectionHandle: number) {
     super();
-    l2cap.on('AttData', this.onAttData);
+    l2cap.on('AttData',      this.onAttData);
+    l2cap.on('Disconnected', this.onDisconnected);
   }
 
   public destroy(): void {
-    this.l2cap.off('AttData', this.onAttData);
+    this.l2cap.off('AttData',      this.onAttData);
+    this.l2cap.off('Disconnected', this.onDisconnected);
   }
 
   // Responses
@@ -166,75 +175,75 @@ export class Att extends EventEmitter {
   }
 
   // Requests
-  public async exchangeMtuReq(req: AttExchangeMtuReqMsg): Promise<AttExchangeMtuRspMsg> {
+  public async exchangeMtuReq(req: AttExchangeMtuReqMsg, options?: AbortOptions): Promise<AttExchangeMtuRspMsg> {
     return await this.writeAttWaitEvent<AttExchangeMtuRspMsg>(
-      AttOpcode.ExchangeMtuReq, AttOpcode.ExchangeMtuRsp, AttExchangeMtuReq.serialize(req)
+      AttOpcode.ExchangeMtuReq, AttOpcode.ExchangeMtuRsp, AttExchangeMtuReq.serialize(req), options
     );
   }
 
-  public async findInformationReq(req: AttFindInformationReqMsg): Promise<AttFindInformationRspMsg> {
+  public async findInformationReq(req: AttFindInformationReqMsg, options?: AbortOptions): Promise<AttFindInformationRspMsg> {
     return await this.writeAttWaitEvent<AttFindInformationRspMsg>(
-      AttOpcode.FindInformationReq, AttOpcode.FindInformationRsp, AttFindInformationReq.serialize(req)
+      AttOpcode.FindInformationReq, AttOpcode.FindInformationRsp, AttFindInformationReq.serialize(req), options
     );
   }
 
-  public async findByTypeValueReq(req: AttFindByTypeValueReqMsg): Promise<AttFindByTypeValueRspMsg> {
+  public async findByTypeValueReq(req: AttFindByTypeValueReqMsg, options?: AbortOptions): Promise<AttFindByTypeValueRspMsg> {
     return await this.writeAttWaitEvent<AttFindByTypeValueRspMsg>(
-      AttOpcode.FindByTypeValueReq, AttOpcode.FindByTypeValueRsp, AttFindByTypeValueReq.serialize(req)
+      AttOpcode.FindByTypeValueReq, AttOpcode.FindByTypeValueRsp, AttFindByTypeValueReq.serialize(req), options
     );
   }
 
-  public async readByTypeReq(req: AttReadByTypeReqMsg): Promise<AttReadByTypeRspMsg> {
+  public async readByTypeReq(req: AttReadByTypeReqMsg, options?: AbortOptions): Promise<AttReadByTypeRspMsg> {
     return await this.writeAttWaitEvent<AttReadByTypeRspMsg>(
-      AttOpcode.ReadByTypeReq, AttOpcode.ReadByTypeRsp, AttReadByTypeReq.serialize(req)
+      AttOpcode.ReadByTypeReq, AttOpcode.ReadByTypeRsp, AttReadByTypeReq.serialize(req), options
     );
   }
 
-  public async readReq(req: AttReadReqMsg): Promise<AttReadRspMsg> {
+  public async readReq(req: AttReadReqMsg, options?: AbortOptions): Promise<AttReadRspMsg> {
     return await this.writeAttWaitEvent<AttReadRspMsg>(
-      AttOpcode.ReadReq, AttOpcode.ReadRsp, AttReadReq.serialize(req)
+      AttOpcode.ReadReq, AttOpcode.ReadRsp, AttReadReq.serialize(req), options
     );
   }
 
-  public async readBlobReq(req: AttReadBlobReqMsg): Promise<AttReadBlobRspMsg> {
+  public async readBlobReq(req: AttReadBlobReqMsg, options?: AbortOptions): Promise<AttReadBlobRspMsg> {
     return await this.writeAttWaitEvent<AttReadBlobRspMsg>(
-      AttOpcode.ReadBlobReq, AttOpcode.ReadBlobRsp, AttReadBlobReq.serialize(req)
+      AttOpcode.ReadBlobReq, AttOpcode.ReadBlobRsp, AttReadBlobReq.serialize(req), options
     );
   }
 
-  public async readMultipleReq(req: AttReadMultipleReqMsg): Promise<AttReadMultipleRspMsg> {
+  public async readMultipleReq(req: AttReadMultipleReqMsg, options?: AbortOptions): Promise<AttReadMultipleRspMsg> {
     return await this.writeAttWaitEvent<AttReadMultipleRspMsg>(
-      AttOpcode.ReadMultipleReq, AttOpcode.ReadMultipleRsp, AttReadMultipleReq.serialize(req)
+      AttOpcode.ReadMultipleReq, AttOpcode.ReadMultipleRsp, AttReadMultipleReq.serialize(req), options
     );
   }
 
-  public async readByGroupTypeReq(req: AttReadByGroupTypeReqMsg): Promise<AttReadByGroupTypeRspMsg> {
+  public async readByGroupTypeReq(req: AttReadByGroupTypeReqMsg, options?: AbortOptions): Promise<AttReadByGroupTypeRspMsg> {
     return await this.writeAttWaitEvent<AttReadByGroupTypeRspMsg>(
-      AttOpcode.ReadByGroupTypeReq, AttOpcode.ReadByGroupTypeRsp, AttReadByGroupTypeReq.serialize(req)
+      AttOpcode.ReadByGroupTypeReq, AttOpcode.ReadByGroupTypeRsp, AttReadByGroupTypeReq.serialize(req), options
     );
   }
 
-  public async writeReq(req: AttWriteReqMsg): Promise<AttWriteRspMsg> {
+  public async writeReq(req: AttWriteReqMsg, options?: AbortOptions): Promise<AttWriteRspMsg> {
     return await this.writeAttWaitEvent<AttWriteRspMsg>(
-      AttOpcode.WriteReq, AttOpcode.WriteRsp, AttWriteReq.serialize(req)
+      AttOpcode.WriteReq, AttOpcode.WriteRsp, AttWriteReq.serialize(req), options
     );
   }
 
-  public async prepareWriteReq(req: AttPrepareWriteReqMsg): Promise<AttPrepareWriteRspMsg> {
+  public async prepareWriteReq(req: AttPrepareWriteReqMsg, options?: AbortOptions): Promise<AttPrepareWriteRspMsg> {
     return await this.writeAttWaitEvent<AttPrepareWriteRspMsg>(
-      AttOpcode.PrepareWriteReq, AttOpcode.PrepareWriteRsp, AttPrepareWriteReq.serialize(req)
+      AttOpcode.PrepareWriteReq, AttOpcode.PrepareWriteRsp, AttPrepareWriteReq.serialize(req), options
     );
   }
 
-  public async executeWriteReq(req: AttExecuteWriteReqMsg): Promise<AttExecuteWriteRspMsg> {
+  public async executeWriteReq(req: AttExecuteWriteReqMsg, options?: AbortOptions): Promise<AttExecuteWriteRspMsg> {
     return await this.writeAttWaitEvent<AttExecuteWriteRspMsg>(
-      AttOpcode.ExecuteWriteReq, AttOpcode.ExecuteWriteRsp, AttExecuteWriteReq.serialize(req)
+      AttOpcode.ExecuteWriteReq, AttOpcode.ExecuteWriteRsp, AttExecuteWriteReq.serialize(req), options
     );
   }
 
-  public async readMultipleVariableReq(req: AttReadMultipleVariableReqMsg): Promise<AttReadMultipleVariableRspMsg> {
+  public async readMultipleVariableReq(req: AttReadMultipleVariableReqMsg, options?: AbortOptions): Promise<AttReadMultipleVariableRspMsg> {
     return await this.writeAttWaitEvent<AttReadMultipleVariableRspMsg>(
-      AttOpcode.ReadMultipleVariableReq, AttOpcode.ReadMultipleVariableRsp, AttReadMultipleVariableReq.serialize(req)
+      AttOpcode.ReadMultipleVariableReq, AttOpcode.ReadMultipleVariableRsp, AttReadMultipleVariableReq.serialize(req), options
     );
   }
 
@@ -276,11 +285,19 @@ export class Att extends EventEmitter {
     }
   }
 
+  private onDisconnected = (connectionHandle: number, reason: AttDisconnectReason): void => {
+    if (this.connectionHandle !== connectionHandle) {
+      return;
+    }
+    this.emit('Disconnected', reason);
+  }
+
   // Utils
-  private async writeAttWaitEvent<T>(req: AttOpcode, res: AttOpcode, data: Buffer): Promise<T> {
+  private async writeAttWaitEvent<T>(req: AttOpcode, res: AttOpcode, data: Buffer, options: AbortOptions = {}): Promise<T> {
     // NOTE: cast necessary due to https://github.com/microsoft/TypeScript/issues/38806
     const resEventType = AttOpcode[res] as AttEvents;
-    const waitAttRsp = this.waitAttEvent<T>(req, resEventType);
+    const waitAttRsp = this.waitAttEvent<T>(req, resEventType, options);
+    waitAttRsp.catch(() => {});
     await this.writeAtt(data);
     return await waitAttRsp;
   }
@@ -293,12 +310,21 @@ export class Att extends EventEmitter {
     );
   }
 
-  private waitAttEvent<T>(reqOpcode: AttOpcode, resEventType: AttEvents): Promise<T> {
+  private waitAttEvent<T>(reqOpcode: AttOpcode, resEventType: AttEvents, options: AbortOptions): Promise<T> {
     return new Promise<T>((resolve, reject) => {
+      if (options.signal?.aborted) {
+        return reject(new AbortError(`ATT request (${AttOpcode[reqOpcode]}) aborted`));
+      }
       const cleanup = () => {
-        this.off(resEventType, onSuccess);
-        this.off('ErrorRsp',   onFailure);
+        this.off(resEventType,   onSuccess);
+        this.off('ErrorRsp',     onFailure);
+        this.off('Disconnected', onDisconnected);
         clearTimeout(timerHandle);
+        detachAbort();
+      };
+      const onAborted = () => {
+        cleanup();
+        reject(new AbortError(`ATT request (${AttOpcode[reqOpcode]}) aborted`));
       };
       const onTimeout = () => {
         cleanup();
@@ -314,14 +340,20 @@ export class Att extends EventEmitter {
           `attribute handle: ${event.attributeHandleInError}`
         ));
       };
+      const onDisconnected = (reason: AttDisconnectReason) => {
+        cleanup();
+        reject(new Error(`ATT request (${AttOpcode[reqOpcode]}) failed due to disconnection: ${reason.message}`));
+      };
       const onSuccess = (event: T) => {
         cleanup();
         resolve(event);
       };
-      this.on('ErrorRsp',   onFailure);
-      this.on(resEventType, onSuccess);
-      const timerTimeout = 30 * 1000;
+      this.on('ErrorRsp',     onFailure);
+      this.on('Disconnected', onDisconnected);
+      this.on(resEventType,   onSuccess);
+      const timerTimeout = options.timeoutMs ?? 30 * 1000;
       const timerHandle = setTimeout(onTimeout, timerTimeout);
+      const detachAbort = onAbort(options.signal, onAborted);
     });
   }
 
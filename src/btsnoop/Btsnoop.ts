@@ -0,0 +1,109 @@
+import { HciPacketType } from '../hci/HciPacketType';
+
+// http://www.fte.com/webhelp/bpa600/Content/Technical_Information/BT_Snoop_File_Format.htm
+
+export const BtsnoopIdentification = Buffer.from('btsnoop\0', 'ascii');
+export const BtsnoopVersion = 1;
+export const BtsnoopFileHeaderSize = 16;
+export const BtsnoopRecordHeaderSize = 24;
+
+// Microseconds between 0000-01-01 and 1970-01-01
+export const BtsnoopEpochDelta = 0x00dcddb30f2f8000n;
+
+export enum BtsnoopDatalink {
+  H1    = 1001,
+  H4    = 1002,
+  Bscp  = 1003,
+  H5    = 1004,
+}
+
+export enum BtsnoopDirection {
+  Sent      = 0, // Host to controller
+  Received  = 1, // Controller to host
+}
+
+export interface BtsnoopRecord {
+  direction: BtsnoopDirection;
+  packetType: HciPacketType;
+  data: Buffer;
+  timestamp: bigint; // microseconds since 1970-01-01
+  originalLength?: number;
+  drops?: number;
+}
+
+export class BtsnoopFileHeader {
+  static serialize(datalink = BtsnoopDatalink.H4): Buffer {
+    const header = Buffer.allocUnsafe(BtsnoopFileHeaderSize);
+    let o = 0;
+    o += BtsnoopIdentification.copy(header, o);
+    o  = header.writeUInt32BE(BtsnoopVersion, o);
+    o  = header.writeUInt32BE(datalink,       o);
+    return header;
+  }
+
+  static deserialize(data: Buffer): { version: number, datalink: BtsnoopDatalink } {
+    if (data.length < BtsnoopFileHeaderSize) {
+      throw new Error('btsnoop: invalid file header size');
+    }
+    if (data.slice(0, 8).equals(BtsnoopIdentification) === false) {
+      throw new Error('btsnoop: invalid identification pattern');
+    }
+    const version: number = data.readUInt32BE(8);
+    const datalink: BtsnoopDatalink = data.readUInt32BE(12);
+    return { version, datalink };
+  }
+}
+
+export class BtsnoopRecordSerDes {
+  static serialize(record: BtsnoopRecord): Buffer {
+    // H4 datalink, first byte is packet type
+    const includedLength = record.data.length + 1;
+    const originalLength = record.originalLength ?? includedLength;
+
+    const isCommandOrEvent = record.packetType === HciPacketType.HciCommand ||
+                             record.packetType === HciPacketType.HciEvent;
+    const flags = (record.direction << 0) | ((isCommandOrEvent ? 1 : 0) << 1);
+
+    const buffer = Buffer.allocUnsafe(BtsnoopRecordHeaderSize + includedLength);
+    let o = 0;
+    o = buffer.writeUInt32BE(originalLength,                               o);
+    o = buffer.writeUInt32BE(includedLength,                               o);
+    o = buffer.writeUInt32BE(flags,                                        o);
+    o = buffer.writeUInt32BE(record.drops ?? 0,                            o);
+    o = buffer.writeBigInt64BE(record.timestamp + BtsnoopEpochDelta,       o);
+    o = buffer.writeUInt8(record.packetType,                               o);
+    record.data.copy(buffer, o);
+    return buffer;
+  }
+
+  // Returns null if there is not enough data for a complete record
+  static deserialize(data: Buffer): { record: BtsnoopRecord, size: number } | null {
+    if (data.length < BtsnoopRecordHeaderSize) {
+      return null;
+    }
+
+    const originalLength = data.readUInt32BE(0);
+    const includedLength = data.readUInt32BE(4);
+    const flags          = data.readUInt32BE(8);
+    const drops          = data.readUInt32BE(12);
+    const timestamp      = data.readBigInt64BE(16) - BtsnoopEpochDelta;
+
+    if (includedLength < 1) {
+      throw new Error('btsnoop: invalid record length');
+    }
+
+    const size = BtsnoopRecordHeaderSize + includedLength;
+    if (data.length < size) {
+      return null;
+    }
+
+    const direction: BtsnoopDirection = flags & 1;
+    const packetType: HciPacketType = data[BtsnoopRecordHeaderSize];
+    const packet = data.slice(BtsnoopRecordHeaderSize + 1, size);
+
+    return {
+      record: { direction, packetType, data: packet, timestamp, originalLength, drops },
+      size,
+    };
+  }
+}
@@ -0,0 +1,36 @@
+import {
+  BtsnoopDatalink, BtsnoopFileHeader, BtsnoopFileHeaderSize, BtsnoopRecord, BtsnoopRecordSerDes
+} from './Btsnoop';
+
+export class BtsnoopReader {
+  static isBtsnoop(data: Buffer): boolean {
+    try {
+      BtsnoopFileHeader.deserialize(data);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  static read(data: Buffer): BtsnoopRecord[] {
+    const header = BtsnoopFileHeader.deserialize(data);
+    if (header.datalink !== BtsnoopDatalink.H4) {
+      throw new Error(`btsnoop: unsupported datalink ${header.datalink}`);
+    }
+
+    const records: BtsnoopRecord[] = [];
+
+    let o = BtsnoopFileHeaderSize;
+    while (o < data.length) {
+      const result = BtsnoopRecordSerDes.deserialize(data.slice(o));
+      if (result === null) {
+        // Truncated capture, last record is incomplete
+        break;
+      }
+      records.push(result.record);
+      o += result.size;
+    }
+
+    return records;
+  }
+}
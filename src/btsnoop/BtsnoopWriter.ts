@@ -0,0 +1,139 @@
+import fs from 'fs';
+import path from 'path';
+import Debug from 'debug';
+
+import {
+  BtsnoopDatalink, BtsnoopDirection, BtsnoopFileHeader, BtsnoopFileHeaderSize, BtsnoopRecordSerDes
+} from './Btsnoop';
+import { HciPacketType } from '../hci/HciPacketType';
+import { HciSnoop } from '../hci/Hci';
+
+const debug = Debug('nble-btsnoop');
+
+interface BtsnoopWriterInit {
+  path: string;
+  maxFileSize?: number;   // bytes
+  maxFileAgeMs?: number;
+  maxFiles?: number;
+}
+
+export class BtsnoopWriter implements HciSnoop {
+  private readonly basePath: string;
+  private readonly maxFileSize: number;
+  private readonly maxFileAgeMs: number;
+  private readonly maxFiles: number;
+
+  private readonly startTimeUs = BigInt(Date.now()) * 1000n;
+  private readonly startHrTime = process.hrtime.bigint();
+
+  private fd: number | null = null;
+  private fileIndex = 0;
+  private fileSize = 0;
+  private fileOpenedAt = 0;
+  private files: string[] = [];
+
+  public constructor(init: BtsnoopWriterInit) {
+    this.basePath     = init.path;
+    this.maxFileSize  = init.maxFileSize  ?? 0;
+    this.maxFileAgeMs = init.maxFileAgeMs ?? 0;
+    this.maxFiles     = init.maxFiles     ?? 0;
+  }
+
+  public open(): void {
+    if (this.fd !== null) {
+      return;
+    }
+    this.openFile();
+  }
+
+  public close(): void {
+    if (this.fd === null) {
+      return;
+    }
+    fs.closeSync(this.fd);
+    this.fd = null;
+  }
+
+  public getFiles(): string[] {
+    return [ ...this.files ];
+  }
+
+  public sent(packetType: HciPacketType, data: Buffer): void {
+    this.write(BtsnoopDirection.Sent, packetType, data);
+  }
+
+  public received(packetType: HciPacketType, data: Buffer): void {
+    this.write(BtsnoopDirection.Received, packetType, data);
+  }
+
+  public write(direction: BtsnoopDirection, packetType: HciPacketType, data: Buffer): void {
+    if (this.fd === null) {
+      return;
+    }
+
+    const timestamp = this.startTimeUs + (process.hrtime.bigint() - this.startHrTime) / 1000n;
+    const record = BtsnoopRecordSerDes.serialize({ direction, packetType, data, timestamp });
+
+    if (this.shouldRotate(record.length)) {
+      this.rotate();
+    }
+
+    try {
+      fs.writeSync(this.fd, record);
+      this.fileSize += record.length;
+    } catch (err) {
+      debug(`write failed: ${err}`);
+    }
+  }
+
+  private shouldRotate(recordSize: number): boolean {
+    if (this.fileSize <= BtsnoopFileHeaderSize) {
+      return false;
+    }
+    if (this.maxFileSize > 0 && this.fileSize + recordSize > this.maxFileSize) {
+      return true;
+    }
+    if (this.maxFileAgeMs > 0 && Date.now() - this.fileOpenedAt >= this.maxFileAgeMs) {
+      return true;
+    }
+    return false;
+  }
+
+  private rotate(): void {
+    this.close();
+    this.fileIndex++;
+    this.openFile();
+
+    while (this.maxFiles > 0 && this.files.length > this.maxFiles) {
+      const file = this.files.shift()!;
+      try {
+        fs.unlinkSync(file);
+      } catch (err) {
+        debug(`cannot remove ${file}: ${err}`);
+      }
+    }
+  }
+
+  private openFile(): void {
+    const file = this.getFilePath(this.fileIndex);
+    debug(`opening ${file}`);
+
+    this.fd = fs.openSync(file, 'w');
+    this.fileOpenedAt = Date.now();
+    this.files.push(file);
+
+    const header = BtsnoopFileHeader.serialize(BtsnoopDatalink.H4);
+    fs.writeSync(this.fd, header);
+    this.fileSize = header.length;
+  }
+
+  // capture.log, capture.1.log, capture.2.log, ...
+  private getFilePath(index: number): string {
+    if (index === 0) {
+      return this.basePath;
+    }
+    const ext = path.extname(this.basePath);
+    const base = this.basePath.slice(0, this.basePath.length - ext.length);
+    return `${base}.${index}${ext}`;
+  }
+}
@@ -0,0 +1,79 @@
+import { BtsnoopDirection, BtsnoopRecord } from './Btsnoop';
+
+const PcapFileHeaderSize = 24;
+const PcapRecordHeaderSize = 16;
+const PcapPhdrSize = 4;
+
+const PcapMagicMicroseconds = 0xA1B2C3D4;
+const PcapMagicNanoseconds  = 0xA1B23C4D;
+
+export enum PcapLinkType {
+  BluetoothHciH4         = 187,
+  BluetoothHciH4WithPhdr = 201,
+}
+
+export class PcapReader {
+  static isPcap(data: Buffer): boolean {
+    if (data.length < 4) {
+      return false;
+    }
+    const magicBE = data.readUInt32BE(0);
+    const magicLE = data.readUInt32LE(0);
+    return [ PcapMagicMicroseconds, PcapMagicNanoseconds ].some(
+      (magic) => magic === magicBE || magic === magicLE
+    );
+  }
+
+  static read(data: Buffer): BtsnoopRecord[] {
+    if (data.length < PcapFileHeaderSize || !this.isPcap(data)) {
+      throw new Error('pcap: invalid file header');
+    }
+
+    const littleEndian = [ PcapMagicMicroseconds, PcapMagicNanoseconds ].includes(data.readUInt32LE(0));
+    const readUInt32 = (offset: number) => littleEndian ? data.readUInt32LE(offset) : data.readUInt32BE(offset);
+
+    const magic = readUInt32(0);
+    const nanoseconds = magic === PcapMagicNanoseconds;
+    const linkType = readUInt32(20);
+
+    if (linkType !== PcapLinkType.BluetoothHciH4WithPhdr) {
+      throw new Error(`pcap: unsupported link type ${linkType}`);
+    }
+
+    const records: BtsnoopRecord[] = [];
+
+    let o = PcapFileHeaderSize;
+    while (o + PcapRecordHeaderSize <= data.length) {
+      const tsSec          = readUInt32(o + 0);
+      const tsFraction     = readUInt32(o + 4);
+      const includedLength = readUInt32(o + 8);
+      const originalLength = readUInt32(o + 12);
+      o += PcapRecordHeaderSize;
+
+      if (o + includedLength > data.length) {
+        // Truncated capture, last record is incomplete
+        break;
+      }
+
+      if (includedLength >= PcapPhdrSize + 1) {
+        // Pseudo header is always in network byte order
+        const direction: BtsnoopDirection = data.readUInt32BE(o) & 1;
+        const packet = data.slice(o + PcapPhdrSize, o + includedLength);
+        const timestamp = BigInt(tsSec) * 1000000n +
+          (nanoseconds ? BigInt(tsFraction) / 1000n : BigInt(tsFraction));
+
+        records.push({
+          direction,
+          packetType: packet[0],
+          data: packet.slice(1),
+          timestamp,
+          originalLength: originalLength - PcapPhdrSize,
+        });
+      }
+
+      o += includedLength;
+    }
+
+    return records;
+  }
+}
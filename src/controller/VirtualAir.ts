@@ -0,0 +1,790 @@
+import Debug from 'debug';
+
+import { HciErrorCode } from '../hci/HciError';
+import { MemoryTransport } from '../transport/MemoryTransport';
+import { Address } from '../utils/Address';
+import {
+  VirtualAdvertisingSet, VirtualBigState, VirtualCisState, VirtualCisStatus, VirtualController, VirtualControllerInit,
+  VirtualControllerRole
+} from './VirtualController';
+import { VirtualExtAdvReport, VirtualPeriodicSync } from './VirtualControllerEvents';
+
+const debug = Debug('nble-vair');
+
+export interface VirtualAirInit {
+  // Overrides advertising interval of all sets, speeds up tests
+  advertisingIntervalMs?: number;
+  rssi?: number;
+}
+
+export interface VirtualLinkedPair {
+  air: VirtualAir;
+  controllers: [VirtualController, VirtualController];
+  transports: [MemoryTransport, MemoryTransport];
+}
+
+interface VirtualLinkEnd {
+  controller: VirtualController;
+  connectionHandle: number;
+}
+
+interface VirtualLink {
+  central: VirtualLinkEnd;
+  peripheral: VirtualLinkEnd;
+}
+
+interface VirtualBigEnd {
+  controller: VirtualController;
+  bigHandle: number;
+}
+
+// BIG of a broadcast source and a receiver synchronized to it
+interface VirtualBigLink {
+  source: VirtualBigEnd;
+  receiver: VirtualBigEnd;
+}
+
+interface ControllerListeners {
+  state: () => void;
+  acl: (connectionHandle: number, boundary: number, data: Buffer) => void;
+  iso: (connectionHandle: number, boundary: number, data: Buffer) => void;
+  disconnect: (connectionHandle: number, reason: number) => void;
+  connectionUpdate: (connectionHandle: number) => void;
+  phyUpdate: (connectionHandle: number) => void;
+  dataLength: (connectionHandle: number) => void;
+  periodicSyncTransfer: (connectionHandle: number, serviceData: number, sync: VirtualPeriodicSync) => void;
+  cisRequest: (aclConnectionHandle: number, cis: VirtualCisState) => void;
+  cisResponse: (connectionHandle: number, status: HciErrorCode) => void;
+  bigTerminated: (bigHandle: number, reason: HciErrorCode) => void;
+}
+
+// Maximum advertising data carried by a single LE Extended Advertising Report
+const ExtAdvReportMaxData = 229;
+
+export class VirtualAir {
+  private controllers = new Map<VirtualController, ControllerListeners>();
+  private advertisers = new Map<string, { controller: VirtualController, timer: NodeJS.Timeout }>();
+  private periodicAdvertisers = new Map<string, { controller: VirtualController, timer: NodeJS.Timeout }>();
+  private links: VirtualLink[] = [];
+  private cisLinks: VirtualLink[] = [];
+  private bigLinks: VirtualBigLink[] = [];
+  private rssi: number;
+
+  constructor(private init: VirtualAirInit = {}) {
+    this.rssi = init.rssi ?? -50;
+  }
+
+  public static async createLinkedPair(
+    air: VirtualAirInit = {},
+    controllers: Partial<VirtualControllerInit>[] = [],
+  ): Promise<VirtualLinkedPair> {
+    const link = new VirtualAir(air);
+
+    const create = async (init: Partial<VirtualControllerInit> = {}) => {
+      const [host, transport] = MemoryTransport.createPair();
+      const controller = new VirtualController({ ...init, transport });
+      await controller.open();
+      link.attach(controller);
+      return { host, controller };
+    };
+
+    const a = await create(controllers[0]);
+    const b = await create(controllers[1]);
+
+    return {
+      air: link,
+      controllers: [a.controller, b.controller],
+      transports: [a.host, b.host],
+    };
+  }
+
+  public attach(controller: VirtualController): void {
+    if (this.controllers.has(controller)) {
+      return;
+    }
+
+    const listeners: ControllerListeners = {
+      state:                () => this.onState(controller),
+      acl:                  (handle, boundary, data) => this.onAcl(controller, handle, boundary, data),
+      iso:                  (handle, boundary, data) => this.onIso(controller, handle, boundary, data),
+      disconnect:           (handle, reason) => this.onDisconnect(controller, handle, reason),
+      connectionUpdate:     (handle) => this.onConnectionUpdate(controller, handle),
+      phyUpdate:            (handle) => this.onPhyUpdate(controller, handle),
+      dataLength:           (handle) => this.onDataLength(controller, handle),
+      periodicSyncTransfer: (handle, serviceData, sync) => this.onPeriodicSyncTransfer(controller, handle, serviceData, sync),
+      cisRequest:           (handle, cis) => this.onCisRequest(controller, handle, cis),
+      cisResponse:          (handle, status) => this.onCisResponse(controller, handle, status),
+      bigTerminated:        (bigHandle, reason) => this.onBigTerminated(controller, bigHandle, reason),
+    };
+
+    controller.on('state',                listeners.state);
+    controller.on('acl',                  listeners.acl);
+    controller.on('iso',                  listeners.iso);
+    controller.on('disconnect',           listeners.disconnect);
+    controller.on('connectionUpdate',     listeners.connectionUpdate);
+    controller.on('phyUpdate',            listeners.phyUpdate);
+    controller.on('dataLength',           listeners.dataLength);
+    controller.on('periodicSyncTransfer', listeners.periodicSyncTransfer);
+    controller.on('cisRequest',           listeners.cisRequest);
+    controller.on('cisResponse',          listeners.cisResponse);
+    controller.on('bigTerminated',        listeners.bigTerminated);
+
+    this.controllers.set(controller, listeners);
+    this.onState(controller);
+  }
+
+  public detach(controller: VirtualController): void {
+    const listeners = this.controllers.get(controller);
+    if (!listeners) {
+      return;
+    }
+
+    controller.removeListener('state',                listeners.state);
+    controller.removeListener('acl',                  listeners.acl);
+    controller.removeListener('iso',                  listeners.iso);
+    controller.removeListener('disconnect',           listeners.disconnect);
+    controller.removeListener('connectionUpdate',     listeners.connectionUpdate);
+    controller.removeListener('phyUpdate',            listeners.phyUpdate);
+    controller.removeListener('dataLength',           listeners.dataLength);
+    controller.removeListener('periodicSyncTransfer', listeners.periodicSyncTransfer);
+    controller.removeListener('cisRequest',           listeners.cisRequest);
+    controller.removeListener('cisResponse',          listeners.cisResponse);
+    controller.removeListener('bigTerminated',        listeners.bigTerminated);
+
+    this.controllers.delete(controller);
+
+    for (const [id, advertiser] of this.advertisers) {
+      if (advertiser.controller === controller) {
+        clearInterval(advertiser.timer);
+        this.advertisers.delete(id);
+      }
+    }
+    for (const [id, advertiser] of this.periodicAdvertisers) {
+      if (advertiser.controller === controller) {
+        clearInterval(advertiser.timer);
+        this.periodicAdvertisers.delete(id);
+      }
+    }
+
+    // Out of range, connections and BIG syncs are lost on the other side
+    for (const link of [...this.bigLinks]) {
+      if (link.source.controller === controller) {
+        this.removeBigLink(link);
+        link.receiver.controller.loseBigSync(link.receiver.bigHandle, HciErrorCode.ConnectionTimeout);
+      } else if (link.receiver.controller === controller) {
+        this.removeBigLink(link);
+      }
+    }
+    for (const link of [...this.cisLinks]) {
+      const peer = this.peerOf(link, controller);
+      if (peer) {
+        this.cisLinks = this.cisLinks.filter((l) => l !== link);
+        this.dropCis(peer, HciErrorCode.ConnectionTimeout);
+      }
+    }
+    for (const link of [...this.links]) {
+      const peer = this.peerOf(link, controller);
+      if (peer) {
+        this.removeLink(link);
+        peer.controller.terminateConnection(peer.connectionHandle, HciErrorCode.ConnectionTimeout);
+      }
+    }
+  }
+
+  public async close(): Promise<void> {
+    for (const controller of [...this.controllers.keys()]) {
+      this.detach(controller);
+    }
+  }
+
+  private onState(controller: VirtualController): void {
+    this.updateAdvertisers(controller);
+    this.updatePeriodicAdvertisers(controller);
+    this.checkLinks();
+  }
+
+  private updateAdvertisers(controller: VirtualController): void {
+    const sets = controller.getAdvertisingSets();
+
+    for (const [id, advertiser] of this.advertisers) {
+      if (advertiser.controller !== controller) {
+        continue;
+      }
+      const enabled = sets.some((set) => set.enabled && this.advertiserId(controller, set) === id);
+      if (!enabled) {
+        clearInterval(advertiser.timer);
+        this.advertisers.delete(id);
+      }
+    }
+
+    for (const set of sets) {
+      const id = this.advertiserId(controller, set);
+      if (!set.enabled || this.advertisers.has(id)) {
+        continue;
+      }
+      const intervalMs = this.init.advertisingIntervalMs ?? Math.max(set.intervalMin * 0.625, 1);
+      const timer = setInterval(() => this.onAdvertisingEvent(controller, set), intervalMs);
+      this.advertisers.set(id, { controller, timer });
+
+      // First advertising event is not delayed by a whole interval
+      setImmediate(() => this.onAdvertisingEvent(controller, set));
+    }
+  }
+
+  // Periodic trains keep running without the extended advertising,
+  // which is only needed by scanners to synchronize
+  private updatePeriodicAdvertisers(controller: VirtualController): void {
+    const sets = controller.getAdvertisingSets();
+
+    for (const [id, advertiser] of this.periodicAdvertisers) {
+      if (advertiser.controller !== controller) {
+        continue;
+      }
+      const enabled = sets.some((set) => set.periodicEnabled && this.advertiserId(controller, set) === id);
+      if (!enabled) {
+        clearInterval(advertiser.timer);
+        this.periodicAdvertisers.delete(id);
+      }
+    }
+
+    for (const set of sets) {
+      const id = this.advertiserId(controller, set);
+      if (!set.periodicEnabled || this.periodicAdvertisers.has(id)) {
+        continue;
+      }
+      const intervalMs = this.init.advertisingIntervalMs ?? Math.max(set.periodicIntervalMin * 1.25, 1);
+      const timer = setInterval(() => this.onPeriodicAdvertisingEvent(controller, set), intervalMs);
+      this.periodicAdvertisers.set(id, { controller, timer });
+    }
+  }
+
+  private advertiserId(controller: VirtualController, set: VirtualAdvertisingSet): string {
+    return `${controller.getAddress().toId()}:${set.advertisingHandle}`;
+  }
+
+  private onAdvertisingEvent(advertiser: VirtualController, set: VirtualAdvertisingSet): void {
+    if (!set.enabled || !this.advertisers.has(this.advertiserId(advertiser, set))) {
+      return;
+    }
+
+    const own = advertiser.getOwnAddress(set.ownAddressType, set);
+    const legacy      = (set.eventProperties & 0x10) !== 0;
+    const connectable = (set.eventProperties & 0x01) !== 0;
+    const scannable   = (set.eventProperties & 0x02) !== 0;
+    const directed    = (set.eventProperties & 0x04) !== 0;
+    const anonymous   = (set.eventProperties & 0x20) !== 0;
+    const txPower     = (set.eventProperties & 0x40) !== 0 ? set.txPower : 127;
+
+    const report: VirtualExtAdvReport = {
+      eventType:            set.eventProperties & 0x17,
+      addressType:          anonymous ? 0xFF : own.addressType,
+      address:              anonymous ? Address.from(0) : own.address,
+      data:                 set.data,
+      rssi:                 this.rssi,
+      primaryPhy:           set.primaryPhy,
+      secondaryPhy:         legacy ? 0 : set.secondaryPhy,
+      advertisingSid:       legacy ? 0xFF : set.advertisingSid,
+      txPower,
+      periodicAdvInterval:  set.periodicEnabled ? set.periodicIntervalMin : 0,
+      directAddressType:    set.peerAddressType,
+      directAddress:        set.peerAddress,
+    };
+
+    for (const scanner of this.controllers.keys()) {
+      if (scanner === advertiser) {
+        continue;
+      }
+      if (directed && !this.isAddressedTo(scanner, set.peerAddressType, set.peerAddress)) {
+        continue;
+      }
+
+      // Connection request has precedence over scanning, scanners are
+      // reached only when the advertisement was not consumed
+      if (connectable && this.tryConnect(scanner, advertiser, set, own)) {
+        break;
+      }
+
+      this.trySync(scanner, set, own);
+      this.report(scanner, advertiser, set, report, scannable, own);
+    }
+
+    advertiser.countAdvertisingEvent(set.advertisingHandle);
+  }
+
+  private onPeriodicAdvertisingEvent(advertiser: VirtualController, set: VirtualAdvertisingSet): void {
+    if (!set.periodicEnabled || !this.periodicAdvertisers.has(this.advertiserId(advertiser, set))) {
+      return;
+    }
+
+    const own = advertiser.getOwnAddress(set.ownAddressType, set);
+    const txPower = (set.periodicProperties & 0x40) !== 0 ? set.txPower : 127;
+
+    // BIGInfo is included in the periodic advertising of the set
+    const big = advertiser.getBigs().find((b) => b.advertisingHandle === set.advertisingHandle);
+
+    for (const receiver of this.controllers.keys()) {
+      if (receiver === advertiser) {
+        continue;
+      }
+      for (const sync of receiver.getPeriodicSyncs()) {
+        if (!this.isPeriodicTrainOf(sync, set, own)) {
+          continue;
+        }
+        receiver.reportPeriodicAdvertisement(sync.syncHandle, txPower, this.rssi, set.periodicData);
+        if (big) {
+          receiver.reportBigInfo(sync.syncHandle, big);
+          this.tryBigSync(receiver, sync.syncHandle, advertiser, big);
+        }
+      }
+    }
+  }
+
+  private tryBigSync(
+    receiver: VirtualController,
+    syncHandle: number,
+    source: VirtualController,
+    big: VirtualBigState,
+  ): void {
+    for (const request of receiver.getBigSyncRequests()) {
+      if (request.syncHandle !== syncHandle || !receiver.establishBigSync(request.bigHandle, big)) {
+        continue;
+      }
+      debug(`big sync: source ${big.bigHandle}, receiver ${request.bigHandle}`);
+      this.bigLinks.push({
+        source:   { controller: source,   bigHandle: big.bigHandle },
+        receiver: { controller: receiver, bigHandle: request.bigHandle },
+      });
+    }
+  }
+
+  private removeBigLink(link: VirtualBigLink): void {
+    this.bigLinks = this.bigLinks.filter((l) => l !== link);
+  }
+
+  // Synchronization info is carried by the extended advertising of the set
+  private trySync(
+    scanner: VirtualController,
+    set: VirtualAdvertisingSet,
+    own: { addressType: number, address: Address },
+  ): void {
+    const request = scanner.getPeriodicSyncRequest();
+    if (!request || !set.periodicEnabled) {
+      return;
+    }
+    const scan = scanner.getScanner();
+    if (!scan.enabled || !scan.phys.some((phy) => phy.phy === set.primaryPhy)) {
+      return;
+    }
+    if (request.options & 1) {
+      const synced = scanner.getPeriodicSyncs().some((sync) => this.isPeriodicTrainOf(sync, set, own));
+      if (synced || !scanner.isInPeriodicAdvertiserList(own.addressType, own.address, set.advertisingSid)) {
+        return;
+      }
+    } else if (!this.isPeriodicTrainOf(request, set, own)) {
+      return;
+    }
+    scanner.establishPeriodicSync(set, own.addressType, own.address);
+  }
+
+  private isPeriodicTrainOf(
+    target: { advertisingSid: number, advertiserAddressType: number, advertiserAddress: Address },
+    set: VirtualAdvertisingSet,
+    own: { addressType: number, address: Address },
+  ): boolean {
+    return target.advertisingSid === set.advertisingSid &&
+           (target.advertiserAddressType & 1) === own.addressType &&
+           target.advertiserAddress.toNumeric() === own.address.toNumeric();
+  }
+
+  private report(
+    scanner: VirtualController,
+    advertiser: VirtualController,
+    set: VirtualAdvertisingSet,
+    report: VirtualExtAdvReport,
+    scannable: boolean,
+    own: { addressType: number, address: Address },
+  ): void {
+    const scan = scanner.getScanner();
+    if (!scan.enabled || !scan.phys.some((phy) => phy.phy === set.primaryPhy)) {
+      return;
+    }
+    if ((scan.filterPolicy & 1) && !scanner.isInFilterList(report.addressType, report.address)) {
+      return;
+    }
+
+    this.deliverReport(scanner, report);
+
+    const active = scan.phys.some((phy) => phy.type === 1);
+    if (!active || !scannable) {
+      return;
+    }
+
+    // Scan request filtering done by the advertiser
+    if (set.filterPolicy & 1) {
+      const scannerAddress = scanner.getOwnAddress(scan.ownAddressType);
+      if (!advertiser.isInFilterList(scannerAddress.addressType, scannerAddress.address)) {
+        return;
+      }
+    }
+
+    this.deliverReport(scanner, {
+      ...report,
+      eventType:  report.eventType | 0x08,
+      address:    own.address,
+      data:       set.scanResponseData,
+    });
+  }
+
+  private deliverReport(scanner: VirtualController, report: VirtualExtAdvReport): void {
+    if (report.data.length <= ExtAdvReportMaxData) {
+      scanner.reportAdvertisement(report);
+      return;
+    }
+    for (let o = 0; o < report.data.length; o += ExtAdvReportMaxData) {
+      const data = report.data.subarray(o, o + ExtAdvReportMaxData);
+      const more = o + ExtAdvReportMaxData < report.data.length;
+      scanner.reportAdvertisement({
+        ...report,
+        eventType: report.eventType | (more ? 0x20 : 0x00),
+        data,
+      });
+    }
+  }
+
+  private isAddressedTo(controller: VirtualController, addressType: number, address: Address): boolean {
+    const candidates = [
+      controller.getOwnAddress(0),
+      controller.getOwnAddress(1),
+    ];
+    return candidates.some((c) => (c.addressType === (addressType & 1)) && c.address.toNumeric() === address.toNumeric());
+  }
+
+  private tryConnect(
+    central: VirtualController,
+    peripheral: VirtualController,
+    set: VirtualAdvertisingSet,
+    own: { addressType: number, address: Address },
+  ): boolean {
+    const initiator = central.getInitiator();
+    if (!initiator) {
+      return false;
+    }
+
+    if (initiator.filterPolicy === 0) {
+      const sameType = (initiator.peerAddressType & 1) === own.addressType;
+      if (!sameType || initiator.peerAddress.toNumeric() !== own.address.toNumeric()) {
+        return false;
+      }
+    } else if (!central.isInFilterList(own.addressType, own.address)) {
+      return false;
+    }
+
+    const centralAddress = central.getOwnAddress(initiator.ownAddressType);
+
+    // Connection request filtering done by the advertiser
+    if ((set.filterPolicy & 2) && !peripheral.isInFilterList(centralAddress.addressType, centralAddress.address)) {
+      return false;
+    }
+
+    const centralHandle = central.establishConnection({
+      role:             VirtualControllerRole.Central,
+      peerAddressType:  own.addressType,
+      peerAddress:      own.address,
+      remoteFeatures:   peripheral.getLeFeatures(),
+      remoteVersion:    peripheral.getVersion(),
+    });
+    if (centralHandle === null) {
+      return false;
+    }
+
+    const peripheralHandle = peripheral.establishConnection({
+      role:               VirtualControllerRole.Peripheral,
+      peerAddressType:    centralAddress.addressType,
+      peerAddress:        centralAddress.address,
+      advertisingHandle:  set.advertisingHandle,
+      connectionInterval: initiator.connectionInterval,
+      connectionLatency:  initiator.connectionLatency,
+      supervisionTimeout: initiator.supervisionTimeout,
+      remoteFeatures:     central.getLeFeatures(),
+      remoteVersion:      central.getVersion(),
+    });
+    if (peripheralHandle === null) {
+      central.terminateConnection(centralHandle, HciErrorCode.ConnectionNotEstablished);
+      return false;
+    }
+
+    debug(`connected: central ${centralHandle}, peripheral ${peripheralHandle}`);
+
+    this.links.push({
+      central:    { controller: central,    connectionHandle: centralHandle },
+      peripheral: { controller: peripheral, connectionHandle: peripheralHandle },
+    });
+    return true;
+  }
+
+  private findLink(controller: VirtualController, connectionHandle: number): VirtualLink | undefined {
+    return this.links.find((link) =>
+      (link.central.controller    === controller && link.central.connectionHandle    === connectionHandle) ||
+      (link.peripheral.controller === controller && link.peripheral.connectionHandle === connectionHandle)
+    );
+  }
+
+  private peerOf(link: VirtualLink, controller: VirtualController): VirtualLinkEnd | null {
+    if (link.central.controller === controller) {
+      return link.peripheral;
+    }
+    if (link.peripheral.controller === controller) {
+      return link.central;
+    }
+    return null;
+  }
+
+  private endOf(link: VirtualLink, controller: VirtualController): VirtualLinkEnd | null {
+    if (link.central.controller === controller) {
+      return link.central;
+    }
+    if (link.peripheral.controller === controller) {
+      return link.peripheral;
+    }
+    return null;
+  }
+
+  private removeLink(link: VirtualLink): void {
+    this.links = this.links.filter((l) => l !== link);
+  }
+
+  private peer(controller: VirtualController, connectionHandle: number): VirtualLinkEnd | null {
+    const link = this.findLink(controller, connectionHandle);
+    if (!link) {
+      return null;
+    }
+    return this.peerOf(link, controller);
+  }
+
+  // Connections that vanished on one side (e.g. controller reset)
+  // are lost on the other side after supervision timeout.
+  private checkLinks(): void {
+    for (const link of [...this.bigLinks]) {
+      const source   = link.source.controller.getBig(link.source.bigHandle);
+      const receiver = link.receiver.controller.getBig(link.receiver.bigHandle);
+      if (source && receiver) {
+        continue;
+      }
+      this.removeBigLink(link);
+      if (receiver) {
+        link.receiver.controller.loseBigSync(link.receiver.bigHandle, HciErrorCode.ConnectionTimeout);
+      }
+    }
+
+    for (const link of [...this.cisLinks]) {
+      const central    = link.central.controller.getCisConnection(link.central.connectionHandle);
+      const peripheral = link.peripheral.controller.getCisConnection(link.peripheral.connectionHandle);
+      const centralUp    = central !== null && central.status !== VirtualCisStatus.Configured;
+      const peripheralUp = peripheral !== null;
+      if (centralUp && peripheralUp) {
+        continue;
+      }
+      this.cisLinks = this.cisLinks.filter((l) => l !== link);
+      if (centralUp) {
+        this.dropCis(link.central, HciErrorCode.ConnectionTimeout);
+      }
+      if (peripheralUp) {
+        this.dropCis(link.peripheral, HciErrorCode.ConnectionTimeout);
+      }
+    }
+
+    for (const link of [...this.links]) {
+      const central    = link.central.controller.getConnection(link.central.connectionHandle);
+      const peripheral = link.peripheral.controller.getConnection(link.peripheral.connectionHandle);
+      if (central && peripheral) {
+        continue;
+      }
+      this.removeLink(link);
+      if (central) {
+        link.central.controller.terminateConnection(link.central.connectionHandle, HciErrorCode.ConnectionTimeout);
+      }
+      if (peripheral) {
+        link.peripheral.controller.terminateConnection(link.peripheral.connectionHandle, HciErrorCode.ConnectionTimeout);
+      }
+    }
+  }
+
+  private onAcl(controller: VirtualController, connectionHandle: number, boundary: number, data: Buffer): void {
+    const peer = this.peer(controller, connectionHandle);
+    if (!peer) {
+      debug(`acl: no link for connection ${connectionHandle}`);
+      return;
+    }
+    // Start of L2CAP PDU is always flushable on the receiving side
+    const rxBoundary = boundary === 0x00 ? 0x02 : boundary;
+    const packet = Buffer.from(data);
+    setImmediate(() => peer.controller.sendAclData(peer.connectionHandle, rxBoundary, packet));
+  }
+
+  private onIso(controller: VirtualController, connectionHandle: number, boundary: number, data: Buffer): void {
+    const link = this.cisLinks.find((l) => this.endOf(l, controller)?.connectionHandle === connectionHandle);
+    const peer = link ? this.peerOf(link, controller) : null;
+    const packet = Buffer.from(data);
+    if (peer) {
+      setImmediate(() => peer.controller.sendIsoData(peer.connectionHandle, boundary, packet));
+      return;
+    }
+
+    // BIS data reaches every receiver synchronized to the same BIS index
+    const source = controller.getBigs()
+      .flatMap((big) => big.bis)
+      .find((bis) => bis.connectionHandle === connectionHandle);
+    const receivers = this.bigLinks.filter((l) =>
+      l.source.controller === controller && l.source.bigHandle === source?.bigHandle
+    );
+    if (!source || receivers.length === 0) {
+      debug(`iso: no link for connection ${connectionHandle}`);
+      return;
+    }
+    for (const { receiver } of receivers) {
+      const bis = receiver.controller.getBig(receiver.bigHandle)?.bis.find((b) => b.index === source.index);
+      if (bis) {
+        setImmediate(() => receiver.controller.sendIsoData(bis.connectionHandle, boundary, packet));
+      }
+    }
+  }
+
+  private onPeriodicSyncTransfer(
+    controller: VirtualController,
+    connectionHandle: number,
+    serviceData: number,
+    sync: VirtualPeriodicSync,
+  ): void {
+    const peer = this.peer(controller, connectionHandle);
+    if (!peer) {
+      debug(`periodic sync transfer: no link for connection ${connectionHandle}`);
+      return;
+    }
+    const info = { ...sync };
+    setImmediate(() => peer.controller.receivePeriodicSyncTransfer(peer.connectionHandle, serviceData, info));
+  }
+
+  // Central side of the CIS waits for the response of the peripheral host
+  private onCisRequest(controller: VirtualController, aclConnectionHandle: number, cis: VirtualCisState): void {
+    const peer = this.peer(controller, aclConnectionHandle);
+    const request = { ...cis };
+    setImmediate(() => {
+      const peripheralHandle = peer?.controller.requestCis(peer.connectionHandle, request) ?? null;
+      if (!peer || peripheralHandle === null) {
+        controller.completeCis(request.connectionHandle, HciErrorCode.UnsupportedFeature);
+        return;
+      }
+      this.cisLinks.push({
+        central:    { controller,                 connectionHandle: request.connectionHandle },
+        peripheral: { controller: peer.controller, connectionHandle: peripheralHandle },
+      });
+    });
+  }
+
+  private onCisResponse(controller: VirtualController, connectionHandle: number, status: HciErrorCode): void {
+    const link = this.cisLinks.find((l) =>
+      l.peripheral.controller === controller && l.peripheral.connectionHandle === connectionHandle
+    );
+    if (link && status !== HciErrorCode.Success) {
+      this.cisLinks = this.cisLinks.filter((l) => l !== link);
+    }
+    setImmediate(() => {
+      if (!link) {
+        controller.completeCis(connectionHandle, HciErrorCode.ConnectionNotEstablished);
+        return;
+      }
+      link.central.controller.completeCis(link.central.connectionHandle, status);
+      link.peripheral.controller.completeCis(link.peripheral.connectionHandle, status);
+    });
+  }
+
+  // Receivers lose the sync once the source stops sending the BIG
+  private onBigTerminated(controller: VirtualController, bigHandle: number, reason: HciErrorCode): void {
+    for (const link of [...this.bigLinks]) {
+      if (link.source.controller !== controller || link.source.bigHandle !== bigHandle) {
+        continue;
+      }
+      this.removeBigLink(link);
+      setImmediate(() => link.receiver.controller.loseBigSync(link.receiver.bigHandle, reason));
+    }
+  }
+
+  // Pending CIS fails to be established, established one is disconnected
+  private dropCis(end: VirtualLinkEnd, reason: HciErrorCode): void {
+    const cis = end.controller.getCisConnection(end.connectionHandle);
+    if (cis?.status === VirtualCisStatus.Pending) {
+      end.controller.completeCis(end.connectionHandle, HciErrorCode.ConnectionNotEstablished);
+    } else {
+      end.controller.terminateCis(end.connectionHandle, reason);
+    }
+  }
+
+  private onDisconnect(controller: VirtualController, connectionHandle: number, reason: number): void {
+    const cisLink = this.cisLinks.find((l) =>
+      (l.central.controller    === controller && l.central.connectionHandle    === connectionHandle) ||
+      (l.peripheral.controller === controller && l.peripheral.connectionHandle === connectionHandle)
+    );
+    if (cisLink) {
+      this.cisLinks = this.cisLinks.filter((l) => l !== cisLink);
+      const peer = this.peerOf(cisLink, controller);
+      if (peer) {
+        setImmediate(() => peer.controller.terminateCis(peer.connectionHandle, reason));
+      }
+      return;
+    }
+
+    const link = this.findLink(controller, connectionHandle);
+    if (!link) {
+      return;
+    }
+    this.removeLink(link);
+
+    // CISes created over the ACL connection go down with it
+    for (const cisLink of [...this.cisLinks]) {
+      const end = this.endOf(cisLink, controller);
+      const cisPeer = this.peerOf(cisLink, controller);
+      if (!end || !cisPeer || controller.getCisConnection(end.connectionHandle)?.aclConnectionHandle !== connectionHandle) {
+        continue;
+      }
+      this.cisLinks = this.cisLinks.filter((l) => l !== cisLink);
+      setImmediate(() => this.dropCis(cisPeer, reason));
+    }
+
+    const peer = this.peerOf(link, controller);
+    if (peer) {
+      setImmediate(() => peer.controller.terminateConnection(peer.connectionHandle, reason));
+    }
+  }
+
+  private onConnectionUpdate(controller: VirtualController, connectionHandle: number): void {
+    const peer = this.peer(controller, connectionHandle);
+    const connection = controller.getConnection(connectionHandle);
+    if (!peer || !connection) {
+      return;
+    }
+    const { connectionInterval, connectionLatency, supervisionTimeout } = connection;
+    setImmediate(() => peer.controller.applyConnectionUpdate(
+      peer.connectionHandle, connectionInterval, connectionLatency, supervisionTimeout
+    ));
+  }
+
+  private onPhyUpdate(controller: VirtualController, connectionHandle: number): void {
+    const peer = this.peer(controller, connectionHandle);
+    const connection = controller.getConnection(connectionHandle);
+    if (!peer || !connection) {
+      return;
+    }
+    const { txPhy, rxPhy } = connection;
+    setImmediate(() => peer.controller.applyPhyUpdate(peer.connectionHandle, rxPhy, txPhy));
+  }
+
+  private onDataLength(controller: VirtualController, connectionHandle: number): void {
+    const peer = this.peer(controller, connectionHandle);
+    const connection = controller.getConnection(connectionHandle);
+    if (!peer || !connection) {
+      return;
+    }
+    const { maxTxOctets, maxTxTime } = connection;
+    setImmediate(() => peer.controller.applyDataLength(peer.connectionHandle, maxTxOctets, maxTxTime));
+  }
+}
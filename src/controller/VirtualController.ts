@@ -0,0 +1,3725 @@
+import { EventEmitter } from 'events';
+import { createCipheriv, randomBytes } from 'crypto';
+import Debug from 'debug';
+
+import { HciPacketType } from '../hci/HciPacketType';
+import { HciErrorCode } from '../hci/HciError';
+import { HciEvent, HciLeEvent } from '../hci/HciEvent';
+import { HciOpcode } from '../hci/HciCmd';
+import {
+  HciOgf,
+  HciOcfControlAndBasebandCommands,
+  HciOcfInformationParameters,
+  HciOcfLeControllerCommands,
+  HciOcfLinkControlCommands,
+  HciOcfStatusParameters,
+} from '../hci/HciOgfOcf';
+import { LocalSupportedCommands, ReadLocalSupportedCommands } from '../hci/HciInformationParameters';
+import { LeIsoDataPathDirection } from '../hci/HciLeController';
+import { HciTransport } from '../transport/HciTransport';
+import { Address } from '../utils/Address';
+import {
+  VirtualBig, VirtualCis, VirtualConnectionParams, VirtualControllerEvents, VirtualExtAdvReport, VirtualPeriodicSync
+} from './VirtualControllerEvents';
+
+const debug = Debug('nble-vctrl');
+
+export interface VirtualControllerInit {
+  transport: HciTransport;
+  address?: Address;
+  manufacturerName?: number;
+  leFeatures?: bigint;
+  aclDataPacketLength?: number;
+  totalNumAclDataPackets?: number;
+  isoDataPacketLength?: number;
+  totalNumIsoDataPackets?: number;
+  filterListSize?: number;
+  resolvingListSize?: number;
+  numSupportedAdvertisingSets?: number;
+  periodicAdvertiserListSize?: number;
+}
+
+export enum VirtualControllerRole {
+  Central    = 0,
+  Peripheral = 1,
+}
+
+export interface VirtualAdvertisingSet {
+  advertisingHandle: number;
+  eventProperties: number;
+  intervalMin: number;
+  intervalMax: number;
+  channelMap: number;
+  ownAddressType: number;
+  peerAddressType: number;
+  peerAddress: Address;
+  filterPolicy: number;
+  txPower: number;
+  primaryPhy: number;
+  secondaryPhy: number;
+  advertisingSid: number;
+  randomAddress: Address | null;
+  data: Buffer;
+  scanResponseData: Buffer;
+  enabled: boolean;
+  duration: number;
+  maxEvents: number;
+  numEvents: number;
+  periodicIntervalMin: number;
+  periodicIntervalMax: number;
+  periodicProperties: number;
+  periodicConfigured: boolean;
+  periodicData: Buffer;
+  periodicEnabled: boolean;
+}
+
+export interface VirtualScanPhy {
+  phy: number;
+  type: number;
+  interval: number;
+  window: number;
+}
+
+export interface VirtualScanner {
+  enabled: boolean;
+  ownAddressType: number;
+  filterPolicy: number;
+  filterDuplicates: number;
+  duration: number;
+  period: number;
+  phys: VirtualScanPhy[];
+}
+
+export interface VirtualInitiator {
+  filterPolicy: number;
+  ownAddressType: number;
+  peerAddressType: number;
+  peerAddress: Address;
+  phys: number;
+  connectionInterval: number;
+  connectionLatency: number;
+  supervisionTimeout: number;
+}
+
+export interface VirtualPeriodicSyncRequest {
+  options: number;
+  advertisingSid: number;
+  advertiserAddressType: number;
+  advertiserAddress: Address;
+  skip: number;
+  syncTimeout: number;
+}
+
+export interface VirtualPeriodicAdvertiserListEntry {
+  addressType: number;
+  address: Address;
+  advertisingSid: number;
+}
+
+export interface VirtualSyncTransferParameters {
+  mode: number;
+  skip: number;
+  syncTimeout: number;
+}
+
+export interface VirtualPeriodicSyncState extends VirtualPeriodicSync {
+  skip: number;
+  syncTimeout: number;
+  reportingEnabled: boolean;
+}
+
+export interface VirtualRemoteVersion {
+  version: number;
+  manufacturerName: number;
+  subversion: number;
+}
+
+export interface VirtualConnection extends VirtualConnectionParams {
+  txPhy: number;
+  rxPhy: number;
+  maxTxOctets: number;
+  maxTxTime: number;
+  maxRxOctets: number;
+  maxRxTime: number;
+  authenticatedPayloadTimeout: number;
+  remoteFeatures: bigint;
+  remoteVersion: VirtualRemoteVersion;
+  syncTransferParameters: VirtualSyncTransferParameters;
+}
+
+export interface VirtualFilterListEntry {
+  addressType: number;
+  address: Address;
+}
+
+export interface VirtualResolvingListEntry {
+  peerIdentityAddressType: number;
+  peerIdentityAddress: Address;
+  peerIrk: Buffer;
+  localIrk: Buffer;
+  privacyMode: number;
+}
+
+export interface VirtualEstablishConnection {
+  role: VirtualControllerRole;
+  peerAddressType: number;
+  peerAddress: Address;
+  advertisingHandle?: number;
+  connectionInterval?: number;
+  connectionLatency?: number;
+  supervisionTimeout?: number;
+  remoteFeatures?: bigint;
+  remoteVersion?: VirtualRemoteVersion;
+}
+
+export enum VirtualCisStatus {
+  Configured,
+  Pending,
+  Established,
+}
+
+// Central side CISes stay configured in their CIG when disconnected
+export interface VirtualCisState extends VirtualCis {
+  cigId: number;
+  cisId: number;
+  role: VirtualControllerRole;
+  aclConnectionHandle: number | null;
+  status: VirtualCisStatus;
+  dataPaths: number;
+}
+
+export interface VirtualBis {
+  connectionHandle: number;
+  bigHandle: number;
+  index: number;
+  dataPaths: number;
+}
+
+// Sources send the BIG over an advertising set, receivers follow it over a periodic sync
+export interface VirtualBigState extends VirtualBig {
+  bigHandle: number;
+  advertisingHandle: number | null;
+  syncHandle: number | null;
+  broadcastCode: Buffer | null;
+  bis: VirtualBis[];
+}
+
+export interface VirtualBigSyncRequest {
+  bigHandle: number;
+  syncHandle: number;
+  broadcastCode: Buffer | null;
+  bis: number[];
+}
+
+export declare interface VirtualController {
+  on(event: 'acl',                  listener: (connectionHandle: number, boundary: number, data: Buffer) => void): this;
+  on(event: 'iso',                  listener: (connectionHandle: number, boundary: number, data: Buffer) => void): this;
+  on(event: 'disconnect',           listener: (connectionHandle: number, reason: number) => void): this;
+  on(event: 'connectionUpdate',     listener: (connectionHandle: number) => void): this;
+  on(event: 'phyUpdate',            listener: (connectionHandle: number) => void): this;
+  on(event: 'dataLength',           listener: (connectionHandle: number) => void): this;
+  on(event: 'periodicSyncTransfer', listener: (connectionHandle: number, serviceData: number, sync: VirtualPeriodicSync) => void): this;
+  on(event: 'cisRequest',           listener: (aclConnectionHandle: number, cis: VirtualCisState) => void): this;
+  on(event: 'cisResponse',          listener: (connectionHandle: number, status: HciErrorCode) => void): this;
+  on(event: 'bigTerminated',        listener: (bigHandle: number, reason: HciErrorCode) => void): this;
+  on(event: 'state',                listener: () => void): this;
+}
+
+enum AdvertisingApi {
+  None,
+  Legacy,
+  Extended,
+}
+
+type CommandHandler = (params: Buffer) => Buffer | HciErrorCode;
+
+interface CommandDefinition {
+  // Not every command has a bit in the supported commands mask
+  name?: keyof LocalSupportedCommands;
+  length: number | ((params: Buffer) => boolean);
+  api?: AdvertisingApi;
+  // Commands answered with Command Status return only the status,
+  // completion events are generated by the handler itself.
+  status?: boolean;
+  // Commands without completion event unless they fail
+  noResponse?: boolean;
+  handler: CommandHandler;
+}
+
+const HciVersion = 0x0B; // Core 5.2
+const LeMaxDataOctets = 251;
+const LeMaxDataTime = 17040;
+const LeMaxAdvertisingDataLength = 1650;
+const LeMaxPeriodicReportData = 247;
+const DefaultEventMask = 0x00001FFFFFFFFFFFn;
+const DefaultLeEventMask = 0x000000000000001Fn;
+
+// LE Supported (Controller), BR/EDR Not Supported
+const LmpFeatures = (1n << 38n) | (1n << 37n);
+
+// Data Length Extension, LL Privacy, 2M PHY, Extended Advertising, Periodic Advertising,
+// Channel Selection Algorithm #2, Periodic Advertising Sync Transfer (Sender and Recipient),
+// Connected Isochronous Stream (Central and Peripheral), Isochronous Broadcaster, Synchronized Receiver
+const DefaultLeFeatures = (1n << 5n) | (1n << 6n) | (1n << 8n) | (1n << 12n) | (1n << 13n) | (1n << 14n) |
+                          (1n << 24n) | (1n << 25n) | (1n << 28n) | (1n << 29n) | (1n << 30n) | (1n << 31n);
+
+// Legacy advertising types mapped on extended advertising event properties
+const LegacyEventProperties = [
+  0x13, // ADV_IND
+  0x1D, // ADV_DIRECT_IND (high duty cycle)
+  0x12, // ADV_SCAN_IND
+  0x10, // ADV_NONCONN_IND
+  0x15, // ADV_DIRECT_IND (low duty cycle)
+];
+
+function returnParameters(status: HciErrorCode, size = 0): Buffer {
+  const params = Buffer.alloc(1 + size);
+  params.writeUInt8(status, 0);
+  return params;
+}
+
+function connectionResult(status: HciErrorCode, connectionHandle: number, size = 0): Buffer {
+  const params = returnParameters(status, 2 + size);
+  params.writeUInt16LE(connectionHandle, 1);
+  return params;
+}
+
+function addressId(addressType: number, address: Address): string {
+  return `${addressType}:${address.toId()}`;
+}
+
+class VirtualSupportedCommands {
+  private static bits: Map<keyof LocalSupportedCommands, number> | null = null;
+
+  static build(names: (keyof LocalSupportedCommands | undefined)[]): Buffer {
+    const bits = this.getBits();
+    const mask = Buffer.alloc(64);
+    for (const name of names) {
+      const bit = name ? bits.get(name) : undefined;
+      if (bit !== undefined) {
+        mask[bit >> 3] |= 1 << (bit & 7);
+      }
+    }
+    return mask;
+  }
+
+  private static getBits(): Map<keyof LocalSupportedCommands, number> {
+    if (this.bits) {
+      return this.bits;
+    }
+    this.bits = new Map();
+    const probe = Buffer.alloc(64);
+    for (let bit = 0; bit < 64 * 8; bit++) {
+      probe.fill(0);
+      probe[bit >> 3] = 1 << (bit & 7);
+      const commands = ReadLocalSupportedCommands.outParams(probe);
+      for (const [name, supported] of Object.entries(commands)) {
+        if (supported) {
+          this.bits.set(name as keyof LocalSupportedCommands, bit);
+        }
+      }
+    }
+    return this.bits;
+  }
+}
+
+export class VirtualController extends EventEmitter {
+  private transport: HciTransport;
+  private address: Address;
+  private manufacturerName: number;
+  private leFeatures: bigint;
+  private hostLeFeatures = 0n;
+  private aclDataPacketLength: number;
+  private totalNumAclDataPackets: number;
+  private isoDataPacketLength: number;
+  private totalNumIsoDataPackets: number;
+  private filterListSize: number;
+  private resolvingListSize: number;
+  private numSupportedAdvertisingSets: number;
+  private periodicAdvertiserListSize: number;
+
+  private commands = new Map<number, CommandDefinition>();
+  private supportedCommands: Buffer;
+
+  private eventMask = DefaultEventMask;
+  private eventMaskPage2 = 0n;
+  private leEventMask = DefaultLeEventMask;
+  private leHostSupported = false;
+  private api = AdvertisingApi.None;
+  private randomAddress: Address | null = null;
+  private channelMap = 0x1FFFFFFFFFn;
+  private suggestedMaxTxOctets = 27;
+  private suggestedMaxTxTime = 328;
+  private defaultTxPhys = 0;
+  private defaultRxPhys = 0;
+  private addressResolutionEnabled = false;
+  private rpaTimeout = 900;
+  private controllerToHostFlowControl = 0;
+  private hostTotalNumAclDataPackets = 0;
+  private defaultSyncTransferParameters: VirtualSyncTransferParameters = { mode: 0, skip: 0, syncTimeout: 0 };
+
+  private advertisingSets = new Map<number, VirtualAdvertisingSet>();
+  private scanner: VirtualScanner = VirtualController.defaultScanner();
+  private initiator: VirtualInitiator | null = null;
+  private connections = new Map<number, VirtualConnection>();
+  private periodicSyncRequest: VirtualPeriodicSyncRequest | null = null;
+  private periodicSyncs = new Map<number, VirtualPeriodicSyncState>();
+  private filterList: VirtualFilterListEntry[] = [];
+  private resolvingList: VirtualResolvingListEntry[] = [];
+  private periodicAdvertiserList: VirtualPeriodicAdvertiserListEntry[] = [];
+  private cisConnections = new Map<number, VirtualCisState>();
+  private bigs = new Map<number, VirtualBigState>();
+  private bisConnections = new Map<number, VirtualBis>();
+  private bigSyncRequests = new Map<number, VirtualBigSyncRequest>();
+
+  private nextConnectionHandle = 0;
+  private nextSyncHandle = 0;
+  private reportedDuplicates = new Set<string>();
+  private completedPackets = new Map<number, number>();
+  private completedPacketsScheduled = false;
+  private hostAclPending = new Map<number, number>();
+  private hostAclQueue: { connectionHandle: number, packet: Buffer }[] = [];
+  private timers = new Set<NodeJS.Timeout>();
+  private scanTimer: NodeJS.Timeout | null = null;
+  private advertisingTimers = new Map<number, NodeJS.Timeout>();
+  private periodicSyncTimers = new Map<number, NodeJS.Timeout>();
+
+  constructor(init: VirtualControllerInit) {
+    super();
+
+    this.transport                   = init.transport;
+    this.address                     = init.address ?? Address.from(randomBytes(6).readUIntLE(0, 6));
+    this.manufacturerName            = init.manufacturerName ?? 0xFFFF;
+    this.leFeatures                  = init.leFeatures ?? DefaultLeFeatures;
+    this.aclDataPacketLength         = init.aclDataPacketLength ?? LeMaxDataOctets;
+    this.totalNumAclDataPackets      = init.totalNumAclDataPackets ?? 8;
+    this.isoDataPacketLength         = init.isoDataPacketLength ?? LeMaxDataOctets;
+    this.totalNumIsoDataPackets      = init.totalNumIsoDataPackets ?? 8;
+    this.filterListSize              = init.filterListSize ?? 8;
+    this.resolvingListSize           = init.resolvingListSize ?? 8;
+    this.numSupportedAdvertisingSets = init.numSupportedAdvertisingSets ?? 4;
+    this.periodicAdvertiserListSize  = init.periodicAdvertiserListSize ?? 8;
+
+    this.registerCommands();
+    this.supportedCommands = VirtualSupportedCommands.build(
+      [...this.commands.values()].map((cmd) => cmd.name)
+    );
+
+    this.transport.on('packet', this.onPacket);
+  }
+
+  public async open(): Promise<void> {
+    await this.transport.open();
+  }
+
+  public async close(): Promise<void> {
+    this.reset();
+    this.transport.removeListener('packet', this.onPacket);
+    await this.transport.close();
+  }
+
+  public getAddress(): Address {
+    return this.address;
+  }
+
+  public getLeFeatures(): bigint {
+    return this.leFeatures | this.hostLeFeatures;
+  }
+
+  public getVersion(): VirtualRemoteVersion {
+    return { version: HciVersion, manufacturerName: this.manufacturerName, subversion: 0 };
+  }
+
+  public getAdvertisingSets(): VirtualAdvertisingSet[] {
+    return [...this.advertisingSets.values()];
+  }
+
+  public getScanner(): VirtualScanner {
+    return this.scanner;
+  }
+
+  public getInitiator(): VirtualInitiator | null {
+    return this.initiator;
+  }
+
+  public getConnections(): VirtualConnection[] {
+    return [...this.connections.values()];
+  }
+
+  public getConnection(connectionHandle: number): VirtualConnection | null {
+    return this.connections.get(connectionHandle) ?? null;
+  }
+
+  public getPeriodicSyncRequest(): VirtualPeriodicSyncRequest | null {
+    return this.periodicSyncRequest;
+  }
+
+  public getPeriodicSyncs(): VirtualPeriodicSyncState[] {
+    return [...this.periodicSyncs.values()];
+  }
+
+  public isInPeriodicAdvertiserList(addressType: number, address: Address, advertisingSid: number): boolean {
+    const id = addressId(addressType, address);
+    return this.periodicAdvertiserList.some((e) =>
+      e.advertisingSid === advertisingSid && addressId(e.addressType, e.address) === id
+    );
+  }
+
+  public getCisConnections(): VirtualCisState[] {
+    return [...this.cisConnections.values()];
+  }
+
+  public getCisConnection(connectionHandle: number): VirtualCisState | null {
+    return this.cisConnections.get(connectionHandle) ?? null;
+  }
+
+  public getBigs(): VirtualBigState[] {
+    return [...this.bigs.values()];
+  }
+
+  public getBig(bigHandle: number): VirtualBigState | null {
+    return this.bigs.get(bigHandle) ?? null;
+  }
+
+  public getBigSyncRequests(): VirtualBigSyncRequest[] {
+    return [...this.bigSyncRequests.values()];
+  }
+
+  public getFilterList(): VirtualFilterListEntry[] {
+    return this.filterList;
+  }
+
+  public isInFilterList(addressType: number, address: Address): boolean {
+    const id = addressId(addressType, address);
+    return this.filterList.some((e) => addressId(e.addressType, e.address) === id);
+  }
+
+  // Address the controller is seen with on air, taking own address type
+  // (public or random) into account.
+  public getOwnAddress(ownAddressType: number, set?: VirtualAdvertisingSet): { addressType: number, address: Address } {
+    if ((ownAddressType & 1) === 0) {
+      return { addressType: 0, address: this.address };
+    }
+    const address = set?.randomAddress ?? this.randomAddress ?? this.address;
+    return { addressType: 1, address };
+  }
+
+  public reportAdvertisement(report: VirtualExtAdvReport): void {
+    if (!this.scanner.enabled) {
+      return;
+    }
+    if (this.scanner.filterDuplicates) {
+      const id = `${report.eventType}:${addressId(report.addressType, report.address)}:${report.data.toString('hex')}`;
+      if (this.reportedDuplicates.has(id)) {
+        return;
+      }
+      this.reportedDuplicates.add(id);
+    }
+    if (this.api === AdvertisingApi.Extended) {
+      this.sendEvent(VirtualControllerEvents.leExtendedAdvertisingReport(report));
+    } else {
+      const eventType = this.legacyReportEventType(report.eventType);
+      if (eventType === null) {
+        return;
+      }
+      this.sendEvent(VirtualControllerEvents.leAdvertisingReport({ ...report, eventType }));
+    }
+  }
+
+  // Completes the pending Create Sync with a train received while scanning
+  public establishPeriodicSync(set: VirtualAdvertisingSet, addressType: number, address: Address): number | null {
+    const request = this.periodicSyncRequest;
+    if (!request) {
+      debug('establishPeriodicSync: not synchronizing');
+      return null;
+    }
+    this.periodicSyncRequest = null;
+
+    const sync = this.createPeriodicSync({
+      syncHandle:              0,
+      advertisingSid:          set.advertisingSid,
+      advertiserAddressType:   addressType,
+      advertiserAddress:       address,
+      advertiserPhy:           set.secondaryPhy,
+      periodicAdvInterval:     set.periodicIntervalMin,
+      advertiserClockAccuracy: 0,
+    }, request.skip, request.syncTimeout, (request.options & 2) === 0);
+
+    this.sendEvent(VirtualControllerEvents.lePeriodicAdvertisingSyncEstablished(HciErrorCode.Success, sync));
+    this.emit('state');
+    return sync.syncHandle;
+  }
+
+  // Synchronizes with the train described by the peer, as the connection parameters allow
+  public receivePeriodicSyncTransfer(connectionHandle: number, serviceData: number, info: VirtualPeriodicSync): number | null {
+    const connection = this.connections.get(connectionHandle);
+    if (!connection || connection.syncTransferParameters.mode === 0) {
+      return null;
+    }
+    if (this.isSyncedTo(info.advertisingSid, info.advertiserAddressType, info.advertiserAddress)) {
+      debug('receivePeriodicSyncTransfer: already synchronized');
+      return null;
+    }
+
+    const { mode, skip, syncTimeout } = connection.syncTransferParameters;
+    const sync = this.createPeriodicSync(info, skip, syncTimeout, mode >= 2);
+
+    this.sendEvent(VirtualControllerEvents.lePeriodicAdvertisingSyncTransferReceived(
+      HciErrorCode.Success, connectionHandle, serviceData, sync
+    ));
+    this.emit('state');
+    return sync.syncHandle;
+  }
+
+  public reportPeriodicAdvertisement(syncHandle: number, txPower: number, rssi: number, data: Buffer): void {
+    const sync = this.periodicSyncs.get(syncHandle);
+    if (!sync) {
+      return;
+    }
+    this.superviseSync(sync);
+    if (!sync.reportingEnabled) {
+      return;
+    }
+
+    let offset = 0;
+    do {
+      const fragment = data.slice(offset, offset + LeMaxPeriodicReportData);
+      offset += fragment.length;
+      const dataStatus = offset < data.length ? 1 : 0;
+      this.sendEvent(VirtualControllerEvents.lePeriodicAdvertisingReport(syncHandle, txPower, rssi, dataStatus, fragment));
+    } while (offset < data.length);
+  }
+
+  public reportBigInfo(syncHandle: number, big: VirtualBig): void {
+    const sync = this.periodicSyncs.get(syncHandle);
+    if (!sync || !sync.reportingEnabled) {
+      return;
+    }
+    this.sendEvent(VirtualControllerEvents.leBigInfoAdvertisingReport(syncHandle, big));
+  }
+
+  // Completes the pending BIG Create Sync with BIGInfo of the source
+  public establishBigSync(bigHandle: number, source: VirtualBigState): boolean {
+    const request = this.bigSyncRequests.get(bigHandle);
+    if (!request) {
+      debug('establishBigSync: not synchronizing');
+      return false;
+    }
+    this.bigSyncRequests.delete(bigHandle);
+
+    let status = HciErrorCode.Success;
+    if (request.bis.some((index) => index > source.numBis)) {
+      status = HciErrorCode.UnsupportedFeatureOrValue;
+    } else if (source.encryption !== (request.broadcastCode !== null)) {
+      status = HciErrorCode.EncNotAccepted;
+    } else if (source.broadcastCode && !source.broadcastCode.equals(request.broadcastCode!)) {
+      status = HciErrorCode.ConnectionTerminatedMic;
+    }
+    if (status !== HciErrorCode.Success) {
+      this.sendEvent(VirtualControllerEvents.leBigSyncEstablished(status, bigHandle, null, []));
+      this.emit('state');
+      return false;
+    }
+
+    const big: VirtualBigState = {
+      ...source,
+      bigHandle,
+      advertisingHandle: null,
+      syncHandle:        request.syncHandle,
+      bis:               [],
+    };
+    for (const index of request.bis) {
+      const bis = { connectionHandle: this.allocateConnectionHandle(), bigHandle, index, dataPaths: 0 };
+      this.bisConnections.set(bis.connectionHandle, bis);
+      big.bis.push(bis);
+    }
+    this.bigs.set(bigHandle, big);
+
+    const connectionHandles = big.bis.map((bis) => bis.connectionHandle);
+    this.sendEvent(VirtualControllerEvents.leBigSyncEstablished(HciErrorCode.Success, bigHandle, big, connectionHandles));
+    this.emit('state');
+    return true;
+  }
+
+  public loseBigSync(bigHandle: number, reason: HciErrorCode): void {
+    const big = this.bigs.get(bigHandle);
+    if (!big || big.syncHandle === null) {
+      return;
+    }
+    this.removeBig(big);
+    this.sendEvent(VirtualControllerEvents.leBigSyncLost(bigHandle, reason));
+    this.emit('state');
+  }
+
+  public establishConnection(params: VirtualEstablishConnection): number | null {
+    let set: VirtualAdvertisingSet | undefined;
+    let connectionInterval = params.connectionInterval ?? 0x0018;
+    let connectionLatency  = params.connectionLatency  ?? 0;
+    let supervisionTimeout = params.supervisionTimeout ?? 0x0048;
+
+    if (params.role === VirtualControllerRole.Central) {
+      if (!this.initiator) {
+        debug('establishConnection: not initiating');
+        return null;
+      }
+      connectionInterval = this.initiator.connectionInterval;
+      connectionLatency  = this.initiator.connectionLatency;
+      supervisionTimeout = this.initiator.supervisionTimeout;
+      this.initiator = null;
+    } else {
+      set = params.advertisingHandle !== undefined ?
+        this.advertisingSets.get(params.advertisingHandle) :
+        this.getAdvertisingSets().find((s) => s.enabled && (s.eventProperties & 1));
+      if (!set || !set.enabled || (set.eventProperties & 1) === 0) {
+        debug('establishConnection: no connectable advertising set');
+        return null;
+      }
+      this.stopAdvertising(set);
+    }
+
+    const connectionHandle = this.allocateConnectionHandle();
+    const connection: VirtualConnection = {
+      connectionHandle,
+      role:                         params.role,
+      peerAddressType:              params.peerAddressType,
+      peerAddress:                  params.peerAddress,
+      connectionInterval,
+      connectionLatency,
+      supervisionTimeout,
+      masterClockAccuracy:          0,
+      txPhy:                        1,
+      rxPhy:                        1,
+      maxTxOctets:                  27,
+      maxTxTime:                    328,
+      maxRxOctets:                  27,
+      maxRxTime:                    328,
+      authenticatedPayloadTimeout:  3000,
+      remoteFeatures:               params.remoteFeatures ?? this.getLeFeatures(),
+      remoteVersion:                params.remoteVersion  ?? this.getVersion(),
+      syncTransferParameters:       { ...this.defaultSyncTransferParameters },
+    };
+    this.connections.set(connectionHandle, connection);
+
+    this.sendConnectionComplete(HciErrorCode.Success, connection);
+    if (this.api === AdvertisingApi.Extended) {
+      const algorithm = (this.leFeatures & (1n << 14n)) ? 1 : 0;
+      this.sendEvent(VirtualControllerEvents.leChannelSelectionAlgorithm(connectionHandle, algorithm));
+      if (set) {
+        this.sendEvent(VirtualControllerEvents.leAdvertisingSetTerminated(
+          HciErrorCode.Success, set.advertisingHandle, connectionHandle, 0
+        ));
+      }
+    }
+
+    this.emit('state');
+    return connectionHandle;
+  }
+
+  // Asks the host of the peripheral to accept the CIS, rejected by
+  // the controller when the host does not listen to CIS requests
+  public requestCis(aclConnectionHandle: number, request: VirtualCisState): number | null {
+    const connection = this.connections.get(aclConnectionHandle);
+    if (!connection || connection.role !== VirtualControllerRole.Peripheral) {
+      return null;
+    }
+
+    const cis: VirtualCisState = {
+      ...request,
+      connectionHandle:    this.allocateConnectionHandle(),
+      role:                VirtualControllerRole.Peripheral,
+      aclConnectionHandle,
+      status:              VirtualCisStatus.Pending,
+      dataPaths:           0,
+    };
+
+    const event = VirtualControllerEvents.leCisRequest(aclConnectionHandle, cis.connectionHandle, cis.cigId, cis.cisId);
+    if (!this.isEventEnabled(event)) {
+      debug('requestCis: CIS Request event masked');
+      return null;
+    }
+
+    this.cisConnections.set(cis.connectionHandle, cis);
+    this.sendEvent(event);
+    return cis.connectionHandle;
+  }
+
+  public completeCis(connectionHandle: number, status: HciErrorCode): void {
+    const cis = this.cisConnections.get(connectionHandle);
+    if (!cis || cis.status !== VirtualCisStatus.Pending) {
+      return;
+    }
+    this.sendEvent(VirtualControllerEvents.leCisEstablished(status, cis));
+
+    if (status === HciErrorCode.Success) {
+      cis.status = VirtualCisStatus.Established;
+    } else {
+      this.releaseCis(cis);
+    }
+    this.emit('state');
+  }
+
+  public terminateCis(connectionHandle: number, reason: number): boolean {
+    const cis = this.cisConnections.get(connectionHandle);
+    if (!cis || cis.status !== VirtualCisStatus.Established) {
+      return false;
+    }
+    this.releaseCis(cis);
+    this.sendEvent(VirtualControllerEvents.disconnectionComplete(HciErrorCode.Success, connectionHandle, reason));
+    this.emit('state');
+    return true;
+  }
+
+  public terminateConnection(connectionHandle: number, reason: number): boolean {
+    if (!this.connections.has(connectionHandle)) {
+      return false;
+    }
+
+    // CISes do not outlive the ACL connection they were created on
+    for (const cis of this.getCisConnections()) {
+      if (cis.aclConnectionHandle !== connectionHandle) {
+        continue;
+      }
+      if (cis.status === VirtualCisStatus.Established) {
+        this.terminateCis(cis.connectionHandle, reason);
+      } else if (cis.status === VirtualCisStatus.Pending) {
+        this.completeCis(cis.connectionHandle, reason);
+      }
+    }
+
+    this.connections.delete(connectionHandle);
+    this.completedPackets.delete(connectionHandle);
+    this.hostAclPending.delete(connectionHandle);
+    this.hostAclQueue = this.hostAclQueue.filter((acl) => acl.connectionHandle !== connectionHandle);
+    this.sendEvent(VirtualControllerEvents.disconnectionComplete(HciErrorCode.Success, connectionHandle, reason));
+    this.flushHostAcl();
+    this.emit('state');
+    return true;
+  }
+
+  public applyConnectionUpdate(
+    connectionHandle: number,
+    connectionInterval: number,
+    connectionLatency: number,
+    supervisionTimeout: number,
+  ): void {
+    const connection = this.connections.get(connectionHandle);
+    if (!connection) {
+      return;
+    }
+    connection.connectionInterval = connectionInterval;
+    connection.connectionLatency  = connectionLatency;
+    connection.supervisionTimeout = supervisionTimeout;
+    this.sendEvent(VirtualControllerEvents.leConnectionUpdateComplete(
+      HciErrorCode.Success, connectionHandle, connectionInterval, connectionLatency, supervisionTimeout
+    ));
+  }
+
+  public applyPhyUpdate(connectionHandle: number, txPhy: number, rxPhy: number): void {
+    const connection = this.connections.get(connectionHandle);
+    if (!connection) {
+      return;
+    }
+    connection.txPhy = txPhy;
+    connection.rxPhy = rxPhy;
+    this.sendEvent(VirtualControllerEvents.lePhyUpdateComplete(
+      HciErrorCode.Success, connectionHandle, txPhy, rxPhy
+    ));
+  }
+
+  public applyDataLength(connectionHandle: number, maxRxOctets: number, maxRxTime: number): void {
+    const connection = this.connections.get(connectionHandle);
+    if (!connection) {
+      return;
+    }
+    if (connection.maxRxOctets === maxRxOctets && connection.maxRxTime === maxRxTime) {
+      return;
+    }
+    connection.maxRxOctets = maxRxOctets;
+    connection.maxRxTime   = maxRxTime;
+    this.sendDataLengthChange(connection);
+  }
+
+  // Called by the air interface once per advertising event of an enabled set,
+  // ends advertising when the Max_Extended_Advertising_Events limit is hit.
+  public countAdvertisingEvent(advertisingHandle: number): void {
+    const set = this.advertisingSets.get(advertisingHandle);
+    if (!set || !set.enabled) {
+      return;
+    }
+    set.numEvents++;
+    if (this.api !== AdvertisingApi.Extended || set.maxEvents === 0 || set.numEvents < set.maxEvents) {
+      return;
+    }
+    this.stopAdvertising(set);
+    this.sendEvent(VirtualControllerEvents.leAdvertisingSetTerminated(
+      HciErrorCode.LimitReached, advertisingHandle, 0, Math.min(set.numEvents, 0xFF)
+    ));
+    this.emit('state');
+  }
+
+  public raiseHardwareError(hardwareCode: number): void {
+    this.sendEvent(VirtualControllerEvents.hardwareError(hardwareCode));
+  }
+
+  // Simulates a controller reboot, reported by an unsolicited Reset completion
+  // or, as after power on, by a Command Complete for NOP
+  public restart(announceWithNop = false): void {
+    this.reset();
+    this.emit('state');
+    if (announceWithNop) {
+      this.sendCommandComplete(0x0000, Buffer.alloc(0));
+      return;
+    }
+    const opcode = HciOpcode.build({
+      ogf: HciOgf.ControlAndBasebandCommands,
+      ocf: HciOcfControlAndBasebandCommands.Reset,
+    });
+    this.sendCommandComplete(opcode, returnParameters(HciErrorCode.Success));
+  }
+
+  public sendAclData(connectionHandle: number, boundary: number, data: Buffer): void {
+    if (!this.connections.has(connectionHandle)) {
+      debug(`sendAclData: unknown connection ${connectionHandle}`);
+      return;
+    }
+    const packet = Buffer.allocUnsafe(4 + data.length);
+    packet.writeUInt16LE(connectionHandle | (boundary << 12), 0);
+    packet.writeUInt16LE(data.length, 2);
+    data.copy(packet, 4);
+    this.hostAclQueue.push({ connectionHandle, packet });
+    this.flushHostAcl();
+  }
+
+  // Data carries the SDU header of first fragments, received data has no timestamps
+  public sendIsoData(connectionHandle: number, boundary: number, data: Buffer): void {
+    const stream = this.getIsoStream(connectionHandle);
+    if (!stream) {
+      debug(`sendIsoData: unknown connection ${connectionHandle}`);
+      return;
+    }
+    if (!(stream.dataPaths & (1 << LeIsoDataPathDirection.Output))) {
+      debug(`sendIsoData: no output data path on ${connectionHandle}`);
+      return;
+    }
+    const packet = Buffer.allocUnsafe(4 + data.length);
+    packet.writeUInt16LE(connectionHandle | (boundary << 12), 0);
+    packet.writeUInt16LE(data.length, 2);
+    data.copy(packet, 4);
+    this.transport.send(HciPacketType.HciIsoData, packet);
+  }
+
+  private onPacket = (packetType: HciPacketType, data: Buffer): void => {
+    try {
+      if (packetType === HciPacketType.HciCommand) {
+        return this.onCommand(data);
+      }
+      if (packetType === HciPacketType.HciAclData) {
+        return this.onAclData(data);
+      }
+      if (packetType === HciPacketType.HciIsoData) {
+        return this.onIsoData(data);
+      }
+      debug(`unsupported packet type: ${packetType}`);
+    } catch (err) {
+      debug(`packet processing error: ${err}`);
+    }
+  }
+
+  private onCommand(data: Buffer): void {
+    if (data.length < 3 || data.length < 3 + data[2]) {
+      debug(`invalid command packet: ${data.toString('hex')}`);
+      return;
+    }
+    const opcode = data.readUInt16LE(0);
+    const params = data.subarray(3, 3 + data[2]);
+
+    const cmd = this.commands.get(opcode);
+    if (!cmd) {
+      const { ogf, ocf } = HciOpcode.expand(opcode);
+      debug(`unknown command: ogf ${ogf}, ocf ${ocf}`);
+      this.sendCommandComplete(opcode, returnParameters(HciErrorCode.UnknownCommand));
+      return;
+    }
+
+    let result: Buffer | HciErrorCode;
+
+    const validLength = typeof cmd.length === 'number' ?
+      params.length === cmd.length :
+      cmd.length(params);
+
+    if (!validLength) {
+      result = HciErrorCode.InvalidCommandParameter;
+    } else if (cmd.api !== undefined && this.api !== AdvertisingApi.None && this.api !== cmd.api) {
+      result = HciErrorCode.CommandDisallowed;
+    } else {
+      if (cmd.api !== undefined) {
+        this.api = cmd.api;
+      }
+      result = cmd.handler(params);
+    }
+
+    if (cmd.noResponse && result === HciErrorCode.Success) {
+      return;
+    }
+
+    if (cmd.status) {
+      const status = typeof result === 'number' ? result : result[0];
+      this.sendEvent(VirtualControllerEvents.commandStatus(status, 1, opcode));
+    } else {
+      this.sendCommandComplete(opcode, typeof result === 'number' ? returnParameters(result) : result);
+    }
+  }
+
+  private onAclData(data: Buffer): void {
+    if (data.length < 4) {
+      debug('invalid acl packet');
+      return;
+    }
+    const hdr = data.readUInt16LE(0);
+    const length = data.readUInt16LE(2);
+    const connectionHandle = hdr & 0x0FFF;
+    const boundary = (hdr >> 12) & 0x03;
+
+    if (length > this.aclDataPacketLength || data.length < 4 + length) {
+      debug(`invalid acl packet length: ${length}`);
+      return;
+    }
+    if (!this.connections.has(connectionHandle)) {
+      debug(`acl data for unknown connection ${connectionHandle}`);
+      return;
+    }
+
+    this.emit('acl', connectionHandle, boundary, data.subarray(4, 4 + length));
+
+    const completed = this.completedPackets.get(connectionHandle) ?? 0;
+    this.completedPackets.set(connectionHandle, completed + 1);
+    this.scheduleCompletedPackets();
+  }
+
+  // Packets of an established CIS or BIS without input data path are discarded
+  private onIsoData(data: Buffer): void {
+    if (data.length < 4) {
+      debug('invalid iso packet');
+      return;
+    }
+    const hdr = data.readUInt16LE(0);
+    const length = data.readUInt16LE(2) & 0x3FFF;
+    const connectionHandle = hdr & 0x0FFF;
+    const boundary = (hdr >> 12) & 0x03;
+    const timestamp = (hdr >> 14) & 0x01;
+
+    if (length > this.isoDataPacketLength || data.length < 4 + length) {
+      debug(`invalid iso packet length: ${length}`);
+      return;
+    }
+    const stream = this.getIsoStream(connectionHandle);
+    if (!stream) {
+      debug(`iso data for unknown connection ${connectionHandle}`);
+      return;
+    }
+
+    if (stream.dataPaths & (1 << LeIsoDataPathDirection.Input)) {
+      const offset = timestamp ? 8 : 4;
+      this.emit('iso', connectionHandle, boundary, data.subarray(offset, 4 + length));
+    }
+
+    const completed = this.completedPackets.get(connectionHandle) ?? 0;
+    this.completedPackets.set(connectionHandle, completed + 1);
+    this.scheduleCompletedPackets();
+  }
+
+  // With controller to host flow control, packets wait for free host buffers
+  private flushHostAcl(): void {
+    const flowControl = (this.controllerToHostFlowControl & 0x01) !== 0;
+
+    while (this.hostAclQueue.length > 0) {
+      if (flowControl) {
+        let pending = 0;
+        for (const count of this.hostAclPending.values()) {
+          pending += count;
+        }
+        if (pending >= this.hostTotalNumAclDataPackets) {
+          return;
+        }
+      }
+      const { connectionHandle, packet } = this.hostAclQueue.shift()!;
+      if (flowControl) {
+        this.hostAclPending.set(connectionHandle, (this.hostAclPending.get(connectionHandle) ?? 0) + 1);
+      }
+      this.transport.send(HciPacketType.HciAclData, packet);
+    }
+  }
+
+  private scheduleCompletedPackets(): void {
+    if (this.completedPacketsScheduled) {
+      return;
+    }
+    this.completedPacketsScheduled = true;
+    setImmediate(() => {
+      this.completedPacketsScheduled = false;
+      const entries = [...this.completedPackets.entries()]
+        .filter(([connectionHandle]) =>
+          this.connections.has(connectionHandle) || this.cisConnections.has(connectionHandle) ||
+          this.bisConnections.has(connectionHandle)
+        )
+        .map(([connectionHandle, numCompletedPackets]) => ({ connectionHandle, numCompletedPackets }));
+      this.completedPackets.clear();
+      if (entries.length > 0) {
+        this.sendEvent(VirtualControllerEvents.numberOfCompletedPackets(entries));
+      }
+    });
+  }
+
+  private sendCommandComplete(opcode: number, params: Buffer): void {
+    this.sendEvent(VirtualControllerEvents.commandComplete(1, opcode, params));
+  }
+
+  private sendEvent(event: Buffer): void {
+    if (!this.isEventEnabled(event)) {
+      debug(`event masked: ${event.toString('hex')}`);
+      return;
+    }
+    this.transport.send(HciPacketType.HciEvent, event);
+  }
+
+  private isEventEnabled(event: Buffer): boolean {
+    const eventCode = event[0];
+    if (eventCode === HciEvent.CommandComplete ||
+        eventCode === HciEvent.CommandStatus ||
+        eventCode === HciEvent.NumberOfCompletedPackets) {
+      return true;
+    }
+    if (eventCode === HciEvent.LeMeta) {
+      const subevent = BigInt(event[2]);
+      return (this.eventMask & (1n << 61n)) !== 0n &&
+             (this.leEventMask & (1n << (subevent - 1n))) !== 0n;
+    }
+    if (eventCode <= 64) {
+      return (this.eventMask & (1n << BigInt(eventCode - 1))) !== 0n;
+    }
+    return (this.eventMaskPage2 & (1n << BigInt(eventCode - 65))) !== 0n;
+  }
+
+  private sendConnectionComplete(status: HciErrorCode, params: VirtualConnectionParams): void {
+    const enhancedBit = BigInt(HciLeEvent.EnhancedConnectionComplete - 1);
+    if (this.leEventMask & (1n << enhancedBit)) {
+      this.sendEvent(VirtualControllerEvents.leEnhancedConnectionComplete(status, params));
+    } else {
+      this.sendEvent(VirtualControllerEvents.leConnectionComplete(status, params));
+    }
+  }
+
+  private sendDataLengthChange(connection: VirtualConnection): void {
+    this.sendEvent(VirtualControllerEvents.leDataLengthChange(
+      connection.connectionHandle,
+      connection.maxTxOctets, connection.maxTxTime,
+      connection.maxRxOctets, connection.maxRxTime,
+    ));
+  }
+
+  private defer(callback: () => void, timeoutMs = 0): void {
+    const timer = setTimeout(() => {
+      this.timers.delete(timer);
+      callback();
+    }, timeoutMs);
+    this.timers.add(timer);
+  }
+
+  private createPeriodicSync(
+    info: VirtualPeriodicSync,
+    skip: number,
+    syncTimeout: number,
+    reportingEnabled: boolean,
+  ): VirtualPeriodicSyncState {
+    const sync: VirtualPeriodicSyncState = {
+      ...info,
+      syncHandle: this.allocateSyncHandle(),
+      skip,
+      syncTimeout,
+      reportingEnabled,
+    };
+    this.periodicSyncs.set(sync.syncHandle, sync);
+    this.superviseSync(sync);
+    return sync;
+  }
+
+  private isSyncedTo(advertisingSid: number, addressType: number, address: Address): boolean {
+    const id = addressId(addressType, address);
+    return this.getPeriodicSyncs().some((sync) => sync.advertisingSid === advertisingSid &&
+      addressId(sync.advertiserAddressType, sync.advertiserAddress) === id);
+  }
+
+  private allocateSyncHandle(): number {
+    while (this.periodicSyncs.has(this.nextSyncHandle)) {
+      this.nextSyncHandle = (this.nextSyncHandle + 1) & 0x0EFF;
+    }
+    const syncHandle = this.nextSyncHandle;
+    this.nextSyncHandle = (this.nextSyncHandle + 1) & 0x0EFF;
+    return syncHandle;
+  }
+
+  // Sync is lost when no train is received within the sync timeout
+  private superviseSync(sync: VirtualPeriodicSyncState): void {
+    const timer = this.periodicSyncTimers.get(sync.syncHandle);
+    if (timer) {
+      clearTimeout(timer);
+    }
+    this.periodicSyncTimers.set(sync.syncHandle, setTimeout(() => {
+      this.periodicSyncTimers.delete(sync.syncHandle);
+      this.periodicSyncs.delete(sync.syncHandle);
+      this.sendEvent(VirtualControllerEvents.lePeriodicAdvertisingSyncLost(sync.syncHandle));
+      this.emit('state');
+    }, sync.syncTimeout * 10));
+  }
+
+  private terminatePeriodicSync(syncHandle: number): void {
+    const timer = this.periodicSyncTimers.get(syncHandle);
+    if (timer) {
+      clearTimeout(timer);
+      this.periodicSyncTimers.delete(syncHandle);
+    }
+    this.periodicSyncs.delete(syncHandle);
+  }
+
+  private getCig(cigId: number): VirtualCisState[] {
+    return this.getCisConnections().filter((cis) => cis.role === VirtualControllerRole.Central && cis.cigId === cigId);
+  }
+
+  // Central keeps the handle assigned by Set CIG Parameters
+  private releaseCis(cis: VirtualCisState): void {
+    cis.dataPaths = 0;
+    if (cis.role === VirtualControllerRole.Central) {
+      cis.status = VirtualCisStatus.Configured;
+      cis.aclConnectionHandle = null;
+    } else {
+      this.cisConnections.delete(cis.connectionHandle);
+    }
+  }
+
+  // Streams carrying ISO data, CISes once established
+  private getIsoStream(connectionHandle: number): VirtualCisState | VirtualBis | null {
+    const cis = this.cisConnections.get(connectionHandle);
+    if (cis) {
+      return cis.status === VirtualCisStatus.Established ? cis : null;
+    }
+    return this.bisConnections.get(connectionHandle) ?? null;
+  }
+
+  private removeBig(big: VirtualBigState): void {
+    for (const bis of big.bis) {
+      this.bisConnections.delete(bis.connectionHandle);
+    }
+    this.bigs.delete(big.bigHandle);
+  }
+
+  private allocateConnectionHandle(): number {
+    while (this.connections.has(this.nextConnectionHandle) || this.cisConnections.has(this.nextConnectionHandle) ||
+           this.bisConnections.has(this.nextConnectionHandle)) {
+      this.nextConnectionHandle = (this.nextConnectionHandle + 1) & 0x0EFF;
+    }
+    const connectionHandle = this.nextConnectionHandle;
+    this.nextConnectionHandle = (this.nextConnectionHandle + 1) & 0x0EFF;
+    return connectionHandle;
+  }
+
+  private legacyReportEventType(eventProperties: number): number | null {
+    if ((eventProperties & 0x10) === 0) {
+      return null;
+    }
+    if (eventProperties & 0x08) {
+      return 0x04; // SCAN_RSP
+    }
+    if (eventProperties & 0x04) {
+      return 0x01; // ADV_DIRECT_IND
+    }
+    if (eventProperties & 0x01) {
+      return 0x00; // ADV_IND
+    }
+    if (eventProperties & 0x02) {
+      return 0x02; // ADV_SCAN_IND
+    }
+    return 0x03; // ADV_NONCONN_IND
+  }
+
+  private static defaultScanner(): VirtualScanner {
+    return {
+      enabled:          false,
+      ownAddressType:   0,
+      filterPolicy:     0,
+      filterDuplicates: 0,
+      duration:         0,
+      period:           0,
+      phys:             [{ phy: 1, type: 0, interval: 0x0010, window: 0x0010 }],
+    };
+  }
+
+  private static defaultAdvertisingSet(advertisingHandle: number): VirtualAdvertisingSet {
+    return {
+      advertisingHandle,
+      eventProperties:     LegacyEventProperties[0],
+      intervalMin:         0x0800,
+      intervalMax:         0x0800,
+      channelMap:          0x07,
+      ownAddressType:      0,
+      peerAddressType:     0,
+      peerAddress:         Address.from(0),
+      filterPolicy:        0,
+      txPower:             0,
+      primaryPhy:          1,
+      secondaryPhy:        1,
+      advertisingSid:      0,
+      randomAddress:       null,
+      data:                Buffer.alloc(0),
+      scanResponseData:    Buffer.alloc(0),
+      enabled:             false,
+      duration:            0,
+      maxEvents:           0,
+      numEvents:           0,
+      periodicIntervalMin: 0,
+      periodicIntervalMax: 0,
+      periodicProperties:  0,
+      periodicConfigured:  false,
+      periodicData:        Buffer.alloc(0),
+      periodicEnabled:     false,
+    };
+  }
+
+  private static validConnectionParameters(
+    intervalMin: number,
+    intervalMax: number,
+    latency: number,
+    timeout: number,
+  ): boolean {
+    if (intervalMin < 0x0006 || intervalMax > 0x0C80 || intervalMin > intervalMax) {
+      return false;
+    }
+    if (latency > 0x01F3 || timeout < 0x000A || timeout > 0x0C80) {
+      return false;
+    }
+    // Supervision timeout (10 ms) has to be larger than (1 + latency) * interval (1.25 ms) * 2
+    return timeout * 4 > (1 + latency) * intervalMax;
+  }
+
+  private reset(): void {
+    for (const timer of this.timers) {
+      clearTimeout(timer);
+    }
+    this.timers.clear();
+    this.stopScanTimer();
+    for (const timer of this.advertisingTimers.values()) {
+      clearTimeout(timer);
+    }
+    this.advertisingTimers.clear();
+    for (const timer of this.periodicSyncTimers.values()) {
+      clearTimeout(timer);
+    }
+    this.periodicSyncTimers.clear();
+
+    this.eventMask = DefaultEventMask;
+    this.eventMaskPage2 = 0n;
+    this.leEventMask = DefaultLeEventMask;
+    this.leHostSupported = false;
+    this.hostLeFeatures = 0n;
+    this.api = AdvertisingApi.None;
+    this.randomAddress = null;
+    this.channelMap = 0x1FFFFFFFFFn;
+    this.suggestedMaxTxOctets = 27;
+    this.suggestedMaxTxTime = 328;
+    this.defaultTxPhys = 0;
+    this.defaultRxPhys = 0;
+    this.addressResolutionEnabled = false;
+    this.rpaTimeout = 900;
+    this.controllerToHostFlowControl = 0;
+    this.hostTotalNumAclDataPackets = 0;
+    this.defaultSyncTransferParameters = { mode: 0, skip: 0, syncTimeout: 0 };
+
+    this.advertisingSets.clear();
+    this.scanner = VirtualController.defaultScanner();
+    this.initiator = null;
+    this.connections.clear();
+    this.periodicSyncRequest = null;
+    this.periodicSyncs.clear();
+    this.filterList = [];
+    this.resolvingList = [];
+    this.periodicAdvertiserList = [];
+    this.cisConnections.clear();
+    this.bigs.clear();
+    this.bisConnections.clear();
+    this.bigSyncRequests.clear();
+
+    this.nextConnectionHandle = 0;
+    this.nextSyncHandle = 0;
+    this.reportedDuplicates.clear();
+    this.completedPackets.clear();
+    this.hostAclPending.clear();
+    this.hostAclQueue = [];
+
+    this.emit('state');
+  }
+
+  private isAdvertising(): boolean {
+    return this.getAdvertisingSets().some((set) => set.enabled);
+  }
+
+  private filterListInUse(): boolean {
+    const advertising = this.getAdvertisingSets().some((set) => set.enabled && set.filterPolicy !== 0);
+    const scanning = this.scanner.enabled && (this.scanner.filterPolicy & 1) !== 0;
+    const initiating = this.initiator !== null && this.initiator.filterPolicy !== 0;
+    return advertising || scanning || initiating;
+  }
+
+  private resolvingListInUse(): boolean {
+    return this.addressResolutionEnabled && (this.isAdvertising() || this.scanner.enabled || this.initiator !== null);
+  }
+
+  private stopScanTimer(): void {
+    if (this.scanTimer) {
+      clearTimeout(this.scanTimer);
+      this.scanTimer = null;
+    }
+  }
+
+  private startAdvertising(set: VirtualAdvertisingSet, duration: number, maxEvents: number): void {
+    set.enabled = true;
+    set.duration = duration;
+    set.maxEvents = maxEvents;
+    set.numEvents = 0;
+
+    const timer = this.advertisingTimers.get(set.advertisingHandle);
+    if (timer) {
+      clearTimeout(timer);
+      this.advertisingTimers.delete(set.advertisingHandle);
+    }
+
+    const highDutyCycle = (set.eventProperties & 0x1C) === 0x1C;
+    if (this.api === AdvertisingApi.Legacy && highDutyCycle) {
+      // High duty cycle directed advertising ends after 1.28 s
+      this.advertisingTimers.set(set.advertisingHandle, setTimeout(() => {
+        this.advertisingTimers.delete(set.advertisingHandle);
+        set.enabled = false;
+        this.sendConnectionComplete(HciErrorCode.AdvertisingTimeout, {
+          connectionHandle:     0,
+          role:                 VirtualControllerRole.Peripheral,
+          peerAddressType:      set.peerAddressType,
+          peerAddress:          set.peerAddress,
+          connectionInterval:   0,
+          connectionLatency:    0,
+          supervisionTimeout:   0,
+          masterClockAccuracy:  0,
+        });
+        this.emit('state');
+      }, 1280));
+    } else if (this.api === AdvertisingApi.Extended && duration > 0) {
+      this.advertisingTimers.set(set.advertisingHandle, setTimeout(() => {
+        this.advertisingTimers.delete(set.advertisingHandle);
+        set.enabled = false;
+        this.sendEvent(VirtualControllerEvents.leAdvertisingSetTerminated(
+          HciErrorCode.AdvertisingTimeout, set.advertisingHandle, 0, 0
+        ));
+        this.emit('state');
+      }, duration * 10));
+    }
+  }
+
+  private stopAdvertising(set: VirtualAdvertisingSet): void {
+    set.enabled = false;
+    const timer = this.advertisingTimers.get(set.advertisingHandle);
+    if (timer) {
+      clearTimeout(timer);
+      this.advertisingTimers.delete(set.advertisingHandle);
+    }
+  }
+
+  private register(ogf: HciOgf, ocf: number, cmd: CommandDefinition): void {
+    this.commands.set(HciOpcode.build({ ogf, ocf }), cmd);
+  }
+
+  private registerCommands(): void {
+    const LinkControl = HciOcfLinkControlCommands;
+    const ControlAndBaseband = HciOcfControlAndBasebandCommands;
+    const Information = HciOcfInformationParameters;
+    const Status = HciOcfStatusParameters;
+    const Le = HciOcfLeControllerCommands;
+
+    // Link Control
+
+    this.register(HciOgf.LinkControlCommands, LinkControl.Disconnect, {
+      name: 'disconnect', length: 3, status: true, handler: this.disconnect,
+    });
+    this.register(HciOgf.LinkControlCommands, LinkControl.ReadRemoteVersionInformation, {
+      name: 'readRemoteVersionInformation', length: 2, status: true, handler: this.readRemoteVersionInformation,
+    });
+
+    // Control and Baseband
+
+    this.register(HciOgf.ControlAndBasebandCommands, ControlAndBaseband.SetEventMask, {
+      name: 'setEventMask', length: 8, handler: this.setEventMask,
+    });
+    this.register(HciOgf.ControlAndBasebandCommands, ControlAndBaseband.Reset, {
+      name: 'reset', length: 0, handler: this.onReset,
+    });
+    this.register(HciOgf.ControlAndBasebandCommands, ControlAndBaseband.ReadTransmitPowerLevel, {
+      name: 'readTransmitPowerLevel', length: 3, handler: this.readTransmitPowerLevel,
+    });
+    this.register(HciOgf.ControlAndBasebandCommands, ControlAndBaseband.SetControllerToHostFlowControl, {
+      name: 'setControllerToHostFlowControl', length: 1, handler: this.setControllerToHostFlowControl,
+    });
+    this.register(HciOgf.ControlAndBasebandCommands, ControlAndBaseband.HostBufferSize, {
+      name: 'hostBufferSize', length: 7, handler: this.hostBufferSize,
+    });
+    this.register(HciOgf.ControlAndBasebandCommands, ControlAndBaseband.HostNumberOfCompletedPackets, {
+      name: 'hostNumberOfCompletedPackets', length: (p) => p.length >= 1 && p.length === 1 + p[0] * 4,
+      noResponse: true, handler: this.hostNumberOfCompletedPackets,
+    });
+    this.register(HciOgf.ControlAndBasebandCommands, ControlAndBaseband.SetEventMaskPage2, {
+      name: 'setEventMaskPage2', length: 8, handler: this.setEventMaskPage2,
+    });
+    this.register(HciOgf.ControlAndBasebandCommands, ControlAndBaseband.ReadLeHostSupport, {
+      name: 'readLeHostSupport', length: 0, handler: this.readLeHostSupport,
+    });
+    this.register(HciOgf.ControlAndBasebandCommands, ControlAndBaseband.WriteLeHostSupport, {
+      name: 'writeLeHostSupport', length: 2, handler: this.writeLeHostSupport,
+    });
+    this.register(HciOgf.ControlAndBasebandCommands, ControlAndBaseband.ReadAuthenticatedPayloadTimeout, {
+      name: 'readAuthenticatedPayloadTimeout', length: 2, handler: this.readAuthenticatedPayloadTimeout,
+    });
+    this.register(HciOgf.ControlAndBasebandCommands, ControlAndBaseband.WriteAuthenticatedPayloadTimeout, {
+      name: 'writeAuthenticatedPayloadTimeout', length: 4, handler: this.writeAuthenticatedPayloadTimeout,
+    });
+
+    // Information Parameters
+
+    this.register(HciOgf.InformationParameters, Information.ReadLocalVersionInformation, {
+      name: 'readLocalVersionInformation', length: 0, handler: this.readLocalVersionInformation,
+    });
+    this.register(HciOgf.InformationParameters, Information.ReadLocalSupportedCommands, {
+      length: 0, handler: this.readLocalSupportedCommands,
+    });
+    this.register(HciOgf.InformationParameters, Information.ReadLocalSupportedFeatures, {
+      name: 'readLocalSupportedFeatures', length: 0, handler: this.readLocalSupportedFeatures,
+    });
+    this.register(HciOgf.InformationParameters, Information.ReadBufferSize, {
+      name: 'readBufferSize', length: 0, handler: this.readBufferSize,
+    });
+    this.register(HciOgf.InformationParameters, Information.ReadBdAddr, {
+      name: 'readBdAddr', length: 0, handler: this.readBdAddr,
+    });
+
+    // Status Parameters
+
+    this.register(HciOgf.StatusParameters, Status.ReadRssi, {
+      name: 'readRssi', length: 2, handler: this.readRssi,
+    });
+
+    // LE Controller
+
+    this.register(HciOgf.LeControllerCommands, Le.SetEventMask, {
+      name: 'leSetEventMask', length: 8, handler: this.leSetEventMask,
+    });
+    this.register(HciOgf.LeControllerCommands, Le.ReadBufferSizeV1, {
+      name: 'leReadBufferSizeV1', length: 0, handler: this.leReadBufferSizeV1,
+    });
+    this.register(HciOgf.LeControllerCommands, Le.ReadBufferSizeV2, {
+      name: 'leReadBufferSizeV2', length: 0, handler: this.leReadBufferSizeV2,
+    });
+    this.register(HciOgf.LeControllerCommands, Le.ReadLocalSupportedFeatures, {
+      name: 'leReadLocalSupportedFeatures', length: 0, handler: this.leReadLocalSupportedFeatures,
+    });
+    this.register(HciOgf.LeControllerCommands, Le.SetRandomAddress, {
+      name: 'leSetRandomAddress', length: 6, handler: this.leSetRandomAddress,
+    });
+    this.register(HciOgf.LeControllerCommands, Le.SetAdvertisingParameters, {
+      name: 'leSetAdvertisingParameters', length: 15, api: AdvertisingApi.Legacy,
+      handler: this.leSetAdvertisingParameters,
+    });
+    this.register(HciOgf.LeControllerCommands, Le.ReadAdvertisingPhysicalChannelTxPower, {
+      name: 'leReadAdvertisingPhysicalChannelTxPower', length: 0, api: AdvertisingApi.Legacy,
+      handler: this.leReadAdvertisingPhysicalChannelTxPower,
+    });
+    this.register(HciOgf.LeControllerCommands, Le.SetAdvertisingData, {
+      name: 'leSetAdvertisingData', length: 32, api: AdvertisingApi.Legacy,
+      handler: (params) => this.leSetLegacyData(params, 'data'),
+    });
+    this.register(HciOgf.LeControllerCommands, Le.SetScanResponseData, {
+      name: 'leSetScanResponseData', length: 32, api: AdvertisingApi.Legacy,
+      handler: (params) => this.leSetLegacyData(params, 'scanResponseData'),
+    });
+    this.register(HciOgf.LeControllerCommands, Le.SetAdvertisingEnable, {
+      name: 'leSetAdvertisingEnable', length: 1, api: AdvertisingApi.Legacy,
+      handler: this.leSetAdvertisingEnable,
+    });
+    this.register(HciOgf.LeControllerCommands, Le.SetScanParameters, {
+      name: 'leSetScanParameters', length: 7, api: AdvertisingApi.Legacy,
+      handler: this.leSetScanParameters,
+    });
+    this.register(HciOgf.LeControllerCommands, Le.SetScanEnable, {
+      name: 'leSetScanEnable', length: 2, api: AdvertisingApi.Legacy,
+      handler: this.leSetScanEnable,
+    });
+    this.register(HciOgf.LeControllerCommands, Le.CreateConnection, {
+      name: 'leCreateConnection', length: 25, api: AdvertisingApi.Legacy, status: true,
+      handler: this.leCreateConnection,
+    });
+    this.register(HciOgf.LeControllerCommands, Le.CreateConnectionCancel, {
+      name: 'leCreateConnectionCancel', length: 0, handler: this.leCreateConnectionCancel,
+    });
+    this.register(HciOgf.LeControllerCommands, Le.ReadWhiteListSize, {
+      name: 'leReadWhiteListSize', length: 0, handler: this.leReadWhiteListSize,
+    });
+    this.register(HciOgf.LeControllerCommands, Le.ClearWhiteList, {
+      name: 'leClearWhiteList', length: 0, handler: this.leClearWhiteList,
+    });
+    this.register(HciOgf.LeControllerCommands, Le.AddDeviceToWhiteList, {
+      name: 'leAddDeviceToWhiteList', length: 7, handler: this.leAddDeviceToWhiteList,
+    });
+    this.register(HciOgf.LeControllerCommands, Le.RemoveDeviceFromWhiteList, {
+      name: 'leRemoveDeviceFromWhiteList', length: 7, handler: this.leRemoveDeviceFromWhiteList,
+    });
+    this.register(HciOgf.LeControllerCommands, Le.ConnectionUpdate, {
+      name: 'leConnectionUpdate', length: 14, status: true, handler: this.leConnectionUpdate,
+    });
+    this.register(HciOgf.LeControllerCommands, Le.SetHostChannelClassification, {
+      name: 'leSetHostChannelClassification', length: 5, handler: this.leSetHostChannelClassification,
+    });
+    this.register(HciOgf.LeControllerCommands, Le.ReadChannelMap, {
+      name: 'leReadChannelMap', length: 2, handler: this.leReadChannelMap,
+    });
+    this.register(HciOgf.LeControllerCommands, Le.ReadRemoteFeatures, {
+      name: 'leReadRemoteFeatures', length: 2, status: true, handler: this.leReadRemoteFeatures,
+    });
+    this.register(HciOgf.LeControllerCommands, Le.Encrypt, {
+      name: 'leEncrypt', length: 32, handler: this.leEncrypt,
+    });
+    this.register(HciOgf.LeControllerCommands, Le.Rand, {
+      name: 'leRand', length: 0, handler: this.leRand,
+    });
+    this.register(HciOgf.LeControllerCommands, Le.ReadSupportedStates, {
+      name: 'leReadSupportedStates', length: 0, handler: this.leReadSupportedStates,
+    });
+    this.register(HciOgf.LeControllerCommands, Le.SetDataLength, {
+      name: 'leSetDataLength', length: 6, handler: this.leSetDataLength,
+    });
+    this.register(HciOgf.LeControllerCommands, Le.ReadSuggestedDefaultDataLength, {
+      name: 'leReadSuggestedDefaultDataLength', length: 0, handler: this.leReadSuggestedDefaultDataLength,
+    });
+    this.register(HciOgf.LeControllerCommands, Le.WriteSuggestedDefaultDataLength, {
+      name: 'leWriteSuggestedDefaultDataLength', length: 4, handler: this.leWriteSuggestedDefaultDataLength,
+    });
+    this.register(HciOgf.LeControllerCommands, Le.AddDeviceToResolvingList, {
+      name: 'leAddDeviceToResolvingList', length: 39, handler: this.leAddDeviceToResolvingList,
+    });
+    this.register(HciOgf.LeControllerCommands, Le.RemoveDeviceFromResolvingList, {
+      name: 'leRemoveDeviceFromResolvingList', length: 7, handler: this.leRemoveDeviceFromResolvingList,
+    });
+    this.register(HciOgf.LeControllerCommands, Le.ClearResolvingList, {
+      name: 'leClearResolvingList', length: 0, handler: this.leClearResolvingList,
+    });
+    this.register(HciOgf.LeControllerCommands, Le.ReadResolvingListSize, {
+      name: 'leReadResolvingListSize', length: 0, handler: this.leReadResolvingListSize,
+    });
+    this.register(HciOgf.LeControllerCommands, Le.SetAddressResolutionEnable, {
+      name: 'leSetAddressResolutionEnable', length: 1, handler: this.leSetAddressResolutionEnable,
+    });
+    this.register(HciOgf.LeControllerCommands, Le.SetResolvablePrivateAddressTimeout, {
+      name: 'leSetResolvablePrivateAddressTimeout', length: 2, handler: this.leSetResolvablePrivateAddressTimeout,
+    });
+    this.register(HciOgf.LeControllerCommands, Le.ReadMaximumDataLength, {
+      name: 'leReadMaximumDataLength', length: 0, handler: this.leReadMaximumDataLength,
+    });
+    this.register(HciOgf.LeControllerCommands, Le.ReadPhy, {
+      name: 'leReadPhy', length: 2, handler: this.leReadPhy,
+    });
+    this.register(HciOgf.LeControllerCommands, Le.SetDefaultPhy, {
+      name: 'leSetDefaultPhy', length: 3, handler: this.leSetDefaultPhy,
+    });
+    this.register(HciOgf.LeControllerCommands, Le.SetPhy, {
+      name: 'leSetPhy', length: 7, status: true, handler: this.leSetPhy,
+    });
+    this.register(HciOgf.LeControllerCommands, Le.SetAdvertisingSetRandomAddress, {
+      name: 'leSetAdvertisingSetRandomAddress', length: 7, api: AdvertisingApi.Extended,
+      handler: this.leSetAdvertisingSetRandomAddress,
+    });
+    this.register(HciOgf.LeControllerCommands, Le.SetExtendedAdvertisingParameters, {
+      name: 'leSetExtendedAdvertisingParameters', length: 25, api: AdvertisingApi.Extended,
+      handler: this.leSetExtendedAdvertisingParameters,
+    });
+    this.register(HciOgf.LeControllerCommands, Le.SetExtendedAdvertisingData, {
+      name: 'leSetExtendedAdvertisingData', length: (p) => p.length >= 4 && p.length === 4 + p[3],
+      api: AdvertisingApi.Extended, handler: (params) => this.leSetExtendedData(params, 'data'),
+    });
+    this.register(HciOgf.LeControllerCommands, Le.SetExtendedScanResponseData, {
+      name: 'leSetExtendedScanResponseData', length: (p) => p.length >= 4 && p.length === 4 + p[3],
+      api: AdvertisingApi.Extended, handler: (params) => this.leSetExtendedData(params, 'scanResponseData'),
+    });
+    this.register(HciOgf.LeControllerCommands, Le.SetExtendedAdvertisingEnable, {
+      name: 'leSetExtendedAdvertisingEnable', length: (p) => p.length >= 2 && p.length === 2 + p[1] * 4,
+      api: AdvertisingApi.Extended, handler: this.leSetExtendedAdvertisingEnable,
+    });
+    this.register(HciOgf.LeControllerCommands, Le.ReadMaximumAdvertisingDataLength, {
+      name: 'leReadMaximumAdvertisingDataLength', length: 0, api: AdvertisingApi.Extended,
+      handler: this.leReadMaximumAdvertisingDataLength,
+    });
+    this.register(HciOgf.LeControllerCommands, Le.ReadNumberOfSupportedAdvertisingSets, {
+      name: 'leReadNumberOfSupportedAdvertisingSets', length: 0, api: AdvertisingApi.Extended,
+      handler: this.leReadNumberOfSupportedAdvertisingSets,
+    });
+    this.register(HciOgf.LeControllerCommands, Le.RemoveAdvertisingSet, {
+      name: 'leRemoveAdvertisingSet', length: 1, api: AdvertisingApi.Extended,
+      handler: this.leRemoveAdvertisingSet,
+    });
+    this.register(HciOgf.LeControllerCommands, Le.ClearAdvertisingSets, {
+      name: 'leClearAdvertisingSets', length: 0, api: AdvertisingApi.Extended,
+      handler: this.leClearAdvertisingSets,
+    });
+    this.register(HciOgf.LeControllerCommands, Le.SetPeriodicAdvertisingParameters, {
+      name: 'leSetPeriodicAdvertisingParameters', length: 7, api: AdvertisingApi.Extended,
+      handler: this.leSetPeriodicAdvertisingParameters,
+    });
+    this.register(HciOgf.LeControllerCommands, Le.SetPeriodicAdvertisingData, {
+      name: 'leSetPeriodicAdvertisingData', length: (p) => p.length >= 3 && p.length === 3 + p[2],
+      api: AdvertisingApi.Extended, handler: this.leSetPeriodicAdvertisingData,
+    });
+    this.register(HciOgf.LeControllerCommands, Le.SetPeriodicAdvertisingEnable, {
+      name: 'leSetPeriodicAdvertisingEnable', length: 2, api: AdvertisingApi.Extended,
+      handler: this.leSetPeriodicAdvertisingEnable,
+    });
+    this.register(HciOgf.LeControllerCommands, Le.PeriodicAdvertisingCreateSync, {
+      name: 'lePeriodicAdvertisingCreateSync', length: 14, api: AdvertisingApi.Extended, status: true,
+      handler: this.lePeriodicAdvertisingCreateSync,
+    });
+    this.register(HciOgf.LeControllerCommands, Le.PeriodicAdvertisingCreateSyncCancel, {
+      name: 'lePeriodicAdvertisingCreateSyncCancel', length: 0, api: AdvertisingApi.Extended,
+      handler: this.lePeriodicAdvertisingCreateSyncCancel,
+    });
+    this.register(HciOgf.LeControllerCommands, Le.PeriodicAdvertisingTerminateSync, {
+      name: 'lePeriodicAdvertisingTerminateSync', length: 2, api: AdvertisingApi.Extended,
+      handler: this.lePeriodicAdvertisingTerminateSync,
+    });
+    this.register(HciOgf.LeControllerCommands, Le.AddDeviceToPeriodicAdvertiserList, {
+      name: 'leAddDeviceToPeriodicAdvertiserList', length: 8, handler: this.leAddDeviceToPeriodicAdvertiserList,
+    });
+    this.register(HciOgf.LeControllerCommands, Le.RemoveDeviceFromPeriodicAdvertiserList, {
+      name: 'leRemoveDeviceFromPeriodicAdvertiserList', length: 8,
+      handler: this.leRemoveDeviceFromPeriodicAdvertiserList,
+    });
+    this.register(HciOgf.LeControllerCommands, Le.ClearPeriodicAdvertiserList, {
+      name: 'leClearPeriodicAdvertiserList', length: 0, handler: this.leClearPeriodicAdvertiserList,
+    });
+    this.register(HciOgf.LeControllerCommands, Le.ReadPeriodicAdvertiserListSize, {
+      name: 'leReadPeriodicAdvertiserListSize', length: 0, handler: this.leReadPeriodicAdvertiserListSize,
+    });
+    this.register(HciOgf.LeControllerCommands, Le.PeriodicAdvertisingSyncTransfer, {
+      name: 'lePeriodicAdvertisingSyncTransfer', length: 6, handler: this.lePeriodicAdvertisingSyncTransfer,
+    });
+    this.register(HciOgf.LeControllerCommands, Le.PeriodicAdvertisingSetInfoTransfer, {
+      name: 'lePeriodicAdvertisingSetInfoTransfer', length: 5, handler: this.lePeriodicAdvertisingSetInfoTransfer,
+    });
+    this.register(HciOgf.LeControllerCommands, Le.SetPeriodicAdvertisingSyncTransferParameters, {
+      name: 'leSetPeriodicAdvertisingSyncTransferParameters', length: 8,
+      handler: this.leSetPeriodicAdvertisingSyncTransferParameters,
+    });
+    this.register(HciOgf.LeControllerCommands, Le.SetDefaultPeriodicAdvertisingSyncTransferParameters, {
+      name: 'leSetDefaultPeriodicAdvertisingSyncTransferParameters', length: 6,
+      handler: this.leSetDefaultPeriodicAdvertisingSyncTransferParameters,
+    });
+    this.register(HciOgf.LeControllerCommands, Le.SetExtendedScanParameters, {
+      name: 'leSetExtendedScanParameters', length: (p) => p.length >= 3 && p.length === 3 + this.bitCount(p[2]) * 5,
+      api: AdvertisingApi.Extended, handler: this.leSetExtendedScanParameters,
+    });
+    this.register(HciOgf.LeControllerCommands, Le.SetExtendedScanEnable, {
+      name: 'leSetExtendedScanEnable', length: 6, api: AdvertisingApi.Extended,
+      handler: this.leSetExtendedScanEnable,
+    });
+    this.register(HciOgf.LeControllerCommands, Le.ExtendedCreateConnection, {
+      name: 'leExtendedCreateConnection', length: (p) => p.length >= 10 && p.length === 10 + this.bitCount(p[9]) * 16,
+      api: AdvertisingApi.Extended, status: true, handler: this.leExtendedCreateConnection,
+    });
+    this.register(HciOgf.LeControllerCommands, Le.ReadTransmitPower, {
+      name: 'leReadTransmitPower', length: 0, handler: this.leReadTransmitPower,
+    });
+    this.register(HciOgf.LeControllerCommands, Le.SetPrivacyMode, {
+      name: 'leSetPrivacyMode', length: 8, handler: this.leSetPrivacyMode,
+    });
+    this.register(HciOgf.LeControllerCommands, Le.SetHostFeature, {
+      name: 'leSetHostFeature', length: 2, handler: this.leSetHostFeature,
+    });
+    this.register(HciOgf.LeControllerCommands, Le.SetCigParameters, {
+      name: 'leSetCigParameters', length: (p) => p.length >= 15 && p.length === 15 + p[14] * 9,
+      handler: this.leSetCigParameters,
+    });
+    this.register(HciOgf.LeControllerCommands, Le.CreateCis, {
+      name: 'leCreateCis', length: (p) => p.length >= 1 && p.length === 1 + p[0] * 4, status: true,
+      handler: this.leCreateCis,
+    });
+    this.register(HciOgf.LeControllerCommands, Le.RemoveCig, {
+      name: 'leRemoveCig', length: 1, handler: this.leRemoveCig,
+    });
+    this.register(HciOgf.LeControllerCommands, Le.AcceptCisRequest, {
+      name: 'leAcceptCisRequest', length: 2, status: true, handler: this.leAcceptCisRequest,
+    });
+    this.register(HciOgf.LeControllerCommands, Le.RejectCisRequest, {
+      name: 'leRejectCisRequest', length: 3, handler: this.leRejectCisRequest,
+    });
+    this.register(HciOgf.LeControllerCommands, Le.SetupIsoDataPath, {
+      name: 'leSetupIsoDataPath', length: (p) => p.length >= 13 && p.length === 13 + p[12],
+      handler: this.leSetupIsoDataPath,
+    });
+    this.register(HciOgf.LeControllerCommands, Le.RemoveIsoDataPath, {
+      name: 'leRemoveIsoDataPath', length: 3, handler: this.leRemoveIsoDataPath,
+    });
+    this.register(HciOgf.LeControllerCommands, Le.CreateBig, {
+      name: 'leCreateBig', length: 31, status: true, handler: this.leCreateBig,
+    });
+    this.register(HciOgf.LeControllerCommands, Le.TerminateBig, {
+      name: 'leTerminateBig', length: 2, status: true, handler: this.leTerminateBig,
+    });
+    this.register(HciOgf.LeControllerCommands, Le.BigCreateSync, {
+      name: 'leBigCreateSync', length: (p) => p.length >= 24 && p.length === 24 + p[23], status: true,
+      handler: this.leBigCreateSync,
+    });
+    this.register(HciOgf.LeControllerCommands, Le.BigTerminateSync, {
+      name: 'leBigTerminateSync', length: 1, handler: this.leBigTerminateSync,
+    });
+  }
+
+  private bitCount(value: number): number {
+    let count = 0;
+    for (; value; value >>= 1) {
+      count += value & 1;
+    }
+    return count;
+  }
+
+  // Link Control
+
+  private disconnect = (params: Buffer): HciErrorCode => {
+    const connectionHandle = params.readUInt16LE(0);
+    const reason           = params.readUInt8(2);
+
+    const cis = this.cisConnections.get(connectionHandle);
+    const isCis = cis?.status === VirtualCisStatus.Established;
+    if (!this.connections.has(connectionHandle) && !isCis) {
+      return HciErrorCode.UnknownConnectionId;
+    }
+    const allowedReasons = [
+      HciErrorCode.AuthFailure,
+      HciErrorCode.ConnTerminatedByRemoteUser,
+      HciErrorCode.ConnTerminatedLowResources,
+      HciErrorCode.ConnTerminatedPowerOff,
+      HciErrorCode.UnsupportedFeature,
+      HciErrorCode.UnitKeyNotSupported,
+      HciErrorCode.ConnectionParameters,
+    ];
+    if (!allowedReasons.includes(reason)) {
+      return HciErrorCode.InvalidCommandParameter;
+    }
+
+    this.defer(() => {
+      if (this.connections.has(connectionHandle)) {
+        this.emit('disconnect', connectionHandle, reason);
+        this.terminateConnection(connectionHandle, HciErrorCode.ConnTerminatedByHost);
+      } else if (isCis && this.cisConnections.get(connectionHandle) === cis) {
+        this.emit('disconnect', connectionHandle, reason);
+        this.terminateCis(connectionHandle, HciErrorCode.ConnTerminatedByHost);
+      }
+    });
+    return HciErrorCode.Success;
+  }
+
+  private readRemoteVersionInformation = (params: Buffer): HciErrorCode => {
+    const connectionHandle = params.readUInt16LE(0);
+    const connection = this.connections.get(connectionHandle);
+    if (!connection) {
+      return HciErrorCode.UnknownConnectionId;
+    }
+    this.defer(() => {
+      const { version, manufacturerName, subversion } = connection.remoteVersion;
+      this.sendEvent(VirtualControllerEvents.readRemoteVersionInformationComplete(
+        HciErrorCode.Success, connectionHandle, version, manufacturerName, subversion
+      ));
+    });
+    return HciErrorCode.Success;
+  }
+
+  // Control and Baseband
+
+  private setEventMask = (params: Buffer): HciErrorCode => {
+    this.eventMask = params.readBigUInt64LE(0);
+    return HciErrorCode.Success;
+  }
+
+  private onReset = (): HciErrorCode => {
+    this.reset();
+    return HciErrorCode.Success;
+  }
+
+  private readTransmitPowerLevel = (params: Buffer): Buffer => {
+    const connectionHandle = params.readUInt16LE(0);
+    const type             = params.readUInt8(2);
+
+    if (!this.connections.has(connectionHandle)) {
+      return connectionResult(HciErrorCode.UnknownConnectionId, connectionHandle, 1);
+    }
+    if (type > 1) {
+      return connectionResult(HciErrorCode.InvalidCommandParameter, connectionHandle, 1);
+    }
+    const result = connectionResult(HciErrorCode.Success, connectionHandle, 1);
+    result.writeInt8(0, 3);
+    return result;
+  }
+
+  private setControllerToHostFlowControl = (params: Buffer): HciErrorCode => {
+    const enable = params.readUInt8(0);
+    if (enable > 3) {
+      return HciErrorCode.InvalidCommandParameter;
+    }
+    this.controllerToHostFlowControl = enable;
+    this.hostAclPending.clear();
+    this.flushHostAcl();
+    return HciErrorCode.Success;
+  }
+
+  private hostBufferSize = (params: Buffer): HciErrorCode => {
+    this.hostTotalNumAclDataPackets = params.readUInt16LE(3);
+    return HciErrorCode.Success;
+  }
+
+  private hostNumberOfCompletedPackets = (params: Buffer): HciErrorCode => {
+    for (let i = 0, o = 1; i < params[0]; i++, o += 4) {
+      const connectionHandle = params.readUInt16LE(o);
+      const completed        = params.readUInt16LE(o + 2);
+      const pending          = this.hostAclPending.get(connectionHandle) ?? 0;
+      this.hostAclPending.set(connectionHandle, Math.max(0, pending - completed));
+    }
+    this.flushHostAcl();
+    return HciErrorCode.Success;
+  }
+
+  private setEventMaskPage2 = (params: Buffer): HciErrorCode => {
+    this.eventMaskPage2 = params.readBigUInt64LE(0);
+    return HciErrorCode.Success;
+  }
+
+  private readLeHostSupport = (): Buffer => {
+    const result = returnParameters(HciErrorCode.Success, 2);
+    result.writeUInt8(this.leHostSupported ? 1 : 0, 1);
+    result.writeUInt8(0, 2);
+    return result;
+  }
+
+  private writeLeHostSupport = (params: Buffer): HciErrorCode => {
+    this.leHostSupported = params.readUInt8(0) !== 0;
+    return HciErrorCode.Success;
+  }
+
+  private readAuthenticatedPayloadTimeout = (params: Buffer): Buffer => {
+    const connectionHandle = params.readUInt16LE(0);
+    const connection = this.connections.get(connectionHandle);
+    if (!connection) {
+      return connectionResult(HciErrorCode.UnknownConnectionId, connectionHandle, 2);
+    }
+    const result = connectionResult(HciErrorCode.Success, connectionHandle, 2);
+    result.writeUInt16LE(connection.authenticatedPayloadTimeout, 3);
+    return result;
+  }
+
+  private writeAuthenticatedPayloadTimeout = (params: Buffer): Buffer => {
+    const connectionHandle = params.readUInt16LE(0);
+    const timeout          = params.readUInt16LE(2);
+
+    const connection = this.connections.get(connectionHandle);
+    if (!connection) {
+      return connectionResult(HciErrorCode.UnknownConnectionId, connectionHandle);
+    }
+    if (timeout === 0) {
+      return connectionResult(HciErrorCode.InvalidCommandParameter, connectionHandle);
+    }
+    connection.authenticatedPayloadTimeout = timeout;
+    return connectionResult(HciErrorCode.Success, connectionHandle);
+  }
+
+  // Information Parameters
+
+  private readLocalVersionInformation = (): Buffer => {
+    const result = returnParameters(HciErrorCode.Success, 8);
+
+    let o = 1;
+    o = result.writeUIntLE(HciVersion,            o, 1);
+    o = result.writeUIntLE(0,                     o, 2);
+    o = result.writeUIntLE(HciVersion,            o, 1);
+    o = result.writeUIntLE(this.manufacturerName, o, 2);
+    o = result.writeUIntLE(0,                     o, 2);
+
+    return result;
+  }
+
+  private readLocalSupportedCommands = (): Buffer => {
+    const result = returnParameters(HciErrorCode.Success, 64);
+    this.supportedCommands.copy(result, 1);
+    return result;
+  }
+
+  private readLocalSupportedFeatures = (): Buffer => {
+    const result = returnParameters(HciErrorCode.Success, 8);
+    result.writeBigUInt64LE(LmpFeatures, 1);
+    return result;
+  }
+
+  private readBufferSize = (): Buffer => {
+    const result = returnParameters(HciErrorCode.Success, 7);
+
+    let o = 1;
+    o = result.writeUIntLE(this.aclDataPacketLength,    o, 2);
+    o = result.writeUIntLE(0,                           o, 1);
+    o = result.writeUIntLE(this.totalNumAclDataPackets, o, 2);
+    o = result.writeUIntLE(0,                           o, 2);
+
+    return result;
+  }
+
+  private readBdAddr = (): Buffer => {
+    const result = returnParameters(HciErrorCode.Success, 6);
+    result.writeUIntLE(this.address.toNumeric(), 1, 6);
+    return result;
+  }
+
+  // Status Parameters
+
+  private readRssi = (params: Buffer): Buffer => {
+    const connectionHandle = params.readUInt16LE(0);
+    if (!this.connections.has(connectionHandle)) {
+      return connectionResult(HciErrorCode.UnknownConnectionId, connectionHandle, 1);
+    }
+    const result = connectionResult(HciErrorCode.Success, connectionHandle, 1);
+    result.writeInt8(-40, 3);
+    return result;
+  }
+
+  // LE Controller
+
+  private leSetEventMask = (params: Buffer): HciErrorCode => {
+    this.leEventMask = params.readBigUInt64LE(0);
+    return HciErrorCode.Success;
+  }
+
+  private leReadBufferSizeV1 = (): Buffer => {
+    const result = returnParameters(HciErrorCode.Success, 3);
+
+    let o = 1;
+    o = result.writeUIntLE(this.aclDataPacketLength,    o, 2);
+    o = result.writeUIntLE(this.totalNumAclDataPackets, o, 1);
+
+    return result;
+  }
+
+  private leReadBufferSizeV2 = (): Buffer => {
+    const result = returnParameters(HciErrorCode.Success, 6);
+
+    let o = 1;
+    o = result.writeUIntLE(this.aclDataPacketLength,    o, 2);
+    o = result.writeUIntLE(this.totalNumAclDataPackets, o, 1);
+    o = result.writeUIntLE(this.isoDataPacketLength,    o, 2);
+    o = result.writeUIntLE(this.totalNumIsoDataPackets, o, 1);
+
+    return result;
+  }
+
+  private leReadLocalSupportedFeatures = (): Buffer => {
+    const result = returnParameters(HciErrorCode.Success, 8);
+    result.writeBigUInt64LE(this.getLeFeatures(), 1);
+    return result;
+  }
+
+  private leSetRandomAddress = (params: Buffer): HciErrorCode => {
+    const legacyAdvertising = this.api === AdvertisingApi.Legacy && this.isAdvertising();
+    if (legacyAdvertising || this.scanner.enabled || this.initiator) {
+      return HciErrorCode.CommandDisallowed;
+    }
+    this.randomAddress = Address.from(params.readUIntLE(0, 6));
+    return HciErrorCode.Success;
+  }
+
+  private leSetAdvertisingParameters = (params: Buffer): HciErrorCode => {
+    let o = 0;
+    const intervalMin     = params.readUIntLE(o, 2); o += 2;
+    const intervalMax     = params.readUIntLE(o, 2); o += 2;
+    const type            = params.readUIntLE(o, 1); o += 1;
+    const ownAddressType  = params.readUIntLE(o, 1); o += 1;
+    const peerAddressType = params.readUIntLE(o, 1); o += 1;
+    const peerAddress     = params.readUIntLE(o, 6); o += 6;
+    const channelMap      = params.readUIntLE(o, 1); o += 1;
+    const filterPolicy    = params.readUIntLE(o, 1); o += 1;
+
+    const set = this.advertisingSets.get(0);
+    if (set?.enabled) {
+      return HciErrorCode.CommandDisallowed;
+    }
+    if (type >= LegacyEventProperties.length || ownAddressType > 3 || peerAddressType > 1 || filterPolicy > 3) {
+      return HciErrorCode.InvalidCommandParameter;
+    }
+    if (channelMap === 0 || channelMap > 7) {
+      return HciErrorCode.InvalidCommandParameter;
+    }
+    const highDutyCycle = type === 1;
+    if (!highDutyCycle && (intervalMin < 0x0020 || intervalMin > intervalMax || intervalMax > 0x4000)) {
+      return HciErrorCode.InvalidCommandParameter;
+    }
+
+    const legacy = set ?? VirtualController.defaultAdvertisingSet(0);
+    legacy.eventProperties = LegacyEventProperties[type];
+    legacy.intervalMin     = intervalMin;
+    legacy.intervalMax     = intervalMax;
+    legacy.channelMap      = channelMap;
+    legacy.ownAddressType  = ownAddressType;
+    legacy.peerAddressType = peerAddressType;
+    legacy.peerAddress     = Address.from(peerAddress);
+    legacy.filterPolicy    = filterPolicy;
+    this.advertisingSets.set(0, legacy);
+
+    return HciErrorCode.Success;
+  }
+
+  private leReadAdvertisingPhysicalChannelTxPower = (): Buffer => {
+    const result = returnParameters(HciErrorCode.Success, 1);
+    result.writeInt8(0, 1);
+    return result;
+  }
+
+  private leSetLegacyData(params: Buffer, field: 'data' | 'scanResponseData'): HciErrorCode {
+    const length = params.readUInt8(0);
+    if (length > 31) {
+      return HciErrorCode.InvalidCommandParameter;
+    }
+    const set = this.advertisingSets.get(0) ?? VirtualController.defaultAdvertisingSet(0);
+    set[field] = Buffer.from(params.subarray(1, 1 + length));
+    this.advertisingSets.set(0, set);
+    this.emit('state');
+    return HciErrorCode.Success;
+  }
+
+  private leSetAdvertisingEnable = (params: Buffer): HciErrorCode => {
+    const enable = params.readUInt8(0);
+    if (enable > 1) {
+      return HciErrorCode.InvalidCommandParameter;
+    }
+
+    const set = this.advertisingSets.get(0) ?? VirtualController.defaultAdvertisingSet(0);
+    this.advertisingSets.set(0, set);
+
+    if (enable) {
+      if (set.enabled) {
+        return HciErrorCode.Success;
+      }
+      if ((set.ownAddressType & 1) && !this.randomAddress) {
+        return HciErrorCode.InvalidCommandParameter;
+      }
+      const connectable = (set.eventProperties & 1) !== 0;
+      const peripherals = this.getConnections().filter((c) => c.role === VirtualControllerRole.Peripheral);
+      if (connectable && peripherals.length > 0) {
+        return HciErrorCode.CommandDisallowed;
+      }
+      this.startAdvertising(set, 0, 0);
+    } else {
+      this.stopAdvertising(set);
+    }
+
+    this.emit('state');
+    return HciErrorCode.Success;
+  }
+
+  private leSetScanParameters = (params: Buffer): HciErrorCode => {
+    let o = 0;
+    const type           = params.readUIntLE(o, 1); o += 1;
+    const interval       = params.readUIntLE(o, 2); o += 2;
+    const window         = params.readUIntLE(o, 2); o += 2;
+    const ownAddressType = params.readUIntLE(o, 1); o += 1;
+    const filterPolicy   = params.readUIntLE(o, 1); o += 1;
+
+    if (this.scanner.enabled) {
+      return HciErrorCode.CommandDisallowed;
+    }
+    if (type > 1 || ownAddressType > 3 || filterPolicy > 3) {
+      return HciErrorCode.InvalidCommandParameter;
+    }
+    if (interval < 0x0004 || interval > 0x4000 || window < 0x0004 || window > interval) {
+      return HciErrorCode.InvalidCommandParameter;
+    }
+
+    this.scanner.ownAddressType = ownAddressType;
+    this.scanner.filterPolicy   = filterPolicy;
+    this.scanner.phys           = [{ phy: 1, type, interval, window }];
+
+    return HciErrorCode.Success;
+  }
+
+  private leSetScanEnable = (params: Buffer): HciErrorCode => {
+    const enable           = params.readUInt8(0);
+    const filterDuplicates = params.readUInt8(1);
+
+    if (enable > 1 || filterDuplicates > 1) {
+      return HciErrorCode.InvalidCommandParameter;
+    }
+    if (enable && !this.scanner.enabled) {
+      if ((this.scanner.ownAddressType & 1) && !this.randomAddress) {
+        return HciErrorCode.InvalidCommandParameter;
+      }
+      this.reportedDuplicates.clear();
+    }
+
+    this.scanner.enabled          = enable === 1;
+    this.scanner.filterDuplicates = filterDuplicates;
+    this.scanner.duration         = 0;
+    this.scanner.period           = 0;
+
+    this.emit('state');
+    return HciErrorCode.Success;
+  }
+
+  private leCreateConnection = (params: Buffer): HciErrorCode => {
+    let o = 0;
+    const scanInterval       = params.readUIntLE(o, 2); o += 2;
+    const scanWindow         = params.readUIntLE(o, 2); o += 2;
+    const filterPolicy       = params.readUIntLE(o, 1); o += 1;
+    const peerAddressType    = params.readUIntLE(o, 1); o += 1;
+    const peerAddress        = params.readUIntLE(o, 6); o += 6;
+    const ownAddressType     = params.readUIntLE(o, 1); o += 1;
+    const intervalMin        = params.readUIntLE(o, 2); o += 2;
+    const intervalMax        = params.readUIntLE(o, 2); o += 2;
+    const latency            = params.readUIntLE(o, 2); o += 2;
+    const supervisionTimeout = params.readUIntLE(o, 2); o += 2;
+
+    if (this.initiator) {
+      return HciErrorCode.CommandDisallowed;
+    }
+    if (scanInterval < 0x0004 || scanInterval > 0x4000 || scanWindow < 0x0004 || scanWindow > scanInterval) {
+      return HciErrorCode.InvalidCommandParameter;
+    }
+    if (filterPolicy > 1 || peerAddressType > 3 || ownAddressType > 3) {
+      return HciErrorCode.InvalidCommandParameter;
+    }
+    if (!VirtualController.validConnectionParameters(intervalMin, intervalMax, latency, supervisionTimeout)) {
+      return HciErrorCode.InvalidCommandParameter;
+    }
+    if ((ownAddressType & 1) && !this.randomAddress) {
+      return HciErrorCode.InvalidCommandParameter;
+    }
+
+    this.initiator = {
+      filterPolicy,
+      ownAddressType,
+      peerAddressType,
+      peerAddress:        Address.from(peerAddress),
+      phys:               1,
+      connectionInterval: intervalMax,
+      connectionLatency:  latency,
+      supervisionTimeout,
+    };
+
+    this.emit('state');
+    return HciErrorCode.Success;
+  }
+
+  private leCreateConnectionCancel = (): HciErrorCode => {
+    const initiator = this.initiator;
+    if (!initiator) {
+      return HciErrorCode.CommandDisallowed;
+    }
+    this.initiator = null;
+
+    this.defer(() => {
+      this.sendConnectionComplete(HciErrorCode.UnknownConnectionId, {
+        connectionHandle:     0,
+        role:                 VirtualControllerRole.Central,
+        peerAddressType:      initiator.peerAddressType,
+        peerAddress:          initiator.peerAddress,
+        connectionInterval:   0,
+        connectionLatency:    0,
+        supervisionTimeout:   0,
+        masterClockAccuracy:  0,
+      });
+    });
+
+    this.emit('state');
+    return HciErrorCode.Success;
+  }
+
+  private leReadWhiteListSize = (): Buffer => {
+    const result = returnParameters(HciErrorCode.Success, 1);
+    result.writeUInt8(this.filterListSize, 1);
+    return result;
+  }
+
+  private leClearWhiteList = (): HciErrorCode => {
+    if (this.filterListInUse()) {
+      return HciErrorCode.CommandDisallowed;
+    }
+    this.filterList = [];
+    return HciErrorCode.Success;
+  }
+
+  private leAddDeviceToWhiteList = (params: Buffer): HciErrorCode => {
+    const addressType = params.readUIntLE(0, 1);
+    const address     = Address.from(params.readUIntLE(1, 6));
+
+    if (this.filterListInUse()) {
+      return HciErrorCode.CommandDisallowed;
+    }
+    if (addressType > 1 && addressType !== 0xFF) {
+      return HciErrorCode.InvalidCommandParameter;
+    }
+    const id = addressId(addressType, address);
+    if (this.filterList.some((e) => addressId(e.addressType, e.address) === id)) {
+      return HciErrorCode.Success;
+    }
+    if (this.filterList.length >= this.filterListSize) {
+      return HciErrorCode.MemoryCapacityExceeded;
+    }
+    this.filterList.push({ addressType, address });
+    return HciErrorCode.Success;
+  }
+
+  private leRemoveDeviceFromWhiteList = (params: Buffer): HciErrorCode => {
+    const addressType = params.readUIntLE(0, 1);
+    const address     = Address.from(params.readUIntLE(1, 6));
+
+    if (this.filterListInUse()) {
+      return HciErrorCode.CommandDisallowed;
+    }
+    const id = addressId(addressType, address);
+    this.filterList = this.filterList.filter((e) => addressId(e.addressType, e.address) !== id);
+    return HciErrorCode.Success;
+  }
+
+  private leConnectionUpdate = (params: Buffer): HciErrorCode => {
+    let o = 0;
+    const connectionHandle   = params.readUIntLE(o, 2); o += 2;
+    const intervalMin        = params.readUIntLE(o, 2); o += 2;
+    const intervalMax        = params.readUIntLE(o, 2); o += 2;
+    const latency            = params.readUIntLE(o, 2); o += 2;
+    const supervisionTimeout = params.readUIntLE(o, 2); o += 2;
+
+    const connection = this.connections.get(connectionHandle);
+    if (!connection) {
+      return HciErrorCode.UnknownConnectionId;
+    }
+    if (!VirtualController.validConnectionParameters(intervalMin, intervalMax, latency, supervisionTimeout)) {
+      return HciErrorCode.InvalidCommandParameter;
+    }
+
+    this.defer(() => {
+      if (!this.connections.has(connectionHandle)) {
+        return;
+      }
+      this.applyConnectionUpdate(connectionHandle, intervalMax, latency, supervisionTimeout);
+      this.emit('connectionUpdate', connectionHandle);
+    });
+    return HciErrorCode.Success;
+  }
+
+  private leSetHostChannelClassification = (params: Buffer): HciErrorCode => {
+    const channelMap = BigInt(params.readUIntLE(0, 5));
+    if (channelMap === 0n || channelMap > 0x1FFFFFFFFFn) {
+      return HciErrorCode.InvalidCommandParameter;
+    }
+    this.channelMap = channelMap;
+    return HciErrorCode.Success;
+  }
+
+  private leReadChannelMap = (params: Buffer): Buffer => {
+    const connectionHandle = params.readUInt16LE(0);
+    if (!this.connections.has(connectionHandle)) {
+      return connectionResult(HciErrorCode.UnknownConnectionId, connectionHandle, 5);
+    }
+    const result = connectionResult(HciErrorCode.Success, connectionHandle, 5);
+    result.writeUIntLE(Number(this.channelMap), 3, 5);
+    return result;
+  }
+
+  private leReadRemoteFeatures = (params: Buffer): HciErrorCode => {
+    const connectionHandle = params.readUInt16LE(0);
+    const connection = this.connections.get(connectionHandle);
+    if (!connection) {
+      return HciErrorCode.UnknownConnectionId;
+    }
+    this.defer(() => {
+      this.sendEvent(VirtualControllerEvents.leReadRemoteFeaturesComplete(
+        HciErrorCode.Success, connectionHandle, connection.remoteFeatures
+      ));
+    });
+    return HciErrorCode.Success;
+  }
+
+  private leEncrypt = (params: Buffer): Buffer => {
+    // Key and data are transferred least significant octet first
+    const key       = Buffer.from(params.subarray(0, 16)).reverse();
+    const plaintext = Buffer.from(params.subarray(16, 32)).reverse();
+
+    const cipher = createCipheriv('aes-128-ecb', key, null);
+    cipher.setAutoPadding(false);
+    const encrypted = Buffer.concat([ cipher.update(plaintext), cipher.final() ]);
+
+    const result = returnParameters(HciErrorCode.Success, 16);
+    encrypted.reverse().copy(result, 1);
+    return result;
+  }
+
+  private leRand = (): Buffer => {
+    const result = returnParameters(HciErrorCode.Success, 8);
+    randomBytes(8).copy(result, 1);
+    return result;
+  }
+
+  private leReadSupportedStates = (): Buffer => {
+    const result = returnParameters(HciErrorCode.Success, 8);
+    result.writeBigUInt64LE(0x000003FFFFFFFFFFn, 1);
+    return result;
+  }
+
+  private leSetDataLength = (params: Buffer): Buffer => {
+    const connectionHandle = params.readUInt16LE(0);
+    const txOctets         = params.readUInt16LE(2);
+    const txTime           = params.readUInt16LE(4);
+
+    const connection = this.connections.get(connectionHandle);
+    if (!connection) {
+      return connectionResult(HciErrorCode.UnknownConnectionId, connectionHandle);
+    }
+    if (txOctets < 27 || txOctets > LeMaxDataOctets || txTime < 328 || txTime > LeMaxDataTime) {
+      return connectionResult(HciErrorCode.InvalidCommandParameter, connectionHandle);
+    }
+
+    if (connection.maxTxOctets !== txOctets || connection.maxTxTime !== txTime) {
+      this.defer(() => {
+        if (!this.connections.has(connectionHandle)) {
+          return;
+        }
+        connection.maxTxOctets = txOctets;
+        connection.maxTxTime   = txTime;
+        this.sendDataLengthChange(connection);
+        this.emit('dataLength', connectionHandle);
+      });
+    }
+
+    return connectionResult(HciErrorCode.Success, connectionHandle);
+  }
+
+  private leReadSuggestedDefaultDataLength = (): Buffer => {
+    const result = returnParameters(HciErrorCode.Success, 4);
+    result.writeUInt16LE(this.suggestedMaxTxOctets, 1);
+    result.writeUInt16LE(this.suggestedMaxTxTime,   3);
+    return result;
+  }
+
+  private leWriteSuggestedDefaultDataLength = (params: Buffer): HciErrorCode => {
+    const maxTxOctets = params.readUInt16LE(0);
+    const maxTxTime   = params.readUInt16LE(2);
+
+    if (maxTxOctets < 27 || maxTxOctets > LeMaxDataOctets || maxTxTime < 328 || maxTxTime > LeMaxDataTime) {
+      return HciErrorCode.InvalidCommandParameter;
+    }
+    this.suggestedMaxTxOctets = maxTxOctets;
+    this.suggestedMaxTxTime   = maxTxTime;
+    return HciErrorCode.Success;
+  }
+
+  private leAddDeviceToResolvingList = (params: Buffer): HciErrorCode => {
+    let o = 0;
+    const peerIdentityAddressType = params.readUIntLE(o, 1);                  o += 1;
+    const peerIdentityAddress     = Address.from(params.readUIntLE(o, 6));    o += 6;
+    const peerIrk                 = Buffer.from(params.subarray(o, o + 16));  o += 16;
+    const localIrk                = Buffer.from(params.subarray(o, o + 16));  o += 16;
+
+    if (this.resolvingListInUse()) {
+      return HciErrorCode.CommandDisallowed;
+    }
+    if (peerIdentityAddressType > 1) {
+      return HciErrorCode.InvalidCommandParameter;
+    }
+    const id = addressId(peerIdentityAddressType, peerIdentityAddress);
+    const exists = this.resolvingList.some(
+      (e) => addressId(e.peerIdentityAddressType, e.peerIdentityAddress) === id
+    );
+    if (exists) {
+      return HciErrorCode.InvalidCommandParameter;
+    }
+    if (this.resolvingList.length >= this.resolvingListSize) {
+      return HciErrorCode.MemoryCapacityExceeded;
+    }
+    this.resolvingList.push({
+      peerIdentityAddressType, peerIdentityAddress, peerIrk, localIrk, privacyMode: 0,
+    });
+    return HciErrorCode.Success;
+  }
+
+  private leRemoveDeviceFromResolvingList = (params: Buffer): HciErrorCode => {
+    const peerIdentityAddressType = params.readUIntLE(0, 1);
+    const peerIdentityAddress     = Address.from(params.readUIntLE(1, 6));
+
+    if (this.resolvingListInUse()) {
+      return HciErrorCode.CommandDisallowed;
+    }
+    const id = addressId(peerIdentityAddressType, peerIdentityAddress);
+    const index = this.resolvingList.findIndex(
+      (e) => addressId(e.peerIdentityAddressType, e.peerIdentityAddress) === id
+    );
+    if (index < 0) {
+      return HciErrorCode.UnknownConnectionId;
+    }
+    this.resolvingList.splice(index, 1);
+    return HciErrorCode.Success;
+  }
+
+  private leClearResolvingList = (): HciErrorCode => {
+    if (this.resolvingListInUse()) {
+      return HciErrorCode.CommandDisallowed;
+    }
+    this.resolvingList = [];
+    return HciErrorCode.Success;
+  }
+
+  private leReadResolvingListSize = (): Buffer => {
+    const result = returnParameters(HciErrorCode.Success, 1);
+    result.writeUInt8(this.resolvingListSize, 1);
+    return result;
+  }
+
+  private leSetAddressResolutionEnable = (params: Buffer): HciErrorCode => {
+    const enable = params.readUInt8(0);
+    if (enable > 1) {
+      return HciErrorCode.InvalidCommandParameter;
+    }
+    if (this.isAdvertising() || this.scanner.enabled || this.initiator) {
+      return HciErrorCode.CommandDisallowed;
+    }
+    this.addressResolutionEnabled = enable === 1;
+    return HciErrorCode.Success;
+  }
+
+  private leSetResolvablePrivateAddressTimeout = (params: Buffer): HciErrorCode => {
+    const timeout = params.readUInt16LE(0);
+    if (timeout < 0x0001 || timeout > 0x0E10) {
+      return HciErrorCode.InvalidCommandParameter;
+    }
+    this.rpaTimeout = timeout;
+    return HciErrorCode.Success;
+  }
+
+  private leReadMaximumDataLength = (): Buffer => {
+    const result = returnParameters(HciErrorCode.Success, 8);
+
+    let o = 1;
+    o = result.writeUIntLE(LeMaxDataOctets, o, 2);
+    o = result.writeUIntLE(LeMaxDataTime,   o, 2);
+    o = result.writeUIntLE(LeMaxDataOctets, o, 2);
+    o = result.writeUIntLE(LeMaxDataTime,   o, 2);
+
+    return result;
+  }
+
+  private leReadPhy = (params: Buffer): Buffer => {
+    const connectionHandle = params.readUInt16LE(0);
+    const connection = this.connections.get(connectionHandle);
+    if (!connection) {
+      return connectionResult(HciErrorCode.UnknownConnectionId, connectionHandle, 2);
+    }
+    const result = connectionResult(HciErrorCode.Success, connectionHandle, 2);
+    result.writeUInt8(connection.txPhy, 3);
+    result.writeUInt8(connection.rxPhy, 4);
+    return result;
+  }
+
+  private leSetDefaultPhy = (params: Buffer): HciErrorCode => {
+    const allPhys = params.readUInt8(0);
+    const txPhys  = params.readUInt8(1);
+    const rxPhys  = params.readUInt8(2);
+
+    if ((txPhys & ~0x07) || (rxPhys & ~0x07)) {
+      return HciErrorCode.UnsupportedFeatureOrValue;
+    }
+    this.defaultTxPhys = (allPhys & 0x01) ? 0 : txPhys;
+    this.defaultRxPhys = (allPhys & 0x02) ? 0 : rxPhys;
+    return HciErrorCode.Success;
+  }
+
+  private leSetPhy = (params: Buffer): HciErrorCode => {
+    let o = 0;
+    const connectionHandle = params.readUIntLE(o, 2); o += 2;
+    const allPhys          = params.readUIntLE(o, 1); o += 1;
+    const txPhys           = params.readUIntLE(o, 1); o += 1;
+    const rxPhys           = params.readUIntLE(o, 1); o += 1;
+
+    const connection = this.connections.get(connectionHandle);
+    if (!connection) {
+      return HciErrorCode.UnknownConnectionId;
+    }
+    if ((txPhys & ~0x07) || (rxPhys & ~0x07)) {
+      return HciErrorCode.UnsupportedFeatureOrValue;
+    }
+
+    const selectPhy = (noPreference: boolean, phys: number, current: number): number => {
+      if (noPreference || phys === 0) {
+        return current;
+      }
+      if ((phys & 0x02) && (this.leFeatures & (1n << 8n))) {
+        return 2;
+      }
+      if (phys & 0x01) {
+        return 1;
+      }
+      if ((phys & 0x04) && (this.leFeatures & (1n << 11n))) {
+        return 3;
+      }
+      return current;
+    };
+
+    this.defer(() => {
+      if (!this.connections.has(connectionHandle)) {
+        return;
+      }
+      const txPhy = selectPhy((allPhys & 0x01) !== 0, txPhys, connection.txPhy);
+      const rxPhy = selectPhy((allPhys & 0x02) !== 0, rxPhys, connection.rxPhy);
+      this.applyPhyUpdate(connectionHandle, txPhy, rxPhy);
+      this.emit('phyUpdate', connectionHandle);
+    });
+    return HciErrorCode.Success;
+  }
+
+  private leSetAdvertisingSetRandomAddress = (params: Buffer): HciErrorCode => {
+    const advertisingHandle = params.readUIntLE(0, 1);
+    const randomAddress     = Address.from(params.readUIntLE(1, 6));
+
+    const set = this.advertisingSets.get(advertisingHandle);
+    if (!set) {
+      // The set is created by LE Set Extended Advertising Parameters,
+      // real controllers accept the address upfront as well.
+      if (advertisingHandle > 0xEF) {
+        return HciErrorCode.InvalidCommandParameter;
+      }
+      if (this.advertisingSets.size >= this.numSupportedAdvertisingSets) {
+        return HciErrorCode.MemoryCapacityExceeded;
+      }
+      const created = VirtualController.defaultAdvertisingSet(advertisingHandle);
+      created.randomAddress = randomAddress;
+      this.advertisingSets.set(advertisingHandle, created);
+      return HciErrorCode.Success;
+    }
+    if (set.enabled && (set.eventProperties & 0x03)) {
+      return HciErrorCode.CommandDisallowed;
+    }
+    set.randomAddress = randomAddress;
+    return HciErrorCode.Success;
+  }
+
+  private leSetExtendedAdvertisingParameters = (params: Buffer): Buffer => {
+    let o = 0;
+    const advertisingHandle = params.readUIntLE(o, 1); o += 1;
+    const eventProperties   = params.readUIntLE(o, 2); o += 2;
+    const intervalMin       = params.readUIntLE(o, 3); o += 3;
+    const intervalMax       = params.readUIntLE(o, 3); o += 3;
+    const channelMap        = params.readUIntLE(o, 1); o += 1;
+    const ownAddressType    = params.readUIntLE(o, 1); o += 1;
+    const peerAddressType   = params.readUIntLE(o, 1); o += 1;
+    const peerAddress       = params.readUIntLE(o, 6); o += 6;
+    const filterPolicy      = params.readUIntLE(o, 1); o += 1;
+    const txPower           = params.readIntLE (o, 1); o += 1;
+    const primaryPhy        = params.readUIntLE(o, 1); o += 1;
+    /* secondaryMaxSkip */                             o += 1;
+    const secondaryPhy      = params.readUIntLE(o, 1); o += 1;
+    const advertisingSid    = params.readUIntLE(o, 1); o += 1;
+
+    const failure = (status: HciErrorCode) => {
+      const result = returnParameters(status, 1);
+      result.writeInt8(0, 1);
+      return result;
+    };
+
+    let set = this.advertisingSets.get(advertisingHandle);
+    if (set?.enabled) {
+      return failure(HciErrorCode.CommandDisallowed);
+    }
+    if (advertisingHandle > 0xEF || advertisingSid > 0x0F) {
+      return failure(HciErrorCode.InvalidCommandParameter);
+    }
+    if (!set && this.advertisingSets.size >= this.numSupportedAdvertisingSets) {
+      return failure(HciErrorCode.MemoryCapacityExceeded);
+    }
+
+    const legacy = (eventProperties & 0x10) !== 0;
+    if (legacy && !LegacyEventProperties.includes(eventProperties)) {
+      return failure(HciErrorCode.InvalidCommandParameter);
+    }
+    if (!legacy && (eventProperties & 0x03) === 0x03) {
+      // Extended advertising can't be both connectable and scannable
+      return failure(HciErrorCode.InvalidCommandParameter);
+    }
+    const highDutyCycle = (eventProperties & 0x08) !== 0;
+    if (!highDutyCycle && (intervalMin < 0x000020 || intervalMin > intervalMax)) {
+      return failure(HciErrorCode.InvalidCommandParameter);
+    }
+    if (channelMap === 0 || channelMap > 7 || ownAddressType > 3 || peerAddressType > 1 || filterPolicy > 3) {
+      return failure(HciErrorCode.InvalidCommandParameter);
+    }
+    if (primaryPhy !== 1 && primaryPhy !== 3) {
+      return failure(HciErrorCode.InvalidCommandParameter);
+    }
+    if (secondaryPhy < 1 || secondaryPhy > 3) {
+      return failure(HciErrorCode.InvalidCommandParameter);
+    }
+
+    set = set ?? VirtualController.defaultAdvertisingSet(advertisingHandle);
+    set.eventProperties = eventProperties;
+    set.intervalMin     = intervalMin;
+    set.intervalMax     = intervalMax;
+    set.channelMap      = channelMap;
+    set.ownAddressType  = ownAddressType;
+    set.peerAddressType = peerAddressType;
+    set.peerAddress     = Address.from(peerAddress);
+    set.filterPolicy    = filterPolicy;
+    set.txPower         = txPower === 0x7F ? 0 : Math.max(-20, Math.min(10, txPower));
+    set.primaryPhy      = primaryPhy;
+    set.secondaryPhy    = secondaryPhy;
+    set.advertisingSid  = advertisingSid;
+    this.advertisingSets.set(advertisingHandle, set);
+
+    const result = returnParameters(HciErrorCode.Success, 1);
+    result.writeInt8(set.txPower, 1);
+    return result;
+  }
+
+  private leSetExtendedData(params: Buffer, field: 'data' | 'scanResponseData'): HciErrorCode {
+    let o = 0;
+    const advertisingHandle = params.readUIntLE(o, 1); o += 1;
+    const operation         = params.readUIntLE(o, 1); o += 1;
+    /* fragmentPreference */                           o += 1;
+    const length            = params.readUIntLE(o, 1); o += 1;
+    const data              = Buffer.from(params.subarray(o, o + length));
+
+    const set = this.advertisingSets.get(advertisingHandle);
+    if (!set) {
+      return HciErrorCode.UnknownAdvertId;
+    }
+    if (operation > 4 || (operation === 4 && (field === 'scanResponseData' || length > 0))) {
+      return HciErrorCode.InvalidCommandParameter;
+    }
+    if (set.enabled && operation !== 3 && operation !== 4) {
+      return HciErrorCode.CommandDisallowed;
+    }
+    const legacy = (set.eventProperties & 0x10) !== 0;
+    if (legacy && (operation !== 3 || length > 31)) {
+      return HciErrorCode.InvalidCommandParameter;
+    }
+
+    switch (operation) {
+      case 0: // Intermediate fragment
+      case 2: // Last fragment
+        set[field] = Buffer.concat([ set[field], data ]);
+        break;
+      case 1: // First fragment
+      case 3: // Complete data
+        set[field] = data;
+        break;
+      case 4: // Unchanged data, new Advertising DID
+        break;
+    }
+
+    if (set[field].length > LeMaxAdvertisingDataLength) {
+      set[field] = Buffer.alloc(0);
+      return HciErrorCode.MemoryCapacityExceeded;
+    }
+
+    this.emit('state');
+    return HciErrorCode.Success;
+  }
+
+  private leSetExtendedAdvertisingEnable = (params: Buffer): HciErrorCode => {
+    const enable  = params.readUInt8(0);
+    const numSets = params.readUInt8(1);
+
+    if (enable > 1 || (enable === 1 && numSets === 0)) {
+      return HciErrorCode.InvalidCommandParameter;
+    }
+    if (numSets === 0) {
+      for (const set of this.getAdvertisingSets()) {
+        this.stopAdvertising(set);
+      }
+      this.emit('state');
+      return HciErrorCode.Success;
+    }
+
+    const entries: { set: VirtualAdvertisingSet, duration: number, maxEvents: number }[] = [];
+
+    let o = 2;
+    for (let i = 0; i < numSets; i++) {
+      const advertisingHandle = params.readUIntLE(o, 1); o += 1;
+      const duration          = params.readUIntLE(o, 2); o += 2;
+      const maxEvents         = params.readUIntLE(o, 1); o += 1;
+
+      const set = this.advertisingSets.get(advertisingHandle);
+      if (!set) {
+        return HciErrorCode.UnknownAdvertId;
+      }
+      if (entries.some((e) => e.set === set)) {
+        return HciErrorCode.InvalidCommandParameter;
+      }
+      entries.push({ set, duration, maxEvents });
+    }
+
+    if (enable) {
+      for (const { set } of entries) {
+        if ((set.ownAddressType & 1) && !set.randomAddress && !this.randomAddress) {
+          return HciErrorCode.InvalidCommandParameter;
+        }
+        const scannable = (set.eventProperties & 0x02) !== 0;
+        if (scannable && (set.eventProperties & 0x10) === 0 && set.scanResponseData.length === 0) {
+          return HciErrorCode.InvalidCommandParameter;
+        }
+      }
+      for (const { set, duration, maxEvents } of entries) {
+        this.startAdvertising(set, duration, maxEvents);
+      }
+    } else {
+      for (const { set } of entries) {
+        this.stopAdvertising(set);
+      }
+    }
+
+    this.emit('state');
+    return HciErrorCode.Success;
+  }
+
+  private leReadMaximumAdvertisingDataLength = (): Buffer => {
+    const result = returnParameters(HciErrorCode.Success, 2);
+    result.writeUInt16LE(LeMaxAdvertisingDataLength, 1);
+    return result;
+  }
+
+  private leReadNumberOfSupportedAdvertisingSets = (): Buffer => {
+    const result = returnParameters(HciErrorCode.Success, 1);
+    result.writeUInt8(this.numSupportedAdvertisingSets, 1);
+    return result;
+  }
+
+  private leRemoveAdvertisingSet = (params: Buffer): HciErrorCode => {
+    const advertisingHandle = params.readUInt8(0);
+    const set = this.advertisingSets.get(advertisingHandle);
+    if (!set) {
+      return HciErrorCode.UnknownAdvertId;
+    }
+    if (set.enabled || set.periodicEnabled) {
+      return HciErrorCode.CommandDisallowed;
+    }
+    this.advertisingSets.delete(advertisingHandle);
+    return HciErrorCode.Success;
+  }
+
+  private leClearAdvertisingSets = (): HciErrorCode => {
+    if (this.isAdvertising() || this.getAdvertisingSets().some((set) => set.periodicEnabled)) {
+      return HciErrorCode.CommandDisallowed;
+    }
+    this.advertisingSets.clear();
+    return HciErrorCode.Success;
+  }
+
+  private leSetPeriodicAdvertisingParameters = (params: Buffer): HciErrorCode => {
+    let o = 0;
+    const advertisingHandle = params.readUIntLE(o, 1); o += 1;
+    const intervalMin       = params.readUIntLE(o, 2); o += 2;
+    const intervalMax       = params.readUIntLE(o, 2); o += 2;
+    const properties        = params.readUIntLE(o, 2); o += 2;
+
+    const set = this.advertisingSets.get(advertisingHandle);
+    if (!set) {
+      return HciErrorCode.UnknownAdvertId;
+    }
+    if (set.periodicEnabled) {
+      return HciErrorCode.CommandDisallowed;
+    }
+    // Legacy, connectable, scannable and anonymous sets can't carry periodic advertising
+    if (set.eventProperties & 0x33) {
+      return HciErrorCode.InvalidCommandParameter;
+    }
+    if (intervalMin < 0x0006 || intervalMin > intervalMax || (properties & ~0x40)) {
+      return HciErrorCode.InvalidCommandParameter;
+    }
+
+    set.periodicIntervalMin = intervalMin;
+    set.periodicIntervalMax = intervalMax;
+    set.periodicProperties  = properties;
+    set.periodicConfigured  = true;
+
+    this.emit('state');
+    return HciErrorCode.Success;
+  }
+
+  private leSetPeriodicAdvertisingData = (params: Buffer): HciErrorCode => {
+    let o = 0;
+    const advertisingHandle = params.readUIntLE(o, 1); o += 1;
+    const operation         = params.readUIntLE(o, 1); o += 1;
+    const length            = params.readUIntLE(o, 1); o += 1;
+    const data              = Buffer.from(params.subarray(o, o + length));
+
+    const set = this.advertisingSets.get(advertisingHandle);
+    if (!set) {
+      return HciErrorCode.UnknownAdvertId;
+    }
+    if (!set.periodicConfigured) {
+      return HciErrorCode.CommandDisallowed;
+    }
+    if (operation > 3) {
+      return HciErrorCode.InvalidCommandParameter;
+    }
+    if (set.periodicEnabled && operation !== 3) {
+      return HciErrorCode.CommandDisallowed;
+    }
+
+    switch (operation) {
+      case 0: // Intermediate fragment
+      case 2: // Last fragment
+        set.periodicData = Buffer.concat([ set.periodicData, data ]);
+        break;
+      case 1: // First fragment
+      case 3: // Complete data
+        set.periodicData = data;
+        break;
+    }
+
+    if (set.periodicData.length > LeMaxAdvertisingDataLength) {
+      set.periodicData = Buffer.alloc(0);
+      return HciErrorCode.MemoryCapacityExceeded;
+    }
+
+    this.emit('state');
+    return HciErrorCode.Success;
+  }
+
+  private leSetPeriodicAdvertisingEnable = (params: Buffer): HciErrorCode => {
+    const enable            = params.readUInt8(0);
+    const advertisingHandle = params.readUInt8(1);
+
+    const set = this.advertisingSets.get(advertisingHandle);
+    if (!set) {
+      return HciErrorCode.UnknownAdvertId;
+    }
+    if (enable > 1) {
+      return HciErrorCode.InvalidCommandParameter;
+    }
+    if (enable && !set.periodicConfigured) {
+      return HciErrorCode.CommandDisallowed;
+    }
+
+    set.periodicEnabled = enable === 1;
+
+    this.emit('state');
+    return HciErrorCode.Success;
+  }
+
+  private lePeriodicAdvertisingCreateSync = (params: Buffer): HciErrorCode => {
+    let o = 0;
+    const options               = params.readUIntLE(o, 1); o += 1;
+    const advertisingSid        = params.readUIntLE(o, 1); o += 1;
+    const advertiserAddressType = params.readUIntLE(o, 1); o += 1;
+    const advertiserAddress     = params.readUIntLE(o, 6); o += 6;
+    const skip                  = params.readUIntLE(o, 2); o += 2;
+    const syncTimeout           = params.readUIntLE(o, 2); o += 2;
+    const syncCteType           = params.readUIntLE(o, 1); o += 1;
+
+    if (this.periodicSyncRequest) {
+      return HciErrorCode.CommandDisallowed;
+    }
+    if (options > 3 || advertisingSid > 0x0F || advertiserAddressType > 1 || skip > 0x01F3 ||
+        syncTimeout < 0x000A || syncTimeout > 0x4000 || syncCteType > 0x1F) {
+      return HciErrorCode.InvalidCommandParameter;
+    }
+    if ((options & 1) === 0 && this.isSyncedTo(advertisingSid, advertiserAddressType, Address.from(advertiserAddress))) {
+      return HciErrorCode.ConnectionExists;
+    }
+
+    this.periodicSyncRequest = {
+      options,
+      advertisingSid,
+      advertiserAddressType,
+      advertiserAddress: Address.from(advertiserAddress),
+      skip,
+      syncTimeout,
+    };
+
+    this.emit('state');
+    return HciErrorCode.Success;
+  }
+
+  private lePeriodicAdvertisingCreateSyncCancel = (): HciErrorCode => {
+    const request = this.periodicSyncRequest;
+    if (!request) {
+      return HciErrorCode.CommandDisallowed;
+    }
+    this.periodicSyncRequest = null;
+
+    this.defer(() => {
+      this.sendEvent(VirtualControllerEvents.lePeriodicAdvertisingSyncEstablished(HciErrorCode.OperationCancelled, {
+        syncHandle:              0,
+        advertisingSid:          request.advertisingSid,
+        advertiserAddressType:   request.advertiserAddressType,
+        advertiserAddress:       request.advertiserAddress,
+        advertiserPhy:           0,
+        periodicAdvInterval:     0,
+        advertiserClockAccuracy: 0,
+      }));
+    });
+
+    this.emit('state');
+    return HciErrorCode.Success;
+  }
+
+  private lePeriodicAdvertisingTerminateSync = (params: Buffer): HciErrorCode => {
+    const syncHandle = params.readUIntLE(0, 2);
+
+    if (!this.periodicSyncs.has(syncHandle)) {
+      return HciErrorCode.UnknownAdvertId;
+    }
+    this.terminatePeriodicSync(syncHandle);
+
+    this.emit('state');
+    return HciErrorCode.Success;
+  }
+
+  private periodicAdvertiserListInUse(): boolean {
+    return this.periodicSyncRequest !== null && (this.periodicSyncRequest.options & 1) !== 0;
+  }
+
+  private leAddDeviceToPeriodicAdvertiserList = (params: Buffer): HciErrorCode => {
+    const addressType    = params.readUIntLE(0, 1);
+    const address        = Address.from(params.readUIntLE(1, 6));
+    const advertisingSid = params.readUIntLE(7, 1);
+
+    if (this.periodicAdvertiserListInUse()) {
+      return HciErrorCode.CommandDisallowed;
+    }
+    if (addressType > 1 || advertisingSid > 0x0F) {
+      return HciErrorCode.InvalidCommandParameter;
+    }
+    if (this.isInPeriodicAdvertiserList(addressType, address, advertisingSid)) {
+      return HciErrorCode.InvalidCommandParameter;
+    }
+    if (this.periodicAdvertiserList.length >= this.periodicAdvertiserListSize) {
+      return HciErrorCode.MemoryCapacityExceeded;
+    }
+    this.periodicAdvertiserList.push({ addressType, address, advertisingSid });
+    return HciErrorCode.Success;
+  }
+
+  private leRemoveDeviceFromPeriodicAdvertiserList = (params: Buffer): HciErrorCode => {
+    const addressType    = params.readUIntLE(0, 1);
+    const address        = Address.from(params.readUIntLE(1, 6));
+    const advertisingSid = params.readUIntLE(7, 1);
+
+    if (this.periodicAdvertiserListInUse()) {
+      return HciErrorCode.CommandDisallowed;
+    }
+    if (!this.isInPeriodicAdvertiserList(addressType, address, advertisingSid)) {
+      return HciErrorCode.UnknownAdvertId;
+    }
+    const id = addressId(addressType, address);
+    this.periodicAdvertiserList = this.periodicAdvertiserList.filter((e) =>
+      e.advertisingSid !== advertisingSid || addressId(e.addressType, e.address) !== id
+    );
+    return HciErrorCode.Success;
+  }
+
+  private leClearPeriodicAdvertiserList = (): HciErrorCode => {
+    if (this.periodicAdvertiserListInUse()) {
+      return HciErrorCode.CommandDisallowed;
+    }
+    this.periodicAdvertiserList = [];
+    return HciErrorCode.Success;
+  }
+
+  private leReadPeriodicAdvertiserListSize = (): Buffer => {
+    const result = returnParameters(HciErrorCode.Success, 1);
+    result.writeUInt8(this.periodicAdvertiserListSize, 1);
+    return result;
+  }
+
+  private lePeriodicAdvertisingSyncTransfer = (params: Buffer): Buffer => {
+    const connectionHandle = params.readUInt16LE(0);
+    const serviceData      = params.readUInt16LE(2);
+    const syncHandle       = params.readUInt16LE(4);
+
+    if (!this.connections.has(connectionHandle)) {
+      return connectionResult(HciErrorCode.UnknownConnectionId, connectionHandle);
+    }
+    const sync = this.periodicSyncs.get(syncHandle);
+    if (!sync) {
+      return connectionResult(HciErrorCode.UnknownAdvertId, connectionHandle);
+    }
+
+    this.emit('periodicSyncTransfer', connectionHandle, serviceData, sync);
+    return connectionResult(HciErrorCode.Success, connectionHandle);
+  }
+
+  private lePeriodicAdvertisingSetInfoTransfer = (params: Buffer): Buffer => {
+    const connectionHandle  = params.readUInt16LE(0);
+    const serviceData       = params.readUInt16LE(2);
+    const advertisingHandle = params.readUInt8(4);
+
+    if (!this.connections.has(connectionHandle)) {
+      return connectionResult(HciErrorCode.UnknownConnectionId, connectionHandle);
+    }
+    const set = this.advertisingSets.get(advertisingHandle);
+    if (!set) {
+      return connectionResult(HciErrorCode.UnknownAdvertId, connectionHandle);
+    }
+    if (!set.periodicEnabled) {
+      return connectionResult(HciErrorCode.CommandDisallowed, connectionHandle);
+    }
+
+    const own = this.getOwnAddress(set.ownAddressType, set);
+    this.emit('periodicSyncTransfer', connectionHandle, serviceData, {
+      syncHandle:              0,
+      advertisingSid:          set.advertisingSid,
+      advertiserAddressType:   own.addressType,
+      advertiserAddress:       own.address,
+      advertiserPhy:           set.secondaryPhy,
+      periodicAdvInterval:     set.periodicIntervalMin,
+      advertiserClockAccuracy: 0,
+    });
+    return connectionResult(HciErrorCode.Success, connectionHandle);
+  }
+
+  private parseSyncTransferParameters(params: Buffer, o: number): VirtualSyncTransferParameters | null {
+    const mode        = params.readUIntLE(o, 1); o += 1;
+    const skip        = params.readUIntLE(o, 2); o += 2;
+    const syncTimeout = params.readUIntLE(o, 2); o += 2;
+    const cteType     = params.readUIntLE(o, 1); o += 1;
+
+    if (mode > 3 || skip > 0x01F3 || syncTimeout < 0x000A || syncTimeout > 0x4000 || cteType > 0x1F) {
+      return null;
+    }
+    return { mode, skip, syncTimeout };
+  }
+
+  private leSetPeriodicAdvertisingSyncTransferParameters = (params: Buffer): Buffer => {
+    const connectionHandle = params.readUInt16LE(0);
+
+    const connection = this.connections.get(connectionHandle);
+    if (!connection) {
+      return connectionResult(HciErrorCode.UnknownConnectionId, connectionHandle);
+    }
+    const parameters = this.parseSyncTransferParameters(params, 2);
+    if (!parameters) {
+      return connectionResult(HciErrorCode.InvalidCommandParameter, connectionHandle);
+    }
+    connection.syncTransferParameters = parameters;
+    return connectionResult(HciErrorCode.Success, connectionHandle);
+  }
+
+  private leSetDefaultPeriodicAdvertisingSyncTransferParameters = (params: Buffer): HciErrorCode => {
+    const parameters = this.parseSyncTransferParameters(params, 0);
+    if (!parameters) {
+      return HciErrorCode.InvalidCommandParameter;
+    }
+    this.defaultSyncTransferParameters = parameters;
+    return HciErrorCode.Success;
+  }
+
+  private leSetExtendedScanParameters = (params: Buffer): HciErrorCode => {
+    let o = 0;
+    const ownAddressType = params.readUIntLE(o, 1); o += 1;
+    const filterPolicy   = params.readUIntLE(o, 1); o += 1;
+    const phyBitmask     = params.readUIntLE(o, 1); o += 1;
+
+    if (this.scanner.enabled) {
+      return HciErrorCode.CommandDisallowed;
+    }
+    if (ownAddressType > 3 || filterPolicy > 3) {
+      return HciErrorCode.InvalidCommandParameter;
+    }
+    if (phyBitmask === 0 || (phyBitmask & ~0x05)) {
+      return HciErrorCode.UnsupportedFeatureOrValue;
+    }
+
+    const phys: VirtualScanPhy[] = [];
+    for (const phy of [ 1, 3 ]) {
+      if ((phyBitmask & (1 << (phy - 1))) === 0) {
+        continue;
+      }
+      const type     = params.readUIntLE(o, 1); o += 1;
+      const interval = params.readUIntLE(o, 2); o += 2;
+      const window   = params.readUIntLE(o, 2); o += 2;
+
+      if (type > 1 || interval < 0x0004 || window < 0x0004 || window > interval) {
+        return HciErrorCode.InvalidCommandParameter;
+      }
+      phys.push({ phy, type, interval, window });
+    }
+
+    this.scanner.ownAddressType = ownAddressType;
+    this.scanner.filterPolicy   = filterPolicy;
+    this.scanner.phys           = phys;
+
+    return HciErrorCode.Success;
+  }
+
+  private leSetExtendedScanEnable = (params: Buffer): HciErrorCode => {
+    let o = 0;
+    const enable           = params.readUIntLE(o, 1); o += 1;
+    const filterDuplicates = params.readUIntLE(o, 1); o += 1;
+    const duration         = params.readUIntLE(o, 2); o += 2;
+    const period           = params.readUIntLE(o, 2); o += 2;
+
+    if (enable > 1 || filterDuplicates > 2) {
+      return HciErrorCode.InvalidCommandParameter;
+    }
+    if (enable && period > 0 && (duration === 0 || duration * 10 >= period * 1280)) {
+      return HciErrorCode.InvalidCommandParameter;
+    }
+
+    this.stopScanTimer();
+
+    if (!enable) {
+      this.scanner.enabled = false;
+      this.emit('state');
+      return HciErrorCode.Success;
+    }
+
+    if ((this.scanner.ownAddressType & 1) && !this.randomAddress) {
+      return HciErrorCode.InvalidCommandParameter;
+    }
+
+    this.reportedDuplicates.clear();
+    this.scanner.enabled          = true;
+    this.scanner.filterDuplicates = filterDuplicates;
+    this.scanner.duration         = duration;
+    this.scanner.period           = period;
+
+    if (duration > 0 && period === 0) {
+      this.scanTimer = setTimeout(() => {
+        this.scanTimer = null;
+        this.scanner.enabled = false;
+        this.sendEvent(VirtualControllerEvents.leScanTimeout());
+        this.emit('state');
+      }, duration * 10);
+    }
+
+    this.emit('state');
+    return HciErrorCode.Success;
+  }
+
+  private leExtendedCreateConnection = (params: Buffer): HciErrorCode => {
+    let o = 0;
+    const filterPolicy    = params.readUIntLE(o, 1); o += 1;
+    const ownAddressType  = params.readUIntLE(o, 1); o += 1;
+    const peerAddressType = params.readUIntLE(o, 1); o += 1;
+    const peerAddress     = params.readUIntLE(o, 6); o += 6;
+    const phyBitmask      = params.readUIntLE(o, 1); o += 1;
+
+    if (this.initiator) {
+      return HciErrorCode.CommandDisallowed;
+    }
+    if (filterPolicy > 1 || ownAddressType > 3 || peerAddressType > 3) {
+      return HciErrorCode.InvalidCommandParameter;
+    }
+    if (phyBitmask === 0 || (phyBitmask & ~0x07)) {
+      return HciErrorCode.UnsupportedFeatureOrValue;
+    }
+    if ((phyBitmask & 0x05) === 0) {
+      // Initiating requires scanning on 1M or Coded PHY
+      return HciErrorCode.InvalidCommandParameter;
+    }
+    if ((ownAddressType & 1) && !this.randomAddress) {
+      return HciErrorCode.InvalidCommandParameter;
+    }
+
+    let connectionInterval = 0;
+    let connectionLatency  = 0;
+    let supervisionTimeout = 0;
+
+    for (let i = 0; i < this.bitCount(phyBitmask); i++) {
+      const scanInterval = params.readUIntLE(o, 2); o += 2;
+      const scanWindow   = params.readUIntLE(o, 2); o += 2;
+      const intervalMin  = params.readUIntLE(o, 2); o += 2;
+      const intervalMax  = params.readUIntLE(o, 2); o += 2;
+      const latency      = params.readUIntLE(o, 2); o += 2;
+      const timeout      = params.readUIntLE(o, 2); o += 2;
+      /* minCeLength, maxCeLength */                o += 4;
+
+      if (scanInterval < 0x0004 || scanWindow < 0x0004 || scanWindow > scanInterval) {
+        return HciErrorCode.InvalidCommandParameter;
+      }
+      if (!VirtualController.validConnectionParameters(intervalMin, intervalMax, latency, timeout)) {
+        return HciErrorCode.InvalidCommandParameter;
+      }
+      if (i === 0) {
+        connectionInterval = intervalMax;
+        connectionLatency  = latency;
+        supervisionTimeout = timeout;
+      }
+    }
+
+    this.initiator = {
+      filterPolicy,
+      ownAddressType,
+      peerAddressType,
+      peerAddress: Address.from(peerAddress),
+      phys: phyBitmask,
+      connectionInterval,
+      connectionLatency,
+      supervisionTimeout,
+    };
+
+    this.emit('state');
+    return HciErrorCode.Success;
+  }
+
+  private leReadTransmitPower = (): Buffer => {
+    const result = returnParameters(HciErrorCode.Success, 2);
+    result.writeInt8(-20, 1);
+    result.writeInt8(10,  2);
+    return result;
+  }
+
+  private leSetPrivacyMode = (params: Buffer): HciErrorCode => {
+    const peerIdentityAddressType = params.readUIntLE(0, 1);
+    const peerIdentityAddress     = Address.from(params.readUIntLE(1, 6));
+    const privacyMode             = params.readUIntLE(7, 1);
+
+    if (privacyMode > 1) {
+      return HciErrorCode.InvalidCommandParameter;
+    }
+    if (this.resolvingListInUse()) {
+      return HciErrorCode.CommandDisallowed;
+    }
+    const id = addressId(peerIdentityAddressType, peerIdentityAddress);
+    const entry = this.resolvingList.find(
+      (e) => addressId(e.peerIdentityAddressType, e.peerIdentityAddress) === id
+    );
+    if (!entry) {
+      return HciErrorCode.UnknownConnectionId;
+    }
+    entry.privacyMode = privacyMode;
+    return HciErrorCode.Success;
+  }
+
+  private leSetHostFeature = (params: Buffer): HciErrorCode => {
+    const bitNumber = params.readUInt8(0);
+    const enable    = params.readUInt8(1);
+
+    if (enable > 1) {
+      return HciErrorCode.InvalidCommandParameter;
+    }
+    // Isochronous Channels (Host Support) needs any of the isochronous features of the controller
+    if (bitNumber !== 32 || (this.leFeatures & (0x0Fn << 28n)) === 0n) {
+      return HciErrorCode.UnsupportedFeatureOrValue;
+    }
+    // Features are exchanged when connecting
+    if (this.connections.size > 0) {
+      return HciErrorCode.CommandDisallowed;
+    }
+
+    const bit = 1n << BigInt(bitNumber);
+    this.hostLeFeatures = enable ? this.hostLeFeatures | bit : this.hostLeFeatures & ~bit;
+    return HciErrorCode.Success;
+  }
+
+  private leSetCigParameters = (params: Buffer): Buffer => {
+    let o = 0;
+    const cigId                   = params.readUIntLE(o, 1); o += 1;
+    const sduIntervalMToS         = params.readUIntLE(o, 3); o += 3;
+    const sduIntervalSToM         = params.readUIntLE(o, 3); o += 3;
+    const worstCaseSca            = params.readUIntLE(o, 1); o += 1;
+    const packing                 = params.readUIntLE(o, 1); o += 1;
+    const framing                 = params.readUIntLE(o, 1); o += 1;
+    const maxTransportLatencyMToS = params.readUIntLE(o, 2); o += 2;
+    const maxTransportLatencySToM = params.readUIntLE(o, 2); o += 2;
+    const cisCount                = params.readUIntLE(o, 1); o += 1;
+
+    const result = (status: HciErrorCode, handles: number[] = []) => {
+      const ret = returnParameters(status, 2 + handles.length * 2);
+      ret.writeUInt8(cigId, 1);
+      ret.writeUInt8(handles.length, 2);
+      handles.forEach((handle, i) => ret.writeUInt16LE(handle, 3 + i * 2));
+      return ret;
+    };
+
+    if (cigId > 0xEF || cisCount === 0 || cisCount > 0x1F || worstCaseSca > 7 || packing > 1 || framing > 1) {
+      return result(HciErrorCode.InvalidCommandParameter);
+    }
+    if (sduIntervalMToS < 0xFF || sduIntervalSToM < 0xFF ||
+        maxTransportLatencyMToS < 0x05 || maxTransportLatencyMToS > 0x0FA0 ||
+        maxTransportLatencySToM < 0x05 || maxTransportLatencySToM > 0x0FA0) {
+      return result(HciErrorCode.InvalidCommandParameter);
+    }
+
+    const cig = this.getCig(cigId);
+    if (cig.some((cis) => cis.status !== VirtualCisStatus.Configured)) {
+      return result(HciErrorCode.CommandDisallowed);
+    }
+
+    // Single ISO interval fitting the SDU interval, limited to 5 ms ... 4 s
+    const isoInterval = Math.min(Math.max(Math.round(Math.min(sduIntervalMToS, sduIntervalSToM) / 1250), 4), 0x0C80);
+    const syncDelay   = Math.floor(isoInterval * 1250 / 2);
+    const latency = (sduInterval: number) => framing ?
+      syncDelay + isoInterval * 1250 + sduInterval :
+      Math.max(syncDelay + isoInterval * 1250 - sduInterval, syncDelay);
+    // Preferred PHY out of the allowed ones: 2M, 1M, Coded
+    const phy = (phys: number) => (phys & 2) ? 2 : (phys & 1) ? 1 : 3;
+
+    const configured: VirtualCisState[] = [];
+    for (let i = 0; i < cisCount; i++) {
+      const cisId      = params.readUIntLE(o, 1); o += 1;
+      const maxSduMToS = params.readUIntLE(o, 2); o += 2;
+      const maxSduSToM = params.readUIntLE(o, 2); o += 2;
+      const phyMToS    = params.readUIntLE(o, 1); o += 1;
+      const phySToM    = params.readUIntLE(o, 1); o += 1;
+      const rtnMToS    = params.readUIntLE(o, 1); o += 1;
+      const rtnSToM    = params.readUIntLE(o, 1); o += 1;
+
+      if (cisId > 0xEF || maxSduMToS > 0x0FFF || maxSduSToM > 0x0FFF ||
+          configured.some((cis) => cis.cisId === cisId)) {
+        return result(HciErrorCode.InvalidCommandParameter);
+      }
+      if (phyMToS === 0 || phySToM === 0 || (phyMToS | phySToM) & ~0x07) {
+        return result(HciErrorCode.UnsupportedFeatureOrValue);
+      }
+
+      configured.push({
+        connectionHandle:     cig.find((cis) => cis.cisId === cisId)?.connectionHandle ?? this.allocateConnectionHandle(),
+        cigSyncDelay:         syncDelay,
+        cisSyncDelay:         syncDelay,
+        transportLatencyMToS: latency(sduIntervalMToS),
+        transportLatencySToM: latency(sduIntervalSToM),
+        phyMToS:              phy(phyMToS),
+        phySToM:              phy(phySToM),
+        nse:                  Math.min(Math.max(rtnMToS, rtnSToM) + 1, 0x1F),
+        bnMToS:               maxSduMToS > 0 ? 1 : 0,
+        bnSToM:               maxSduSToM > 0 ? 1 : 0,
+        ftMToS:               1,
+        ftSToM:               1,
+        maxPduMToS:           Math.min(maxSduMToS, LeMaxDataOctets),
+        maxPduSToM:           Math.min(maxSduSToM, LeMaxDataOctets),
+        isoInterval,
+        cigId,
+        cisId,
+        role:                 VirtualControllerRole.Central,
+        aclConnectionHandle:  null,
+        status:               VirtualCisStatus.Configured,
+        dataPaths:            0,
+      });
+    }
+
+    for (const cis of configured) {
+      this.cisConnections.set(cis.connectionHandle, cis);
+    }
+    return result(HciErrorCode.Success, configured.map((cis) => cis.connectionHandle));
+  }
+
+  private leCreateCis = (params: Buffer): HciErrorCode => {
+    const cisCount = params.readUInt8(0);
+
+    const requests: { cis: VirtualCisState, connection: VirtualConnection }[] = [];
+    for (let i = 0; i < cisCount; i++) {
+      const cisConnectionHandle = params.readUInt16LE(1 + i * 4);
+      const aclConnectionHandle = params.readUInt16LE(3 + i * 4);
+
+      const cis = this.cisConnections.get(cisConnectionHandle);
+      const connection = this.connections.get(aclConnectionHandle);
+      if (!cis || cis.role !== VirtualControllerRole.Central || !connection) {
+        return HciErrorCode.UnknownConnectionId;
+      }
+      if (connection.role !== VirtualControllerRole.Central || cis.status === VirtualCisStatus.Pending) {
+        return HciErrorCode.CommandDisallowed;
+      }
+      if (cis.status === VirtualCisStatus.Established) {
+        return HciErrorCode.ConnectionExists;
+      }
+      requests.push({ cis, connection });
+    }
+    if (requests.length === 0) {
+      return HciErrorCode.InvalidCommandParameter;
+    }
+
+    for (const { cis, connection } of requests) {
+      cis.status = VirtualCisStatus.Pending;
+      cis.aclConnectionHandle = connection.connectionHandle;
+
+      // Connected Isochronous Stream (Peripheral) and Isochronous Channels (Host Support)
+      const required = (1n << 29n) | (1n << 32n);
+      if ((connection.remoteFeatures & required) !== required) {
+        this.defer(() => this.completeCis(cis.connectionHandle, HciErrorCode.UnsupportedFeature));
+        continue;
+      }
+      this.emit('cisRequest', connection.connectionHandle, cis);
+    }
+    return HciErrorCode.Success;
+  }
+
+  private leRemoveCig = (params: Buffer): Buffer => {
+    const cigId = params.readUInt8(0);
+
+    const result = returnParameters(HciErrorCode.Success, 1);
+    result.writeUInt8(cigId, 1);
+
+    const cig = this.getCig(cigId);
+    if (cig.length === 0) {
+      result.writeUInt8(HciErrorCode.UnknownConnectionId, 0);
+      return result;
+    }
+    if (cig.some((cis) => cis.status !== VirtualCisStatus.Configured)) {
+      result.writeUInt8(HciErrorCode.CommandDisallowed, 0);
+      return result;
+    }
+    for (const cis of cig) {
+      this.cisConnections.delete(cis.connectionHandle);
+    }
+    return result;
+  }
+
+  private leAcceptCisRequest = (params: Buffer): HciErrorCode => {
+    const connectionHandle = params.readUInt16LE(0);
+
+    const cis = this.cisConnections.get(connectionHandle);
+    if (!cis) {
+      return HciErrorCode.UnknownConnectionId;
+    }
+    if (cis.role !== VirtualControllerRole.Peripheral || cis.status !== VirtualCisStatus.Pending) {
+      return HciErrorCode.CommandDisallowed;
+    }
+    this.emit('cisResponse', connectionHandle, HciErrorCode.Success);
+    return HciErrorCode.Success;
+  }
+
+  private leRejectCisRequest = (params: Buffer): Buffer => {
+    const connectionHandle = params.readUInt16LE(0);
+    const reason           = params.readUInt8(2);
+
+    const cis = this.cisConnections.get(connectionHandle);
+    if (!cis) {
+      return connectionResult(HciErrorCode.UnknownConnectionId, connectionHandle);
+    }
+    if (cis.role !== VirtualControllerRole.Peripheral || cis.status !== VirtualCisStatus.Pending) {
+      return connectionResult(HciErrorCode.CommandDisallowed, connectionHandle);
+    }
+    if (reason === HciErrorCode.Success) {
+      return connectionResult(HciErrorCode.InvalidCommandParameter, connectionHandle);
+    }
+    this.cisConnections.delete(connectionHandle);
+    this.emit('cisResponse', connectionHandle, reason);
+    return connectionResult(HciErrorCode.Success, connectionHandle);
+  }
+
+  private leSetupIsoDataPath = (params: Buffer): Buffer => {
+    const connectionHandle = params.readUInt16LE(0);
+    const direction        = params.readUInt8(2);
+    const dataPathId       = params.readUInt8(3);
+
+    const cis = this.cisConnections.get(connectionHandle);
+    const bis = this.bisConnections.get(connectionHandle);
+    const stream = cis ?? bis;
+    if (!stream || cis?.status === VirtualCisStatus.Configured) {
+      return connectionResult(HciErrorCode.UnknownConnectionId, connectionHandle);
+    }
+    if (direction > 1 || dataPathId === 0xFF) {
+      return connectionResult(HciErrorCode.InvalidCommandParameter, connectionHandle);
+    }
+    // Only the HCI data path is available
+    if (dataPathId !== 0) {
+      return connectionResult(HciErrorCode.UnsupportedFeatureOrValue, connectionHandle);
+    }
+    if ((cis && cis.status !== VirtualCisStatus.Established) || (stream.dataPaths & (1 << direction))) {
+      return connectionResult(HciErrorCode.CommandDisallowed, connectionHandle);
+    }
+    // BIS data goes from the source to receivers only
+    if (bis) {
+      const source = this.bigs.get(bis.bigHandle)?.advertisingHandle !== null;
+      if (direction !== (source ? LeIsoDataPathDirection.Input : LeIsoDataPathDirection.Output)) {
+        return connectionResult(HciErrorCode.CommandDisallowed, connectionHandle);
+      }
+    }
+    stream.dataPaths |= 1 << direction;
+    return connectionResult(HciErrorCode.Success, connectionHandle);
+  }
+
+  private leRemoveIsoDataPath = (params: Buffer): Buffer => {
+    const connectionHandle = params.readUInt16LE(0);
+    const directions       = params.readUInt8(2);
+
+    const cis = this.cisConnections.get(connectionHandle);
+    const stream = cis ?? this.bisConnections.get(connectionHandle);
+    if (!stream || cis?.status === VirtualCisStatus.Configured) {
+      return connectionResult(HciErrorCode.UnknownConnectionId, connectionHandle);
+    }
+    if (directions === 0 || directions > 3) {
+      return connectionResult(HciErrorCode.InvalidCommandParameter, connectionHandle);
+    }
+    if ((stream.dataPaths & directions) !== directions) {
+      return connectionResult(HciErrorCode.CommandDisallowed, connectionHandle);
+    }
+    stream.dataPaths &= ~directions;
+    return connectionResult(HciErrorCode.Success, connectionHandle);
+  }
+
+  private leCreateBig = (params: Buffer): HciErrorCode => {
+    let o = 0;
+    const bigHandle           = params.readUIntLE(o, 1); o += 1;
+    const advertisingHandle   = params.readUIntLE(o, 1); o += 1;
+    const numBis              = params.readUIntLE(o, 1); o += 1;
+    const sduInterval         = params.readUIntLE(o, 3); o += 3;
+    const maxSdu              = params.readUIntLE(o, 2); o += 2;
+    const maxTransportLatency = params.readUIntLE(o, 2); o += 2;
+    const rtn                 = params.readUIntLE(o, 1); o += 1;
+    const phys                = params.readUIntLE(o, 1); o += 1;
+    const packing             = params.readUIntLE(o, 1); o += 1;
+    const framing             = params.readUIntLE(o, 1); o += 1;
+    const encryption          = params.readUIntLE(o, 1); o += 1;
+    const broadcastCode       = params.subarray(o, o + 16);
+
+    if (bigHandle > 0xEF || numBis === 0 || numBis > 0x1F || sduInterval < 0xFF || maxSdu > 0x0FFF ||
+        maxTransportLatency < 0x05 || maxTransportLatency > 0x0FA0 || rtn > 0x1E ||
+        packing > 1 || framing > 1 || encryption > 1) {
+      return HciErrorCode.InvalidCommandParameter;
+    }
+    if (phys === 0 || (phys & ~0x07)) {
+      return HciErrorCode.UnsupportedFeatureOrValue;
+    }
+    const set = this.advertisingSets.get(advertisingHandle);
+    if (!set) {
+      return HciErrorCode.UnknownAdvertId;
+    }
+    // BIGInfo is carried by periodic advertising, one BIG per set
+    if (this.bigs.has(bigHandle) || this.bigSyncRequests.has(bigHandle) || !set.periodicConfigured ||
+        this.getBigs().some((big) => big.advertisingHandle === advertisingHandle)) {
+      return HciErrorCode.CommandDisallowed;
+    }
+
+    // Same timing as a CIG with a single SDU interval
+    const isoInterval = Math.min(Math.max(Math.round(sduInterval / 1250), 4), 0x0C80);
+    const syncDelay   = Math.floor(isoInterval * 1250 / 2);
+    const nse         = Math.min(rtn + 1, 0x1F);
+
+    const big: VirtualBigState = {
+      bigHandle,
+      advertisingHandle,
+      syncHandle:       null,
+      broadcastCode:    encryption ? Buffer.from(broadcastCode) : null,
+      numBis,
+      bigSyncDelay:     syncDelay,
+      transportLatency: framing ?
+        syncDelay + isoInterval * 1250 + sduInterval :
+        Math.max(syncDelay + isoInterval * 1250 - sduInterval, syncDelay),
+      phy:              (phys & 2) ? 2 : (phys & 1) ? 1 : 3,
+      nse,
+      bn:               1,
+      pto:              0,
+      irc:              nse,
+      maxPdu:           Math.min(maxSdu, LeMaxDataOctets),
+      isoInterval,
+      sduInterval,
+      maxSdu,
+      framing,
+      encryption:       encryption === 1,
+      bis:              [],
+    };
+    for (let index = 1; index <= numBis; index++) {
+      const bis = { connectionHandle: this.allocateConnectionHandle(), bigHandle, index, dataPaths: 0 };
+      this.bisConnections.set(bis.connectionHandle, bis);
+      big.bis.push(bis);
+    }
+    this.bigs.set(bigHandle, big);
+
+    const connectionHandles = big.bis.map((bis) => bis.connectionHandle);
+    this.defer(() => this.sendEvent(
+      VirtualControllerEvents.leCreateBigComplete(HciErrorCode.Success, bigHandle, big, connectionHandles)
+    ));
+    this.emit('state');
+    return HciErrorCode.Success;
+  }
+
+  private leTerminateBig = (params: Buffer): HciErrorCode => {
+    const bigHandle = params.readUInt8(0);
+    const reason    = params.readUInt8(1);
+
+    const big = this.bigs.get(bigHandle);
+    if (!big || big.advertisingHandle === null) {
+      return HciErrorCode.UnknownAdvertId;
+    }
+    this.removeBig(big);
+    this.emit('bigTerminated', bigHandle, reason);
+
+    this.defer(() => this.sendEvent(
+      VirtualControllerEvents.leTerminateBigComplete(bigHandle, HciErrorCode.ConnTerminatedByHost)
+    ));
+    this.emit('state');
+    return HciErrorCode.Success;
+  }
+
+  private leBigCreateSync = (params: Buffer): HciErrorCode => {
+    let o = 0;
+    const bigHandle     = params.readUIntLE(o, 1); o += 1;
+    const syncHandle    = params.readUIntLE(o, 2); o += 2;
+    const encryption    = params.readUIntLE(o, 1); o += 1;
+    const broadcastCode = params.subarray(o, o + 16); o += 16;
+    /* mse */                                      o += 1;
+    const syncTimeout   = params.readUIntLE(o, 2); o += 2;
+    const numBis        = params.readUIntLE(o, 1); o += 1;
+    const bis           = [...params.subarray(o, o + numBis)];
+
+    if (bigHandle > 0xEF || encryption > 1 || syncTimeout < 0x000A || syncTimeout > 0x4000 ||
+        numBis === 0 || numBis > 0x1F || bis.some((index) => index === 0 || index > 0x1F) ||
+        new Set(bis).size !== bis.length) {
+      return HciErrorCode.InvalidCommandParameter;
+    }
+    if (!this.periodicSyncs.has(syncHandle)) {
+      return HciErrorCode.UnknownAdvertId;
+    }
+    if (this.bigs.has(bigHandle) || this.bigSyncRequests.has(bigHandle)) {
+      return HciErrorCode.CommandDisallowed;
+    }
+
+    const request: VirtualBigSyncRequest = {
+      bigHandle,
+      syncHandle,
+      broadcastCode: encryption ? Buffer.from(broadcastCode) : null,
+      bis,
+    };
+    this.bigSyncRequests.set(bigHandle, request);
+
+    // Fails unless BIGInfo is received within the BIG sync timeout
+    this.defer(() => {
+      if (this.bigSyncRequests.get(bigHandle) !== request) {
+        return;
+      }
+      this.bigSyncRequests.delete(bigHandle);
+      this.sendEvent(VirtualControllerEvents.leBigSyncEstablished(
+        HciErrorCode.ConnectionNotEstablished, bigHandle, null, []
+      ));
+      this.emit('state');
+    }, syncTimeout * 10);
+
+    this.emit('state');
+    return HciErrorCode.Success;
+  }
+
+  // Cancels a pending BIG Create Sync as well
+  private leBigTerminateSync = (params: Buffer): Buffer => {
+    const bigHandle = params.readUInt8(0);
+
+    const result = returnParameters(HciErrorCode.Success, 1);
+    result.writeUInt8(bigHandle, 1);
+
+    if (this.bigSyncRequests.delete(bigHandle)) {
+      this.defer(() => this.sendEvent(
+        VirtualControllerEvents.leBigSyncEstablished(HciErrorCode.OperationCancelled, bigHandle, null, [])
+      ));
+      this.emit('state');
+      return result;
+    }
+
+    const big = this.bigs.get(bigHandle);
+    if (!big || big.syncHandle === null) {
+      result.writeUInt8(HciErrorCode.UnknownAdvertId, 0);
+      return result;
+    }
+    this.removeBig(big);
+    this.emit('state');
+    return result;
+  }
+}
@@ -0,0 +1,518 @@
+import { HciEvent, HciLeEvent } from '../hci/HciEvent';
+import { HciErrorCode } from '../hci/HciError';
+import { Address } from '../utils/Address';
+
+export interface VirtualConnectionParams {
+  connectionHandle: number;
+  role: number;
+  peerAddressType: number;
+  peerAddress: Address;
+  localResolvablePrivateAddress?: Address;
+  peerResolvablePrivateAddress?: Address;
+  connectionInterval: number;
+  connectionLatency: number;
+  supervisionTimeout: number;
+  masterClockAccuracy: number;
+}
+
+export interface VirtualAdvReport {
+  eventType: number;
+  addressType: number;
+  address: Address;
+  data: Buffer;
+  rssi: number;
+}
+
+export interface VirtualExtAdvReport extends VirtualAdvReport {
+  primaryPhy: number;
+  secondaryPhy: number;
+  advertisingSid: number;
+  txPower: number;
+  periodicAdvInterval: number;
+  directAddressType: number;
+  directAddress: Address;
+}
+
+export interface VirtualPeriodicSync {
+  syncHandle: number;
+  advertisingSid: number;
+  advertiserAddressType: number;
+  advertiserAddress: Address;
+  advertiserPhy: number;
+  periodicAdvInterval: number;
+  advertiserClockAccuracy: number;
+}
+
+export interface VirtualCis {
+  connectionHandle: number;
+  cigSyncDelay: number;
+  cisSyncDelay: number;
+  transportLatencyMToS: number;
+  transportLatencySToM: number;
+  phyMToS: number;
+  phySToM: number;
+  nse: number;
+  bnMToS: number;
+  bnSToM: number;
+  ftMToS: number;
+  ftSToM: number;
+  maxPduMToS: number;
+  maxPduSToM: number;
+  isoInterval: number;
+}
+
+// BIG parameters, as announced in BIGInfo
+export interface VirtualBig {
+  numBis: number;
+  bigSyncDelay: number;
+  transportLatency: number;
+  phy: number;
+  nse: number;
+  bn: number;
+  pto: number;
+  irc: number;
+  maxPdu: number;
+  isoInterval: number;
+  sduInterval: number;
+  maxSdu: number;
+  framing: number;
+  encryption: boolean;
+}
+
+export class VirtualControllerEvents {
+  static event(eventCode: HciEvent, payload: Buffer): Buffer {
+    const event = Buffer.allocUnsafe(2 + payload.length);
+    event[0] = eventCode;
+    event[1] = payload.length;
+    payload.copy(event, 2);
+    return event;
+  }
+
+  static leEvent(subeventCode: HciLeEvent, payload: Buffer): Buffer {
+    return this.event(HciEvent.LeMeta, Buffer.concat([ Buffer.from([ subeventCode ]), payload ]));
+  }
+
+  static commandComplete(numHciPackets: number, opcode: number, returnParameters: Buffer): Buffer {
+    const payload = Buffer.allocUnsafe(3 + returnParameters.length);
+
+    let o = 0;
+    o = payload.writeUIntLE(numHciPackets, o, 1);
+    o = payload.writeUIntLE(opcode,        o, 2);
+    returnParameters.copy(payload, o);
+
+    return this.event(HciEvent.CommandComplete, payload);
+  }
+
+  static commandStatus(status: HciErrorCode, numHciPackets: number, opcode: number): Buffer {
+    const payload = Buffer.allocUnsafe(4);
+
+    let o = 0;
+    o = payload.writeUIntLE(status,        o, 1);
+    o = payload.writeUIntLE(numHciPackets, o, 1);
+    o = payload.writeUIntLE(opcode,        o, 2);
+
+    return this.event(HciEvent.CommandStatus, payload);
+  }
+
+  static disconnectionComplete(status: HciErrorCode, connectionHandle: number, reason: number): Buffer {
+    const payload = Buffer.allocUnsafe(4);
+
+    let o = 0;
+    o = payload.writeUIntLE(status,           o, 1);
+    o = payload.writeUIntLE(connectionHandle, o, 2);
+    o = payload.writeUIntLE(reason,           o, 1);
+
+    return this.event(HciEvent.DisconnectionComplete, payload);
+  }
+
+  static readRemoteVersionInformationComplete(
+    status: HciErrorCode,
+    connectionHandle: number,
+    version: number,
+    manufacturerName: number,
+    subversion: number,
+  ): Buffer {
+    const payload = Buffer.allocUnsafe(8);
+
+    let o = 0;
+    o = payload.writeUIntLE(status,           o, 1);
+    o = payload.writeUIntLE(connectionHandle, o, 2);
+    o = payload.writeUIntLE(version,          o, 1);
+    o = payload.writeUIntLE(manufacturerName, o, 2);
+    o = payload.writeUIntLE(subversion,       o, 2);
+
+    return this.event(HciEvent.ReadRemoteVersionInformationComplete, payload);
+  }
+
+  static hardwareError(hardwareCode: number): Buffer {
+    return this.event(HciEvent.HardwareError, Buffer.from([ hardwareCode ]));
+  }
+
+  static dataBufferOverflow(linkType: number): Buffer {
+    return this.event(HciEvent.DataBufferOverflow, Buffer.from([ linkType ]));
+  }
+
+  static numberOfCompletedPackets(entries: { connectionHandle: number, numCompletedPackets: number }[]): Buffer {
+    const payload = Buffer.allocUnsafe(1 + entries.length * 4);
+
+    let o = 0;
+    o = payload.writeUIntLE(entries.length, o, 1);
+    for (const entry of entries) {
+      o = payload.writeUIntLE(entry.connectionHandle, o, 2);
+    }
+    for (const entry of entries) {
+      o = payload.writeUIntLE(entry.numCompletedPackets, o, 2);
+    }
+
+    return this.event(HciEvent.NumberOfCompletedPackets, payload);
+  }
+
+  static leConnectionComplete(status: HciErrorCode, params: VirtualConnectionParams): Buffer {
+    const payload = Buffer.allocUnsafe(18);
+
+    let o = 0;
+    o = payload.writeUIntLE(status,                          o, 1);
+    o = payload.writeUIntLE(params.connectionHandle,         o, 2);
+    o = payload.writeUIntLE(params.role,                     o, 1);
+    o = payload.writeUIntLE(params.peerAddressType,          o, 1);
+    o = payload.writeUIntLE(params.peerAddress.toNumeric(),  o, 6);
+    o = payload.writeUIntLE(params.connectionInterval,       o, 2);
+    o = payload.writeUIntLE(params.connectionLatency,        o, 2);
+    o = payload.writeUIntLE(params.supervisionTimeout,       o, 2);
+    o = payload.writeUIntLE(params.masterClockAccuracy,      o, 1);
+
+    return this.leEvent(HciLeEvent.ConnectionComplete, payload);
+  }
+
+  static leEnhancedConnectionComplete(status: HciErrorCode, params: VirtualConnectionParams): Buffer {
+    const payload = Buffer.allocUnsafe(30);
+
+    const localRpa = params.localResolvablePrivateAddress?.toNumeric() ?? 0;
+    const peerRpa  = params.peerResolvablePrivateAddress?.toNumeric()  ?? 0;
+
+    let o = 0;
+    o = payload.writeUIntLE(status,                          o, 1);
+    o = payload.writeUIntLE(params.connectionHandle,         o, 2);
+    o = payload.writeUIntLE(params.role,                     o, 1);
+    o = payload.writeUIntLE(params.peerAddressType,          o, 1);
+    o = payload.writeUIntLE(params.peerAddress.toNumeric(),  o, 6);
+    o = payload.writeUIntLE(localRpa,                        o, 6);
+    o = payload.writeUIntLE(peerRpa,                         o, 6);
+    o = payload.writeUIntLE(params.connectionInterval,       o, 2);
+    o = payload.writeUIntLE(params.connectionLatency,        o, 2);
+    o = payload.writeUIntLE(params.supervisionTimeout,       o, 2);
+    o = payload.writeUIntLE(params.masterClockAccuracy,      o, 1);
+
+    return this.leEvent(HciLeEvent.EnhancedConnectionComplete, payload);
+  }
+
+  static leAdvertisingReport(report: VirtualAdvReport): Buffer {
+    const payload = Buffer.allocUnsafe(1+1+1+6+1 + report.data.length + 1);
+
+    let o = 0;
+    o  = payload.writeUIntLE(1,                          o, 1);
+    o  = payload.writeUIntLE(report.eventType,           o, 1);
+    o  = payload.writeUIntLE(report.addressType,         o, 1);
+    o  = payload.writeUIntLE(report.address.toNumeric(), o, 6);
+    o  = payload.writeUIntLE(report.data.length,         o, 1);
+    o += report.data.copy(payload, o);
+    o  = payload.writeIntLE (report.rssi,                o, 1);
+
+    return this.leEvent(HciLeEvent.AdvertisingReport, payload);
+  }
+
+  static leExtendedAdvertisingReport(report: VirtualExtAdvReport): Buffer {
+    const payload = Buffer.allocUnsafe(1+2+1+6+1+1+1+1+1+2+1+6+1 + report.data.length);
+
+    let o = 0;
+    o  = payload.writeUIntLE(1,                                o, 1);
+    o  = payload.writeUIntLE(report.eventType,                 o, 2);
+    o  = payload.writeUIntLE(report.addressType,               o, 1);
+    o  = payload.writeUIntLE(report.address.toNumeric(),       o, 6);
+    o  = payload.writeUIntLE(report.primaryPhy,                o, 1);
+    o  = payload.writeUIntLE(report.secondaryPhy,              o, 1);
+    o  = payload.writeUIntLE(report.advertisingSid,            o, 1);
+    o  = payload.writeIntLE (report.txPower,                   o, 1);
+    o  = payload.writeIntLE (report.rssi,                      o, 1);
+    o  = payload.writeUIntLE(report.periodicAdvInterval,       o, 2);
+    o  = payload.writeUIntLE(report.directAddressType,         o, 1);
+    o  = payload.writeUIntLE(report.directAddress.toNumeric(), o, 6);
+    o  = payload.writeUIntLE(report.data.length,               o, 1);
+    report.data.copy(payload, o);
+
+    return this.leEvent(HciLeEvent.ExtendedAdvertisingReport, payload);
+  }
+
+  static lePeriodicAdvertisingSyncEstablished(status: HciErrorCode, sync: VirtualPeriodicSync): Buffer {
+    const payload = Buffer.allocUnsafe(15);
+
+    let o = 0;
+    o = payload.writeUIntLE(status,                             o, 1);
+    o = payload.writeUIntLE(sync.syncHandle,                    o, 2);
+    o = payload.writeUIntLE(sync.advertisingSid,                o, 1);
+    o = payload.writeUIntLE(sync.advertiserAddressType,         o, 1);
+    o = payload.writeUIntLE(sync.advertiserAddress.toNumeric(), o, 6);
+    o = payload.writeUIntLE(sync.advertiserPhy,                 o, 1);
+    o = payload.writeUIntLE(sync.periodicAdvInterval,           o, 2);
+    o = payload.writeUIntLE(sync.advertiserClockAccuracy,       o, 1);
+
+    return this.leEvent(HciLeEvent.PeriodicAdvertisingSyncEstablished, payload);
+  }
+
+  static lePeriodicAdvertisingSyncTransferReceived(
+    status: HciErrorCode,
+    connectionHandle: number,
+    serviceData: number,
+    sync: VirtualPeriodicSync,
+  ): Buffer {
+    const payload = Buffer.allocUnsafe(19);
+
+    let o = 0;
+    o = payload.writeUIntLE(status,                             o, 1);
+    o = payload.writeUIntLE(connectionHandle,                   o, 2);
+    o = payload.writeUIntLE(serviceData,                        o, 2);
+    o = payload.writeUIntLE(sync.syncHandle,                    o, 2);
+    o = payload.writeUIntLE(sync.advertisingSid,                o, 1);
+    o = payload.writeUIntLE(sync.advertiserAddressType,         o, 1);
+    o = payload.writeUIntLE(sync.advertiserAddress.toNumeric(), o, 6);
+    o = payload.writeUIntLE(sync.advertiserPhy,                 o, 1);
+    o = payload.writeUIntLE(sync.periodicAdvInterval,           o, 2);
+    o = payload.writeUIntLE(sync.advertiserClockAccuracy,       o, 1);
+
+    return this.leEvent(HciLeEvent.PeriodicAdvertisingSyncTransferReceived, payload);
+  }
+
+  static lePeriodicAdvertisingReport(
+    syncHandle: number,
+    txPower: number,
+    rssi: number,
+    dataStatus: number,
+    data: Buffer,
+  ): Buffer {
+    const payload = Buffer.allocUnsafe(2+1+1+1+1+1 + data.length);
+
+    let o = 0;
+    o = payload.writeUIntLE(syncHandle,  o, 2);
+    o = payload.writeIntLE (txPower,     o, 1);
+    o = payload.writeIntLE (rssi,        o, 1);
+    o = payload.writeUIntLE(0xFF,        o, 1);
+    o = payload.writeUIntLE(dataStatus,  o, 1);
+    o = payload.writeUIntLE(data.length, o, 1);
+    data.copy(payload, o);
+
+    return this.leEvent(HciLeEvent.PeriodicAdvertisingReport, payload);
+  }
+
+  static lePeriodicAdvertisingSyncLost(syncHandle: number): Buffer {
+    const payload = Buffer.allocUnsafe(2);
+    payload.writeUIntLE(syncHandle, 0, 2);
+    return this.leEvent(HciLeEvent.PeriodicAdvertisingSyncLost, payload);
+  }
+
+  static leConnectionUpdateComplete(
+    status: HciErrorCode,
+    connectionHandle: number,
+    connectionInterval: number,
+    connectionLatency: number,
+    supervisionTimeout: number,
+  ): Buffer {
+    const payload = Buffer.allocUnsafe(9);
+
+    let o = 0;
+    o = payload.writeUIntLE(status,             o, 1);
+    o = payload.writeUIntLE(connectionHandle,   o, 2);
+    o = payload.writeUIntLE(connectionInterval, o, 2);
+    o = payload.writeUIntLE(connectionLatency,  o, 2);
+    o = payload.writeUIntLE(supervisionTimeout, o, 2);
+
+    return this.leEvent(HciLeEvent.ConnectionUpdateComplete, payload);
+  }
+
+  static leReadRemoteFeaturesComplete(status: HciErrorCode, connectionHandle: number, features: bigint): Buffer {
+    const payload = Buffer.allocUnsafe(11);
+
+    let o = 0;
+    o = payload.writeUIntLE(status,           o, 1);
+    o = payload.writeUIntLE(connectionHandle, o, 2);
+    o = payload.writeBigUInt64LE(features,    o);
+
+    return this.leEvent(HciLeEvent.ReadRemoteFeaturesComplete, payload);
+  }
+
+  static leDataLengthChange(
+    connectionHandle: number,
+    maxTxOctets: number,
+    maxTxTime: number,
+    maxRxOctets: number,
+    maxRxTime: number,
+  ): Buffer {
+    const payload = Buffer.allocUnsafe(10);
+
+    let o = 0;
+    o = payload.writeUIntLE(connectionHandle, o, 2);
+    o = payload.writeUIntLE(maxTxOctets,      o, 2);
+    o = payload.writeUIntLE(maxTxTime,        o, 2);
+    o = payload.writeUIntLE(maxRxOctets,      o, 2);
+    o = payload.writeUIntLE(maxRxTime,        o, 2);
+
+    return this.leEvent(HciLeEvent.DataLengthChange, payload);
+  }
+
+  static lePhyUpdateComplete(status: HciErrorCode, connectionHandle: number, txPhy: number, rxPhy: number): Buffer {
+    const payload = Buffer.allocUnsafe(5);
+
+    let o = 0;
+    o = payload.writeUIntLE(status,           o, 1);
+    o = payload.writeUIntLE(connectionHandle, o, 2);
+    o = payload.writeUIntLE(txPhy,            o, 1);
+    o = payload.writeUIntLE(rxPhy,            o, 1);
+
+    return this.leEvent(HciLeEvent.PhyUpdateComplete, payload);
+  }
+
+  static leScanTimeout(): Buffer {
+    return this.leEvent(HciLeEvent.ScanTimeout, Buffer.allocUnsafe(0));
+  }
+
+  static leAdvertisingSetTerminated(
+    status: HciErrorCode,
+    advertisingHandle: number,
+    connectionHandle: number,
+    numCompletedEvents: number,
+  ): Buffer {
+    const payload = Buffer.allocUnsafe(5);
+
+    let o = 0;
+    o = payload.writeUIntLE(status,             o, 1);
+    o = payload.writeUIntLE(advertisingHandle,  o, 1);
+    o = payload.writeUIntLE(connectionHandle,   o, 2);
+    o = payload.writeUIntLE(numCompletedEvents, o, 1);
+
+    return this.leEvent(HciLeEvent.AdvertisingSetTerminated, payload);
+  }
+
+  static leChannelSelectionAlgorithm(connectionHandle: number, algorithm: number): Buffer {
+    const payload = Buffer.allocUnsafe(3);
+
+    let o = 0;
+    o = payload.writeUIntLE(connectionHandle, o, 2);
+    o = payload.writeUIntLE(algorithm,        o, 1);
+
+    return this.leEvent(HciLeEvent.ChannelSelectionAlgorithm, payload);
+  }
+
+  static leCisEstablished(status: HciErrorCode, cis: VirtualCis): Buffer {
+    const payload = Buffer.allocUnsafe(28);
+
+    let o = 0;
+    o = payload.writeUIntLE(status,                   o, 1);
+    o = payload.writeUIntLE(cis.connectionHandle,     o, 2);
+    o = payload.writeUIntLE(cis.cigSyncDelay,         o, 3);
+    o = payload.writeUIntLE(cis.cisSyncDelay,         o, 3);
+    o = payload.writeUIntLE(cis.transportLatencyMToS, o, 3);
+    o = payload.writeUIntLE(cis.transportLatencySToM, o, 3);
+    o = payload.writeUIntLE(cis.phyMToS,              o, 1);
+    o = payload.writeUIntLE(cis.phySToM,              o, 1);
+    o = payload.writeUIntLE(cis.nse,                  o, 1);
+    o = payload.writeUIntLE(cis.bnMToS,               o, 1);
+    o = payload.writeUIntLE(cis.bnSToM,               o, 1);
+    o = payload.writeUIntLE(cis.ftMToS,               o, 1);
+    o = payload.writeUIntLE(cis.ftSToM,               o, 1);
+    o = payload.writeUIntLE(cis.maxPduMToS,           o, 2);
+    o = payload.writeUIntLE(cis.maxPduSToM,           o, 2);
+    o = payload.writeUIntLE(cis.isoInterval,          o, 2);
+
+    return this.leEvent(HciLeEvent.CisEstablished, payload);
+  }
+
+  static leCisRequest(aclConnectionHandle: number, cisConnectionHandle: number, cigId: number, cisId: number): Buffer {
+    const payload = Buffer.allocUnsafe(6);
+
+    let o = 0;
+    o = payload.writeUIntLE(aclConnectionHandle, o, 2);
+    o = payload.writeUIntLE(cisConnectionHandle, o, 2);
+    o = payload.writeUIntLE(cigId,               o, 1);
+    o = payload.writeUIntLE(cisId,               o, 1);
+
+    return this.leEvent(HciLeEvent.CisRequest, payload);
+  }
+
+  static leCreateBigComplete(status: HciErrorCode, bigHandle: number, big: VirtualBig, connectionHandles: number[]): Buffer {
+    const payload = Buffer.allocUnsafe(18 + connectionHandles.length * 2);
+
+    let o = 0;
+    o = payload.writeUIntLE(status,                   o, 1);
+    o = payload.writeUIntLE(bigHandle,                o, 1);
+    o = payload.writeUIntLE(big.bigSyncDelay,         o, 3);
+    o = payload.writeUIntLE(big.transportLatency,     o, 3);
+    o = payload.writeUIntLE(big.phy,                  o, 1);
+    o = payload.writeUIntLE(big.nse,                  o, 1);
+    o = payload.writeUIntLE(big.bn,                   o, 1);
+    o = payload.writeUIntLE(big.pto,                  o, 1);
+    o = payload.writeUIntLE(big.irc,                  o, 1);
+    o = payload.writeUIntLE(big.maxPdu,               o, 2);
+    o = payload.writeUIntLE(big.isoInterval,          o, 2);
+    o = payload.writeUIntLE(connectionHandles.length, o, 1);
+    for (const connectionHandle of connectionHandles) {
+      o = payload.writeUIntLE(connectionHandle,       o, 2);
+    }
+
+    return this.leEvent(HciLeEvent.CreateBigComplete, payload);
+  }
+
+  static leTerminateBigComplete(bigHandle: number, reason: HciErrorCode): Buffer {
+    return this.leEvent(HciLeEvent.TerminateBigComplete, Buffer.from([ bigHandle, reason ]));
+  }
+
+  // Parameters are zeroed when synchronization failed
+  static leBigSyncEstablished(
+    status: HciErrorCode,
+    bigHandle: number,
+    big: VirtualBig | null,
+    connectionHandles: number[],
+  ): Buffer {
+    const payload = Buffer.alloc(14 + connectionHandles.length * 2);
+
+    let o = 0;
+    o = payload.writeUIntLE(status,                     o, 1);
+    o = payload.writeUIntLE(bigHandle,                  o, 1);
+    o = payload.writeUIntLE(big?.transportLatency ?? 0, o, 3);
+    o = payload.writeUIntLE(big?.nse ?? 0,              o, 1);
+    o = payload.writeUIntLE(big?.bn ?? 0,               o, 1);
+    o = payload.writeUIntLE(big?.pto ?? 0,              o, 1);
+    o = payload.writeUIntLE(big?.irc ?? 0,              o, 1);
+    o = payload.writeUIntLE(big?.maxPdu ?? 0,           o, 2);
+    o = payload.writeUIntLE(big?.isoInterval ?? 0,      o, 2);
+    o = payload.writeUIntLE(connectionHandles.length,   o, 1);
+    for (const connectionHandle of connectionHandles) {
+      o = payload.writeUIntLE(connectionHandle,         o, 2);
+    }
+
+    return this.leEvent(HciLeEvent.BigSyncEstablished, payload);
+  }
+
+  static leBigSyncLost(bigHandle: number, reason: HciErrorCode): Buffer {
+    return this.leEvent(HciLeEvent.BigSyncLost, Buffer.from([ bigHandle, reason ]));
+  }
+
+  static leBigInfoAdvertisingReport(syncHandle: number, big: VirtualBig): Buffer {
+    const payload = Buffer.allocUnsafe(19);
+
+    let o = 0;
+    o = payload.writeUIntLE(syncHandle,             o, 2);
+    o = payload.writeUIntLE(big.numBis,             o, 1);
+    o = payload.writeUIntLE(big.nse,                o, 1);
+    o = payload.writeUIntLE(big.isoInterval,        o, 2);
+    o = payload.writeUIntLE(big.bn,                 o, 1);
+    o = payload.writeUIntLE(big.pto,                o, 1);
+    o = payload.writeUIntLE(big.irc,                o, 1);
+    o = payload.writeUIntLE(big.maxPdu,             o, 2);
+    o = payload.writeUIntLE(big.sduInterval,        o, 3);
+    o = payload.writeUIntLE(big.maxSdu,             o, 2);
+    o = payload.writeUIntLE(big.phy,                o, 1);
+    o = payload.writeUIntLE(big.framing,            o, 1);
+    o = payload.writeUIntLE(big.encryption ? 1 : 0, o, 1);
+
+    return this.leEvent(HciLeEvent.BigInfoAdvertisingReport, payload);
+  }
+}
@@ -0,0 +1,526 @@
+import { AclDataBoundary } from '../acl/Acl';
+import { AttOpcode } from '../att/AttOpcode';
+import {
+  AttSerDes, AttErrorRsp, AttExchangeMtuReq, AttExchangeMtuRsp, AttFindInformationReq,
+  AttFindInformationRsp, AttFindByTypeValueReq, AttFindByTypeValueRsp, AttReadByTypeReq,
+  AttReadByTypeRsp, AttReadReq, AttReadRsp, AttReadBlobReq, AttReadBlobRsp, AttReadMultipleReq,
+  AttReadMultipleRsp, AttReadByGroupTypeReq, AttReadByGroupTypeRsp, AttWriteReq, AttWriteRsp,
+  AttPrepareWriteReq, AttPrepareWriteRsp, AttExecuteWriteReq, AttExecuteWriteRsp,
+  AttReadMultipleVariableReq, AttReadMultipleVariableRsp, AttWriteCmd, AttSignedWriteCmd,
+  AttHandleValueNtf, AttHandleValueInd, AttHandleValueCfm, AttMultipleHandleValueNtf,
+} from '../att/AttSerDes';
+import { BtsnoopDirection } from '../btsnoop/Btsnoop';
+import { HciOpcode } from '../hci/HciCmd';
+import { getHciErrorMessage, HciErrorCode } from '../hci/HciError';
+import {
+  HciEvent, HciLeEvent, ReadRemoteVersionInformationComplete, LeConnectionComplete, LeAdvReport,
+  LeConnectionUpdateComplete, LeReadRemoteFeaturesComplete, LeLongTermKeyRequest,
+  LeRemoteConnectionParameterRequest, LeDataLengthChange, LeReadLocalP256PublicKeyComplete,
+  LeGenerateDhKeyComplete, LeEnhConnectionComplete, LeDirectedAdvertisingReport, LePhyUpdateComplete,
+  LeExtAdvReport, LeAdvertisingSetTerminated, LeChannelSelAlgo, LePeriodicAdvertisingSyncEstablished,
+  LePeriodicAdvertisingReport, LePeriodicAdvertisingSyncLost, LePeriodicAdvertisingSyncTransferReceived,
+  LeCisEstablished, LeCisRequest, LeCreateBigComplete, LeTerminateBigComplete, LeBigSyncEstablished,
+  LeBigSyncLost, LeBigInfoAdvertisingReport,
+} from '../hci/HciEvent';
+import {
+  ReadAuthenticatedPayloadTimeout, ReadLeHostSupport, ReadTransmitPowerLevel,
+} from '../hci/HciControlAndBaseband';
+import {
+  ReadLocalSupportedFeatures, ReadLocalVersionInformation, ReadBufferSize, ReadBdAddr,
+  ReadLocalSupportedCommands, ReadRssi,
+} from '../hci/HciInformationParameters';
+import {
+  LeReadBufferSize, LeReadBufferSizeV2, LeReadLocalSupportedFeatures,
+  LeReadAdvertisingPhysicalChannelTxPower, LeReadWhiteListSize, LeReadChannelMap, LeEncrypt, LeRand,
+  LeSupportedStates, LeTestEnd, LeSuggestedDefaultDataLength, LeReadResolvingListSize,
+  LeMaximumDataLength, LeTxRxPhy, LeExtendedAdvertisingParameters, LeNumberOfSupportedAdvertisingSets,
+  LeTransmitPower,
+} from '../hci/HciLeController';
+import {
+  HciOgf, HciOcfNames, HciOcfControlAndBasebandCommands, HciOcfInformationParameters, HciOcfStatusParameters,
+  HciOcfLeControllerCommands,
+} from '../hci/HciOgfOcf';
+import { HciPacketType } from '../hci/HciPacketType';
+import { L2capChannelId } from '../l2cap/L2capChannelId';
+import { L2capSignalingCommand } from '../l2cap/L2capSignalingCommand';
+
+export interface DissectorNode {
+  label: string;
+  value?: string;
+  children?: DissectorNode[];
+}
+
+export interface DissectedPacket {
+  summary: string;
+  tree: DissectorNode;
+}
+
+interface L2capFragments {
+  length: number;
+  channelId: number;
+  payload: Buffer;
+}
+
+type Decoder = (data: Buffer) => unknown;
+
+const cb = (ocf: HciOcfControlAndBasebandCommands) => HciOpcode.build({ ogf: HciOgf.ControlAndBasebandCommands, ocf });
+const ip = (ocf: HciOcfInformationParameters)      => HciOpcode.build({ ogf: HciOgf.InformationParameters,      ocf });
+const sp = (ocf: HciOcfStatusParameters)           => HciOpcode.build({ ogf: HciOgf.StatusParameters,           ocf });
+const le = (ocf: HciOcfLeControllerCommands)       => HciOpcode.build({ ogf: HciOgf.LeControllerCommands,       ocf });
+
+// Command Complete return parameters, without the status
+const ReturnParameters: { [opcode: number]: Decoder } = {
+  [cb(HciOcfControlAndBasebandCommands.ReadTransmitPowerLevel)]:          (d) => ReadTransmitPowerLevel.outParams(d),
+  [cb(HciOcfControlAndBasebandCommands.ReadLeHostSupport)]:               (d) => ReadLeHostSupport.outParams(d),
+  [cb(HciOcfControlAndBasebandCommands.ReadAuthenticatedPayloadTimeout)]: (d) => ReadAuthenticatedPayloadTimeout.outParams(d),
+  [ip(HciOcfInformationParameters.ReadLocalSupportedFeatures)]:           (d) => ReadLocalSupportedFeatures.outParams(d),
+  [ip(HciOcfInformationParameters.ReadLocalVersionInformation)]:          (d) => ReadLocalVersionInformation.outParams(d),
+  [ip(HciOcfInformationParameters.ReadBufferSize)]:                       (d) => ReadBufferSize.outParams(d),
+  [ip(HciOcfInformationParameters.ReadBdAddr)]:                           (d) => ReadBdAddr.outParams(d),
+  [ip(HciOcfInformationParameters.ReadLocalSupportedCommands)]:           (d) => ReadLocalSupportedCommands.outParams(d),
+  [sp(HciOcfStatusParameters.ReadRssi)]:                                  (d) => ReadRssi.outParams(d),
+  [le(HciOcfLeControllerCommands.ReadBufferSizeV1)]:                      (d) => LeReadBufferSize.outParams(d),
+  [le(HciOcfLeControllerCommands.ReadBufferSizeV2)]:                      (d) => LeReadBufferSizeV2.outParams(d),
+  [le(HciOcfLeControllerCommands.ReadLocalSupportedFeatures)]:            (d) => LeReadLocalSupportedFeatures.outParams(d),
+  [le(HciOcfLeControllerCommands.ReadAdvertisingPhysicalChannelTxPower)]: (d) => LeReadAdvertisingPhysicalChannelTxPower.outParams(d),
+  [le(HciOcfLeControllerCommands.ReadWhiteListSize)]:                     (d) => LeReadWhiteListSize.outParams(d),
+  [le(HciOcfLeControllerCommands.ReadChannelMap)]:                        (d) => LeReadChannelMap.outParams(d),
+  [le(HciOcfLeControllerCommands.Encrypt)]:                               (d) => LeEncrypt.outParams(d),
+  [le(HciOcfLeControllerCommands.Rand)]:                                  (d) => LeRand.outParams(d),
+  [le(HciOcfLeControllerCommands.ReadSupportedStates)]:                   (d) => LeSupportedStates.outParams(d),
+  [le(HciOcfLeControllerCommands.TestEnd)]:                               (d) => LeTestEnd.outParams(d),
+  [le(HciOcfLeControllerCommands.ReadSuggestedDefaultDataLength)]:        (d) => LeSuggestedDefaultDataLength.outParams(d),
+  [le(HciOcfLeControllerCommands.ReadResolvingListSize)]:                 (d) => LeReadResolvingListSize.outParams(d),
+  [le(HciOcfLeControllerCommands.ReadMaximumDataLength)]:                 (d) => LeMaximumDataLength.outParams(d),
+  [le(HciOcfLeControllerCommands.ReadPhy)]:                               (d) => LeTxRxPhy.outParams(d),
+  [le(HciOcfLeControllerCommands.SetExtendedAdvertisingParameters)]:      (d) => LeExtendedAdvertisingParameters.outParams(d),
+  [le(HciOcfLeControllerCommands.ReadNumberOfSupportedAdvertisingSets)]:  (d) => LeNumberOfSupportedAdvertisingSets.outParams(d),
+  [le(HciOcfLeControllerCommands.ReadTransmitPower)]:                     (d) => LeTransmitPower.outParams(d),
+};
+
+// LE Meta subevent parameters, without the subevent code
+const LeEventParameters: { [subevent: number]: Decoder } = {
+  [HciLeEvent.ConnectionComplete]:                      (d) => LeConnectionComplete.parse(d),
+  [HciLeEvent.AdvertisingReport]:                       (d) => LeAdvReport.parse(d),
+  [HciLeEvent.ConnectionUpdateComplete]:                (d) => LeConnectionUpdateComplete.parse(d),
+  [HciLeEvent.ReadRemoteFeaturesComplete]:              (d) => LeReadRemoteFeaturesComplete.parse(d),
+  [HciLeEvent.LongTermKeyRequest]:                      (d) => LeLongTermKeyRequest.parse(d),
+  [HciLeEvent.RemoteConnectionParameterRequest]:        (d) => LeRemoteConnectionParameterRequest.parse(d),
+  [HciLeEvent.DataLengthChange]:                        (d) => LeDataLengthChange.parse(d),
+  [HciLeEvent.ReadLocalP256PublicKeyComplete]:          (d) => LeReadLocalP256PublicKeyComplete.parse(d),
+  [HciLeEvent.GenerateDhKeyComplete]:                   (d) => LeGenerateDhKeyComplete.parse(d),
+  [HciLeEvent.EnhancedConnectionComplete]:              (d) => LeEnhConnectionComplete.parse(d),
+  [HciLeEvent.DirectedAdvertisingReport]:               (d) => LeDirectedAdvertisingReport.parse(d),
+  [HciLeEvent.PhyUpdateComplete]:                       (d) => LePhyUpdateComplete.parse(d),
+  [HciLeEvent.ExtendedAdvertisingReport]:               (d) => LeExtAdvReport.parse(d),
+  [HciLeEvent.PeriodicAdvertisingSyncEstablished]:      (d) => LePeriodicAdvertisingSyncEstablished.parse(d),
+  [HciLeEvent.PeriodicAdvertisingReport]:               (d) => LePeriodicAdvertisingReport.parse(d),
+  [HciLeEvent.PeriodicAdvertisingSyncLost]:             (d) => LePeriodicAdvertisingSyncLost.parse(d),
+  [HciLeEvent.AdvertisingSetTerminated]:                (d) => LeAdvertisingSetTerminated.parse(d),
+  [HciLeEvent.ChannelSelectionAlgorithm]:               (d) => LeChannelSelAlgo.parse(d),
+  [HciLeEvent.PeriodicAdvertisingSyncTransferReceived]: (d) => LePeriodicAdvertisingSyncTransferReceived.parse(d),
+  [HciLeEvent.CisEstablished]:                          (d) => LeCisEstablished.parse(d),
+  [HciLeEvent.CisRequest]:                              (d) => LeCisRequest.parse(d),
+  [HciLeEvent.CreateBigComplete]:                       (d) => LeCreateBigComplete.parse(d),
+  [HciLeEvent.TerminateBigComplete]:                    (d) => LeTerminateBigComplete.parse(d),
+  [HciLeEvent.BigSyncEstablished]:                      (d) => LeBigSyncEstablished.parse(d),
+  [HciLeEvent.BigSyncLost]:                             (d) => LeBigSyncLost.parse(d),
+  [HciLeEvent.BigInfoAdvertisingReport]:                (d) => LeBigInfoAdvertisingReport.parse(d),
+};
+
+const AttPdus: { [opcode: number]: AttSerDes<unknown> } = {
+  [AttOpcode.ErrorRsp]:                AttErrorRsp,
+  [AttOpcode.ExchangeMtuReq]:          AttExchangeMtuReq,
+  [AttOpcode.ExchangeMtuRsp]:          AttExchangeMtuRsp,
+  [AttOpcode.FindInformationReq]:      AttFindInformationReq,
+  [AttOpcode.FindInformationRsp]:      AttFindInformationRsp,
+  [AttOpcode.FindByTypeValueReq]:      AttFindByTypeValueReq,
+  [AttOpcode.FindByTypeValueRsp]:      AttFindByTypeValueRsp,
+  [AttOpcode.ReadByTypeReq]:           AttReadByTypeReq,
+  [AttOpcode.ReadByTypeRsp]:           AttReadByTypeRsp,
+  [AttOpcode.ReadReq]:                 AttReadReq,
+  [AttOpcode.ReadRsp]:                 AttReadRsp,
+  [AttOpcode.ReadBlobReq]:             AttReadBlobReq,
+  [AttOpcode.ReadBlobRsp]:             AttReadBlobRsp,
+  [AttOpcode.ReadMultipleReq]:         AttReadMultipleReq,
+  [AttOpcode.ReadMultipleRsp]:         AttReadMultipleRsp,
+  [AttOpcode.ReadByGroupTypeReq]:      AttReadByGroupTypeReq,
+  [AttOpcode.ReadByGroupTypeRsp]:      AttReadByGroupTypeRsp,
+  [AttOpcode.WriteReq]:                AttWriteReq,
+  [AttOpcode.WriteRsp]:                AttWriteRsp,
+  [AttOpcode.WriteCmd]:                AttWriteCmd,
+  [AttOpcode.PrepareWriteReq]:         AttPrepareWriteReq,
+  [AttOpcode.PrepareWriteRsp]:         AttPrepareWriteRsp,
+  [AttOpcode.ExecuteWriteReq]:         AttExecuteWriteReq,
+  [AttOpcode.ExecuteWriteRsp]:         AttExecuteWriteRsp,
+  [AttOpcode.ReadMultipleVariableReq]: AttReadMultipleVariableReq,
+  [AttOpcode.ReadMultipleVariableRsp]: AttReadMultipleVariableRsp,
+  [AttOpcode.MultipleHandleValueNtf]:  AttMultipleHandleValueNtf,
+  [AttOpcode.HandleValueNtf]:          AttHandleValueNtf,
+  [AttOpcode.HandleValueInd]:          AttHandleValueInd,
+  [AttOpcode.HandleValueCfm]:          AttHandleValueCfm,
+  [AttOpcode.SignedWriteCmd]:          AttSignedWriteCmd,
+};
+
+const hex = (value: number, digits: number) => `0x${value.toString(16).padStart(digits, '0')}`;
+
+// Enum keys to words, e.g. SetScanEnable -> Set Scan Enable
+const words = (name: string) => name.replace(/([a-z0-9])([A-Z])/g, '$1 $2').replace(/^Le /, 'LE ');
+
+export class Dissector {
+  // Reassembly per direction and connection handle
+  private l2capFragments = new Map<string, L2capFragments>();
+
+  public static commandName(opcode: number): string {
+    const { ogf, ocf } = HciOpcode.expand(opcode);
+    if (opcode === 0x0000) {
+      // Controller announces free command buffers, e.g. after power on
+      return 'NOP';
+    }
+    if (ogf === HciOgf.VendorSpecificCommands) {
+      return 'Vendor';
+    }
+
+    const ocfName = HciOcfNames[ogf]?.[ocf];
+    if (!ocfName) {
+      return 'Unknown';
+    }
+    return ogf === HciOgf.LeControllerCommands ? `LE ${words(ocfName)}` : words(ocfName);
+  }
+
+  public static eventName(eventCode: number): string {
+    if (eventCode === HciEvent.LeMeta) {
+      return 'LE Meta Event';
+    }
+    return HciEvent[eventCode] ? words(HciEvent[eventCode]) : 'Unknown';
+  }
+
+  public static leEventName(subevent: number): string {
+    return HciLeEvent[subevent] ? `LE ${words(HciLeEvent[subevent])}` : 'LE Unknown';
+  }
+
+  public static format(packet: DissectedPacket): string {
+    const lines = [packet.summary];
+    const render = (nodes: DissectorNode[], indent: string) => {
+      for (const node of nodes) {
+        lines.push(node.value === undefined ? `${indent}${node.label}` : `${indent}${node.label}: ${node.value}`);
+        render(node.children ?? [], `${indent}  `);
+      }
+    };
+    render(packet.tree.children ?? [], '        ');
+    return lines.join('\n');
+  }
+
+  public reset(): void {
+    this.l2capFragments.clear();
+  }
+
+  // H4 packet, the first byte is the packet type
+  public dissectH4(packet: Buffer, direction?: BtsnoopDirection): DissectedPacket {
+    return this.dissect(packet[0], packet.slice(1), direction);
+  }
+
+  public dissect(packetType: HciPacketType, data: Buffer, direction?: BtsnoopDirection): DissectedPacket {
+    try {
+      switch (packetType) {
+        case HciPacketType.HciCommand:
+          return this.dissectCommand(data);
+        case HciPacketType.HciEvent:
+          return this.dissectEvent(data);
+        case HciPacketType.HciAclData:
+          return this.dissectAclData(data, direction);
+        case HciPacketType.HciSyncData:
+          return this.dissectIsochronous('SCO Data', 1, data, direction);
+        case HciPacketType.HciIsoData:
+          return this.dissectIsochronous('ISO Data', 2, data, direction);
+      }
+    } catch (err) {
+      const summary = `${HciPacketType[packetType] ?? 'Unknown'}: malformed packet`;
+      return { summary, tree: { label: summary, children: [error(err), bytes('Data', data)] } };
+    }
+    const summary = `${HciPacketType[packetType] ?? 'Unknown'} (${hex(packetType, 2)}) len ${data.length}`;
+    return { summary, tree: { label: summary, children: [bytes('Data', data)] } };
+  }
+
+  private dissectCommand(data: Buffer): DissectedPacket {
+    const opcode = data.readUInt16LE(0);
+    const plen   = data.readUInt8(2);
+    const params = data.slice(3);
+
+    const summary = `< HCI Command: ${opcodeText(opcode)} plen ${plen}`;
+    const children = params.length > 0 ? [bytes('Parameters', params)] : [];
+
+    return { summary, tree: { label: 'HCI Command', value: opcodeText(opcode), children } };
+  }
+
+  private dissectEvent(data: Buffer): DissectedPacket {
+    const eventCode = data.readUInt8(0);
+    const plen      = data.readUInt8(1);
+    const params    = data.slice(2);
+
+    const name = `${Dissector.eventName(eventCode)} (${hex(eventCode, 2)})`;
+    const { detail, children } = this.eventParameters(eventCode, params);
+
+    const summary = `> HCI Event: ${name} plen ${plen}${detail ? `, ${detail}` : ''}`;
+    return { summary, tree: { label: 'HCI Event', value: name, children } };
+  }
+
+  private eventParameters(eventCode: number, params: Buffer): { detail?: string, children: DissectorNode[] } {
+    let o = 0;
+    switch (eventCode) {
+      case HciEvent.CommandComplete: {
+        const ncmd   = params.readUIntLE(o, 1); o += 1;
+        const opcode = params.readUIntLE(o, 2); o += 2;
+        const detail = opcodeText(opcode);
+        const children = [node('Num HCI Command Packets', ncmd), node('Command', detail)];
+        if (params.length <= o) {
+          return { detail, children };
+        }
+        const status = params.readUIntLE(o, 1); o += 1;
+        children.push(node('Status', statusText(status)));
+        const returnParameters = params.slice(o);
+        if (returnParameters.length > 0) {
+          children.push(status === HciErrorCode.Success && ReturnParameters[opcode]
+            ? decoded('Return Parameters', returnParameters, ReturnParameters[opcode])
+            : bytes('Return Parameters', returnParameters));
+        }
+        return { detail, children };
+      }
+      case HciEvent.CommandStatus: {
+        const status = params.readUIntLE(o, 1); o += 1;
+        const ncmd   = params.readUIntLE(o, 1); o += 1;
+        const opcode = params.readUIntLE(o, 2); o += 2;
+        const detail = opcodeText(opcode);
+        return {
+          detail,
+          children: [
+            node('Status', statusText(status)), node('Num HCI Command Packets', ncmd), node('Command', detail),
+          ],
+        };
+      }
+      case HciEvent.DisconnectionComplete: {
+        const status           = params.readUIntLE(o, 1); o += 1;
+        const connectionHandle = params.readUIntLE(o, 2); o += 2;
+        const reason           = params.readUIntLE(o, 1); o += 1;
+        return {
+          children: [
+            node('Status', statusText(status)), node('Handle', connectionHandle), node('Reason', statusText(reason)),
+          ],
+        };
+      }
+      case HciEvent.EncryptionChange: {
+        const status           = params.readUIntLE(o, 1); o += 1;
+        const connectionHandle = params.readUIntLE(o, 2); o += 2;
+        const encEnabled       = params.readUIntLE(o, 1); o += 1;
+        return {
+          children: [
+            node('Status', statusText(status)), node('Handle', connectionHandle), node('Encryption', encEnabled),
+          ],
+        };
+      }
+      case HciEvent.EncryptionKeyRefreshComplete: {
+        const status           = params.readUIntLE(o, 1); o += 1;
+        const connectionHandle = params.readUIntLE(o, 2); o += 2;
+        return { children: [node('Status', statusText(status)), node('Handle', connectionHandle)] };
+      }
+      case HciEvent.ReadRemoteVersionInformationComplete:
+        return { children: [decoded('Parameters', params, (d) => ReadRemoteVersionInformationComplete.parse(d))] };
+      case HciEvent.NumberOfCompletedPackets: {
+        const numHandles = params.readUIntLE(o, 1); o += 1;
+        const children: DissectorNode[] = [node('Num Handles', numHandles)];
+        for (let i = 0; i < numHandles; i++) {
+          const connectionHandle    = params.readUIntLE(o + i * 2,                  2);
+          const numCompletedPackets = params.readUIntLE(o + (numHandles + i) * 2, 2);
+          children.push(node('Handle', connectionHandle, [node('Count', numCompletedPackets)]));
+        }
+        return { children };
+      }
+      case HciEvent.HardwareError:
+        return { children: [node('Hardware Code', hex(params.readUIntLE(0, 1), 2))] };
+      case HciEvent.DataBufferOverflow:
+        return { children: [node('Link Type', hex(params.readUIntLE(0, 1), 2))] };
+      case HciEvent.LeMeta: {
+        const subevent = params.readUIntLE(0, 1);
+        const detail   = `${Dissector.leEventName(subevent)} (${hex(subevent, 2)})`;
+        const payload  = params.slice(1);
+        const children = [node('Subevent', detail)];
+        if (payload.length > 0) {
+          children.push(LeEventParameters[subevent]
+            ? decoded('Parameters', payload, LeEventParameters[subevent])
+            : bytes('Parameters', payload));
+        }
+        return { detail, children };
+      }
+    }
+    return { children: params.length > 0 ? [bytes('Parameters', params)] : [] };
+  }
+
+  private dissectAclData(data: Buffer, direction?: BtsnoopDirection): DissectedPacket {
+    const hdr  = data.readUInt16LE(0);
+    const dlen = data.readUInt16LE(2);
+    const payload = data.slice(4);
+
+    const connectionHandle = (hdr >>  0) & 0x0FFF;
+    const boundary         = (hdr >> 12) & 0x0003;
+    const flags            = (hdr >> 12) & 0x000F;
+
+    const header = `${directionText(direction, 'ACL Data')}: Handle ${connectionHandle} flags ${hex(flags, 2)} dlen ${dlen}`;
+    const children = [node('Handle', connectionHandle), node('Flags', hex(flags, 2)), node('Data Length', dlen)];
+
+    const l2cap = this.reassemble(`${direction}:${connectionHandle}`, boundary, payload);
+    if (!l2cap) {
+      children.push(bytes('L2CAP Fragment', payload));
+      return { summary: header, tree: { label: 'ACL Data', value: header, children } };
+    }
+
+    const { detail, node: l2capNode } = this.dissectL2cap(l2cap.channelId, l2cap.payload);
+    children.push(l2capNode);
+
+    return { summary: `${header}, ${detail}`, tree: { label: 'ACL Data', value: header, children } };
+  }
+
+  private reassemble(key: string, boundary: AclDataBoundary, data: Buffer): L2capFragments | null {
+    if (boundary === AclDataBoundary.NextFrag) {
+      const fragments = this.l2capFragments.get(key);
+      if (!fragments) {
+        return null;
+      }
+      fragments.payload = Buffer.concat([fragments.payload, data]);
+      if (fragments.payload.length < fragments.length) {
+        return null;
+      }
+      this.l2capFragments.delete(key);
+      return fragments;
+    }
+
+    const length    = data.readUInt16LE(0);
+    const channelId = data.readUInt16LE(2);
+    const payload   = data.slice(4);
+
+    if (payload.length < length) {
+      this.l2capFragments.set(key, { length, channelId, payload });
+      return null;
+    }
+    this.l2capFragments.delete(key);
+    return { length, channelId, payload };
+  }
+
+  private dissectL2cap(channelId: number, payload: Buffer): { detail: string, node: DissectorNode } {
+    const channel = `${L2capChannelId[channelId] ? words(L2capChannelId[channelId]) : 'Dynamic'} (${hex(channelId, 4)})`;
+    const children = [node('Channel', channel), node('Length', payload.length)];
+
+    switch (channelId) {
+      case L2capChannelId.LeAttributeProtocol: {
+        const { detail, node: attNode } = this.dissectAtt(payload);
+        children.push(attNode);
+        return { detail, node: node('L2CAP', undefined, children) };
+      }
+      case L2capChannelId.L2capSignalingChannel:
+      case L2capChannelId.LeL2capSignalingChannel: {
+        const code       = payload.readUIntLE(0, 1);
+        const identifier = payload.readUIntLE(1, 1);
+        const name       = `${L2capSignalingCommand[code] ?? 'Unknown'} (${hex(code, 2)})`;
+        children.push(node('Signaling', name, [node('Identifier', identifier), bytes('Data', payload.slice(4))]));
+        return { detail: `L2CAP: ${name}`, node: node('L2CAP', undefined, children) };
+      }
+    }
+
+    children.push(bytes('Data', payload));
+    return { detail: `L2CAP: ${channel} len ${payload.length}`, node: node('L2CAP', undefined, children) };
+  }
+
+  private dissectAtt(pdu: Buffer): { detail: string, node: DissectorNode } {
+    const opcode = pdu.readUIntLE(0, 1);
+    const name   = `${AttOpcode[opcode] ? words(AttOpcode[opcode]) : 'Unknown'} (${hex(opcode, 2)})`;
+    const detail = `ATT: ${name}`;
+
+    const serDes = AttPdus[opcode];
+    const msg    = serDes?.deserialize(pdu);
+    if (msg === null || msg === undefined) {
+      return { detail, node: node('ATT', name, [bytes('Data', pdu.slice(1))]) };
+    }
+    return { detail, node: node('ATT', name, toNodes(msg)) };
+  }
+
+  private dissectIsochronous(
+    type: string, boundaryBits: number, data: Buffer, direction?: BtsnoopDirection
+  ): DissectedPacket {
+    const hdr  = data.readUInt16LE(0);
+    const dlen = type === 'ISO Data' ? data.readUInt16LE(2) & 0x3FFF : data.readUInt8(2);
+    const payload = data.slice(type === 'ISO Data' ? 4 : 3);
+
+    const connectionHandle = hdr & 0x0FFF;
+    const flags            = (hdr >> 12) & ((1 << (boundaryBits + 2)) - 1);
+
+    const summary = `${directionText(direction, type)}: Handle ${connectionHandle} flags ${hex(flags, 2)} dlen ${dlen}`;
+    const children = [
+      node('Handle', connectionHandle), node('Flags', hex(flags, 2)), node('Data Length', dlen), bytes('Data', payload),
+    ];
+    return { summary, tree: { label: type, value: summary, children } };
+  }
+}
+
+function node(label: string, value?: string | number, children?: DissectorNode[]): DissectorNode {
+  return { label, value: value === undefined ? undefined : `${value}`, children };
+}
+
+function bytes(label: string, data: Buffer): DissectorNode {
+  return node(label, data.length > 0 ? data.toString('hex') : '(empty)');
+}
+
+function error(err: Error): DissectorNode {
+  return node('Error', err.message);
+}
+
+function decoded(label: string, data: Buffer, decoder: Decoder): DissectorNode {
+  try {
+    return toNode(label, decoder(data));
+  } catch (err) {
+    return node(label, undefined, [error(err), bytes('Data', data)]);
+  }
+}
+
+// Parser results to nodes, objects with own string form (Address, UUID) are printed as is
+function toNodes(value: unknown): DissectorNode[] {
+  if (Array.isArray(value)) {
+    return value.map((item, i) => toNode(`[${i}]`, item));
+  }
+  if (isRecord(value)) {
+    return Object.entries(value).map(([key, item]) => toNode(key, item));
+  }
+  return [toNode('Value', value)];
+}
+
+function toNode(label: string, value: unknown): DissectorNode {
+  if (Buffer.isBuffer(value)) {
+    return bytes(label, value);
+  }
+  if (label === 'status' && typeof value === 'number') {
+    return node(label, statusText(value));
+  }
+  if (Array.isArray(value) || isRecord(value)) {
+    return node(label, undefined, toNodes(value));
+  }
+  return node(label, String(value));
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && value.toString === Object.prototype.toString;
+}
+
+function opcodeText(opcode: number): string {
+  const { ogf, ocf } = HciOpcode.expand(opcode);
+  return `${Dissector.commandName(opcode)} (${hex(ogf, 2)}|${hex(ocf, 4)})`;
+}
+
+function statusText(status: number): string {
+  return `${getHciErrorMessage(status) ?? 'Unknown'} (${hex(status, 2)})`;
+}
+
+function directionText(direction: BtsnoopDirection | undefined, type: string): string {
+  switch (direction) {
+    case BtsnoopDirection.Sent:     return `< ${type} TX`;
+    case BtsnoopDirection.Received: return `> ${type} RX`;
+    default:                        return type;
+  }
+}
@@ -115,6 +115,31 @@ interface AdvDataServcieData {
   data: Buffer;
 }
 
+// Carried in ACAD of periodic advertising, GIV and GSKD are present for encrypted BIGs
+export interface AdvDataBigInfo {
+  bigOffsetUs: number;
+  isoIntervalMs: number;
+  numBis: number;
+  nse: number;
+  bn: number;
+  subIntervalUs: number;
+  pto: number;
+  bisSpacingUs: number;
+  irc: number;
+  maxPdu: number;
+  seedAccessAddress: number;
+  sduIntervalUs: number;
+  maxSdu: number;
+  baseCrcInit: number;
+  channelMap: number;
+  phy: number;
+  bisPayloadCount: number;
+  framing: number;
+  encryption: boolean;
+  giv?: Buffer;
+  gskd?: Buffer;
+}
+
 export interface AdvData {
   flags?: number;
   incompleteListOf16bitServiceClassUuids?: string[];
@@ -136,6 +161,8 @@ export interface AdvData {
   serviceData16bitUuid?: AdvDataServcieData[];
   serviceData32bitUuid?: AdvDataServcieData[];
   serviceData128bitUuid?: AdvDataServcieData[];
+  bigInfo?: AdvDataBigInfo;
+  broadcastCode?: Buffer;
 }
 
 export class AdvData {
@@ -238,6 +265,9 @@ export class AdvData {
         buffer = Buffer.concat([buffer, data]);
       }
     }
+    if (advData.broadcastCode) {
+      buffer = Buffer.concat([buffer, this.buildBroadcastCode(advData.broadcastCode)]);
+    }
     if (advData.manufacturerData) {
       buffer = Buffer.concat([buffer, this.buildManufData(advData.manufacturerData)]);
     }
@@ -295,6 +325,14 @@ export class AdvData {
     return buffer;
   }
 
+  private static buildBroadcastCode(broadcastCode: Buffer): Buffer {
+    const buffer = Buffer.alloc(2 + 16);
+    buffer[0] = buffer.length - 1;
+    buffer[1] = AdvDataType.BroadcastCode;
+    broadcastCode.copy(buffer, 2, 0, 16);
+    return buffer;
+  }
+
   private static buildManufData(manufData: Required<AdvData>['manufacturerData']): Buffer {
     const buffer = Buffer.allocUnsafe(2 + 2 + manufData.data.length);
     buffer.writeUIntLE(buffer.length - 1,                     0, 1);
@@ -432,6 +470,17 @@ export class AdvData {
         });
         break;
       }
+      case AdvDataType.BigInfo: {
+        const bigInfo = this.parseBigInfo(field.data);
+        if (bigInfo) {
+          advData.bigInfo = bigInfo;
+        }
+        break;
+      }
+      case AdvDataType.BroadcastCode: {
+        advData.broadcastCode = field.data;
+        break;
+      }
       case AdvDataType.ManufacturerSpecificData: {
         advData.manufacturerData = {
           ident: field.data.readUInt16LE(0),
@@ -450,4 +499,55 @@ export class AdvData {
     }
     return uuids;
   }
+
+  private static parseBigInfo(data: Buffer): AdvDataBigInfo | null {
+    if (data.length !== 33 && data.length !== 57) {
+      return null;
+    }
+
+    let o = 0;
+    const bigOffset       = data.readUIntLE(o, 4); o += 4;
+    const nseBn           = data.readUIntLE(o, 1); o += 1;
+    const subIntervalPto  = data.readUIntLE(o, 3); o += 3;
+    const bisSpacingIrc   = data.readUIntLE(o, 3); o += 3;
+    const maxPdu          = data.readUIntLE(o, 1); o += 2;
+    const seedAccessAddr  = data.readUIntLE(o, 4); o += 4;
+    const sduInterval     = data.readUIntLE(o, 4); o += 4;
+    const baseCrcInit     = data.readUIntLE(o, 2); o += 2;
+    const channelMapPhy   = data.readUIntLE(o, 5); o += 5;
+    const payloadCount    = data.readUIntLE(o, 5); o += 5;
+
+    // Fields wider than 32 bits cannot use bitwise operators
+    const bit37 = 2 ** 37;
+    const bit39 = 2 ** 39;
+
+    const bigInfo: AdvDataBigInfo = {
+      bigOffsetUs:       (bigOffset & 0x3FFF) * ((bigOffset >>> 14) & 0x01 ? 300 : 30),
+      isoIntervalMs:     ((bigOffset >>> 15) & 0x0FFF) * 1.25,
+      numBis:            (bigOffset >>> 27) & 0x1F,
+      nse:               nseBn & 0x1F,
+      bn:                (nseBn >>> 5) & 0x07,
+      subIntervalUs:     subIntervalPto & 0xFFFFF,
+      pto:               (subIntervalPto >>> 20) & 0x0F,
+      bisSpacingUs:      bisSpacingIrc & 0xFFFFF,
+      irc:               (bisSpacingIrc >>> 20) & 0x0F,
+      maxPdu,
+      seedAccessAddress: seedAccessAddr,
+      sduIntervalUs:     sduInterval & 0xFFFFF,
+      maxSdu:            (sduInterval >>> 20) & 0x0FFF,
+      baseCrcInit,
+      channelMap:        channelMapPhy % bit37,
+      phy:               Math.floor(channelMapPhy / bit37) & 0x07,
+      bisPayloadCount:   payloadCount % bit39,
+      framing:           Math.floor(payloadCount / bit39) & 0x01,
+      encryption:        data.length === 57,
+    };
+
+    if (bigInfo.encryption) {
+      bigInfo.giv  = data.slice(o, o + 8);  o += 8;
+      bigInfo.gskd = data.slice(o, o + 16);
+    }
+
+    return bigInfo;
+  }
 }
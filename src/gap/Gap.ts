@@ -1,33 +1,53 @@
 import { EventEmitter } from 'events';
 import { AdvData } from './AdvData';
+import { GapPeriodicSync } from './GapPeriodicSync';
 import { Hci } from '../hci/Hci';
-import { LeAdvReport, LeExtAdvReport } from '../hci/HciEvent';
+import { HciError } from '../hci/HciError';
+import {
+  LeAdvReportEvent, LeExtAdvReport, LePeriodicAdvertisingReportEvent, LePeriodicAdvertisingSyncEstablishedEvent,
+  LePeriodicAdvertisingSyncLostEvent, LePeriodicAdvertisingSyncTransferReceivedEvent
+} from '../hci/HciEvent';
 import {
   LeExtendedScanEnabled, LeExtendedScanParameters, LeOwnAddressType, LeScanFilterDuplicates,
-  LeScanningFilterPolicy, LeScanType
+  LeScanningFilterPolicy, LeScanType, LePeriodicAdvertisingParameters, LePeriodicAdvertisingDataOperation,
+  LePeriodicAdvertisingDataMaxLength, LePeriodicAdvertisingCreateSync, LePeerAddressType
 } from '../hci/HciLeController';
+import { Address } from '../utils/Address';
+import { AbortOptions } from '../utils/Abort';
 
 type GapScanParamsOptions = Partial<LeExtendedScanParameters>;
 type GapScanStartOptions = Partial<Omit<LeExtendedScanEnabled, 'enable'>>;
+type GapPeriodicAdvertisingOptions = Partial<LePeriodicAdvertisingParameters>;
+type GapPeriodicSyncOptions =
+  Partial<Pick<LePeriodicAdvertisingCreateSync, 'advertiserAddressType' | 'skip' | 'syncTimeoutMs'>> & AbortOptions;
 
 // TODO this layer should select between standard and extended commands
 // TODO emit common advert report
 
 export class Gap extends EventEmitter {
   private scanning = false;
+  private periodicSyncs = new Map<number, GapPeriodicSync>();
 
   constructor(private hci: Hci) {
     super();
 
-    hci.on('LeScanTimeout',               this.onLeScanTimeout);
-    hci.on('LeAdvertisingReport',         this.onLeAdvertisingReport);
-    hci.on('LeExtendedAdvertisingReport', this.onLeExtendedAdvertisingReport);
+    hci.on('LeScanTimeout',                 this.onLeScanTimeout);
+    hci.on('LeAdvertisingReport',           this.onLeAdvertisingReport);
+    hci.on('LeExtendedAdvertisingReport',   this.onLeExtendedAdvertisingReport);
+    hci.on('LePeriodicAdvertisingReport',   this.onLePeriodicAdvertisingReport);
+    hci.on('LePeriodicAdvertisingSyncLost', this.onLePeriodicAdvertisingSyncLost);
+    hci.on('LePeriodicAdvertisingSyncTransferReceived', this.onLePeriodicAdvertisingSyncTransferReceived);
+    hci.on('ControllerReset',               this.onControllerReset);
   }
 
   public destroy(): void {
-    this.hci.removeListener('LeScanTimeout',               this.onLeScanTimeout);
-    this.hci.removeListener('LeAdvertisingReport',         this.onLeAdvertisingReport);
-    this.hci.removeListener('LeExtendedAdvertisingReport', this.onLeExtendedAdvertisingReport);
+    this.hci.removeListener('LeScanTimeout',                 this.onLeScanTimeout);
+    this.hci.removeListener('LeAdvertisingReport',           this.onLeAdvertisingReport);
+    this.hci.removeListener('LeExtendedAdvertisingReport',   this.onLeExtendedAdvertisingReport);
+    this.hci.removeListener('LePeriodicAdvertisingReport',   this.onLePeriodicAdvertisingReport);
+    this.hci.removeListener('LePeriodicAdvertisingSyncLost', this.onLePeriodicAdvertisingSyncLost);
+    this.hci.removeListener('LePeriodicAdvertisingSyncTransferReceived', this.onLePeriodicAdvertisingSyncTransferReceived);
+    this.hci.removeListener('ControllerReset',               this.onControllerReset);
   }
 
   public isScanning(): boolean {
@@ -77,12 +97,139 @@ export class Gap extends EventEmitter {
     this.emit('scanStop');
   }
 
+  // Advertising set has to be configured as non-connectable, non-scannable extended advertising
+  public async startPeriodicAdvertising(
+    advertHandle: number,
+    data: Buffer,
+    opts?: GapPeriodicAdvertisingOptions,
+  ): Promise<void> {
+    const periodicAdvertisingIntervalMinMs = opts?.periodicAdvertisingIntervalMinMs ?? 100;
+    const periodicAdvertisingIntervalMaxMs = opts?.periodicAdvertisingIntervalMaxMs ?? periodicAdvertisingIntervalMinMs;
+    const periodicAdvertisingProperties    = opts?.periodicAdvertisingProperties    ?? [];
+
+    await this.hci.leSetPeriodicAdvertisingParameters(advertHandle, {
+      periodicAdvertisingIntervalMinMs, periodicAdvertisingIntervalMaxMs, periodicAdvertisingProperties,
+    });
+    await this.setPeriodicAdvertisingData(advertHandle, data);
+    await this.hci.leSetPeriodicAdvertisingEnable(advertHandle, true);
+  }
+
+  // Controller accepts fragmented data only while periodic advertising is disabled
+  public async setPeriodicAdvertisingData(advertHandle: number, data: Buffer): Promise<void> {
+    const maxLength = LePeriodicAdvertisingDataMaxLength;
+
+    if (data.length <= maxLength) {
+      const operation = LePeriodicAdvertisingDataOperation.Complete;
+      await this.hci.leSetPeriodicAdvertisingData(advertHandle, { operation, data });
+      return;
+    }
+
+    for (let o = 0; o < data.length; o += maxLength) {
+      const operation =
+        o === 0                        ? LePeriodicAdvertisingDataOperation.FragmentFirst :
+        o + maxLength >= data.length   ? LePeriodicAdvertisingDataOperation.FragmentLast :
+                                         LePeriodicAdvertisingDataOperation.FragmentIntermediate;
+      const fragment = data.slice(o, o + maxLength);
+      await this.hci.leSetPeriodicAdvertisingData(advertHandle, { operation, data: fragment });
+    }
+  }
+
+  public async stopPeriodicAdvertising(advertHandle: number): Promise<void> {
+    await this.hci.leSetPeriodicAdvertisingEnable(advertHandle, false);
+  }
+
+  // Peer synchronizes with our periodic advertising without scanning for it
+  public async transferPeriodicAdvertisingSetInfo(
+    advertHandle: number,
+    connectionHandle: number,
+    serviceData = 0,
+  ): Promise<void> {
+    await this.hci.lePeriodicAdvertisingSetInfoTransfer(connectionHandle, advertHandle, serviceData);
+  }
+
+  // Controller finds the advertiser only while scanning
+  public async syncToPeriodicAdvertiser(
+    address: Address,
+    advertisingSid: number,
+    opts?: GapPeriodicSyncOptions,
+  ): Promise<GapPeriodicSync> {
+    const advertiserAddressType = opts?.advertiserAddressType ?? LePeerAddressType.RandomDeviceAddress;
+    const skip                  = opts?.skip                  ?? 0;
+    const syncTimeoutMs         = opts?.syncTimeoutMs         ?? 2000;
+
+    // Reports may follow in the same transport read, before the awaiting code resumes
+    const onEstablished = (err: Error|null, event: LePeriodicAdvertisingSyncEstablishedEvent) => {
+      if (err === null && !this.periodicSyncs.has(event.syncHandle)) {
+        this.addPeriodicSync(event);
+      }
+    };
+    this.hci.on('LePeriodicAdvertisingSyncEstablished', onEstablished);
+
+    try {
+      const event = await this.hci.lePeriodicAdvertisingCreateSyncAndWait({
+        advertisingSid, advertiserAddressType, advertiserAddress: address, skip, syncTimeoutMs,
+      }, { signal: opts?.signal, timeoutMs: opts?.timeoutMs });
+
+      return this.periodicSyncs.get(event.syncHandle) ?? this.addPeriodicSync(event);
+    } catch (err) {
+      // Aborted or timed out, controller is still synchronizing. It confirms the cancel
+      // with a failed Sync Established, which must not complete the next synchronization
+      if (!(err instanceof HciError)) {
+        const cancelled = this.hci.waitFor('LePeriodicAdvertisingSyncEstablished', (err) => err !== null);
+        cancelled.catch(() => {});
+        await this.hci.lePeriodicAdvertisingCreateSyncCancel().then(() => cancelled).catch(() => {});
+      }
+      throw err;
+    } finally {
+      this.hci.removeListener('LePeriodicAdvertisingSyncEstablished', onEstablished);
+    }
+  }
+
+  private addPeriodicSync(event: GapPeriodicSync['info']): GapPeriodicSync {
+    const sync = new GapPeriodicSync(this.hci, event, (s) => this.periodicSyncs.delete(s.syncHandle));
+    this.periodicSyncs.set(sync.syncHandle, sync);
+    return sync;
+  }
+
   public onLeScanTimeout = () => {
     this.scanning = false;
     this.emit('scanStop');
   }
 
-  public onLeAdvertisingReport = (report: LeAdvReport) => {
+  public onControllerReset = () => {
+    // Reset disables scanning
+    if (this.scanning) {
+      this.scanning = false;
+      this.emit('scanStop');
+    }
+    // and terminates periodic advertising synchronizations
+    for (const sync of [...this.periodicSyncs.values()]) {
+      sync.onLost();
+    }
+  }
+
+  public onLePeriodicAdvertisingReport = (report: LePeriodicAdvertisingReportEvent) => {
+    this.periodicSyncs.get(report.syncHandle)?.onReport(report);
+  }
+
+  public onLePeriodicAdvertisingSyncLost = (event: LePeriodicAdvertisingSyncLostEvent) => {
+    this.periodicSyncs.get(event.syncHandle)?.onLost();
+  }
+
+  // Synchronization received from a connected peer, with Periodic Advertising Sync Transfer
+  public onLePeriodicAdvertisingSyncTransferReceived = (
+    err: Error|null,
+    event: LePeriodicAdvertisingSyncTransferReceivedEvent,
+  ) => {
+    if (err) {
+      this.emit('periodicSyncTransferFailed', err, event.connectionHandle);
+      return;
+    }
+    const sync = this.addPeriodicSync(event);
+    this.emit('periodicSyncTransfer', sync, event.connectionHandle, event.serviceData);
+  }
+
+  public onLeAdvertisingReport = (report: LeAdvReportEvent) => {
     // TODO
   }
 
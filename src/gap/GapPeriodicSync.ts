@@ -0,0 +1,73 @@
+import { EventEmitter } from 'events';
+import { Hci } from '../hci/Hci';
+import {
+  LePeriodicAdvDataStatus, LePeriodicAdvertisingReportEvent, LePeriodicAdvertisingSyncEstablishedEvent
+} from '../hci/HciEvent';
+
+export declare interface GapPeriodicSync {
+  on(event: 'data', listener: (data: Buffer, report: LePeriodicAdvertisingReportEvent) => void): this;
+  on(event: 'lost', listener: () => void): this;
+}
+
+export class GapPeriodicSync extends EventEmitter {
+  private fragments: Buffer[] = [];
+  private closed = false;
+
+  constructor(
+    private hci: Hci,
+    public readonly info: LePeriodicAdvertisingSyncEstablishedEvent,
+    private onClose: (sync: GapPeriodicSync) => void,
+  ) {
+    super();
+  }
+
+  public get syncHandle(): number {
+    return this.info.syncHandle;
+  }
+
+  public isClosed(): boolean {
+    return this.closed;
+  }
+
+  public async terminate(): Promise<void> {
+    if (this.closed) {
+      return;
+    }
+    await this.hci.lePeriodicAdvertisingTerminateSync(this.syncHandle);
+    this.close();
+  }
+
+  // Hands the synchronization over to the peer of a connection
+  public async transfer(connectionHandle: number, serviceData = 0): Promise<void> {
+    await this.hci.lePeriodicAdvertisingSyncTransfer(connectionHandle, this.syncHandle, serviceData);
+  }
+
+  // Reports are reassembled, data the controller truncated is dropped
+  public onReport(report: LePeriodicAdvertisingReportEvent): void {
+    this.fragments.push(report.data);
+    if (report.dataStatus === LePeriodicAdvDataStatus.IncompleteMoreData) {
+      return;
+    }
+
+    const data = Buffer.concat(this.fragments);
+    this.fragments = [];
+
+    if (report.dataStatus === LePeriodicAdvDataStatus.Complete) {
+      this.emit('data', data, report);
+    }
+  }
+
+  public onLost(): void {
+    if (this.closed) {
+      return;
+    }
+    this.close();
+    this.emit('lost');
+  }
+
+  private close(): void {
+    this.closed = true;
+    this.fragments = [];
+    this.onClose(this);
+  }
+}
@@ -8,8 +8,13 @@ import { HciDisconnectReason } from './HciError';
 import { HciParserError, makeParserError } from './HciError';
 
 import { Address } from '../utils/Address';
-import { HciCmd } from './HciCmd';
+import { HciCmd, HciOpcode } from './HciCmd';
+import { HciCapabilities, HciSupportedCommands } from './HciCapabilities';
+import { HciEventMask } from './HciEventMask';
+import { HciJournal, HciJournalEntry } from './HciJournal';
+import { HciIsoData } from './HciIsoData';
 import {
+   HciOgf,
    HciOcfInformationParameters,
    HciOcfControlAndBasebandCommands,
    HciOcfLeControllerCommands,
@@ -43,145 +48,473 @@ import {
   ConnectionHandle, DefaultTxRxPhy, LeSetTxRxPhy, LeAdvertisingSetRandomAddress,
   LeExtendedAdvertisingData, LeExtendedScanResponseData, LeExtendedScanEnabled,
   LeNumberOfSupportedAdvertisingSets, LeExtendedAdvertisingEnable, LePrivacyMode,
-  LeTransmitPower, LeExtendedCreateConnection,
+  LeTransmitPower, LeExtendedCreateConnection, LePeriodicAdvertisingParameters, LePeriodicAdvertisingData,
+  LePeriodicAdvertisingEnable, LePeriodicAdvertisingCreateSync, LePeriodicAdvertisingTerminateSync,
+  LePeriodicAdvertiserListEntry, LeReadPeriodicAdvertiserListSize, LePeriodicAdvertisingSyncTransfer,
+  LePeriodicAdvertisingSetInfoTransfer, LePeriodicAdvertisingSyncTransferParameters, LeCigParameters,
+  LeCreateCis, LeRemoveCig, LeRejectCisRequest, LeIsoDataPath, LeIsoDataPathDirection, LeRemoveIsoDataPath,
+  LeCreateBig, LeTerminateBig, LeBigCreateSync, LeBigTerminateSync, LeHostFeature, LeSetHostFeature,
 } from './HciLeController';
 
 import {
   DisconnectionCompleteEvent, EncryptionChangeEvent, HciEvent, HciLeEvent,
   LeReadRemoteFeaturesComplete, LeReadRemoteFeaturesCompleteEvent, LeConnectionUpdateComplete,
   LeConnectionUpdateCompleteEvent, LeChannelSelAlgoEvent, LeChannelSelAlgo, LeLongTermKeyRequest,
-  LeConnectionComplete, LeConnectionCompleteEvent,  LeExtAdvReport, LeAdvReport,
+  LeConnectionComplete, LeConnectionCompleteEvent,  LeExtAdvReport, LeAdvReport, LeAdvReportEvent,
   LeEnhConnectionComplete, LeEnhConnectionCompleteEvent, LeRemoteConnectionParameterRequest,
   LeLongTermKeyRequestEvent, LeRemoteConnectionParameterRequestEvent, LeDataLengthChange,
-  LeReadLocalP256PublicKeyComplete, LeGenerateDhKeyComplete, LeGenerateDhKeyCompleteEvent,
+  LeReadLocalP256PublicKeyComplete, LeReadLocalP256PublicKeyCompleteEvent, LeGenerateDhKeyComplete,
+  LeGenerateDhKeyCompleteEvent,
   LeDirectedAdvertisingReport, LeDirectedAdvertisingReportEvent, LePhyUpdateComplete,
   LePhyUpdateCompleteEvent, LeDataLengthChangeEvent, ReadRemoteVersionInformationComplete,
   ReadRemoteVersionInformationCompleteEvent, LeAdvertisingSetTerminated,
-  LeAdvertisingSetTerminatedEvent
+  LeAdvertisingSetTerminatedEvent, LeConnectionRole, LePeriodicAdvertisingSyncEstablished,
+  LePeriodicAdvertisingSyncEstablishedEvent, LePeriodicAdvertisingReport, LePeriodicAdvertisingReportEvent,
+  LePeriodicAdvertisingSyncLost, LePeriodicAdvertisingSyncLostEvent, LePeriodicAdvertisingSyncTransferReceived,
+  LePeriodicAdvertisingSyncTransferReceivedEvent, LeCisEstablished, LeCisEstablishedEvent, LeCisRequest,
+  LeCisRequestEvent, LeCreateBigComplete, LeCreateBigCompleteEvent, LeTerminateBigComplete,
+  LeTerminateBigCompleteEvent, LeBigSyncEstablished, LeBigSyncEstablishedEvent, LeBigSyncLost, LeBigSyncLostEvent,
+  LeBigInfoAdvertisingReport, LeBigInfoAdvertisingReportEvent,
 } from './HciEvent';
 
 import { AclDataPacket } from '../acl/Acl';
+import { IsoDataBoundary, IsoDataPacket, IsoSdu } from '../iso/Iso';
+import { AbortError, AbortOptions, AbortSignal, onAbort } from '../utils/Abort';
+import { HciTransport } from '../transport/HciTransport';
 
 const debug = Debug('nble-hci');
 
-interface HciInit {
+const SetControllerToHostFlowControlOpcode = HciOpcode.build({
+  ogf: HciOgf.ControlAndBasebandCommands,
+  ocf: HciOcfControlAndBasebandCommands.SetControllerToHostFlowControl,
+});
+
+export interface HciSnoop {
+  sent(packetType: HciPacketType, data: Buffer): void;
+  received(packetType: HciPacketType, data: Buffer): void;
+}
+
+type HciInit = {
   cmdTimeout?: number;
+  eventTimeout?: number;
+  autoEventMask?: boolean;
+  snoop?: HciSnoop;
+} & ({
   send: (pt: HciPacketType, data: Buffer) => void;
-}
+} | {
+  transport: HciTransport;
+});
 
 export interface NumberOfCompletedPacketsEntry {
   connectionHandle: number;
   numCompletedPackets: number;
 }
 
+export interface HciEvents {
+  DisconnectionComplete:                [err: Error|null, event: DisconnectionCompleteEvent];
+  EncryptionChange:                     [err: Error|null, event: EncryptionChangeEvent];
+  EncryptionKeyRefreshComplete:         [err: Error|null, connectionHandle: number];
+  ReadRemoteVersionInformationComplete: [err: Error|null, event: ReadRemoteVersionInformationCompleteEvent];
+  NumberOfCompletedPackets:             [event: NumberOfCompletedPacketsEntry[]];
+  HardwareError:                        [hardwareCode: number];
+  DataBufferOverflow:                   [linkType: number];
+
+  LeConnectionComplete:                 [err: Error|null, event: LeConnectionCompleteEvent];
+  LeAdvertisingReport:                  [report: LeAdvReportEvent];
+  LeConnectionUpdateComplete:           [err: Error|null, event: LeConnectionUpdateCompleteEvent];
+  LeReadRemoteFeaturesComplete:         [err: Error|null, event: LeReadRemoteFeaturesCompleteEvent];
+  LeLongTermKeyRequest:                 [event: LeLongTermKeyRequestEvent];
+  LeRemoteConnectionParameterRequest:   [event: LeRemoteConnectionParameterRequestEvent];
+  LeDataLengthChange:                   [event: LeDataLengthChangeEvent];
+  LeReadLocalP256PublicKeyComplete:     [err: Error|null, event: LeReadLocalP256PublicKeyCompleteEvent];
+  LeGenerateDhKeyComplete:              [err: Error|null, event: LeGenerateDhKeyCompleteEvent];
+  LeEnhancedConnectionComplete:         [err: Error|null, event: LeEnhConnectionCompleteEvent];
+  LeDirectedAdvertisingReport:          [report: LeDirectedAdvertisingReportEvent];
+  LePhyUpdateComplete:                  [err: Error|null, event: LePhyUpdateCompleteEvent];
+  LeExtendedAdvertisingReport:          [report: LeExtAdvReport];
+  LePeriodicAdvertisingSyncEstablished: [err: Error|null, event: LePeriodicAdvertisingSyncEstablishedEvent];
+  LePeriodicAdvertisingReport:          [report: LePeriodicAdvertisingReportEvent];
+  LePeriodicAdvertisingSyncLost:        [event: LePeriodicAdvertisingSyncLostEvent];
+  LeScanTimeout:                        [];
+  LeAdvertisingSetTerminated:           [err: Error|null, event: LeAdvertisingSetTerminatedEvent];
+  LeChannelSelectionAlgorithm:          [event: LeChannelSelAlgoEvent];
+  LePeriodicAdvertisingSyncTransferReceived: [err: Error|null, event: LePeriodicAdvertisingSyncTransferReceivedEvent];
+  LeCisEstablished:                     [err: Error|null, event: LeCisEstablishedEvent];
+  LeCisRequest:                         [event: LeCisRequestEvent];
+  LeCreateBigComplete:                  [err: Error|null, event: LeCreateBigCompleteEvent];
+  LeTerminateBigComplete:               [event: LeTerminateBigCompleteEvent];
+  LeBigSyncEstablished:                 [err: Error|null, event: LeBigSyncEstablishedEvent];
+  LeBigSyncLost:                        [event: LeBigSyncLostEvent];
+  LeBigInfoAdvertisingReport:           [report: LeBigInfoAdvertisingReportEvent];
+
+  VendorSpecific:                       [payload: Buffer];
+
+  AclData:                              [connectionHandle: number, event: AclDataPacket];
+  IsoData:                              [connectionHandle: number, event: IsoDataPacket];
+  IsoSdu:                               [connectionHandle: number, sdu: IsoSdu];
+  ControllerReset:                      [requested: boolean];
+}
+
+export type HciEventName = keyof HciEvents;
+export type HciEventListener<K extends HciEventName> = (...args: HciEvents[K]) => void;
+
+// Events reporting completion status as the first argument
+type HciStatusEventName = {
+  [K in HciEventName]: HciEvents[K] extends [Error|null, unknown] ? K : never
+}[HciEventName];
+
+// Handled by Hci itself, enabled whether anyone listens or not
+const HciInternalEvents: HciEventName[] = [
+  'DisconnectionComplete',
+  'HardwareError',
+  'LeConnectionComplete',
+  'LeAdvertisingSetTerminated',
+  'LeTerminateBigComplete',
+  'LeBigSyncLost',
+];
+
 export declare interface Hci {
-  on(event: 'DisconnectionComplete',                listener: (err: Error|null, event: DisconnectionCompleteEvent) => void): this;
-  on(event: 'EncryptionChange',                     listener: (err: Error|null, event: EncryptionChangeEvent) => void): this;
-  on(event: 'EncryptionKeyRefreshComplete',         listener: (err: Error|null, connectionHandle: number) => void): this;
-  on(event: 'ReadRemoteVersionInformationComplete', listener: (err: Error|null, event: ReadRemoteVersionInformationCompleteEvent) => void): this;
-  on(event: 'NumberOfCompletedPackets',             listener: (event: NumberOfCompletedPacketsEntry[]) => void): this;
-
-  on(event: 'LeConnectionComplete',                 listener: (err: Error|null, event: LeConnectionCompleteEvent) => void): this;
-  on(event: 'LeAdvertisingReport',                  listener: (report: LeAdvReport) => void): this;
-  on(event: 'LeConnectionUpdateComplete',           listener: (err: Error|null, event: LeConnectionUpdateCompleteEvent) => void): this;
-  on(event: 'LeReadRemoteFeaturesComplete',         listener: (err: Error|null, event: LeReadRemoteFeaturesCompleteEvent) => void): this;
-  on(event: 'LeLongTermKeyRequest',                 listener: (event: LeLongTermKeyRequestEvent) => void): this;
-  on(event: 'LeRemoteConnectionParameterRequest',   listener: (event: LeDataLengthChangeEvent) => void): this;
-  on(event: 'LeDataLengthChange',                   listener: (event: LeRemoteConnectionParameterRequestEvent) => void): this;
-  on(event: 'LeReadLocalP256PublicKeyComplete',     listener: (err: Error|null, event: LeReadRemoteFeaturesCompleteEvent) => void): this;
-  on(event: 'LeGenerateDhKeyComplete',              listener: (err: Error|null, event: LeGenerateDhKeyCompleteEvent) => void): this;
-  on(event: 'LeEnhancedConnectionComplete',         listener: (err: Error|null, event: LeEnhConnectionCompleteEvent) => void): this;
-  on(event: 'LeDirectedAdvertisingReport',          listener: (report: LeDirectedAdvertisingReportEvent) => void): this;
-  on(event: 'LePhyUpdateComplete',                  listener: (err: Error|null, event: LePhyUpdateCompleteEvent) => void): this;
-  on(event: 'LeExtendedAdvertisingReport',          listener: (report: LeExtAdvReport) => void): this;
-  on(event: 'LeScanTimeout',                        listener: () => void): this;
-  on(event: 'LeAdvertisingSetTerminated',           listener: (err: Error|null, event: LeAdvertisingSetTerminatedEvent) => void): this;
-  on(event: 'LeChannelSelectionAlgorithm',          listener: (event: LeChannelSelAlgoEvent) => void): this;
-
-  on(event: 'AclData',                              listener: (connectionHandle: number, event: AclDataPacket) => void): this;
+  on<K extends HciEventName>(event: K, listener: HciEventListener<K>): this;
+  once<K extends HciEventName>(event: K, listener: HciEventListener<K>): this;
+  off<K extends HciEventName>(event: K, listener: HciEventListener<K>): this;
+  removeListener<K extends HciEventName>(event: K, listener: HciEventListener<K>): this;
+  emit<K extends HciEventName>(event: K, ...args: HciEvents[K]): boolean;
 }
 
 export class Hci extends EventEmitter {
   private send: (pt: HciPacketType, data: Buffer) => void;
   private cmd: HciCmd;
+  private snoop: HciSnoop | null = null;
+  private eventTimeout: number;
+  private capabilities: HciCapabilities | null = null;
+  private autoEventMask: boolean;
+  private eventMasks: Partial<ReturnType<typeof HciEventMask.serialize>> = {};
+  private eventMaskUpdateScheduled = false;
+  private journal = new HciJournal();
+  private hostFlowControl = false;
+  private aclReceived = new Map<number, number>();
+  private aclCompleted = new Map<number, number>();
+  private aclCompletedScheduled = false;
+  private isoData = new HciIsoData();
+  private bigConnectionHandles = new Map<number, number[]>();
 
   public constructor(init: HciInit) {
     super();
 
-    this.send = init.send;
+    let send: (pt: HciPacketType, data: Buffer) => void;
+    if ('transport' in init) {
+      const transport = init.transport;
+      send = (pt, data) => transport.send(pt, data);
+      transport.on('packet', (pt, data) => this.onData(pt, data));
+    } else {
+      send = init.send;
+    }
+
+    this.snoop = init.snoop ?? null;
+    this.send = (pt, data) => {
+      this.snoop?.sent(pt, data);
+      send(pt, data);
+    };
 
     const timeout = init.cmdTimeout ?? 2000;
     this.cmd = new HciCmd(this.send, timeout);
+    this.cmd.setResultListener((opcode, payload) => this.onCommandResult(opcode, payload));
+    this.cmd.setResetListener(() => this.onControllerReset());
+
+    // LL procedures complete within LL response timeout (40s)
+    this.eventTimeout = init.eventTimeout ?? 40000;
+
+    this.autoEventMask = init.autoEventMask ?? false;
+    if (this.autoEventMask) {
+      this.resetEventMasks();
+      this.addListener('removeListener', () => this.scheduleEventMaskUpdate());
+      this.addListener('newListener',    (label: string | symbol) => this.updateEventMask(label));
+    }
+  }
+
+  // Capabilities
+
+  public async readCapabilities(options?: AbortOptions): Promise<HciCapabilities> {
+    this.cmd.setCommandFilter(null);
+
+    const version  = await this.readLocalVersionInformation(options);
+    const commands = await this.readLocalSupportedCommands(options);
+
+    this.cmd.setCommandFilter((opcode) => HciSupportedCommands.isSupported(commands, opcode));
+
+    const leFeatures = commands.leReadLocalSupportedFeatures ? await this.leReadLocalSupportedFeatures(options) : null;
+    const leStates   = commands.leReadSupportedStates        ? await this.leReadSupportedStates(options)        : null;
+
+    this.capabilities = { version, commands, leFeatures, leStates };
+    return this.capabilities;
+  }
+
+  public getCapabilities(): HciCapabilities | null {
+    return this.capabilities;
+  }
+
+  public isCommandSupported(command: keyof LocalSupportedCommands): boolean {
+    return this.capabilities?.commands[command] ?? true;
+  }
+
+  // Configuration
+
+  public getConfiguration(): HciJournalEntry[] {
+    return this.journal.entries();
+  }
+
+  public async restoreConfiguration(entries: HciJournalEntry[], options?: AbortOptions): Promise<void> {
+    for (const { opcode, payload } of entries) {
+      await this.cmd.command({ opcode, payload, options });
+    }
+  }
+
+  // Controller to Host flow control
+
+  public async enableHostFlowControl(buffer: Partial<HostBufferSize> = {}, options?: AbortOptions): Promise<void> {
+    await this.hostBufferSize({
+      hostAclDataPacketLength:     buffer.hostAclDataPacketLength     ?? 251,
+      hostSyncDataPacketLength:    buffer.hostSyncDataPacketLength    ?? 0,
+      hostTotalNumAclDataPackets:  buffer.hostTotalNumAclDataPackets  ?? 16,
+      hostTotalNumSyncDataPackets: buffer.hostTotalNumSyncDataPackets ?? 0,
+    }, options);
+    await this.setControllerToHostFlowControl(FlowControlEnable.AclOn, options);
+  }
+
+  public isHostFlowControlEnabled(): boolean {
+    return this.hostFlowControl;
+  }
+
+  // Returns buffers of processed ACL data packets to the controller
+  public completeAclPackets(connectionHandle: number, numPackets = 1): void {
+    const received = this.aclReceived.get(connectionHandle) ?? 0;
+    const completed = Math.min(numPackets, received);
+    if (completed === 0) {
+      return;
+    }
+
+    this.aclReceived.set(connectionHandle, received - completed);
+    this.aclCompleted.set(connectionHandle, (this.aclCompleted.get(connectionHandle) ?? 0) + completed);
+
+    if (this.aclCompletedScheduled) {
+      return;
+    }
+    this.aclCompletedScheduled = true;
+
+    // Packets completed in the same loop iteration are reported together
+    setImmediate(() => {
+      this.aclCompletedScheduled = false;
+      const completedPackets = [...this.aclCompleted.entries()].map<CompletedPackets>(
+        ([connectionHandle, completedPackets]) => ({ connectionHandle, completedPackets })
+      );
+      this.aclCompleted.clear();
+      if (this.hostFlowControl && completedPackets.length > 0) {
+        this.hostNumberOfCompletedPackets(completedPackets)
+          .catch((err) => debug(`hostNumberOfCompletedPackets failed: ${err.message}`));
+      }
+    });
+  }
+
+  // Events
+
+  public events<K extends HciEventName>(
+    event: K,
+    options: { signal?: AbortSignal } = {},
+  ): AsyncIterableIterator<HciEvents[K]> {
+    const { signal } = options;
+    const queue: HciEvents[K][] = [];
+    const waiting: { resolve: (result: IteratorResult<HciEvents[K]>) => void, reject: (err: Error) => void }[] = [];
+    let error: Error | null = null;
+    let done = false;
+
+    const listener = ((...args: HciEvents[K]) => {
+      const next = waiting.shift();
+      next ? next.resolve({ value: args, done: false }) : queue.push(args);
+    }) as HciEventListener<K>;
+
+    const finish = (err: Error | null) => {
+      if (done) {
+        return;
+      }
+      done = true;
+      this.removeListener(event, listener);
+      detachAbort();
+      if (err) {
+        queue.length = 0;
+      }
+      const pending = waiting.splice(0);
+      for (const next of pending) {
+        err ? next.reject(err) : next.resolve({ value: undefined, done: true });
+      }
+      // Error is reported once, unless pending next() calls already got it
+      error = pending.length === 0 ? err : null;
+    };
+
+    const detachAbort = onAbort(signal, () => finish(new AbortError()));
+    this.on(event, listener);
+    if (signal?.aborted) {
+      finish(new AbortError());
+    }
+
+    return {
+      next: () => {
+        if (queue.length > 0) {
+          return Promise.resolve({ value: queue.shift()!, done: false });
+        }
+        if (done) {
+          const err = error;
+          error = null;
+          return err ? Promise.reject(err) : Promise.resolve({ value: undefined, done: true });
+        }
+        return new Promise((resolve, reject) => waiting.push({ resolve, reject }));
+      },
+      return: () => {
+        finish(null);
+        return Promise.resolve({ value: undefined, done: true });
+      },
+      throw: (err?: Error) => {
+        finish(null);
+        return Promise.reject(err);
+      },
+      [Symbol.asyncIterator]() {
+        return this;
+      },
+    };
+  }
+
+  public async waitFor<K extends HciEventName>(
+    event: K,
+    predicate: (...args: HciEvents[K]) => boolean = () => true,
+    options: AbortOptions = {},
+  ): Promise<HciEvents[K]> {
+    const { signal } = options;
+    const timeoutMs = options.timeoutMs ?? this.eventTimeout;
+
+    return new Promise<HciEvents[K]>((resolve, reject) => {
+      if (signal?.aborted) {
+        return reject(new AbortError());
+      }
+      const cleanup = () => {
+        clearTimeout(timeoutId);
+        detachAbort();
+        this.removeListener(event, listener);
+      };
+      const listener = ((...args: HciEvents[K]) => {
+        try {
+          if (!predicate(...args)) {
+            return;
+          }
+        } catch (err) {
+          cleanup();
+          return reject(err);
+        }
+        cleanup();
+        resolve(args);
+      }) as HciEventListener<K>;
+      const timeoutId = setTimeout(() => {
+        cleanup();
+        reject(makeParserError(HciParserError.Timeout));
+      }, timeoutMs);
+      const detachAbort = onAbort(signal, () => {
+        cleanup();
+        reject(new AbortError());
+      });
+
+      this.on(event, listener);
+    });
   }
 
   // Link Control
 
   public async disconnect(
     connectionHandle: number,
-    reason: HciDisconnectReason = HciDisconnectReason.ConnTerminatedByRemoteUser
+    reason: HciDisconnectReason = HciDisconnectReason.ConnTerminatedByRemoteUser,
+    options?: AbortOptions,
   ): Promise<void> {
     const payload = Buffer.allocUnsafe(3);
     payload.writeUIntLE(connectionHandle, 0, 2);
     payload.writeUIntLE(reason,           2, 1);
     const ocf = HciOcfLinkControlCommands.Disconnect;
-    await this.cmd.linkControl({ ocf, payload });
+    await this.cmd.linkControl({ ocf, payload, options });
   }
 
-  public async readRemoteVersionInformation(connectionHandle: number): Promise<void> {
+  public async readRemoteVersionInformation(connectionHandle: number, options?: AbortOptions): Promise<void> {
     const payload = Buffer.allocUnsafe(2);
     payload.writeUInt16LE(connectionHandle, 0);
     const ocf = HciOcfLinkControlCommands.ReadRemoteVersionInformation;
-    await this.cmd.linkControl({ ocf, payload });
+    await this.cmd.linkControl({ ocf, payload, options });
+  }
+
+  public async readRemoteVersionInformationAndWait(
+    connectionHandle: number,
+    options: AbortOptions = {},
+  ): Promise<ReadRemoteVersionInformationCompleteEvent> {
+    return await this.sendAndWaitEvent(
+      'ReadRemoteVersionInformationComplete', connectionHandle, options,
+      (signal) => this.readRemoteVersionInformation(connectionHandle, { signal })
+    );
   }
 
   // Control and Baseband
 
-  public async setEventMask(events: Partial<EventMask> = {}): Promise<void> {
+  public async setEventMask(events: Partial<EventMask> = {}, options?: AbortOptions): Promise<void> {
     const ocf = HciOcfControlAndBasebandCommands.SetEventMask;
     const payload = SetEventMask.inParams(events);
-    await this.cmd.controlAndBaseband({ ocf, payload });
+    await this.cmd.controlAndBaseband({ ocf, payload, options });
   }
 
-  public async reset(): Promise<void> {
+  public async reset(options?: AbortOptions): Promise<void> {
     const ocf = HciOcfControlAndBasebandCommands.Reset;
-    await this.cmd.controlAndBaseband({ ocf });
+    await this.cmd.controlAndBaseband({ ocf, options });
+
+    this.journal.clear();
+    this.resetHostFlowControl();
+    this.isoData.reset();
+    this.bigConnectionHandles.clear();
+
+    if (this.autoEventMask) {
+      this.resetEventMasks();
+      this.updateEventMask();
+    }
+
+    this.emit('ControllerReset', true);
   }
 
-  public async readTransmitPowerLevel(connectionHandle: number, type: ReadTransmitPowerLevelType): Promise<number> {
+  public async readTransmitPowerLevel(connectionHandle: number, type: ReadTransmitPowerLevelType, options?: AbortOptions): Promise<number> {
     const ocf = HciOcfControlAndBasebandCommands.ReadTransmitPowerLevel;
     const payload = ReadTransmitPowerLevel.inParams(connectionHandle, type);
-    const result = await this.cmd.controlAndBaseband({ ocf, connectionHandle, payload });
+    const result = await this.cmd.controlAndBaseband({ ocf, connectionHandle, payload, options });
     return ReadTransmitPowerLevel.outParams(result.returnParameters);
   }
 
-  public async setControllerToHostFlowControl(enable: FlowControlEnable): Promise<void> {
+  public async setControllerToHostFlowControl(enable: FlowControlEnable, options?: AbortOptions): Promise<void> {
     const ocf = HciOcfControlAndBasebandCommands.SetControllerToHostFlowControl;
     const payload = SetControllerToHostFlowControl.inParams(enable);
-    await this.cmd.controlAndBaseband({ ocf, payload });
+    await this.cmd.controlAndBaseband({ ocf, payload, options });
   }
 
-  public async setEventMaskPage2(events: Partial<EventMask2> = {}): Promise<void> {
+  public async setEventMaskPage2(events: Partial<EventMask2> = {}, options?: AbortOptions): Promise<void> {
     const ocf = HciOcfControlAndBasebandCommands.SetEventMaskPage2;
     const payload = SetEventMask2.inParams(events);
-    await this.cmd.controlAndBaseband({ ocf, payload });
+    await this.cmd.controlAndBaseband({ ocf, payload, options });
   }
 
-  public async readLeHostSupport(): Promise<boolean> {
+  public async readLeHostSupport(options?: AbortOptions): Promise<boolean> {
     const ocf = HciOcfControlAndBasebandCommands.ReadLeHostSupport;
-    const result = await this.cmd.controlAndBaseband({ ocf });
+    const result = await this.cmd.controlAndBaseband({ ocf, options });
     return ReadLeHostSupport.outParams(result.returnParameters);
   }
 
-  public async writeLeHostSupported(leSupportedHost: boolean): Promise<void> {
+  public async writeLeHostSupported(leSupportedHost: boolean, options?: AbortOptions): Promise<void> {
     const ocf = HciOcfControlAndBasebandCommands.WriteLeHostSupport;
     const payload = WriteLeHostSupported.inParams(leSupportedHost);
-    await this.cmd.controlAndBaseband({ ocf, payload });
+    await this.cmd.controlAndBaseband({ ocf, payload, options });
   }
 
-  public async hostBufferSize(params: HostBufferSize): Promise<void> {
+  public async hostBufferSize(params: HostBufferSize, options?: AbortOptions): Promise<void> {
     const ocf = HciOcfControlAndBasebandCommands.HostBufferSize;
     const payload = HostBufferSize.inParams(params);
-    await this.cmd.controlAndBaseband({ ocf, payload });
+    await this.cmd.controlAndBaseband({ ocf, payload, options });
   }
 
   public async hostNumberOfCompletedPackets(params: CompletedPackets[]): Promise<void> {
@@ -190,429 +523,494 @@ export class Hci extends EventEmitter {
     await this.cmd.controlAndBasebandNoResponse({ ocf, payload });
   }
 
-  public async readAuthenticatedPayloadTimeout(connectionHandle: number): Promise<number> {
+  public async readAuthenticatedPayloadTimeout(connectionHandle: number, options?: AbortOptions): Promise<number> {
     const ocf = HciOcfControlAndBasebandCommands.ReadAuthenticatedPayloadTimeout;
     const payload = ReadAuthenticatedPayloadTimeout.inParams(connectionHandle);
-    const result = await this.cmd.controlAndBaseband({ ocf, connectionHandle, payload });
+    const result = await this.cmd.controlAndBaseband({ ocf, connectionHandle, payload, options });
     return ReadAuthenticatedPayloadTimeout.outParams(result.returnParameters);
   }
 
-  public async writeAuthenticatedPayloadTimeout(connectionHandle: number, timeoutMs: number): Promise<void> {
+  public async writeAuthenticatedPayloadTimeout(connectionHandle: number, timeoutMs: number, options?: AbortOptions): Promise<void> {
     const ocf = HciOcfControlAndBasebandCommands.WriteAuthenticatedPayloadTimeout;
     const payload = WriteAuthenticatedPayloadTimeout.inParams(connectionHandle, timeoutMs);
-    await this.cmd.controlAndBaseband({ ocf, connectionHandle, payload });
+    await this.cmd.controlAndBaseband({ ocf, connectionHandle, payload, options });
   }
 
   // Information parameters
 
-  public async readLocalSupportedFeatures(): Promise<LocalSupportedFeatures> {
+  public async readLocalSupportedFeatures(options?: AbortOptions): Promise<LocalSupportedFeatures> {
     const ocf = HciOcfInformationParameters.ReadLocalSupportedFeatures;
-    const result = await this.cmd.informationParameters({ ocf });
+    const result = await this.cmd.informationParameters({ ocf, options });
     return ReadLocalSupportedFeatures.outParams(result.returnParameters);
   }
 
-  public async readLocalVersionInformation(): Promise<LocalVersionInformation> {
+  public async readLocalVersionInformation(options?: AbortOptions): Promise<LocalVersionInformation> {
     const ocf = HciOcfInformationParameters.ReadLocalVersionInformation;
-    const result = await this.cmd.informationParameters({ ocf });
+    const result = await this.cmd.informationParameters({ ocf, options });
     return ReadLocalVersionInformation.outParams(result.returnParameters);
   }
 
-  public async readBufferSize(): Promise<BufferSize> {
+  public async readBufferSize(options?: AbortOptions): Promise<BufferSize> {
     const ocf = HciOcfInformationParameters.ReadBufferSize;
-    const result = await this.cmd.informationParameters({ ocf });
+    const result = await this.cmd.informationParameters({ ocf, options });
     return ReadBufferSize.outParams(result.returnParameters);
   }
 
-  public async readBdAddr(): Promise<Address> {
+  public async readBdAddr(options?: AbortOptions): Promise<Address> {
     const ocf = HciOcfInformationParameters.ReadBdAddr;
-    const result = await this.cmd.informationParameters({ ocf });
+    const result = await this.cmd.informationParameters({ ocf, options });
     return ReadBdAddr.outParams(result.returnParameters);
   }
 
-  public async readLocalSupportedCommands(): Promise<LocalSupportedCommands> {
+  public async readLocalSupportedCommands(options?: AbortOptions): Promise<LocalSupportedCommands> {
     const ocf = HciOcfInformationParameters.ReadLocalSupportedCommands;
-    const result = await this.cmd.informationParameters({ ocf });
+    const result = await this.cmd.informationParameters({ ocf, options });
     return ReadLocalSupportedCommands.outParams(result.returnParameters);
   }
 
-  public async readRssi(connectionHandle: number): Promise<number> {
+  public async readRssi(connectionHandle: number, options?: AbortOptions): Promise<number> {
     const ocf = HciOcfStatusParameters.ReadRssi;
     const payload = ReadRssi.inParams(connectionHandle);
-    const result = await this.cmd.statusParameters({ ocf, connectionHandle, payload });
+    const result = await this.cmd.statusParameters({ ocf, connectionHandle, payload, options });
     return ReadRssi.outParams(result.returnParameters);
   }
 
   // LE Controller
 
-  public async leSetEventMask(events: Partial<LeEvents> = {}): Promise<void> {
+  public async leSetEventMask(events: Partial<LeEvents> = {}, options?: AbortOptions): Promise<void> {
     const ocf = HciOcfLeControllerCommands.SetEventMask;
     const payload = LeSetEventsMask.inParams(events);
-    await this.cmd.leController({ ocf, payload });
+    await this.cmd.leController({ ocf, payload, options });
   }
 
-  public async leReadBufferSize(): Promise<LeBufferSize> {
+  public async leReadBufferSize(options?: AbortOptions): Promise<LeBufferSize> {
     const ocf = HciOcfLeControllerCommands.ReadBufferSizeV1;
-    const result = await this.cmd.leController({ ocf });
+    const result = await this.cmd.leController({ ocf, options });
     return LeReadBufferSize.outParams(result.returnParameters);
   }
 
-  public async leReadBufferSizeV2(): Promise<LeBufferSizeV2> {
+  public async leReadBufferSizeV2(options?: AbortOptions): Promise<LeBufferSizeV2> {
     const ocf = HciOcfLeControllerCommands.ReadBufferSizeV2;
-    const result = await this.cmd.leController({ ocf });
-    return LeReadBufferSizeV2.outParams(result.returnParameters);
+    const result = await this.cmd.leController({ ocf, options });
+    const bufferSize = LeReadBufferSizeV2.outParams(result.returnParameters);
+    this.isoData.setBufferSize(bufferSize.isoDataPacketLength, bufferSize.totalNumIsoDataPackets);
+    return bufferSize;
   }
 
-  public async leReadLocalSupportedFeatures(): Promise<LeLocalSupportedFeatures> {
+  public async leReadLocalSupportedFeatures(options?: AbortOptions): Promise<LeLocalSupportedFeatures> {
     const ocf = HciOcfLeControllerCommands.ReadLocalSupportedFeatures;
-    const result = await this.cmd.leController({ ocf });
+    const result = await this.cmd.leController({ ocf, options });
     return LeReadLocalSupportedFeatures.outParams(result.returnParameters);
   }
 
-  public async leSetRandomAddress(randomAddress: Address): Promise<void> {
+  public async leSetRandomAddress(randomAddress: Address, options?: AbortOptions): Promise<void> {
     const ocf = HciOcfLeControllerCommands.SetRandomAddress;
     const payload = LeSetRandomAddress.inParams(randomAddress);
-    await this.cmd.leController({ ocf, payload });
+    await this.cmd.leController({ ocf, payload, options });
   }
 
-  public async leSetAdvertisingParameters(params: LeAdvertisingParameters): Promise<void> {
+  public async leSetAdvertisingParameters(params: LeAdvertisingParameters, options?: AbortOptions): Promise<void> {
     const ocf = HciOcfLeControllerCommands.SetAdvertisingParameters;
     const payload = LeSetAdvertisingParameters.inParams(params);
-    await this.cmd.leController({ ocf, payload });
+    await this.cmd.leController({ ocf, payload, options });
   }
 
-  public async leReadAdvertisingPhysicalChannelTxPower(): Promise<number> {
+  public async leReadAdvertisingPhysicalChannelTxPower(options?: AbortOptions): Promise<number> {
     const ocf = HciOcfLeControllerCommands.ReadAdvertisingPhysicalChannelTxPower;
-    const result = await this.cmd.leController({ ocf });
+    const result = await this.cmd.leController({ ocf, options });
     return LeReadAdvertisingPhysicalChannelTxPower.outParams(result.returnParameters);
   }
 
-  public async leSetAdvertisingData(data: Buffer): Promise<void> {
+  public async leSetAdvertisingData(data: Buffer, options?: AbortOptions): Promise<void> {
     const ocf = HciOcfLeControllerCommands.SetAdvertisingData;
     const payload = LeSetAdvertisingScanResponseData.inParams(data);
-    await this.cmd.leController({ ocf, payload });
+    await this.cmd.leController({ ocf, payload, options });
   }
 
-  public async leSetScanResponseData(data: Buffer): Promise<void> {
+  public async leSetScanResponseData(data: Buffer, options?: AbortOptions): Promise<void> {
     const ocf = HciOcfLeControllerCommands.SetScanResponseData;
     const payload = LeSetAdvertisingScanResponseData.inParams(data);
-    await this.cmd.leController({ ocf, payload });
+    await this.cmd.leController({ ocf, payload, options });
   }
 
-  public async leSetAdvertisingEnable(enable: boolean): Promise<void> {
+  public async leSetAdvertisingEnable(enable: boolean, options?: AbortOptions): Promise<void> {
     const ocf = HciOcfLeControllerCommands.SetAdvertisingEnable;
     const payload = LeSetAdvertisingEnable.inParams(enable);
-    await this.cmd.leController({ ocf, payload });
+    await this.cmd.leController({ ocf, payload, options });
   }
 
-  public async leSetScanParameters(params: LeScanParameters): Promise<void> {
+  public async leSetScanParameters(params: LeScanParameters, options?: AbortOptions): Promise<void> {
     const ocf = HciOcfLeControllerCommands.SetScanParameters;
     const payload = LeSetScanParameters.inParams(params);
-    await this.cmd.leController({ ocf, payload });
+    await this.cmd.leController({ ocf, payload, options });
   }
 
-  public async leSetScanEnable(enable: boolean, filterDuplicates?: boolean): Promise<void> {
+  public async leSetScanEnable(enable: boolean, filterDuplicates?: boolean, options?: AbortOptions): Promise<void> {
     const ocf = HciOcfLeControllerCommands.SetScanEnable;
     const payload = LeSetScanEnabled.inParams(enable, filterDuplicates);
-    await this.cmd.leController({ ocf, payload });
+    await this.cmd.leController({ ocf, payload, options });
   }
 
-  public async leCreateConnection(params: LeCreateConnection): Promise<void> {
+  public async leCreateConnection(params: LeCreateConnection, options?: AbortOptions): Promise<void> {
     const ocf = HciOcfLeControllerCommands.CreateConnection;
     const payload = LeCreateConnection.inParams(params);
-    await this.cmd.leController({ ocf, payload });
+    await this.cmd.leController({ ocf, payload, options });
   }
 
-  public async leCreateConnectionCancel(): Promise<void> {
+  public async leCreateConnectionCancel(options?: AbortOptions): Promise<void> {
     const ocf = HciOcfLeControllerCommands.CreateConnectionCancel;
-    await this.cmd.leController({ ocf });
+    await this.cmd.leController({ ocf, options });
   }
 
-  public async leReadWhiteListSize(): Promise<number> {
+  public async leReadWhiteListSize(options?: AbortOptions): Promise<number> {
     const ocf = HciOcfLeControllerCommands.ReadWhiteListSize;
-    const result = await this.cmd.leController({ ocf });
+    const result = await this.cmd.leController({ ocf, options });
     return LeReadWhiteListSize.outParams(result.returnParameters);
   }
 
-  public async leClearWhiteList(): Promise<void> {
+  public async leClearWhiteList(options?: AbortOptions): Promise<void> {
     const ocf = HciOcfLeControllerCommands.ClearWhiteList;
-    await this.cmd.leController({ ocf });
+    await this.cmd.leController({ ocf, options });
   }
 
-  public async leAddDeviceToWhiteList(params: LeWhiteList): Promise<void> {
+  public async leAddDeviceToWhiteList(params: LeWhiteList, options?: AbortOptions): Promise<void> {
     const ocf = HciOcfLeControllerCommands.AddDeviceToWhiteList;
     const payload = LeWhiteList.inParams(params);
-    await this.cmd.leController({ ocf, payload });
+    await this.cmd.leController({ ocf, payload, options });
   }
 
-  public async leRemoveDeviceFromWhiteList(params: LeWhiteList): Promise<void> {
+  public async leRemoveDeviceFromWhiteList(params: LeWhiteList, options?: AbortOptions): Promise<void> {
     const ocf = HciOcfLeControllerCommands.RemoveDeviceFromWhiteList;
     const payload = LeWhiteList.inParams(params);
-    await this.cmd.leController({ ocf, payload });
+    await this.cmd.leController({ ocf, payload, options });
   }
 
-  public async leConnectionUpdate(params: LeConnectionUpdate): Promise<void> {
+  public async leConnectionUpdate(params: LeConnectionUpdate, options?: AbortOptions): Promise<void> {
     const ocf = HciOcfLeControllerCommands.ConnectionUpdate;
     const payload = LeConnectionUpdate.inParams(params);
-    await this.cmd.leController({ ocf, payload });
+    await this.cmd.leController({ ocf, payload, options });
+  }
+
+  public async leConnectionUpdateAndWait(
+    params: LeConnectionUpdate,
+    options: AbortOptions = {},
+  ): Promise<LeConnectionUpdateCompleteEvent> {
+    return await this.sendAndWaitEvent(
+      'LeConnectionUpdateComplete', params.connectionHandle, options,
+      (signal) => this.leConnectionUpdate(params, { signal })
+    );
   }
 
-  public async leSetHostChannelClassification(channelMap: number): Promise<void> {
+  public async leSetHostChannelClassification(channelMap: number, options?: AbortOptions): Promise<void> {
     const payload = Buffer.allocUnsafe(5);
     payload.writeUIntLE(channelMap, 0, 5);
     const ocf = HciOcfLeControllerCommands.SetHostChannelClassification;
-    await this.cmd.leController({ ocf, payload });
+    await this.cmd.leController({ ocf, payload, options });
   }
 
-  public async leReadChannelMap(connectionHandle: number): Promise<number> {
+  public async leReadChannelMap(connectionHandle: number, options?: AbortOptions): Promise<number> {
     const ocf = HciOcfLeControllerCommands.ReadChannelMap;
     const payload = LeReadChannelMap.inParams(connectionHandle);
-    const result = await this.cmd.leController({ ocf, connectionHandle, payload });
+    const result = await this.cmd.leController({ ocf, connectionHandle, payload, options });
     return LeReadChannelMap.outParams(result.returnParameters);
   }
 
-  public async leReadRemoteFeatures(connectionHandle: number): Promise<void> {
+  public async leReadRemoteFeatures(connectionHandle: number, options?: AbortOptions): Promise<void> {
     const payload = Buffer.allocUnsafe(2);
     payload.writeUIntLE(connectionHandle, 0, 2);
     const ocf = HciOcfLeControllerCommands.ReadRemoteFeatures;
-    await this.cmd.leController({ ocf, payload });
+    await this.cmd.leController({ ocf, payload, options });
   }
 
-  public async leEncrypt(key: Buffer, plainTextData: Buffer): Promise<Buffer> {
+  public async leReadRemoteFeaturesAndWait(
+    connectionHandle: number,
+    options: AbortOptions = {},
+  ): Promise<LeReadRemoteFeaturesCompleteEvent> {
+    return await this.sendAndWaitEvent(
+      'LeReadRemoteFeaturesComplete', connectionHandle, options,
+      (signal) => this.leReadRemoteFeatures(connectionHandle, { signal })
+    );
+  }
+
+  public async leEncrypt(key: Buffer, plainTextData: Buffer, options?: AbortOptions): Promise<Buffer> {
     const ocf = HciOcfLeControllerCommands.Encrypt;
     const payload = LeEncrypt.inParams(key, plainTextData);
-    const result = await this.cmd.leController({ ocf, payload });
+    const result = await this.cmd.leController({ ocf, payload, options });
     return LeEncrypt.outParams(result.returnParameters);
   }
 
-  public async leRand(): Promise<Buffer> {
+  public async leRand(options?: AbortOptions): Promise<Buffer> {
     const ocf = HciOcfLeControllerCommands.Rand;
-    const result = await this.cmd.leController({ ocf });
+    const result = await this.cmd.leController({ ocf, options });
     return LeRand.outParams(result.returnParameters);
   }
 
-  public async leEnableEncryption(connectionHandle: number, params: LeEnableEncryption): Promise<void> {
+  public async leEnableEncryption(connectionHandle: number, params: LeEnableEncryption, options?: AbortOptions): Promise<void> {
     const ocf = HciOcfLeControllerCommands.EnableEncryption;
     const payload = LeEnableEncryption.inParams(connectionHandle, params);
-    await this.cmd.leController({ ocf, connectionHandle, payload });
+    await this.cmd.leController({ ocf, connectionHandle, payload, options });
   }
 
-  public async leLongTermKeyRequestReply(connectionHandle: number, longTermKey: Buffer): Promise<void> {
+  public async leLongTermKeyRequestReply(connectionHandle: number, longTermKey: Buffer, options?: AbortOptions): Promise<void> {
     const ocf = HciOcfLeControllerCommands.LongTermKeyRequestReply;
     const payload = LeLongTermKeyRequestReply.inParams(connectionHandle, longTermKey);
-    await this.cmd.leController({ ocf, connectionHandle, payload });
+    await this.cmd.leController({ ocf, connectionHandle, payload, options });
   }
 
-  public async leLongTermKeyRequestNegativeReply(connectionHandle: number): Promise<void> {
+  public async leLongTermKeyRequestNegativeReply(connectionHandle: number, options?: AbortOptions): Promise<void> {
     const ocf = HciOcfLeControllerCommands.LongTermKeyRequestNegativeReply;
     const payload = LeLongTermKeyRequestNegativeReply.inParams(connectionHandle);
-    await this.cmd.leController({ ocf, connectionHandle, payload });
+    await this.cmd.leController({ ocf, connectionHandle, payload, options });
   }
 
-  public async leReadSupportedStates(): Promise<LeSupportedStates> {
+  public async leReadSupportedStates(options?: AbortOptions): Promise<LeSupportedStates> {
     const ocf = HciOcfLeControllerCommands.ReadSupportedStates;
-    const result = await this.cmd.leController({ ocf });
+    const result = await this.cmd.leController({ ocf, options });
     return LeSupportedStates.outParams(result.returnParameters);
   }
 
-  public async leReceiverTestV1(rxChannelMhz: number): Promise<void> {
+  public async leReceiverTestV1(rxChannelMhz: number, options?: AbortOptions): Promise<void> {
     const ocf = HciOcfLeControllerCommands.ReceiverTestV1;
     const payload = LeReceiverTestV1.inParams(rxChannelMhz);
-    await this.cmd.leController({ ocf, payload });
+    await this.cmd.leController({ ocf, payload, options });
   }
 
-  public async leReceiverTestV2(params: LeReceiverTestV2): Promise<void> {
+  public async leReceiverTestV2(params: LeReceiverTestV2, options?: AbortOptions): Promise<void> {
     const ocf = HciOcfLeControllerCommands.ReceiverTestV2;
     const payload = LeReceiverTestV2.inParams(params);
-    await this.cmd.leController({ ocf, payload });
+    await this.cmd.leController({ ocf, payload, options });
   }
 
-  public async leReceiverTestV3(params: LeReceiverTestV3): Promise<void> {
+  public async leReceiverTestV3(params: LeReceiverTestV3, options?: AbortOptions): Promise<void> {
     const ocf = HciOcfLeControllerCommands.ReceiverTestV3;
     const payload = LeReceiverTestV3.inParams(params);
-    await this.cmd.leController({ ocf, payload });
+    await this.cmd.leController({ ocf, payload, options });
   }
 
-  public async leTransmitterTestV1(params: LeTransmitterTestV1): Promise<void> {
+  public async leTransmitterTestV1(params: LeTransmitterTestV1, options?: AbortOptions): Promise<void> {
     const ocf = HciOcfLeControllerCommands.TransmitterTestV1;
     const payload = LeTransmitterTestV1.inParams(params);
-    await this.cmd.leController({ ocf, payload });
+    await this.cmd.leController({ ocf, payload, options });
   }
 
-  public async leTransmitterTestV2(params: LeTransmitterTestV2): Promise<void> {
+  public async leTransmitterTestV2(params: LeTransmitterTestV2, options?: AbortOptions): Promise<void> {
     const ocf = HciOcfLeControllerCommands.TransmitterTestV2;
     const payload = LeTransmitterTestV2.inParams(params);
-    await this.cmd.leController({ ocf, payload });
+    await this.cmd.leController({ ocf, payload, options });
   }
 
-  public async leTransmitterTestV3(params: LeTransmitterTestV3): Promise<void> {
+  public async leTransmitterTestV3(params: LeTransmitterTestV3, options?: AbortOptions): Promise<void> {
     const ocf = HciOcfLeControllerCommands.TransmitterTestV3;
     const payload = LeTransmitterTestV3.inParams(params);
-    await this.cmd.leController({ ocf, payload });
+    await this.cmd.leController({ ocf, payload, options });
   }
 
-  public async leTransmitterTestV4(params: LeTransmitterTestV4): Promise<void> {
+  public async leTransmitterTestV4(params: LeTransmitterTestV4, options?: AbortOptions): Promise<void> {
     const ocf = HciOcfLeControllerCommands.TransmitterTestV4;
     const payload = LeTransmitterTestV4.inParams(params);
-    await this.cmd.leController({ ocf, payload });
+    await this.cmd.leController({ ocf, payload, options });
   }
 
-  public async leTestEnd(): Promise<number> {
+  public async leTestEnd(options?: AbortOptions): Promise<number> {
     const ocf = HciOcfLeControllerCommands.TestEnd;
-    const result = await this.cmd.leController({ ocf });
+    const result = await this.cmd.leController({ ocf, options });
     return LeTestEnd.outParams(result.returnParameters);
   }
 
   public async leRemoteConnectionParameterRequestReply(
     connectionHandle: number,
-    params: LeRemoteConnectionParameterRequestReply
+    params: LeRemoteConnectionParameterRequestReply,
+    options?: AbortOptions,
   ): Promise<void> {
     const ocf = HciOcfLeControllerCommands.RemoteConnectionParameterRequestReply;
     const payload = LeRemoteConnectionParameterRequestReply.inParams(connectionHandle, params);
-    await this.cmd.leController({ ocf, connectionHandle, payload });
+    await this.cmd.leController({ ocf, connectionHandle, payload, options });
   }
 
   public async leRemoteConnectionParameterRequestNegativeReply(
     connectionHandle: number,
-    reason: HciErrorCode
+    reason: HciErrorCode,
+    options?: AbortOptions,
   ): Promise<void> {
     const ocf = HciOcfLeControllerCommands.RemoteConnectionParameterRequestNegativeReply;
     const payload = LeRemoteConnectionParameterRequestNegativeReply.inParams(connectionHandle, reason);
-    await this.cmd.leController({ ocf, connectionHandle, payload });
+    await this.cmd.leController({ ocf, connectionHandle, payload, options });
   }
 
-  public async leSetDataLength(connectionHandle: number, params: LeDataLength): Promise<void> {
+  public async leSetDataLength(connectionHandle: number, params: LeDataLength, options?: AbortOptions): Promise<void> {
     const ocf = HciOcfLeControllerCommands.SetDataLength;
     const payload = LeDataLength.inParams(connectionHandle, params);
-    await this.cmd.leController({ ocf, connectionHandle, payload });
+    await this.cmd.leController({ ocf, connectionHandle, payload, options });
   }
 
-  public async leReadSuggestedDefaultDataLength(): Promise<LeSuggestedDefaultDataLength> {
+  public async leReadSuggestedDefaultDataLength(options?: AbortOptions): Promise<LeSuggestedDefaultDataLength> {
     const ocf = HciOcfLeControllerCommands.ReadSuggestedDefaultDataLength;
-    const result = await this.cmd.leController({ ocf });
+    const result = await this.cmd.leController({ ocf, options });
     return LeSuggestedDefaultDataLength.outParams(result.returnParameters);
   }
 
-  public async leWriteSuggestedDefaultDataLength(params: LeSuggestedDefaultDataLength): Promise<void> {
+  public async leWriteSuggestedDefaultDataLength(params: LeSuggestedDefaultDataLength, options?: AbortOptions): Promise<void> {
     const ocf = HciOcfLeControllerCommands.WriteSuggestedDefaultDataLength;
     const payload = LeSuggestedDefaultDataLength.inParams(params);
-    await this.cmd.leController({ ocf, payload });
+    await this.cmd.leController({ ocf, payload, options });
   }
 
-  public async leReadLocalP256PublicKey(): Promise<void> {
+  public async leReadLocalP256PublicKey(options?: AbortOptions): Promise<void> {
     const ocf = HciOcfLeControllerCommands.ReadLocalP256PublicKey;
-    await this.cmd.leController({ ocf });
+    await this.cmd.leController({ ocf, options });
   }
 
-  public async leGenerateDhKeyV1(dhKey: LeDhKeyV1): Promise<void> {
+  public async leReadLocalP256PublicKeyAndWait(
+    options: AbortOptions = {},
+  ): Promise<LeReadLocalP256PublicKeyCompleteEvent> {
+    return await this.sendAndWaitEvent(
+      'LeReadLocalP256PublicKeyComplete', undefined, options,
+      (signal) => this.leReadLocalP256PublicKey({ signal })
+    );
+  }
+
+  public async leGenerateDhKeyV1(dhKey: LeDhKeyV1, options?: AbortOptions): Promise<void> {
     const ocf = HciOcfLeControllerCommands.GenerateDhKeyV1;
     const payload = LeDhKeyV1.inParams(dhKey);
-    await this.cmd.leController({ ocf, payload });
+    await this.cmd.leController({ ocf, payload, options });
   }
 
-  public async leGenerateDhKeyV2(params: LeDhKeyV2): Promise<void> {
+  public async leGenerateDhKeyV1AndWait(
+    dhKey: LeDhKeyV1,
+    options: AbortOptions = {},
+  ): Promise<LeGenerateDhKeyCompleteEvent> {
+    return await this.sendAndWaitEvent(
+      'LeGenerateDhKeyComplete', undefined, options,
+      (signal) => this.leGenerateDhKeyV1(dhKey, { signal })
+    );
+  }
+
+  public async leGenerateDhKeyV2(params: LeDhKeyV2, options?: AbortOptions): Promise<void> {
     const ocf = HciOcfLeControllerCommands.GenerateDhKeyV2;
     const payload = LeDhKeyV2.inParams(params);
-    await this.cmd.leController({ ocf, payload });
+    await this.cmd.leController({ ocf, payload, options });
   }
 
-  public async leAddDeviceToResolvingList(params: LeAddDeviceToResolvingList): Promise<void> {
+  public async leGenerateDhKeyV2AndWait(
+    params: LeDhKeyV2,
+    options: AbortOptions = {},
+  ): Promise<LeGenerateDhKeyCompleteEvent> {
+    return await this.sendAndWaitEvent(
+      'LeGenerateDhKeyComplete', undefined, options,
+      (signal) => this.leGenerateDhKeyV2(params, { signal })
+    );
+  }
+
+  public async leAddDeviceToResolvingList(params: LeAddDeviceToResolvingList, options?: AbortOptions): Promise<void> {
     const ocf = HciOcfLeControllerCommands.AddDeviceToResolvingList;
     const payload = LeAddDeviceToResolvingList.inParams(params);
-    await this.cmd.leController({ ocf, payload });
+    await this.cmd.leController({ ocf, payload, options });
   }
 
-  public async leRemoveDeviceFromResolvingList(params: LeRemoveDeviceFromResolvingList): Promise<void> {
+  public async leRemoveDeviceFromResolvingList(params: LeRemoveDeviceFromResolvingList, options?: AbortOptions): Promise<void> {
     const ocf = HciOcfLeControllerCommands.RemoveDeviceFromResolvingList;
     const payload = LeRemoveDeviceFromResolvingList.inParams(params);
-    await this.cmd.leController({ ocf, payload });
+    await this.cmd.leController({ ocf, payload, options });
   }
 
-  public async leClearResolvingList(): Promise<void> {
+  public async leClearResolvingList(options?: AbortOptions): Promise<void> {
     const  ocf = HciOcfLeControllerCommands.ClearResolvingList;
-    await this.cmd.leController({ ocf });
+    await this.cmd.leController({ ocf, options });
   }
 
-  public async leReadResolvingListSize(): Promise<number> {
+  public async leReadResolvingListSize(options?: AbortOptions): Promise<number> {
     const ocf = HciOcfLeControllerCommands.ReadResolvingListSize;
-    const result = await this.cmd.leController({ ocf });
+    const result = await this.cmd.leController({ ocf, options });
     return LeReadResolvingListSize.outParams(result.returnParameters);
   }
 
-  public async leSetAddressResolutionEnable(enable: boolean): Promise<void> {
+  public async leSetAddressResolutionEnable(enable: boolean, options?: AbortOptions): Promise<void> {
     const ocf = HciOcfLeControllerCommands.SetAddressResolutionEnable;
     const payload = Buffer.from([ enable ? 1 : 0 ]);
-    await this.cmd.leController({ ocf, payload });
+    await this.cmd.leController({ ocf, payload, options });
   }
 
-  public async leSetResolvablePrivateAddressTimeout(seconds: number): Promise<void> {
+  public async leSetResolvablePrivateAddressTimeout(seconds: number, options?: AbortOptions): Promise<void> {
     const ocf = HciOcfLeControllerCommands.SetResolvablePrivateAddressTimeout;
     const payload = Buffer.allocUnsafe(2);
     payload.writeUInt16LE(seconds);
-    await this.cmd.leController({ ocf, payload });
+    await this.cmd.leController({ ocf, payload, options });
   }
 
-  public async leReadMaximumDataLength(): Promise<LeMaximumDataLength> {
+  public async leReadMaximumDataLength(options?: AbortOptions): Promise<LeMaximumDataLength> {
     const ocf = HciOcfLeControllerCommands.ReadMaximumDataLength;
-    const result = await this.cmd.leController({ ocf });
+    const result = await this.cmd.leController({ ocf, options });
     return LeMaximumDataLength.outParams(result.returnParameters);
   }
 
-  public async leReadPhy(connectionHandle: number): Promise<LeTxRxPhy> {
+  public async leReadPhy(connectionHandle: number, options?: AbortOptions): Promise<LeTxRxPhy> {
     const ocf = HciOcfLeControllerCommands.ReadPhy;
     const payload = ConnectionHandle.inParams(connectionHandle);
-    const result = await this.cmd.leController({ ocf, connectionHandle, payload });
+    const result = await this.cmd.leController({ ocf, connectionHandle, payload, options });
     return LeTxRxPhy.outParams(result.returnParameters);
   }
 
-  public async leSetDefaultPhy(params: Partial<DefaultTxRxPhy>): Promise<void> {
+  public async leSetDefaultPhy(params: Partial<DefaultTxRxPhy>, options?: AbortOptions): Promise<void> {
     const ocf = HciOcfLeControllerCommands.SetDefaultPhy;
     const payload = DefaultTxRxPhy.inParams(params);
-    await this.cmd.leController({ ocf, payload });
+    await this.cmd.leController({ ocf, payload, options });
   }
 
-  public async leSetPhy(connectionHandle: number, params: Partial<LeSetTxRxPhy>): Promise<void> {
+  public async leSetPhy(connectionHandle: number, params: Partial<LeSetTxRxPhy>, options?: AbortOptions): Promise<void> {
     const ocf = HciOcfLeControllerCommands.SetPhy;
     const payload = LeSetTxRxPhy.inParams(connectionHandle, params);
-    await this.cmd.leController({ ocf, payload });
+    await this.cmd.leController({ ocf, payload, options });
+  }
+
+  public async leSetPhyAndWait(
+    connectionHandle: number,
+    params: Partial<LeSetTxRxPhy>,
+    options: AbortOptions = {},
+  ): Promise<LePhyUpdateCompleteEvent> {
+    return await this.sendAndWaitEvent(
+      'LePhyUpdateComplete', connectionHandle, options,
+      (signal) => this.leSetPhy(connectionHandle, params, { signal })
+    );
   }
 
-  public async leSetAdvertisingSetRandomAddress(advertHandle: number, randomAddress: Address): Promise<void> {
+  public async leSetAdvertisingSetRandomAddress(advertHandle: number, randomAddress: Address, options?: AbortOptions): Promise<void> {
     const ocf = HciOcfLeControllerCommands.SetAdvertisingSetRandomAddress;
     const payload = LeAdvertisingSetRandomAddress.inParams(advertHandle, randomAddress);
-    await this.cmd.leController({ ocf, payload });
+    await this.cmd.leController({ ocf, payload, options });
   }
 
   public async leSetExtendedAdvertisingParameters(
     advertHandle: number,
-    params: LeExtendedAdvertisingParameters
+    params: LeExtendedAdvertisingParameters,
+    options?: AbortOptions,
   ): Promise<number> {
     const ocf = HciOcfLeControllerCommands.SetExtendedAdvertisingParameters;
     const payload = LeExtendedAdvertisingParameters.inParams(advertHandle, params);
-    const result = await this.cmd.leController({ ocf, payload });
+    const result = await this.cmd.leController({ ocf, payload, options });
     return LeExtendedAdvertisingParameters.outParams(result.returnParameters);
   }
 
-  public async leSetExtendedAdvertisingData(advertHandle: number, params: LeExtendedAdvertisingData): Promise<void> {
+  public async leSetExtendedAdvertisingData(advertHandle: number, params: LeExtendedAdvertisingData, options?: AbortOptions): Promise<void> {
     const ocf = HciOcfLeControllerCommands.SetExtendedAdvertisingData;
     const payload = LeExtendedAdvertisingData.inParams(advertHandle, params);
-    await this.cmd.leController({ ocf, payload });
+    await this.cmd.leController({ ocf, payload, options });
   }
 
-  public async leSetExtendedScanResponseData(advertHandle: number, params: LeExtendedScanResponseData): Promise<void> {
+  public async leSetExtendedScanResponseData(advertHandle: number, params: LeExtendedScanResponseData, options?: AbortOptions): Promise<void> {
     const ocf = HciOcfLeControllerCommands.SetExtendedScanResponseData;
     const payload = LeExtendedScanResponseData.inParams(advertHandle, params);
-    await this.cmd.leController({ ocf, payload });
+    await this.cmd.leController({ ocf, payload, options });
   }
 
-  public async leSetExtendedAdvertisingEnable(params: LeExtendedAdvertisingEnable) {
+  public async leSetExtendedAdvertisingEnable(params: LeExtendedAdvertisingEnable, options?: AbortOptions) {
     const ocf = HciOcfLeControllerCommands.SetExtendedAdvertisingEnable;
     const payload = LeExtendedAdvertisingEnable.inParams(params);
-    await this.cmd.leController({ ocf, payload });
+    await this.cmd.leController({ ocf, payload, options });
   }
 
-  public async leReadMaximumAdvertisingDataLength(): Promise<number> {
+  public async leReadMaximumAdvertisingDataLength(options?: AbortOptions): Promise<number> {
     const ocf = HciOcfLeControllerCommands.ReadMaximumAdvertisingDataLength;
-    const result = await this.cmd.leController({ ocf });
+    const result = await this.cmd.leController({ ocf, options });
     const params = result.returnParameters;
     if (!params || params.length < 2) {
       throw makeParserError(HciParserError.InvalidPayloadSize);
@@ -620,51 +1018,300 @@ export class Hci extends EventEmitter {
     return params.readUInt16LE(0);
   }
 
-  public async leReadNumberOfSupportedAdvertisingSets(): Promise<number> {
+  public async leReadNumberOfSupportedAdvertisingSets(options?: AbortOptions): Promise<number> {
     const ocf = HciOcfLeControllerCommands.ReadNumberOfSupportedAdvertisingSets;
-    const result = await this.cmd.leController({ ocf });
+    const result = await this.cmd.leController({ ocf, options });
     return LeNumberOfSupportedAdvertisingSets.outParams(result.returnParameters);
   }
 
-  public async leRemoveAdvertisingSet(advertHandle: number): Promise<void> {
+  public async leRemoveAdvertisingSet(advertHandle: number, options?: AbortOptions): Promise<void> {
     const payload = Buffer.from([ advertHandle ]);
     const ocf = HciOcfLeControllerCommands.RemoveAdvertisingSet;
-    await this.cmd.leController({ ocf, payload });
+    await this.cmd.leController({ ocf, payload, options });
   }
 
-  public async leClearAdvertisingSets(): Promise<void> {
+  public async leClearAdvertisingSets(options?: AbortOptions): Promise<void> {
     const ocf = HciOcfLeControllerCommands.ClearAdvertisingSets;
-    await this.cmd.leController({ ocf });
+    await this.cmd.leController({ ocf, options });
+  }
+
+  public async leSetPeriodicAdvertisingParameters(
+    advertHandle: number,
+    params: LePeriodicAdvertisingParameters,
+    options?: AbortOptions,
+  ): Promise<void> {
+    const ocf = HciOcfLeControllerCommands.SetPeriodicAdvertisingParameters;
+    const payload = LePeriodicAdvertisingParameters.inParams(advertHandle, params);
+    await this.cmd.leController({ ocf, payload, options });
+  }
+
+  public async leSetPeriodicAdvertisingData(advertHandle: number, params: LePeriodicAdvertisingData, options?: AbortOptions): Promise<void> {
+    const ocf = HciOcfLeControllerCommands.SetPeriodicAdvertisingData;
+    const payload = LePeriodicAdvertisingData.inParams(advertHandle, params);
+    await this.cmd.leController({ ocf, payload, options });
+  }
+
+  public async leSetPeriodicAdvertisingEnable(advertHandle: number, enable: boolean, options?: AbortOptions): Promise<void> {
+    const ocf = HciOcfLeControllerCommands.SetPeriodicAdvertisingEnable;
+    const payload = LePeriodicAdvertisingEnable.inParams(advertHandle, enable);
+    await this.cmd.leController({ ocf, payload, options });
+  }
+
+  public async lePeriodicAdvertisingCreateSync(params: LePeriodicAdvertisingCreateSync, options?: AbortOptions): Promise<void> {
+    const ocf = HciOcfLeControllerCommands.PeriodicAdvertisingCreateSync;
+    const payload = LePeriodicAdvertisingCreateSync.inParams(params);
+    await this.cmd.leController({ ocf, payload, options });
+  }
+
+  // Completes once the controller synchronizes with the train, Create Sync Cancel aborts it
+  public async lePeriodicAdvertisingCreateSyncAndWait(
+    params: LePeriodicAdvertisingCreateSync,
+    options: AbortOptions = {},
+  ): Promise<LePeriodicAdvertisingSyncEstablishedEvent> {
+    return await this.sendAndWaitEvent(
+      'LePeriodicAdvertisingSyncEstablished', undefined, options,
+      (signal) => this.lePeriodicAdvertisingCreateSync(params, { signal })
+    );
+  }
+
+  public async lePeriodicAdvertisingCreateSyncCancel(options?: AbortOptions): Promise<void> {
+    const ocf = HciOcfLeControllerCommands.PeriodicAdvertisingCreateSyncCancel;
+    await this.cmd.leController({ ocf, options });
+  }
+
+  public async lePeriodicAdvertisingTerminateSync(syncHandle: number, options?: AbortOptions): Promise<void> {
+    const ocf = HciOcfLeControllerCommands.PeriodicAdvertisingTerminateSync;
+    const payload = LePeriodicAdvertisingTerminateSync.inParams(syncHandle);
+    await this.cmd.leController({ ocf, payload, options });
+  }
+
+  public async leAddDeviceToPeriodicAdvertiserList(params: LePeriodicAdvertiserListEntry, options?: AbortOptions): Promise<void> {
+    const ocf = HciOcfLeControllerCommands.AddDeviceToPeriodicAdvertiserList;
+    const payload = LePeriodicAdvertiserListEntry.inParams(params);
+    await this.cmd.leController({ ocf, payload, options });
+  }
+
+  public async leRemoveDeviceFromPeriodicAdvertiserList(params: LePeriodicAdvertiserListEntry, options?: AbortOptions): Promise<void> {
+    const ocf = HciOcfLeControllerCommands.RemoveDeviceFromPeriodicAdvertiserList;
+    const payload = LePeriodicAdvertiserListEntry.inParams(params);
+    await this.cmd.leController({ ocf, payload, options });
+  }
+
+  public async leClearPeriodicAdvertiserList(options?: AbortOptions): Promise<void> {
+    const ocf = HciOcfLeControllerCommands.ClearPeriodicAdvertiserList;
+    await this.cmd.leController({ ocf, options });
+  }
+
+  public async leReadPeriodicAdvertiserListSize(options?: AbortOptions): Promise<number> {
+    const ocf = HciOcfLeControllerCommands.ReadPeriodicAdvertiserListSize;
+    const result = await this.cmd.leController({ ocf, options });
+    return LeReadPeriodicAdvertiserListSize.outParams(result.returnParameters);
+  }
+
+  public async lePeriodicAdvertisingSyncTransfer(
+    connectionHandle: number,
+    syncHandle: number,
+    serviceData = 0,
+    options?: AbortOptions,
+  ): Promise<void> {
+    const ocf = HciOcfLeControllerCommands.PeriodicAdvertisingSyncTransfer;
+    const payload = LePeriodicAdvertisingSyncTransfer.inParams(connectionHandle, serviceData, syncHandle);
+    await this.cmd.leController({ ocf, connectionHandle, payload, options });
+  }
+
+  public async lePeriodicAdvertisingSetInfoTransfer(
+    connectionHandle: number,
+    advertHandle: number,
+    serviceData = 0,
+    options?: AbortOptions,
+  ): Promise<void> {
+    const ocf = HciOcfLeControllerCommands.PeriodicAdvertisingSetInfoTransfer;
+    const payload = LePeriodicAdvertisingSetInfoTransfer.inParams(connectionHandle, serviceData, advertHandle);
+    await this.cmd.leController({ ocf, connectionHandle, payload, options });
+  }
+
+  public async leSetPeriodicAdvertisingSyncTransferParameters(
+    connectionHandle: number,
+    params: LePeriodicAdvertisingSyncTransferParameters,
+    options?: AbortOptions,
+  ): Promise<void> {
+    const ocf = HciOcfLeControllerCommands.SetPeriodicAdvertisingSyncTransferParameters;
+    const payload = LePeriodicAdvertisingSyncTransferParameters.inParams(params, connectionHandle);
+    await this.cmd.leController({ ocf, connectionHandle, payload, options });
+  }
+
+  public async leSetDefaultPeriodicAdvertisingSyncTransferParameters(
+    params: LePeriodicAdvertisingSyncTransferParameters,
+    options?: AbortOptions,
+  ): Promise<void> {
+    const ocf = HciOcfLeControllerCommands.SetDefaultPeriodicAdvertisingSyncTransferParameters;
+    const payload = LePeriodicAdvertisingSyncTransferParameters.inParams(params);
+    await this.cmd.leController({ ocf, payload, options });
+  }
+
+  // Controller refuses it while connections exist
+  public async leSetHostFeature(bitNumber: LeHostFeature, enable: boolean, options?: AbortOptions): Promise<void> {
+    const ocf = HciOcfLeControllerCommands.SetHostFeature;
+    const payload = LeSetHostFeature.inParams(bitNumber, enable);
+    await this.cmd.leController({ ocf, payload, options });
+  }
+
+  // Returns connection handles of the CISes, in the order they were configured
+  public async leSetCigParameters(params: LeCigParameters, options?: AbortOptions): Promise<number[]> {
+    const ocf = HciOcfLeControllerCommands.SetCigParameters;
+    const payload = LeCigParameters.inParams(params);
+    const result = await this.cmd.leController({ ocf, payload, options });
+    return LeCigParameters.outParams(result.returnParameters);
+  }
+
+  public async leCreateCis(cis: LeCreateCis[], options?: AbortOptions): Promise<void> {
+    const ocf = HciOcfLeControllerCommands.CreateCis;
+    const payload = LeCreateCis.inParams(cis);
+    await this.cmd.leController({ ocf, payload, options });
+  }
+
+  public async leCreateCisAndWait(
+    cisConnectionHandle: number,
+    aclConnectionHandle: number,
+    options: AbortOptions = {},
+  ): Promise<LeCisEstablishedEvent> {
+    return await this.sendAndWaitEvent(
+      'LeCisEstablished', cisConnectionHandle, options,
+      (signal) => this.leCreateCis([{ cisConnectionHandle, aclConnectionHandle }], { signal })
+    );
+  }
+
+  public async leRemoveCig(cigId: number, options?: AbortOptions): Promise<void> {
+    const ocf = HciOcfLeControllerCommands.RemoveCig;
+    const payload = LeRemoveCig.inParams(cigId);
+    await this.cmd.leController({ ocf, payload, options });
+  }
+
+  public async leAcceptCisRequest(connectionHandle: number, options?: AbortOptions): Promise<void> {
+    const ocf = HciOcfLeControllerCommands.AcceptCisRequest;
+    const payload = ConnectionHandle.inParams(connectionHandle);
+    await this.cmd.leController({ ocf, payload, options });
+  }
+
+  public async leAcceptCisRequestAndWait(
+    connectionHandle: number,
+    options: AbortOptions = {},
+  ): Promise<LeCisEstablishedEvent> {
+    return await this.sendAndWaitEvent(
+      'LeCisEstablished', connectionHandle, options,
+      (signal) => this.leAcceptCisRequest(connectionHandle, { signal })
+    );
+  }
+
+  public async leRejectCisRequest(
+    connectionHandle: number,
+    reason = HciErrorCode.ConnectedRejectedResources,
+    options?: AbortOptions,
+  ): Promise<void> {
+    const ocf = HciOcfLeControllerCommands.RejectCisRequest;
+    const payload = LeRejectCisRequest.inParams(connectionHandle, reason);
+    await this.cmd.leController({ ocf, connectionHandle, payload, options });
+  }
+
+  public async leSetupIsoDataPath(connectionHandle: number, params: LeIsoDataPath, options?: AbortOptions): Promise<void> {
+    const ocf = HciOcfLeControllerCommands.SetupIsoDataPath;
+    const payload = LeIsoDataPath.inParams(connectionHandle, params);
+    await this.cmd.leController({ ocf, connectionHandle, payload, options });
   }
 
-  public async leSetExtendedScanParameters(params: LeExtendedScanParameters): Promise<void> {
+  public async leRemoveIsoDataPath(
+    connectionHandle: number,
+    directions: LeIsoDataPathDirection[],
+    options?: AbortOptions,
+  ): Promise<void> {
+    const ocf = HciOcfLeControllerCommands.RemoveIsoDataPath;
+    const payload = LeRemoveIsoDataPath.inParams(connectionHandle, directions);
+    await this.cmd.leController({ ocf, connectionHandle, payload, options });
+  }
+
+  public async leCreateBig(params: LeCreateBig, options?: AbortOptions): Promise<void> {
+    const ocf = HciOcfLeControllerCommands.CreateBig;
+    const payload = LeCreateBig.inParams(params);
+    await this.cmd.leController({ ocf, payload, options });
+  }
+
+  public async leCreateBigAndWait(params: LeCreateBig, options: AbortOptions = {}): Promise<LeCreateBigCompleteEvent> {
+    return await this.sendAndWaitEvent(
+      'LeCreateBigComplete', undefined, options,
+      (signal) => this.leCreateBig(params, { signal })
+    );
+  }
+
+  // Completion is reported by LeTerminateBigComplete
+  public async leTerminateBig(
+    bigHandle: number,
+    reason = HciErrorCode.ConnTerminatedByRemoteUser,
+    options?: AbortOptions,
+  ): Promise<void> {
+    const ocf = HciOcfLeControllerCommands.TerminateBig;
+    const payload = LeTerminateBig.inParams(bigHandle, reason);
+    await this.cmd.leController({ ocf, payload, options });
+  }
+
+  public async leBigCreateSync(params: LeBigCreateSync, options?: AbortOptions): Promise<void> {
+    const ocf = HciOcfLeControllerCommands.BigCreateSync;
+    const payload = LeBigCreateSync.inParams(params);
+    await this.cmd.leController({ ocf, payload, options });
+  }
+
+  // BIG Terminate Sync of the pending BIG handle aborts it
+  public async leBigCreateSyncAndWait(
+    params: LeBigCreateSync,
+    options: AbortOptions = {},
+  ): Promise<LeBigSyncEstablishedEvent> {
+    return await this.sendAndWaitEvent(
+      'LeBigSyncEstablished', undefined, options,
+      (signal) => this.leBigCreateSync(params, { signal })
+    );
+  }
+
+  public async leBigTerminateSync(bigHandle: number, options?: AbortOptions): Promise<void> {
+    const ocf = HciOcfLeControllerCommands.BigTerminateSync;
+    const payload = LeBigTerminateSync.inParams(bigHandle);
+    await this.cmd.leController({ ocf, payload, options });
+    this.dropBig(bigHandle);
+  }
+
+  public async leSetExtendedScanParameters(params: LeExtendedScanParameters, options?: AbortOptions): Promise<void> {
     const ocf = HciOcfLeControllerCommands.SetExtendedScanParameters;
     const payload = LeExtendedScanParameters.inParams(params);
-    await this.cmd.leController({ ocf, payload });
+    await this.cmd.leController({ ocf, payload, options });
   }
 
-  public async leSetExtendedScanEnable(params: LeExtendedScanEnabled): Promise<void> {
+  public async leSetExtendedScanEnable(params: LeExtendedScanEnabled, options?: AbortOptions): Promise<void> {
     const ocf = HciOcfLeControllerCommands.SetExtendedScanEnable;
     const payload = LeExtendedScanEnabled.inParams(params);
-    await this.cmd.leController({ ocf, payload });
+    await this.cmd.leController({ ocf, payload, options });
   }
 
-  public async leExtendedCreateConnection(params: LeExtendedCreateConnection): Promise<void> {
+  public async leExtendedCreateConnection(params: LeExtendedCreateConnection, options?: AbortOptions): Promise<void> {
     const ocf = HciOcfLeControllerCommands.ExtendedCreateConnection;
     const payload = LeExtendedCreateConnection.inParams(params);
-    await this.cmd.leController({ ocf, payload });
+    await this.cmd.leController({ ocf, payload, options });
   }
 
-  public async leReadTransmitPower(): Promise<LeTransmitPower> {
+  public async leReadTransmitPower(options?: AbortOptions): Promise<LeTransmitPower> {
     const ocf = HciOcfLeControllerCommands.ReadTransmitPower;
-    const result = await this.cmd.leController({ ocf });
+    const result = await this.cmd.leController({ ocf, options });
     return LeTransmitPower.outParams(result.returnParameters);
   }
 
-  public async leSetPrivacyMode(params: LePrivacyMode): Promise<void> {
+  public async leSetPrivacyMode(params: LePrivacyMode, options?: AbortOptions): Promise<void> {
     const ocf = HciOcfLeControllerCommands.SetPrivacyMode;
     const payload = LePrivacyMode.inParams(params);
-    await this.cmd.leController({ ocf, payload });
+    await this.cmd.leController({ ocf, payload, options });
+  }
+
+  // Vendor Specific
+
+  public async vendorCommand(ocf: number, payload?: Buffer, options?: AbortOptions): Promise<Buffer> {
+    const result = await this.cmd.vendor({ ocf, payload, options });
+    return result.returnParameters ?? Buffer.alloc(0);
   }
 
   public async writeAclData(connectionHandle: number, packet: AclDataPacket): Promise<void> {
@@ -682,7 +1329,57 @@ export class Hci extends EventEmitter {
     await this.send(HciPacketType.HciAclData, buffer);
   }
 
+  // Sends a single packet as is, SDUs larger than controller buffers
+  // have to be fragmented by the caller, see writeIsoSdu
+  public async writeIsoData(connectionHandle: number, packet: IsoDataPacket): Promise<void> {
+    const isoHdrSize = 4;
+    const timestamp  = packet.timestampUs !== undefined;
+    const sduHeader  = packet.boundary === IsoDataBoundary.FirstFrag ||
+                       packet.boundary === IsoDataBoundary.Complete;
+
+    const loadSize = (timestamp ? 4 : 0) + (sduHeader ? 4 : 0) + packet.data.length;
+    if (loadSize > 0x3FFF) {
+      throw makeHciError(HciErrorCode.InvalidCommandParameter);
+    }
+
+    const hdr = connectionHandle      <<  0 |
+                packet.boundary       << 12 |
+                (timestamp ? 1 : 0)   << 14;
+
+    const buffer = Buffer.allocUnsafe(isoHdrSize + loadSize);
+
+    let o = 0;
+    o = buffer.writeUIntLE(hdr,      o, 2);
+    o = buffer.writeUIntLE(loadSize, o, 2);
+    if (timestamp) {
+      o = buffer.writeUIntLE(packet.timestampUs!, o, 4);
+    }
+    if (sduHeader) {
+      const sduLength = (packet.sduLength ?? packet.data.length) | (packet.packetStatus ?? 0) << 14;
+      o = buffer.writeUIntLE(packet.sequenceNumber ?? 0, o, 2);
+      o = buffer.writeUIntLE(sduLength,                  o, 2);
+    }
+    packet.data.copy(buffer, o);
+
+    await this.send(HciPacketType.HciIsoData, buffer);
+  }
+
+  // SDUs are fragmented to ISO buffer size and sent as controller buffers are freed
+  public async writeIsoSdu(connectionHandle: number, sdu: IsoSdu, options?: AbortOptions): Promise<void> {
+    if (!this.isoData.hasBufferSize()) {
+      await this.leReadBufferSizeV2(options);
+    }
+    this.isoData.enqueue(connectionHandle, sdu);
+    this.flushIsoData();
+  }
+
+  public setSnoop(snoop: HciSnoop | null): void {
+    this.snoop = snoop;
+  }
+
   public onData(packetType: HciPacketType, data: Buffer): void {
+    this.snoop?.received(packetType, data);
+
     try {
       if (packetType === HciPacketType.HciEvent) {
         return this.onHciEvent(data);
@@ -690,6 +1387,9 @@ export class Hci extends EventEmitter {
       if (packetType === HciPacketType.HciAclData) {
         return this.onAclData(data);
       }
+      if (packetType === HciPacketType.HciIsoData) {
+        return this.onIsoData(data);
+      }
       if (packetType === HciPacketType.HciCommand) {
         debug('on-data-hci-cmd');
         return;
@@ -740,20 +1440,188 @@ export class Hci extends EventEmitter {
       case HciEvent.EncryptionKeyRefreshComplete:
         this.onEncryptionKeyRefreshComplete(payload);
         break;
+      case HciEvent.HardwareError:
+        this.onHardwareError(payload);
+        break;
+      case HciEvent.DataBufferOverflow:
+        this.onDataBufferOverflow(payload);
+        break;
       case HciEvent.LeMeta:
         this.onLeEvent(payload);
         break;
+      case HciEvent.VendorSpecific:
+        this.emit('VendorSpecific', payload);
+        break;
       default:
         debug('on-event: unknown event');
         break;
     }
   }
 
-  private emitEvent<T>(label: string, status: HciErrorCode, event: T): void {
+  private onControllerReset(): void {
+    // Journal is kept, it describes the configuration the controller lost
+    this.resetHostFlowControl();
+    this.isoData.reset();
+    this.bigConnectionHandles.clear();
+
+    if (this.autoEventMask) {
+      this.resetEventMasks();
+      this.updateEventMask();
+    }
+
+    this.emit('ControllerReset', false);
+  }
+
+  private onCommandResult(opcode: number, payload?: Buffer): void {
+    this.journal.record(opcode, payload);
+
+    if (opcode === SetControllerToHostFlowControlOpcode && payload) {
+      const hostFlowControl = (payload[0] & FlowControlEnable.AclOn) !== 0;
+      if (hostFlowControl !== this.hostFlowControl) {
+        this.resetHostFlowControl();
+        this.hostFlowControl = hostFlowControl;
+      }
+    }
+  }
+
+  private resetHostFlowControl(): void {
+    this.hostFlowControl = false;
+    this.aclReceived.clear();
+    this.aclCompleted.clear();
+  }
+
+  private resetEventMasks(): void {
+    // Reset clears page 2, page 1 and LE masks have non-zero defaults
+    const defaults = HciEventMask.serialize(HciEventMask.fromEvents([]));
+    this.eventMasks = { events2: defaults.events2 };
+  }
+
+  // Events stay enabled until the current loop iteration ends, so a procedure
+  // started as soon as the previous one completed does not reprogram the masks
+  private scheduleEventMaskUpdate(): void {
+    if (this.eventMaskUpdateScheduled) {
+      return;
+    }
+    this.eventMaskUpdateScheduled = true;
+    setImmediate(() => {
+      this.eventMaskUpdateScheduled = false;
+      this.updateEventMask();
+    });
+  }
+
+  // NOTE: 'newListener' is emitted before the listener is added
+  private updateEventMask(added?: string | symbol): void {
+    const labels = [...HciInternalEvents, ...this.eventNames()];
+    if (added) {
+      labels.push(added);
+    }
+    const masks = HciEventMask.fromEvents(labels);
+    const programmed = HciEventMask.serialize(masks);
+
+    // Commands are queued in order, so the mask is set before
+    // any command sent after subscribing to its completion event
+    if (programmed.events !== this.eventMasks.events) {
+      this.eventMasks.events = programmed.events;
+      this.setEventMask(masks.events).catch((err) => {
+        debug(`setEventMask failed: ${err.message}`);
+        this.eventMasks.events = undefined;
+      });
+    }
+    if (programmed.events2 !== this.eventMasks.events2) {
+      this.eventMasks.events2 = programmed.events2;
+      this.setEventMaskPage2(masks.events2).catch((err) => {
+        debug(`setEventMaskPage2 failed: ${err.message}`);
+        this.eventMasks.events2 = undefined;
+      });
+    }
+    if (programmed.leEvents !== this.eventMasks.leEvents) {
+      this.eventMasks.leEvents = programmed.leEvents;
+      this.leSetEventMask(masks.leEvents).catch((err) => {
+        debug(`leSetEventMask failed: ${err.message}`);
+        this.eventMasks.leEvents = undefined;
+      });
+    }
+  }
+
+  private async sendAndWaitEvent<K extends HciStatusEventName>(
+    label: K,
+    connectionHandle: number | undefined,
+    options: AbortOptions,
+    send: (signal?: AbortSignal) => Promise<void>,
+  ): Promise<HciEvents[K][1]> {
+    const { signal } = options;
+    const timeoutMs = options.timeoutMs ?? this.eventTimeout;
+
+    // Listen before sending, completion may follow Command Status immediately
+    const waiter = this.waitEvent(label, connectionHandle, timeoutMs, signal);
+    waiter.result.catch(() => {});
+    try {
+      await send(signal);
+    } catch (err) {
+      waiter.cancel();
+      throw err;
+    }
+    return await waiter.result;
+  }
+
+  private waitEvent<K extends HciStatusEventName>(
+    label: K,
+    connectionHandle: number | undefined,
+    timeoutMs: number,
+    signal?: AbortSignal,
+  ): { result: Promise<HciEvents[K][1]>, cancel: () => void } {
+    let cancel = () => {};
+
+    const result = new Promise<HciEvents[K][1]>((resolve, reject) => {
+      if (signal?.aborted) {
+        return reject(new AbortError());
+      }
+      const cleanup = () => {
+        clearTimeout(timeoutId);
+        detachAbort();
+        this.removeListener(label, onEvent);
+        this.removeListener('DisconnectionComplete', onDisconnect);
+      };
+      const onEvent = ((err: Error|null, event: HciEvents[K][1]) => {
+        if (connectionHandle !== undefined &&
+            (event as { connectionHandle?: number }).connectionHandle !== connectionHandle) {
+          return;
+        }
+        cleanup();
+        err ? reject(err) : resolve(event);
+      }) as HciEventListener<K>;
+      // Controller does not complete procedures of a terminated connection
+      const onDisconnect = (err: Error|null, event: DisconnectionCompleteEvent) => {
+        if (err || event.connectionHandle !== connectionHandle) {
+          return;
+        }
+        cleanup();
+        reject(makeHciError(event.reason.code));
+      };
+      const timeoutId = setTimeout(() => {
+        cleanup();
+        reject(makeParserError(HciParserError.Timeout));
+      }, timeoutMs);
+      const detachAbort = onAbort(signal, () => {
+        cleanup();
+        reject(new AbortError());
+      });
+
+      this.on(label, onEvent);
+      if (connectionHandle !== undefined) {
+        this.on('DisconnectionComplete', onDisconnect);
+      }
+      cancel = cleanup;
+    });
+
+    return { result, cancel };
+  }
+
+  private emitEvent<K extends HciStatusEventName>(label: K, status: HciErrorCode, event: HciEvents[K][1]): void {
     if (status === HciErrorCode.Success) {
-      this.emit(label, null, event);
+      this.emit(label, ...[null, event] as HciEvents[K]);
     } else {
-      this.emit(label, makeHciError(status), event);
+      this.emit(label, ...[makeHciError(status), event] as HciEvents[K]);
     }
   }
 
@@ -775,6 +1643,13 @@ export class Hci extends EventEmitter {
       },
     };
 
+    if (status === HciErrorCode.Success) {
+      // Controller frees buffers of packets not reported on a closed connection
+      this.aclReceived.delete(connectionHandle);
+      this.aclCompleted.delete(connectionHandle);
+      this.isoData.drop(connectionHandle);
+    }
+
     this.emitEvent('DisconnectionComplete', status, event);
   }
 
@@ -799,13 +1674,15 @@ export class Hci extends EventEmitter {
   }
 
   private onCommandComplete(payload: Buffer): void {
-    if (payload.length < 4) {
+    // Command Complete for NOP (opcode 0x0000) may carry no status
+    const isNop = payload.length === 3 && payload.readUInt16LE(1) === 0x0000;
+    if (payload.length < 4 && !isNop) {
       debug(`onCommandComplete: invalid size ${payload.length}`);
       return;
     }
 
     this.cmd.onCmdResult({
-      status:           payload[3],
+      status:           isNop ? undefined : payload[3],
       numHciPackets:    payload[0],
       opcode:           payload.readUInt16LE(1),
       returnParameters: payload.slice(4),
@@ -846,9 +1723,38 @@ export class Hci extends EventEmitter {
       })
     );
 
+    for (const entry of event) {
+      this.isoData.complete(entry.connectionHandle, entry.numCompletedPackets);
+    }
+    this.flushIsoData();
+
     this.emit('NumberOfCompletedPackets', event);
   }
 
+  private onHardwareError(payload: Buffer): void {
+    if (payload.length !== 1) {
+      debug(`onHardwareError: invalid size ${payload.length}`);
+      return;
+    }
+
+    const hardwareCode = payload.readUIntLE(0, 1);
+    debug(`hardware error: ${hardwareCode}`);
+
+    this.emit('HardwareError', hardwareCode);
+  }
+
+  private onDataBufferOverflow(payload: Buffer): void {
+    if (payload.length !== 1) {
+      debug(`onDataBufferOverflow: invalid size ${payload.length}`);
+      return;
+    }
+
+    const linkType = payload.readUIntLE(0, 1);
+    debug(`data buffer overflow: ${linkType}`);
+
+    this.emit('DataBufferOverflow', linkType);
+  }
+
   private onEncryptionKeyRefreshComplete(data: Buffer): void {
     if (data.length !== 3) {
       debug(`onEncryptionKeyRefreshComplete: invalid size ${data.length}`);
@@ -910,6 +1816,15 @@ export class Hci extends EventEmitter {
       case HciLeEvent.ExtendedAdvertisingReport:
         this.onLeExtendedAdvertisingReport(payload);
         break;
+      case HciLeEvent.PeriodicAdvertisingSyncEstablished:
+        this.onLePeriodicAdvertisingSyncEstablished(payload);
+        break;
+      case HciLeEvent.PeriodicAdvertisingReport:
+        this.onLePeriodicAdvertisingReport(payload);
+        break;
+      case HciLeEvent.PeriodicAdvertisingSyncLost:
+        this.onLePeriodicAdvertisingSyncLost(payload);
+        break;
       case HciLeEvent.ScanTimeout:
         this.onLeScanTimeout();
         break;
@@ -919,6 +1834,30 @@ export class Hci extends EventEmitter {
       case HciLeEvent.ChannelSelectionAlgorithm:
         this.onLeChannelSelectionAlgorithm(payload);
         break;
+      case HciLeEvent.PeriodicAdvertisingSyncTransferReceived:
+        this.onLePeriodicAdvertisingSyncTransferReceived(payload);
+        break;
+      case HciLeEvent.CisEstablished:
+        this.onLeCisEstablished(payload);
+        break;
+      case HciLeEvent.CisRequest:
+        this.onLeCisRequest(payload);
+        break;
+      case HciLeEvent.CreateBigComplete:
+        this.onLeCreateBigComplete(payload);
+        break;
+      case HciLeEvent.TerminateBigComplete:
+        this.onLeTerminateBigComplete(payload);
+        break;
+      case HciLeEvent.BigSyncEstablished:
+        this.onLeBigSyncEstablished(payload);
+        break;
+      case HciLeEvent.BigSyncLost:
+        this.onLeBigSyncLost(payload);
+        break;
+      case HciLeEvent.BigInfoAdvertisingReport:
+        this.onLeBigInfoAdvertisingReport(payload);
+        break;
       default:
         debug('on-le-event: unknown event');
         break
@@ -927,6 +1866,9 @@ export class Hci extends EventEmitter {
 
   private onLeConnectionComplete(data: Buffer): void {
     const { status, event } = LeConnectionComplete.parse(data);
+    if (status === HciErrorCode.Success && event.role === LeConnectionRole.Slave) {
+      this.journal.advertisingStopped();
+    }
     this.emitEvent('LeConnectionComplete', status, event);
   }
 
@@ -975,6 +1917,9 @@ export class Hci extends EventEmitter {
 
   private onLeEnhancedConnectionComplete(data: Buffer): void {
     const { status, event } = LeEnhConnectionComplete.parse(data);
+    if (status === HciErrorCode.Success && event.role === LeConnectionRole.Slave) {
+      this.journal.advertisingStopped();
+    }
     this.emitEvent('LeEnhancedConnectionComplete', status, event);
   }
 
@@ -999,12 +1944,28 @@ export class Hci extends EventEmitter {
     }
   }
 
+  private onLePeriodicAdvertisingSyncEstablished(data: Buffer): void {
+    const { status, event } = LePeriodicAdvertisingSyncEstablished.parse(data);
+    this.emitEvent('LePeriodicAdvertisingSyncEstablished', status, event);
+  }
+
+  private onLePeriodicAdvertisingReport(data: Buffer): void {
+    const report = LePeriodicAdvertisingReport.parse(data);
+    this.emit('LePeriodicAdvertisingReport', report);
+  }
+
+  private onLePeriodicAdvertisingSyncLost(data: Buffer): void {
+    const event = LePeriodicAdvertisingSyncLost.parse(data);
+    this.emit('LePeriodicAdvertisingSyncLost', event);
+  }
+
   private onLeScanTimeout(): void {
     this.emit('LeScanTimeout');
   }
 
   private onLeAdvertisingSetTerminated(data: Buffer): void {
     const { status, event } = LeAdvertisingSetTerminated.parse(data);
+    this.journal.advertisingSetTerminated(event.advertisingHandle);
     this.emitEvent('LeAdvertisingSetTerminated', status, event);
   }
 
@@ -1013,6 +1974,62 @@ export class Hci extends EventEmitter {
     this.emit('LeChannelSelectionAlgorithm', event);
   }
 
+  private onLePeriodicAdvertisingSyncTransferReceived(data: Buffer): void {
+    const { status, event } = LePeriodicAdvertisingSyncTransferReceived.parse(data);
+    this.emitEvent('LePeriodicAdvertisingSyncTransferReceived', status, event);
+  }
+
+  private onLeCisEstablished(data: Buffer): void {
+    const { status, event } = LeCisEstablished.parse(data);
+    this.emitEvent('LeCisEstablished', status, event);
+  }
+
+  private onLeCisRequest(data: Buffer): void {
+    const event = LeCisRequest.parse(data);
+    this.emit('LeCisRequest', event);
+  }
+
+  private onLeCreateBigComplete(data: Buffer): void {
+    const { status, event } = LeCreateBigComplete.parse(data);
+    if (status === HciErrorCode.Success) {
+      this.bigConnectionHandles.set(event.bigHandle, event.connectionHandles);
+    }
+    this.emitEvent('LeCreateBigComplete', status, event);
+  }
+
+  private onLeTerminateBigComplete(data: Buffer): void {
+    const event = LeTerminateBigComplete.parse(data);
+    this.dropBig(event.bigHandle);
+    this.emit('LeTerminateBigComplete', event);
+  }
+
+  private onLeBigSyncEstablished(data: Buffer): void {
+    const { status, event } = LeBigSyncEstablished.parse(data);
+    if (status === HciErrorCode.Success) {
+      this.bigConnectionHandles.set(event.bigHandle, event.connectionHandles);
+    }
+    this.emitEvent('LeBigSyncEstablished', status, event);
+  }
+
+  private onLeBigSyncLost(data: Buffer): void {
+    const event = LeBigSyncLost.parse(data);
+    this.dropBig(event.bigHandle);
+    this.emit('LeBigSyncLost', event);
+  }
+
+  private onLeBigInfoAdvertisingReport(data: Buffer): void {
+    const report = LeBigInfoAdvertisingReport.parse(data);
+    this.emit('LeBigInfoAdvertisingReport', report);
+  }
+
+  // BIS handles are released with the BIG, without Disconnection Complete
+  private dropBig(bigHandle: number): void {
+    for (const connectionHandle of this.bigConnectionHandles.get(bigHandle) ?? []) {
+      this.isoData.drop(connectionHandle);
+    }
+    this.bigConnectionHandles.delete(bigHandle);
+  }
+
   private onAclData(data: Buffer): void {
     debug(`acl-data`);
     const aclHdrSize = 4;
@@ -1036,6 +2053,57 @@ export class Hci extends EventEmitter {
       data: data.slice(aclHdrSize),
     };
 
+    if (this.hostFlowControl) {
+      this.aclReceived.set(connectionHandle, (this.aclReceived.get(connectionHandle) ?? 0) + 1);
+    }
+
     this.emit('AclData', connectionHandle, result);
   }
+
+  private onIsoData(data: Buffer): void {
+    debug(`iso-data`);
+    const isoHdrSize = 4;
+
+    const hdr  = data.readUIntLE(0, 2);
+    const size = data.readUIntLE(2, 2) & 0x3FFF;
+
+    const rxSize = data.length - isoHdrSize;
+
+    if (size !== rxSize) {
+      debug(`iso-data: invalid size ${size} vs ${rxSize}`);
+    }
+
+    const connectionHandle  = (hdr >>  0) & 0x0FFF;
+    const boundary          = (hdr >> 12) & 0x0003;
+    const timestamp         = (hdr >> 14) & 0x0001;
+
+    const result: IsoDataPacket = { boundary, data: Buffer.alloc(0) };
+
+    let o = isoHdrSize;
+    if (timestamp) {
+      result.timestampUs = data.readUIntLE(o, 4); o += 4;
+    }
+    if (boundary === IsoDataBoundary.FirstFrag || boundary === IsoDataBoundary.Complete) {
+      const sduLength = data.readUIntLE(o + 2, 2);
+      result.sequenceNumber = data.readUIntLE(o, 2);
+      result.sduLength      = (sduLength >>  0) & 0x0FFF;
+      result.packetStatus   = (sduLength >> 14) & 0x0003;
+      o += 4;
+    }
+    result.data = data.slice(o);
+
+    this.emit('IsoData', connectionHandle, result);
+
+    const sdu = this.isoData.reassemble(connectionHandle, result);
+    if (sdu) {
+      this.emit('IsoSdu', connectionHandle, sdu);
+    }
+  }
+
+  private flushIsoData(): void {
+    for (const { connectionHandle, packet } of this.isoData.dequeue()) {
+      this.writeIsoData(connectionHandle, packet)
+        .catch((err) => debug(`writeIsoData failed: ${err.message}`));
+    }
+  }
 }
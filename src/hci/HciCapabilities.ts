@@ -0,0 +1,38 @@
+import { HciOpcode } from './HciCmd';
+import { LocalSupportedCommands, LocalVersionInformation } from './HciInformationParameters';
+import { LeLocalSupportedFeatures, LeSupportedStates } from './HciLeController';
+import { HciOcfNames, HciOgf } from './HciOgfOcf';
+
+export interface HciCapabilities {
+  version: LocalVersionInformation;
+  commands: LocalSupportedCommands;
+  leFeatures: LeLocalSupportedFeatures | null;
+  leStates: LeSupportedStates | null;
+}
+
+export class HciSupportedCommands {
+  // Supported Commands bits are named after OCF, e.g. LE SetPhy -> leSetPhy
+  public static commandName(opcode: number): keyof LocalSupportedCommands | null {
+    const { ogf, ocf } = HciOpcode.expand(opcode);
+
+    const ocfName = HciOcfNames[ogf]?.[ocf];
+    if (!ocfName) {
+      return null;
+    }
+
+    const name = ogf === HciOgf.LeControllerCommands
+      ? `le${ocfName}`
+      : `${ocfName[0].toLowerCase()}${ocfName.slice(1)}`;
+
+    return name as keyof LocalSupportedCommands;
+  }
+
+  public static isSupported(commands: LocalSupportedCommands, opcode: number): boolean {
+    const name = this.commandName(opcode);
+    if (name === null || !(name in commands)) {
+      // Commands without a Supported Commands bit, e.g. Read Local Supported Commands
+      return true;
+    }
+    return commands[name];
+  }
+}
@@ -16,6 +16,8 @@ import {
   HicOcfLinkPolicyCommands
 } from './HciOgfOcf';
 
+import { AbortError, AbortOptions, onAbort } from '../utils/Abort';
+
 const debug = Debug('nble-hci-cmd');
 
 type HciSendFunction = (pt: HciPacketType, data: Buffer) => void;
@@ -24,9 +26,10 @@ interface Command {
   opcode: { ogf: number; ocf: number; };
   connectionHandle?: number;
   payload?: Buffer;
+  options?: AbortOptions;
 }
 
-class HciOpcode {
+export class HciOpcode {
   public static build(opcode: { ogf: number, ocf: number }): number {
     return opcode.ogf << 10 | opcode.ocf;
   }
@@ -41,20 +44,70 @@ class HciOpcode {
 export interface HciCmdResult {
   numHciPackets: number;
   opcode: number;
-  status: number;
+  status?: number;
   returnParameters?: Buffer;
 }
 
+interface PendingCommand {
+  opcode: number;
+  connectionHandle?: number;
+  payload?: Buffer;
+  timeoutMs: number;
+  timeoutId?: NodeJS.Timeout;
+  aborted: boolean;
+  detachAbort: () => void;
+  resolve: (result: HciCmdResult) => void;
+  reject: (err: Error) => void;
+}
+
+const ResetOpcode = HciOpcode.build({
+  ogf: HciOgf.ControlAndBasebandCommands,
+  ocf: HciOcfControlAndBasebandCommands.Reset,
+});
+
 export class HciCmd {
-  private onResult: ((_: HciCmdResult) => void) | null = null;
+  // Until the first Command Complete/Status the host may send one command
+  private credits = 1;
+  private queue: PendingCommand[] = [];
+  private inFlight: PendingCommand[] = [];
+  private isSupported: ((opcode: number) => boolean) | null = null;
+  private resultListener: ((opcode: number, payload?: Buffer) => void) | null = null;
+  private resetListener: (() => void) | null = null;
 
   public constructor(private sendBuffer: HciSendFunction, private timeout: number = 2000) {
   }
 
+  public setCommandFilter(isSupported: ((opcode: number) => boolean) | null): void {
+    this.isSupported = isSupported;
+  }
+
+  // Called for every command the controller completed successfully
+  public setResultListener(listener: ((opcode: number, payload?: Buffer) => void) | null): void {
+    this.resultListener = listener;
+  }
+
+  // Called when the controller reports a reset the host did not request
+  public setResetListener(listener: (() => void) | null): void {
+    this.resetListener = listener;
+  }
+
+  public async command(params: {
+    opcode: number,
+    payload?: Buffer,
+    options?: AbortOptions,
+  }): Promise<HciCmdResult> {
+    return await this.sendWaitResult({
+      opcode: HciOpcode.expand(params.opcode),
+      payload: params.payload,
+      options: params.options,
+    });
+  }
+
   public async linkControl(params: {
     ocf: HciOcfLinkControlCommands,
     connectionHandle?: number,
     payload?: Buffer,
+    options?: AbortOptions,
   }): Promise<HciCmdResult> {
     return await this.sendWaitResult({
       opcode: {
@@ -63,13 +116,15 @@ export class HciCmd {
       },
       payload: params.payload,
       connectionHandle: params.connectionHandle,
+      options: params.options,
     });
   }
 
   public async linkPolicy(params: {
     ocf: HicOcfLinkPolicyCommands,
     connectionHandle?: number,
-    payload?: Buffer
+    payload?: Buffer,
+    options?: AbortOptions,
   }): Promise<HciCmdResult> {
     return await this.sendWaitResult({
       opcode: {
@@ -78,13 +133,15 @@ export class HciCmd {
       },
       payload: params.payload,
       connectionHandle: params.connectionHandle,
+      options: params.options,
     });
   }
 
   public async controlAndBaseband(params: {
     ocf: HciOcfControlAndBasebandCommands,
     connectionHandle?: number,
-    payload?: Buffer
+    payload?: Buffer,
+    options?: AbortOptions,
   }): Promise<HciCmdResult> {
     return await this.sendWaitResult({
       opcode: {
@@ -93,6 +150,7 @@ export class HciCmd {
       },
       payload: params.payload,
       connectionHandle: params.connectionHandle,
+      options: params.options,
     });
   }
 
@@ -111,7 +169,8 @@ export class HciCmd {
   public async informationParameters(params: {
     ocf: HciOcfInformationParameters,
     connectionHandle?: number,
-    payload?: Buffer
+    payload?: Buffer,
+    options?: AbortOptions,
   }): Promise<HciCmdResult> {
     return await this.sendWaitResult({
       opcode: {
@@ -120,13 +179,15 @@ export class HciCmd {
       },
       payload: params.payload,
       connectionHandle: params.connectionHandle,
+      options: params.options,
     })
   }
 
   public async statusParameters(params: {
     ocf: HciOcfStatusParameters,
     connectionHandle?: number,
-    payload?: Buffer
+    payload?: Buffer,
+    options?: AbortOptions,
   }): Promise<HciCmdResult> {
     return await this.sendWaitResult({
       opcode: {
@@ -135,13 +196,15 @@ export class HciCmd {
       },
       payload: params.payload,
       connectionHandle: params.connectionHandle,
+      options: params.options,
     })
   }
 
   public async testing(params: {
     ocf: HciOcfTestingCommands,
     connectionHandle?: number,
-    payload?: Buffer
+    payload?: Buffer,
+    options?: AbortOptions,
   }): Promise<HciCmdResult> {
     return await this.sendWaitResult({
       opcode: {
@@ -150,13 +213,15 @@ export class HciCmd {
       },
       payload: params.payload,
       connectionHandle: params.connectionHandle,
+      options: params.options,
     });
   }
 
   public async leController(params: {
     ocf: HciOcfLeControllerCommands,
     connectionHandle?: number,
-    payload?: Buffer
+    payload?: Buffer,
+    options?: AbortOptions,
   }): Promise<HciCmdResult> {
     return await this.sendWaitResult({
       opcode: {
@@ -165,6 +230,24 @@ export class HciCmd {
       },
       payload: params.payload,
       connectionHandle: params.connectionHandle,
+      options: params.options,
+    });
+  }
+
+  public async vendor(params: {
+    ocf: number,
+    connectionHandle?: number,
+    payload?: Buffer,
+    options?: AbortOptions,
+  }): Promise<HciCmdResult> {
+    return await this.sendWaitResult({
+      opcode: {
+        ogf: HciOgf.VendorSpecificCommands,
+        ocf: params.ocf,
+      },
+      payload: params.payload,
+      connectionHandle: params.connectionHandle,
+      options: params.options,
     });
   }
 
@@ -174,51 +257,122 @@ export class HciCmd {
         ogf: cmd.opcode.ogf,
         ocf: cmd.opcode.ocf,
       });
-      if (this.onResult !== null) {
-        debug('cannot start command: ', cmd);
-        return reject(makeParserError(HciParserError.Busy));
+      const signal = cmd.options?.signal;
+      if (signal?.aborted) {
+        return reject(new AbortError());
       }
-      const complete = (err?: Error, evt?: HciCmdResult) => {
-        clearTimeout(timeoutId);
-        this.onResult = null;
-        err ? reject(err) : resolve(evt!);
-      };
-      const timeoutId = setTimeout(
-        () => complete(makeParserError(HciParserError.Timeout)), this.timeout
-      );
-      this.onResult = (evt: HciCmdResult) => {
-        if (opcode !== evt.opcode) {
-          return;
-        }
-        if (cmd.connectionHandle === undefined) {
-          if (evt.status !== HciErrorCode.Success) {
-            complete(makeHciError(evt.status));
-          } else {
-            complete(undefined, evt);
-          }
-        } else {
-          if (!evt.returnParameters) {
-            debug(`Return parameters are missing`);
-            return;
-          }
-          if (evt.returnParameters.length < 2) {
-            debug(`Cannot parse connection command complete event`);
-            return; // NOTE: can't tell which connection
-          }
-          if (cmd.connectionHandle !== evt.returnParameters.readUInt16LE(0)) {
-            return;
-          }
-          if (evt.status !== HciErrorCode.Success) {
-            complete(makeHciError(evt.status));
-          } else {
-            complete(undefined, evt);
-          }
-        }
+      if (this.isSupported && !this.isSupported(opcode)) {
+        debug(`command not supported: ${opcode.toString(16)}`);
+        return reject(makeParserError(HciParserError.Unsupported));
+      }
+      const pending: PendingCommand = {
+        opcode,
+        connectionHandle: cmd.connectionHandle,
+        payload: cmd.payload,
+        timeoutMs: cmd.options?.timeoutMs ?? this.timeout,
+        aborted: false,
+        detachAbort: () => {},
+        resolve,
+        reject,
       };
-      this.sendCommand(opcode, cmd.payload);
+      pending.detachAbort = onAbort(signal, () => this.abort(pending));
+      if (opcode === ResetOpcode) {
+        // Commands waiting for credits would run against the reset controller
+        this.rejectAll(this.queue, makeParserError(HciParserError.Reset));
+        this.queue = [pending];
+      } else {
+        this.queue.push(pending);
+      }
+      this.dispatch();
     });
   }
 
+  private abort(cmd: PendingCommand): void {
+    if (this.queue.includes(cmd)) {
+      this.queue = this.queue.filter((c) => c !== cmd);
+    } else {
+      // Already sent, keep it in flight so its completion returns the credit,
+      // the timer still runs in case the completion never arrives
+      cmd.aborted = true;
+    }
+    cmd.detachAbort();
+    cmd.reject(new AbortError());
+  }
+
+  private dispatch(): void {
+    while (this.credits > 0 && this.queue.length > 0) {
+      const cmd = this.queue.shift()!;
+      this.credits -= 1;
+      this.inFlight.push(cmd);
+      cmd.timeoutId = setTimeout(() => this.onTimeout(cmd), cmd.timeoutMs);
+      this.sendCommand(cmd.opcode, cmd.payload);
+    }
+  }
+
+  private onTimeout(cmd: PendingCommand): void {
+    debug(`command timeout: ${cmd.opcode.toString(16)}`);
+    this.inFlight = this.inFlight.filter((c) => c !== cmd);
+    // The controller lost the command, otherwise the queue would stall forever
+    this.credits = Math.max(this.credits, 1);
+    cmd.detachAbort();
+    if (!cmd.aborted) {
+      cmd.reject(makeParserError(HciParserError.Timeout));
+    }
+    this.dispatch();
+  }
+
+  private complete(cmd: PendingCommand, result: HciCmdResult): void {
+    clearTimeout(cmd.timeoutId!);
+    this.inFlight = this.inFlight.filter((c) => c !== cmd);
+    cmd.detachAbort();
+
+    // Only NOP comes without status
+    const status = result.status ?? HciErrorCode.Success;
+
+    if (status === HciErrorCode.Success) {
+      this.resultListener?.(cmd.opcode, cmd.payload);
+    }
+
+    if (cmd.aborted) {
+      debug(`aborted command completed: ${cmd.opcode.toString(16)}`);
+    } else if (status !== HciErrorCode.Success) {
+      cmd.reject(makeHciError(status));
+    } else {
+      cmd.resolve(result);
+    }
+
+    if (cmd.opcode === ResetOpcode) {
+      // Controller discards all commands that were sent before reset
+      this.rejectAll(this.inFlight, makeParserError(HciParserError.Reset));
+      this.inFlight = [];
+    }
+  }
+
+  private rejectAll(commands: PendingCommand[], err: Error): void {
+    for (const cmd of commands) {
+      if (cmd.timeoutId) {
+        clearTimeout(cmd.timeoutId);
+      }
+      cmd.detachAbort();
+      cmd.reject(err);
+    }
+  }
+
+  private findInFlight(result: HciCmdResult): PendingCommand | undefined {
+    const candidates = this.inFlight.filter((cmd) => cmd.opcode === result.opcode);
+    if (candidates.length <= 1 || !result.returnParameters) {
+      // Command Status carries no connection handle, the controller
+      // reports commands of the same opcode in the order they were sent
+      return candidates[0];
+    }
+    if (result.returnParameters.length < 2) {
+      debug(`Cannot parse connection command complete event`);
+      return candidates[0];
+    }
+    const connectionHandle = result.returnParameters.readUInt16LE(0);
+    return candidates.find((cmd) => cmd.connectionHandle === connectionHandle) ?? candidates[0];
+  }
+
   private sendCommand(opcode: number, payload?: Buffer): void {
     this.sendBuffer(
       HciPacketType.HciCommand,
@@ -227,9 +381,34 @@ export class HciCmd {
   }
 
   public onCmdResult(result: HciCmdResult) {
-    if (this.onResult) {
-      this.onResult(result);
+    this.credits = result.numHciPackets;
+
+    if (result.opcode === 0x0000) {
+      // Opcode 0x0000 only updates number of allowed commands, unless the
+      // controller announces it is ready again while commands are pending
+      if (this.inFlight.length > 0) {
+        this.onUnsolicitedReset();
+      }
+    } else {
+      const cmd = this.findInFlight(result);
+      if (cmd) {
+        this.complete(cmd, result);
+      } else if (result.opcode === ResetOpcode) {
+        this.onUnsolicitedReset();
+      } else {
+        debug(`unexpected command result: ${result.opcode.toString(16)}`);
+      }
     }
+
+    this.dispatch();
+  }
+
+  // Controller restarted on its own, commands sent before are lost
+  private onUnsolicitedReset(): void {
+    debug('unsolicited reset');
+    this.rejectAll(this.inFlight, makeParserError(HciParserError.Reset));
+    this.inFlight = [];
+    this.resetListener?.();
   }
 
   private buildCommand(opcode: number, payload?: Buffer): Buffer {
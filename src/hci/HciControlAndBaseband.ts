@@ -242,8 +242,14 @@ export interface HostBufferSize {
 
 export class HostBufferSize {
   static inParams(params: HostBufferSize): Buffer {
-    const payload = Buffer.allocUnsafe(2);
-    payload.writeUInt16LE(params.hostAclDataPacketLength);
+    const payload = Buffer.allocUnsafe(7);
+
+    let o = 0;
+    o = payload.writeUIntLE(params.hostAclDataPacketLength,     o, 2);
+    o = payload.writeUIntLE(params.hostSyncDataPacketLength,    o, 1);
+    o = payload.writeUIntLE(params.hostTotalNumAclDataPackets,  o, 2);
+    o = payload.writeUIntLE(params.hostTotalNumSyncDataPackets, o, 2);
+
     return payload;
   }
 }
@@ -196,6 +196,8 @@ export enum HciParserError {
   InvalidPayloadSize,
   Busy,
   Timeout,
+  Reset,
+  Unsupported,
 }
 
 export function makeHciError(code: HciErrorCode): HciError {
@@ -212,6 +214,12 @@ export function makeParserError(code: HciParserError): Error {
   if (code === HciParserError.Timeout) {
     return new Error(`Command timeout`);
   }
+  if (code === HciParserError.Reset) {
+    return new Error(`Command cancelled by controller reset`);
+  }
+  if (code === HciParserError.Unsupported) {
+    return new Error(`Command not supported by controller`);
+  }
   return new Error(`Unexpected error`);
 }
 
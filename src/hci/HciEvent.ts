@@ -82,6 +82,7 @@ export enum HciEvent {
   InquiryResponseNotification                         = 0x56, // Inquiry Response Notification
   AuthenticatedPayloadTimeoutExpired                  = 0x57, // Authenticated Payload Timeout Expired
   SamStatusChange                                     = 0x58, // SAM Status Change
+  VendorSpecific                                      = 0xFF, // Vendor Specific
 }
 
 interface ConnEvent {
@@ -839,3 +840,445 @@ export class LePhyUpdateComplete {
     };
   }
 }
+
+export interface LePeriodicAdvertisingSyncEstablishedEvent {
+  syncHandle: number;
+  advertisingSid: number;
+  advertiserAddressType: LeExtAdvReportAddrType;
+  advertiserAddress: Address;
+  advertiserPhy: LeSecondaryAdvertiserPhy;
+  periodicAdvIntervalMs: number;
+  advertiserClockAccuracy: LeMasterClockAccuracy;
+}
+
+export class LePeriodicAdvertisingSyncEstablished {
+  static parse(data: Buffer): {
+    status: HciErrorCode,
+    event: LePeriodicAdvertisingSyncEstablishedEvent,
+  } {
+    if (data.length !== 15) {
+      debug(`LePeriodicAdvertisingSyncEstablished: invalid size ${data.length}`);
+    }
+
+    let o = 0;
+    const status                  = data.readUIntLE(o, 1); o += 1;
+    const syncHandle              = data.readUIntLE(o, 2); o += 2;
+    const advertisingSid          = data.readUIntLE(o, 1); o += 1;
+    const advertiserAddressType   = data.readUIntLE(o, 1); o += 1;
+    const advertiserAddress       = data.readUIntLE(o, 6); o += 6;
+    const advertiserPhy           = data.readUIntLE(o, 1); o += 1;
+    const periodicAdvInterval     = data.readUIntLE(o, 2); o += 2;
+    const advertiserClockAccuracy = data.readUIntLE(o, 1); o += 1;
+
+    return {
+      status,
+      event: {
+        syncHandle,
+        advertisingSid,
+        advertiserAddressType,
+        advertiserAddress:      Address.from(advertiserAddress),
+        advertiserPhy,
+        periodicAdvIntervalMs:  periodicAdvInterval * 1.25,
+        advertiserClockAccuracy,
+      },
+    };
+  }
+}
+
+export enum LePeriodicAdvDataStatus {
+  Complete            = 0,
+  IncompleteMoreData  = 1,
+  IncompleteTruncated = 2,
+}
+
+export interface LePeriodicAdvertisingReportEvent {
+  syncHandle: number;
+  txPower: number|null;
+  rssi: number|null;
+  cteType: number;
+  dataStatus: LePeriodicAdvDataStatus;
+  data: Buffer;
+}
+
+export class LePeriodicAdvertisingReport {
+  static parse(data: Buffer): LePeriodicAdvertisingReportEvent {
+    if (data.length < 7 || data.length !== 7 + data[6]) {
+      debug(`LePeriodicAdvertisingReport: invalid size ${data.length}`);
+    }
+
+    const powerOrNull = (v: number): number|null => v !== 0x7F ? v : null;
+
+    let o = 0;
+    const syncHandle = data.readUIntLE(o, 2); o += 2;
+    const txPower    = data.readIntLE (o, 1); o += 1;
+    const rssi       = data.readIntLE (o, 1); o += 1;
+    const cteType    = data.readUIntLE(o, 1); o += 1;
+    const dataStatus = data.readUIntLE(o, 1); o += 1;
+    const dataLength = data.readUIntLE(o, 1); o += 1;
+
+    return {
+      syncHandle,
+      txPower:    powerOrNull(txPower),
+      rssi:       powerOrNull(rssi),
+      cteType,
+      dataStatus,
+      data:       data.slice(o, o + dataLength),
+    };
+  }
+}
+
+export interface LePeriodicAdvertisingSyncLostEvent {
+  syncHandle: number;
+}
+
+export class LePeriodicAdvertisingSyncLost {
+  static parse(data: Buffer): LePeriodicAdvertisingSyncLostEvent {
+    if (data.length !== 2) {
+      debug(`LePeriodicAdvertisingSyncLost: invalid size ${data.length}`);
+    }
+
+    return {
+      syncHandle: data.readUIntLE(0, 2),
+    };
+  }
+}
+
+export interface LePeriodicAdvertisingSyncTransferReceivedEvent extends LePeriodicAdvertisingSyncEstablishedEvent {
+  connectionHandle: number;
+  serviceData: number;
+}
+
+export class LePeriodicAdvertisingSyncTransferReceived {
+  static parse(data: Buffer): {
+    status: HciErrorCode,
+    event: LePeriodicAdvertisingSyncTransferReceivedEvent,
+  } {
+    if (data.length !== 19) {
+      debug(`LePeriodicAdvertisingSyncTransferReceived: invalid size ${data.length}`);
+    }
+
+    let o = 0;
+    const status                  = data.readUIntLE(o, 1); o += 1;
+    const connectionHandle        = data.readUIntLE(o, 2); o += 2;
+    const serviceData             = data.readUIntLE(o, 2); o += 2;
+    const syncHandle              = data.readUIntLE(o, 2); o += 2;
+    const advertisingSid          = data.readUIntLE(o, 1); o += 1;
+    const advertiserAddressType   = data.readUIntLE(o, 1); o += 1;
+    const advertiserAddress       = data.readUIntLE(o, 6); o += 6;
+    const advertiserPhy           = data.readUIntLE(o, 1); o += 1;
+    const periodicAdvInterval     = data.readUIntLE(o, 2); o += 2;
+    const advertiserClockAccuracy = data.readUIntLE(o, 1); o += 1;
+
+    return {
+      status,
+      event: {
+        connectionHandle,
+        serviceData,
+        syncHandle,
+        advertisingSid,
+        advertiserAddressType,
+        advertiserAddress:      Address.from(advertiserAddress),
+        advertiserPhy,
+        periodicAdvIntervalMs:  periodicAdvInterval * 1.25,
+        advertiserClockAccuracy,
+      },
+    };
+  }
+}
+
+export interface LeCisEstablishedEvent extends ConnEvent {
+  cigSyncDelayUs: number;
+  cisSyncDelayUs: number;
+  transportLatencyMToSUs: number;
+  transportLatencySToMUs: number;
+  phyMToS: number;
+  phySToM: number;
+  nse: number;
+  bnMToS: number;
+  bnSToM: number;
+  ftMToS: number;
+  ftSToM: number;
+  maxPduMToS: number;
+  maxPduSToM: number;
+  isoIntervalMs: number;
+}
+
+export class LeCisEstablished {
+  static parse(data: Buffer): {
+    status: HciErrorCode,
+    event: LeCisEstablishedEvent,
+  } {
+    if (data.length !== 28) {
+      debug(`LeCisEstablished: invalid size ${data.length}`);
+    }
+
+    let o = 0;
+    const status                 = data.readUIntLE(o, 1); o += 1;
+    const connectionHandle       = data.readUIntLE(o, 2); o += 2;
+    const cigSyncDelayUs         = data.readUIntLE(o, 3); o += 3;
+    const cisSyncDelayUs         = data.readUIntLE(o, 3); o += 3;
+    const transportLatencyMToSUs = data.readUIntLE(o, 3); o += 3;
+    const transportLatencySToMUs = data.readUIntLE(o, 3); o += 3;
+    const phyMToS                = data.readUIntLE(o, 1); o += 1;
+    const phySToM                = data.readUIntLE(o, 1); o += 1;
+    const nse                    = data.readUIntLE(o, 1); o += 1;
+    const bnMToS                 = data.readUIntLE(o, 1); o += 1;
+    const bnSToM                 = data.readUIntLE(o, 1); o += 1;
+    const ftMToS                 = data.readUIntLE(o, 1); o += 1;
+    const ftSToM                 = data.readUIntLE(o, 1); o += 1;
+    const maxPduMToS             = data.readUIntLE(o, 2); o += 2;
+    const maxPduSToM             = data.readUIntLE(o, 2); o += 2;
+    const isoInterval            = data.readUIntLE(o, 2); o += 2;
+
+    return {
+      status,
+      event: {
+        connectionHandle,
+        cigSyncDelayUs,
+        cisSyncDelayUs,
+        transportLatencyMToSUs,
+        transportLatencySToMUs,
+        phyMToS,
+        phySToM,
+        nse,
+        bnMToS,
+        bnSToM,
+        ftMToS,
+        ftSToM,
+        maxPduMToS,
+        maxPduSToM,
+        isoIntervalMs: isoInterval * 1.25,
+      },
+    };
+  }
+}
+
+export interface LeCisRequestEvent {
+  aclConnectionHandle: number;
+  cisConnectionHandle: number;
+  cigId: number;
+  cisId: number;
+}
+
+export class LeCisRequest {
+  static parse(data: Buffer): LeCisRequestEvent {
+    if (data.length !== 6) {
+      debug(`LeCisRequest: invalid size ${data.length}`);
+    }
+
+    let o = 0;
+    const aclConnectionHandle = data.readUIntLE(o, 2); o += 2;
+    const cisConnectionHandle = data.readUIntLE(o, 2); o += 2;
+    const cigId               = data.readUIntLE(o, 1); o += 1;
+    const cisId               = data.readUIntLE(o, 1); o += 1;
+
+    return { aclConnectionHandle, cisConnectionHandle, cigId, cisId };
+  }
+}
+
+export interface LeCreateBigCompleteEvent {
+  bigHandle: number;
+  bigSyncDelayUs: number;
+  transportLatencyUs: number;
+  phy: number;
+  nse: number;
+  bn: number;
+  pto: number;
+  irc: number;
+  maxPdu: number;
+  isoIntervalMs: number;
+  connectionHandles: number[];
+}
+
+export class LeCreateBigComplete {
+  static parse(data: Buffer): {
+    status: HciErrorCode,
+    event: LeCreateBigCompleteEvent,
+  } {
+    if (data.length < 18 || data.length !== 18 + data[17] * 2) {
+      debug(`LeCreateBigComplete: invalid size ${data.length}`);
+    }
+
+    let o = 0;
+    const status             = data.readUIntLE(o, 1); o += 1;
+    const bigHandle          = data.readUIntLE(o, 1); o += 1;
+    const bigSyncDelayUs     = data.readUIntLE(o, 3); o += 3;
+    const transportLatencyUs = data.readUIntLE(o, 3); o += 3;
+    const phy                = data.readUIntLE(o, 1); o += 1;
+    const nse                = data.readUIntLE(o, 1); o += 1;
+    const bn                 = data.readUIntLE(o, 1); o += 1;
+    const pto                = data.readUIntLE(o, 1); o += 1;
+    const irc                = data.readUIntLE(o, 1); o += 1;
+    const maxPdu             = data.readUIntLE(o, 2); o += 2;
+    const isoInterval        = data.readUIntLE(o, 2); o += 2;
+    const numBis             = data.readUIntLE(o, 1); o += 1;
+
+    const connectionHandles: number[] = [];
+    for (let i = 0; i < numBis; i++, o += 2) {
+      connectionHandles.push(data.readUIntLE(o, 2));
+    }
+
+    return {
+      status,
+      event: {
+        bigHandle,
+        bigSyncDelayUs,
+        transportLatencyUs,
+        phy,
+        nse,
+        bn,
+        pto,
+        irc,
+        maxPdu,
+        isoIntervalMs: isoInterval * 1.25,
+        connectionHandles,
+      },
+    };
+  }
+}
+
+export interface LeTerminateBigCompleteEvent {
+  bigHandle: number;
+  reason: HciErrorCode;
+}
+
+export class LeTerminateBigComplete {
+  static parse(data: Buffer): LeTerminateBigCompleteEvent {
+    if (data.length !== 2) {
+      debug(`LeTerminateBigComplete: invalid size ${data.length}`);
+    }
+
+    return {
+      bigHandle: data.readUIntLE(0, 1),
+      reason:    data.readUIntLE(1, 1),
+    };
+  }
+}
+
+export interface LeBigSyncEstablishedEvent {
+  bigHandle: number;
+  transportLatencyUs: number;
+  nse: number;
+  bn: number;
+  pto: number;
+  irc: number;
+  maxPdu: number;
+  isoIntervalMs: number;
+  connectionHandles: number[];
+}
+
+export class LeBigSyncEstablished {
+  static parse(data: Buffer): {
+    status: HciErrorCode,
+    event: LeBigSyncEstablishedEvent,
+  } {
+    if (data.length < 14 || data.length !== 14 + data[13] * 2) {
+      debug(`LeBigSyncEstablished: invalid size ${data.length}`);
+    }
+
+    let o = 0;
+    const status             = data.readUIntLE(o, 1); o += 1;
+    const bigHandle          = data.readUIntLE(o, 1); o += 1;
+    const transportLatencyUs = data.readUIntLE(o, 3); o += 3;
+    const nse                = data.readUIntLE(o, 1); o += 1;
+    const bn                 = data.readUIntLE(o, 1); o += 1;
+    const pto                = data.readUIntLE(o, 1); o += 1;
+    const irc                = data.readUIntLE(o, 1); o += 1;
+    const maxPdu             = data.readUIntLE(o, 2); o += 2;
+    const isoInterval        = data.readUIntLE(o, 2); o += 2;
+    const numBis             = data.readUIntLE(o, 1); o += 1;
+
+    const connectionHandles: number[] = [];
+    for (let i = 0; i < numBis; i++, o += 2) {
+      connectionHandles.push(data.readUIntLE(o, 2));
+    }
+
+    return {
+      status,
+      event: {
+        bigHandle,
+        transportLatencyUs,
+        nse,
+        bn,
+        pto,
+        irc,
+        maxPdu,
+        isoIntervalMs: isoInterval * 1.25,
+        connectionHandles,
+      },
+    };
+  }
+}
+
+export interface LeBigSyncLostEvent {
+  bigHandle: number;
+  reason: HciErrorCode;
+}
+
+export class LeBigSyncLost {
+  static parse(data: Buffer): LeBigSyncLostEvent {
+    if (data.length !== 2) {
+      debug(`LeBigSyncLost: invalid size ${data.length}`);
+    }
+
+    return {
+      bigHandle: data.readUIntLE(0, 1),
+      reason:    data.readUIntLE(1, 1),
+    };
+  }
+}
+
+export interface LeBigInfoAdvertisingReportEvent {
+  syncHandle: number;
+  numBis: number;
+  nse: number;
+  isoIntervalMs: number;
+  bn: number;
+  pto: number;
+  irc: number;
+  maxPdu: number;
+  sduIntervalUs: number;
+  maxSdu: number;
+  phy: number;
+  framing: number;
+  encryption: boolean;
+}
+
+export class LeBigInfoAdvertisingReport {
+  static parse(data: Buffer): LeBigInfoAdvertisingReportEvent {
+    if (data.length !== 19) {
+      debug(`LeBigInfoAdvertisingReport: invalid size ${data.length}`);
+    }
+
+    let o = 0;
+    const syncHandle    = data.readUIntLE(o, 2); o += 2;
+    const numBis        = data.readUIntLE(o, 1); o += 1;
+    const nse           = data.readUIntLE(o, 1); o += 1;
+    const isoInterval   = data.readUIntLE(o, 2); o += 2;
+    const bn            = data.readUIntLE(o, 1); o += 1;
+    const pto           = data.readUIntLE(o, 1); o += 1;
+    const irc           = data.readUIntLE(o, 1); o += 1;
+    const maxPdu        = data.readUIntLE(o, 2); o += 2;
+    const sduIntervalUs = data.readUIntLE(o, 3); o += 3;
+    const maxSdu        = data.readUIntLE(o, 2); o += 2;
+    const phy           = data.readUIntLE(o, 1); o += 1;
+    const framing       = data.readUIntLE(o, 1); o += 1;
+    const encryption    = data.readUIntLE(o, 1); o += 1;
+
+    return {
+      syncHandle,
+      numBis,
+      nse,
+      isoIntervalMs: isoInterval * 1.25,
+      bn,
+      pto,
+      irc,
+      maxPdu,
+      sduIntervalUs,
+      maxSdu,
+      phy,
+      framing,
+      encryption: encryption === 1,
+    };
+  }
+}
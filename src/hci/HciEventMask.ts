@@ -0,0 +1,86 @@
+import { HciEventName } from './Hci';
+import { EventMask, EventMask2, SetEventMask, SetEventMask2 } from './HciControlAndBaseband';
+import { LeEvents, LeSetEventsMask } from './HciLeController';
+
+export interface HciEventMasks {
+  events:   Partial<EventMask>;
+  events2:  Partial<EventMask2>;
+  leEvents: Partial<LeEvents>;
+}
+
+interface HciEventMaskBit {
+  events?:   keyof EventMask;
+  events2?:  keyof EventMask2;
+  leEvents?: keyof LeEvents;
+}
+
+// Maps Hci event labels to the mask bits enabling them
+const HciEventMaskBits: { [K in HciEventName]?: HciEventMaskBit } = {
+  DisconnectionComplete:                { events:   'disconnectionComplete' },
+  EncryptionChange:                     { events:   'encryptionChange' },
+  EncryptionKeyRefreshComplete:         { events:   'encryptionKeyRefreshComplete' },
+  ReadRemoteVersionInformationComplete: { events:   'readRemoteVersionInformationComplete' },
+  HardwareError:                        { events:   'hardwareError' },
+  DataBufferOverflow:                   { events:   'dataBufferOverflow' },
+
+  LeConnectionComplete:                 { leEvents: 'connectionComplete' },
+  LeAdvertisingReport:                  { leEvents: 'advertisingReport' },
+  LeConnectionUpdateComplete:           { leEvents: 'connectionUpdateComplete' },
+  LeReadRemoteFeaturesComplete:         { leEvents: 'readRemoteFeaturesComplete' },
+  LeLongTermKeyRequest:                 { leEvents: 'longTermKeyRequest' },
+  LeRemoteConnectionParameterRequest:   { leEvents: 'remoteConnectionParameterRequest' },
+  LeDataLengthChange:                   { leEvents: 'dataLengthChange' },
+  LeReadLocalP256PublicKeyComplete:     { leEvents: 'readLocalP256PublicKeyComplete' },
+  LeGenerateDhKeyComplete:              { leEvents: 'generateDhKeyComplete' },
+  LeEnhancedConnectionComplete:         { leEvents: 'enhancedConnectionComplete' },
+  LeDirectedAdvertisingReport:          { leEvents: 'directedAdvertisingReport' },
+  LePhyUpdateComplete:                  { leEvents: 'phyUpdateComplete' },
+  LeExtendedAdvertisingReport:          { leEvents: 'extendedAdvertisingReport' },
+  LePeriodicAdvertisingSyncEstablished: { leEvents: 'periodicAdvertisingSyncEstablished' },
+  LePeriodicAdvertisingReport:          { leEvents: 'periodicAdvertisingReport' },
+  LePeriodicAdvertisingSyncLost:        { leEvents: 'periodicAdvertisingSyncLost' },
+  LeScanTimeout:                        { leEvents: 'scanTimeout' },
+  LeAdvertisingSetTerminated:           { leEvents: 'advertisingSetTerminated' },
+  LeChannelSelectionAlgorithm:          { leEvents: 'channelSelectionAlgorithm' },
+  LePeriodicAdvertisingSyncTransferReceived: { leEvents: 'periodicAdvertisingSyncTransferReceived' },
+  LeCisEstablished:                     { leEvents: 'cisEstablished' },
+  LeCisRequest:                         { leEvents: 'cisRequest' },
+  LeCreateBigComplete:                  { leEvents: 'createBigComplete' },
+  LeTerminateBigComplete:               { leEvents: 'terminateBigComplete' },
+  LeBigSyncEstablished:                 { leEvents: 'bigSyncEstablished' },
+  LeBigSyncLost:                        { leEvents: 'bigSyncLost' },
+  LeBigInfoAdvertisingReport:           { leEvents: 'bigInfoAdvertisingReport' },
+};
+
+export class HciEventMask {
+  public static fromEvents(labels: (string | symbol)[]): HciEventMasks {
+    const masks: HciEventMasks = { events: {}, events2: {}, leEvents: {} };
+
+    for (const label of labels) {
+      const bit = HciEventMaskBits[label as HciEventName];
+      if (!bit) {
+        continue;
+      }
+      if (bit.events) {
+        masks.events[bit.events] = true;
+      }
+      if (bit.events2) {
+        masks.events2[bit.events2] = true;
+      }
+      if (bit.leEvents) {
+        masks.leEvents[bit.leEvents] = true;
+        masks.events.leMeta = true;
+      }
+    }
+
+    return masks;
+  }
+
+  public static serialize(masks: HciEventMasks): { events: string, events2: string, leEvents: string } {
+    return {
+      events:   SetEventMask.inParams(masks.events).toString('hex'),
+      events2:  SetEventMask2.inParams(masks.events2).toString('hex'),
+      leEvents: LeSetEventsMask.inParams(masks.leEvents).toString('hex'),
+    };
+  }
+}
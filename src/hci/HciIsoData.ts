@@ -0,0 +1,178 @@
+import Debug from 'debug';
+
+import { HciErrorCode, makeHciError } from './HciError';
+import { IsoDataBoundary, IsoDataPacket, IsoPacketStatus, IsoSdu } from '../iso/Iso';
+
+const debug = Debug('nble-hci-iso');
+
+export interface HciIsoQueueEntry {
+  connectionHandle: number;
+  packet: IsoDataPacket;
+}
+
+interface IsoFragments {
+  sdu: IsoSdu;
+  sduLength: number;
+  data: Buffer[];
+  length: number;
+}
+
+const IsoSduHeaderSize = 4;
+const IsoTimestampSize = 4;
+const IsoMaxSduLength  = 0x0FFF;
+
+// Splits SDUs into packets fitting controller buffers and sends them
+// as buffers are freed, reassembles SDUs received from the controller.
+export class HciIsoData {
+  private packetLength = 0;
+  private totalNumPackets = 0;
+  private bufferSizeKnown = false;
+
+  private queue: HciIsoQueueEntry[] = [];
+  private pending = new Map<number, number>();
+  private fragments = new Map<number, IsoFragments>();
+
+  public hasBufferSize(): boolean {
+    return this.bufferSizeKnown;
+  }
+
+  public setBufferSize(packetLength: number, totalNumPackets: number): void {
+    this.packetLength = packetLength;
+    this.totalNumPackets = totalNumPackets;
+    this.bufferSizeKnown = true;
+  }
+
+  public enqueue(connectionHandle: number, sdu: IsoSdu): void {
+    if (this.packetLength === 0 || this.totalNumPackets === 0) {
+      throw makeHciError(HciErrorCode.UnsupportedFeatureOrValue);
+    }
+    if (sdu.data.length > IsoMaxSduLength) {
+      throw makeHciError(HciErrorCode.InvalidCommandParameter);
+    }
+
+    const header = IsoSduHeaderSize + (sdu.timestampUs !== undefined ? IsoTimestampSize : 0);
+    if (this.packetLength <= header && sdu.data.length > 0) {
+      throw makeHciError(HciErrorCode.InvalidCommandParameter);
+    }
+
+    const first = sdu.data.slice(0, this.packetLength - header);
+    this.queue.push({
+      connectionHandle,
+      packet: {
+        boundary:       first.length === sdu.data.length ? IsoDataBoundary.Complete : IsoDataBoundary.FirstFrag,
+        timestampUs:    sdu.timestampUs,
+        sequenceNumber: sdu.sequenceNumber,
+        sduLength:      sdu.data.length,
+        data:           first,
+      },
+    });
+
+    for (let o = first.length; o < sdu.data.length; o += this.packetLength) {
+      const data = sdu.data.slice(o, o + this.packetLength);
+      const last = o + data.length === sdu.data.length;
+      this.queue.push({
+        connectionHandle,
+        packet: { boundary: last ? IsoDataBoundary.LastFrag : IsoDataBoundary.NextFrag, data },
+      });
+    }
+  }
+
+  // Removes packets the controller has free buffers for from the queue
+  public dequeue(): HciIsoQueueEntry[] {
+    const entries: HciIsoQueueEntry[] = [];
+
+    let free = this.totalNumPackets - this.pendingPackets();
+    while (free > 0 && this.queue.length > 0) {
+      const entry = this.queue.shift()!;
+      this.pending.set(entry.connectionHandle, (this.pending.get(entry.connectionHandle) ?? 0) + 1);
+      entries.push(entry);
+      free--;
+    }
+    return entries;
+  }
+
+  // Completed packets of handles without ISO data in flight (ACL) are ignored
+  public complete(connectionHandle: number, numCompletedPackets: number): void {
+    const pending = this.pending.get(connectionHandle);
+    if (pending === undefined) {
+      return;
+    }
+    const left = pending - numCompletedPackets;
+    if (left > 0) {
+      this.pending.set(connectionHandle, left);
+    } else {
+      this.pending.delete(connectionHandle);
+    }
+  }
+
+  public reassemble(connectionHandle: number, packet: IsoDataPacket): IsoSdu | null {
+    if (packet.boundary === IsoDataBoundary.Complete || packet.boundary === IsoDataBoundary.FirstFrag) {
+      if (this.fragments.has(connectionHandle)) {
+        debug(`iso-data: incomplete SDU dropped, handle ${connectionHandle}`);
+        this.fragments.delete(connectionHandle);
+      }
+
+      const sdu: IsoSdu = {
+        sequenceNumber: packet.sequenceNumber ?? 0,
+        timestampUs:    packet.timestampUs,
+        packetStatus:   packet.packetStatus ?? IsoPacketStatus.Valid,
+        data:           packet.data,
+      };
+      const sduLength = packet.sduLength ?? packet.data.length;
+
+      if (packet.boundary === IsoDataBoundary.Complete) {
+        if (sduLength !== packet.data.length) {
+          debug(`iso-data: SDU length ${sduLength} vs ${packet.data.length}`);
+        }
+        return sdu;
+      }
+      this.fragments.set(connectionHandle, { sdu, sduLength, data: [packet.data], length: packet.data.length });
+      return null;
+    }
+
+    const fragments = this.fragments.get(connectionHandle);
+    if (!fragments) {
+      debug(`iso-data: continuation without first fragment, handle ${connectionHandle}`);
+      return null;
+    }
+
+    fragments.data.push(packet.data);
+    fragments.length += packet.data.length;
+
+    if (fragments.length > fragments.sduLength) {
+      debug(`iso-data: SDU longer than ${fragments.sduLength}, dropped`);
+      this.fragments.delete(connectionHandle);
+      return null;
+    }
+    if (packet.boundary === IsoDataBoundary.NextFrag) {
+      return null;
+    }
+
+    this.fragments.delete(connectionHandle);
+    if (fragments.length !== fragments.sduLength) {
+      debug(`iso-data: SDU length ${fragments.sduLength} vs ${fragments.length}`);
+    }
+    return { ...fragments.sdu, data: Buffer.concat(fragments.data) };
+  }
+
+  // Controller frees buffers of a closed connection
+  public drop(connectionHandle: number): void {
+    this.queue = this.queue.filter((entry) => entry.connectionHandle !== connectionHandle);
+    this.pending.delete(connectionHandle);
+    this.fragments.delete(connectionHandle);
+  }
+
+  public reset(): void {
+    this.queue = [];
+    this.pending.clear();
+    this.fragments.clear();
+  }
+
+  private pendingPackets(): number {
+    let total = 0;
+    for (const pending of this.pending.values()) {
+      total += pending;
+    }
+    return total;
+  }
+}
@@ -0,0 +1,182 @@
+import { HciOpcode } from './HciCmd';
+import { LeAdvertisingDataOperation } from './HciLeController';
+import { HciOgf, HciOcfControlAndBasebandCommands, HciOcfLeControllerCommands } from './HciOgfOcf';
+
+export interface HciJournalEntry {
+  opcode: number;
+  payload?: Buffer;
+}
+
+interface HciJournalRecord {
+  advertHandle?: number;
+  commands: HciJournalEntry[];
+}
+
+const cb = (ocf: HciOcfControlAndBasebandCommands) => HciOpcode.build({ ogf: HciOgf.ControlAndBasebandCommands, ocf });
+const le = (ocf: HciOcfLeControllerCommands)       => HciOpcode.build({ ogf: HciOgf.LeControllerCommands,       ocf });
+
+// Commands whose last successful invocation describes the controller configuration
+const Configuration = new Set<number>([
+  cb(HciOcfControlAndBasebandCommands.SetEventMask),
+  cb(HciOcfControlAndBasebandCommands.SetEventMaskPage2),
+  cb(HciOcfControlAndBasebandCommands.SetControllerToHostFlowControl),
+  cb(HciOcfControlAndBasebandCommands.HostBufferSize),
+  cb(HciOcfControlAndBasebandCommands.WriteLeHostSupport),
+  le(HciOcfLeControllerCommands.SetEventMask),
+  le(HciOcfLeControllerCommands.SetRandomAddress),
+  le(HciOcfLeControllerCommands.WriteSuggestedDefaultDataLength),
+  le(HciOcfLeControllerCommands.SetDefaultPhy),
+  le(HciOcfLeControllerCommands.SetAddressResolutionEnable),
+  le(HciOcfLeControllerCommands.SetResolvablePrivateAddressTimeout),
+  le(HciOcfLeControllerCommands.SetAdvertisingParameters),
+  le(HciOcfLeControllerCommands.SetAdvertisingData),
+  le(HciOcfLeControllerCommands.SetScanResponseData),
+  le(HciOcfLeControllerCommands.SetDefaultPeriodicAdvertisingSyncTransferParameters),
+]);
+
+// Advertising set commands, the first parameter is the advertising handle
+const AdvertisingSet = new Set<number>([
+  le(HciOcfLeControllerCommands.SetAdvertisingSetRandomAddress),
+  le(HciOcfLeControllerCommands.SetExtendedAdvertisingParameters),
+  le(HciOcfLeControllerCommands.SetPeriodicAdvertisingParameters),
+]);
+const AdvertisingSetData = new Set<number>([
+  le(HciOcfLeControllerCommands.SetExtendedAdvertisingData),
+  le(HciOcfLeControllerCommands.SetExtendedScanResponseData),
+  le(HciOcfLeControllerCommands.SetPeriodicAdvertisingData),
+]);
+
+const AdvertisingEnable         = le(HciOcfLeControllerCommands.SetAdvertisingEnable);
+const ExtendedAdvertisingEnable = le(HciOcfLeControllerCommands.SetExtendedAdvertisingEnable);
+const PeriodicAdvertisingEnable = le(HciOcfLeControllerCommands.SetPeriodicAdvertisingEnable);
+const RemoveAdvertisingSet      = le(HciOcfLeControllerCommands.RemoveAdvertisingSet);
+const ClearAdvertisingSets      = le(HciOcfLeControllerCommands.ClearAdvertisingSets);
+
+export class HciJournal {
+  // Insertion order is the replay order, replaced records move to the end
+  private records = new Map<string, HciJournalRecord>();
+
+  public record(opcode: number, payload?: Buffer): void {
+    if (Configuration.has(opcode)) {
+      this.set(`${opcode}`, { commands: [{ opcode, payload }] });
+    } else if (!payload) {
+      if (opcode === ClearAdvertisingSets) {
+        this.removeAdvertisingSets(() => true);
+      }
+    } else if (AdvertisingSet.has(opcode)) {
+      const advertHandle = payload[0];
+      this.set(`${opcode}:${advertHandle}`, { advertHandle, commands: [{ opcode, payload }] });
+    } else if (AdvertisingSetData.has(opcode)) {
+      this.recordAdvertisingData(opcode, payload);
+    } else if (opcode === AdvertisingEnable) {
+      this.recordAdvertisingEnable(payload);
+    } else if (opcode === ExtendedAdvertisingEnable) {
+      this.recordExtendedAdvertisingEnable(payload);
+    } else if (opcode === PeriodicAdvertisingEnable) {
+      this.recordPeriodicAdvertisingEnable(payload);
+    } else if (opcode === RemoveAdvertisingSet) {
+      this.removeAdvertisingSets((advertHandle) => advertHandle === payload[0]);
+    }
+  }
+
+  // Controller stopped legacy advertising after a connection was established
+  public advertisingStopped(): void {
+    this.records.delete(`${AdvertisingEnable}`);
+  }
+
+  // Controller stopped the advertising set on its own
+  public advertisingSetTerminated(advertHandle: number): void {
+    this.records.delete(`${ExtendedAdvertisingEnable}:${advertHandle}`);
+  }
+
+  public entries(): HciJournalEntry[] {
+    return [...this.records.values()].flatMap((record) => record.commands);
+  }
+
+  public clear(): void {
+    this.records.clear();
+  }
+
+  private set(key: string, record: HciJournalRecord): void {
+    this.records.delete(key);
+    this.records.set(key, record);
+  }
+
+  private recordAdvertisingData(opcode: number, payload: Buffer): void {
+    const advertHandle = payload[0];
+    const operation    = payload[1];
+    const key          = `${opcode}:${advertHandle}`;
+
+    switch (operation) {
+      case LeAdvertisingDataOperation.FragmentIntermediate:
+      case LeAdvertisingDataOperation.FragmentLast: {
+        const record = this.records.get(key);
+        if (record) {
+          record.commands.push({ opcode, payload });
+        } else {
+          this.set(key, { advertHandle, commands: [{ opcode, payload }] });
+        }
+        break;
+      }
+      case LeAdvertisingDataOperation.FragmentFirst:
+      case LeAdvertisingDataOperation.Complete:
+        this.set(key, { advertHandle, commands: [{ opcode, payload }] });
+        break;
+    }
+  }
+
+  private recordAdvertisingEnable(payload: Buffer): void {
+    if (payload[0]) {
+      this.set(`${AdvertisingEnable}`, { commands: [{ opcode: AdvertisingEnable, payload }] });
+    } else {
+      this.advertisingStopped();
+    }
+  }
+
+  private recordExtendedAdvertisingEnable(payload: Buffer): void {
+    const enable  = payload[0];
+    const numSets = payload[1];
+
+    if (!enable && numSets === 0) {
+      // Disables all advertising sets
+      for (const [key, record] of this.records) {
+        if (record.advertHandle !== undefined && record.commands[0].opcode === ExtendedAdvertisingEnable) {
+          this.records.delete(key);
+        }
+      }
+      return;
+    }
+
+    // Every set is replayed on its own, sets may be enabled by separate commands
+    for (let i = 0, o = 2; i < numSets; i++, o += 4) {
+      const advertHandle = payload[o];
+      if (!enable) {
+        this.advertisingSetTerminated(advertHandle);
+        continue;
+      }
+      const set = Buffer.concat([Buffer.from([1, 1]), payload.slice(o, o + 4)]);
+      this.set(`${ExtendedAdvertisingEnable}:${advertHandle}`, {
+        advertHandle, commands: [{ opcode: ExtendedAdvertisingEnable, payload: set }],
+      });
+    }
+  }
+
+  private recordPeriodicAdvertisingEnable(payload: Buffer): void {
+    const advertHandle = payload[1];
+    const key          = `${PeriodicAdvertisingEnable}:${advertHandle}`;
+
+    if (payload[0]) {
+      this.set(key, { advertHandle, commands: [{ opcode: PeriodicAdvertisingEnable, payload }] });
+    } else {
+      this.records.delete(key);
+    }
+  }
+
+  private removeAdvertisingSets(predicate: (advertHandle: number) => boolean): void {
+    for (const [key, record] of this.records) {
+      if (record.advertHandle !== undefined && predicate(record.advertHandle)) {
+        this.records.delete(key);
+      }
+    }
+  }
+}
@@ -316,8 +316,8 @@ export class LeSetScanParameters {
 export class LeSetScanEnabled {
   static inParams(enable: boolean, filterDuplicates?: boolean): Buffer {
     const payload = Buffer.allocUnsafe(2);
-    payload.writeUInt8(enable           ? 1 : 0);
-    payload.writeUInt8(filterDuplicates ? 1 : 0);
+    payload.writeUInt8(enable           ? 1 : 0, 0);
+    payload.writeUInt8(filterDuplicates ? 1 : 0, 1);
     return payload;
   }
 }
@@ -392,7 +392,7 @@ export class LeConnectionUpdate {
     const maxConnEvtLength   = this.msToValue(params.maxCeLengthMs,           0.625);
 
     let o = 0;
-    o = payload.writeUIntLE(params.connectionLatency,     o, 2);
+    o = payload.writeUIntLE(params.connectionHandle,      o, 2);
     o = payload.writeUIntLE(connIntervalMin,              o, 2);
     o = payload.writeUIntLE(connIntervalMax,              o, 2);
     o = payload.writeUIntLE(params.connectionLatency,     o, 2);
@@ -1458,6 +1458,517 @@ export class LeNumberOfSupportedAdvertisingSets {
   }
 }
 
+export enum LePeriodicAdvertisingProperties {
+  IncludeTxPower = 6, // Include TxPower in the advertising PDU
+}
+
+export interface LePeriodicAdvertisingParameters {
+  periodicAdvertisingIntervalMinMs: number;
+  periodicAdvertisingIntervalMaxMs: number;
+  periodicAdvertisingProperties?: LePeriodicAdvertisingProperties[];
+}
+
+export class LePeriodicAdvertisingParameters {
+  static inParams(advertHandle: number, params: LePeriodicAdvertisingParameters): Buffer {
+    const periodicAdvertisingIntervalMin = Math.round(params.periodicAdvertisingIntervalMinMs / 1.25);
+    const periodicAdvertisingIntervalMax = Math.round(params.periodicAdvertisingIntervalMaxMs / 1.25);
+    const periodicAdvertisingProperties  = buildBitfield(params.periodicAdvertisingProperties ?? []);
+
+    const payload = Buffer.allocUnsafe(7);
+
+    let o = 0;
+    o = payload.writeUIntLE(advertHandle,                   o, 1);
+    o = payload.writeUIntLE(periodicAdvertisingIntervalMin, o, 2);
+    o = payload.writeUIntLE(periodicAdvertisingIntervalMax, o, 2);
+    o = payload.writeUIntLE(periodicAdvertisingProperties,  o, 2);
+
+    return payload;
+  }
+}
+
+export enum LePeriodicAdvertisingDataOperation {
+  FragmentIntermediate  = 0x00, // Intermediate fragment of fragmented periodic advertising data
+  FragmentFirst         = 0x01, // First fragment of fragmented periodic advertising data
+  FragmentLast          = 0x02, // Last fragment of fragmented periodic advertising data
+  Complete              = 0x03, // Complete periodic advertising data
+}
+
+// Advertising data carried by a single command
+export const LePeriodicAdvertisingDataMaxLength = 252;
+
+export interface LePeriodicAdvertisingData {
+  operation: LePeriodicAdvertisingDataOperation;
+  data: Buffer;
+}
+
+export class LePeriodicAdvertisingData {
+  static inParams(advertHandle: number, params: LePeriodicAdvertisingData): Buffer {
+    if (params.data.length > LePeriodicAdvertisingDataMaxLength) {
+      throw makeHciError(HciErrorCode.InvalidCommandParameter);
+    }
+
+    const payload = Buffer.allocUnsafe(3 + params.data.length);
+
+    let o = 0;
+    o = payload.writeUIntLE(advertHandle,       o, 1);
+    o = payload.writeUIntLE(params.operation,   o, 1);
+    o = payload.writeUIntLE(params.data.length, o, 1);
+    params.data.copy(payload, o);
+
+    return payload;
+  }
+}
+
+export class LePeriodicAdvertisingEnable {
+  static inParams(advertHandle: number, enable: boolean): Buffer {
+    const payload = Buffer.allocUnsafe(2);
+
+    let o = 0;
+    o = payload.writeUIntLE(enable ? 1 : 0, o, 1);
+    o = payload.writeUIntLE(advertHandle,   o, 1);
+
+    return payload;
+  }
+}
+
+export enum LePeriodicAdvertisingCreateSyncOptions {
+  UsePeriodicAdvertiserList  = 0, // Use the Periodic Advertiser List to determine the advertiser
+  ReportingInitiallyDisabled = 1, // Reporting initially disabled
+}
+
+export enum LePeriodicAdvertisingSyncCteType {
+  NoAoACte        = 0, // Do not sync to packets with an AoA Constant Tone Extension
+  NoAoD1usCte     = 1, // Do not sync to packets with an AoD Constant Tone Extension with 1 μs slots
+  NoAoD2usCte     = 2, // Do not sync to packets with an AoD Constant Tone Extension with 2 μs slots
+  NoType3Cte      = 3, // Do not sync to packets with a type 3 Constant Tone Extension
+  OnlyWithCte     = 4, // Do not sync to packets without a Constant Tone Extension
+}
+
+export interface LePeriodicAdvertisingCreateSync {
+  options?: LePeriodicAdvertisingCreateSyncOptions[];
+  advertisingSid: number;
+  advertiserAddressType: LePeerAddressType;
+  advertiserAddress: Address;
+  skip: number;
+  syncTimeoutMs: number;
+  syncCteType?: LePeriodicAdvertisingSyncCteType[];
+}
+
+export class LePeriodicAdvertisingCreateSync {
+  static inParams(params: LePeriodicAdvertisingCreateSync): Buffer {
+    const options     = buildBitfield(params.options ?? []);
+    const syncTimeout = Math.round(params.syncTimeoutMs / 10);
+    const syncCteType = buildBitfield(params.syncCteType ?? []);
+
+    const payload = Buffer.allocUnsafe(14);
+
+    let o = 0;
+    o = payload.writeUIntLE(options,                                o, 1);
+    o = payload.writeUIntLE(params.advertisingSid,                  o, 1);
+    o = payload.writeUIntLE(params.advertiserAddressType,           o, 1);
+    o = payload.writeUIntLE(params.advertiserAddress.toNumeric(),   o, 6);
+    o = payload.writeUIntLE(params.skip,                            o, 2);
+    o = payload.writeUIntLE(syncTimeout,                            o, 2);
+    o = payload.writeUIntLE(syncCteType,                            o, 1);
+
+    return payload;
+  }
+}
+
+export class LePeriodicAdvertisingTerminateSync {
+  static inParams(syncHandle: number): Buffer {
+    const payload = Buffer.allocUnsafe(2);
+    payload.writeUIntLE(syncHandle, 0, 2);
+    return payload;
+  }
+}
+
+export interface LePeriodicAdvertiserListEntry {
+  advertiserAddressType: LePeerAddressType;
+  advertiserAddress: Address;
+  advertisingSid: number;
+}
+
+export class LePeriodicAdvertiserListEntry {
+  static inParams(params: LePeriodicAdvertiserListEntry): Buffer {
+    const payload = Buffer.allocUnsafe(8);
+
+    let o = 0;
+    o = payload.writeUIntLE(params.advertiserAddressType,         o, 1);
+    o = payload.writeUIntLE(params.advertiserAddress.toNumeric(), o, 6);
+    o = payload.writeUIntLE(params.advertisingSid,                o, 1);
+
+    return payload;
+  }
+}
+
+export class LeReadPeriodicAdvertiserListSize {
+  static outParams(params?: Buffer): number {
+    if (!params || params.length < 1) {
+      throw makeParserError(HciParserError.InvalidPayloadSize);
+    }
+    return params.readUInt8(0);
+  }
+}
+
+export class LePeriodicAdvertisingSyncTransfer {
+  static inParams(connectionHandle: number, serviceData: number, syncHandle: number): Buffer {
+    const payload = Buffer.allocUnsafe(6);
+
+    let o = 0;
+    o = payload.writeUIntLE(connectionHandle, o, 2);
+    o = payload.writeUIntLE(serviceData,      o, 2);
+    o = payload.writeUIntLE(syncHandle,       o, 2);
+
+    return payload;
+  }
+}
+
+export class LePeriodicAdvertisingSetInfoTransfer {
+  static inParams(connectionHandle: number, serviceData: number, advertHandle: number): Buffer {
+    const payload = Buffer.allocUnsafe(5);
+
+    let o = 0;
+    o = payload.writeUIntLE(connectionHandle, o, 2);
+    o = payload.writeUIntLE(serviceData,      o, 2);
+    o = payload.writeUIntLE(advertHandle,     o, 1);
+
+    return payload;
+  }
+}
+
+export enum LePeriodicAdvertisingSyncTransferMode {
+  NoSync                             = 0, // No attempt is made to synchronize, no event is reported
+  SyncReportsDisabled                = 1, // Sync Transfer Received is reported, periodic advertising reports disabled
+  SyncReportsEnabled                 = 2, // Sync Transfer Received is reported, periodic advertising reports enabled
+  SyncReportsEnabledFilterDuplicates = 3, // As above, with duplicate filtering of periodic advertising reports
+}
+
+export interface LePeriodicAdvertisingSyncTransferParameters {
+  mode: LePeriodicAdvertisingSyncTransferMode;
+  skip: number;
+  syncTimeoutMs: number;
+  syncCteType?: LePeriodicAdvertisingSyncCteType[];
+}
+
+export class LePeriodicAdvertisingSyncTransferParameters {
+  // Default parameters, used for new connections, are set without the connection handle
+  static inParams(params: LePeriodicAdvertisingSyncTransferParameters, connectionHandle?: number): Buffer {
+    const syncTimeout = Math.round(params.syncTimeoutMs / 10);
+    const syncCteType = buildBitfield(params.syncCteType ?? []);
+
+    const payload = Buffer.allocUnsafe(connectionHandle === undefined ? 6 : 8);
+
+    let o = 0;
+    if (connectionHandle !== undefined) {
+      o = payload.writeUIntLE(connectionHandle, o, 2);
+    }
+    o = payload.writeUIntLE(params.mode,      o, 1);
+    o = payload.writeUIntLE(params.skip,      o, 2);
+    o = payload.writeUIntLE(syncTimeout,      o, 2);
+    o = payload.writeUIntLE(syncCteType,      o, 1);
+
+    return payload;
+  }
+}
+
+// Feature bits controlled by the host, set before any connection is created
+export enum LeHostFeature {
+  IsochronousChannels = 32, // Isochronous Channels (Host Support)
+}
+
+export class LeSetHostFeature {
+  static inParams(bitNumber: LeHostFeature, enable: boolean): Buffer {
+    const payload = Buffer.allocUnsafe(2);
+
+    let o = 0;
+    o = payload.writeUIntLE(bitNumber,      o, 1);
+    o = payload.writeUIntLE(enable ? 1 : 0, o, 1);
+
+    return payload;
+  }
+}
+
+export enum LeCigPacking {
+  Sequential  = 0x00,
+  Interleaved = 0x01,
+}
+
+export enum LeCigFraming {
+  Unframed = 0x00,
+  Framed   = 0x01,
+}
+
+export interface LeCisParameters {
+  cisId: number;
+  maxSduMToS: number;
+  maxSduSToM: number;
+  phyMToS: LePhy;
+  phySToM: LePhy;
+  rtnMToS: number;
+  rtnSToM: number;
+}
+
+export interface LeCigParameters {
+  cigId: number;
+  sduIntervalMToSUs: number;
+  sduIntervalSToMUs: number;
+  worstCaseSca: number;
+  packing: LeCigPacking;
+  framing: LeCigFraming;
+  maxTransportLatencyMToSMs: number;
+  maxTransportLatencySToMMs: number;
+  cis: LeCisParameters[];
+}
+
+export class LeCigParameters {
+  static inParams(params: LeCigParameters): Buffer {
+    const payload = Buffer.allocUnsafe(15 + params.cis.length * 9);
+
+    let o = 0;
+    o = payload.writeUIntLE(params.cigId,                     o, 1);
+    o = payload.writeUIntLE(params.sduIntervalMToSUs,         o, 3);
+    o = payload.writeUIntLE(params.sduIntervalSToMUs,         o, 3);
+    o = payload.writeUIntLE(params.worstCaseSca,              o, 1);
+    o = payload.writeUIntLE(params.packing,                   o, 1);
+    o = payload.writeUIntLE(params.framing,                   o, 1);
+    o = payload.writeUIntLE(params.maxTransportLatencyMToSMs, o, 2);
+    o = payload.writeUIntLE(params.maxTransportLatencySToMMs, o, 2);
+    o = payload.writeUIntLE(params.cis.length,                o, 1);
+
+    for (const cis of params.cis) {
+      o = payload.writeUIntLE(cis.cisId,                      o, 1);
+      o = payload.writeUIntLE(cis.maxSduMToS,                 o, 2);
+      o = payload.writeUIntLE(cis.maxSduSToM,                 o, 2);
+      o = payload.writeUIntLE(1 << cis.phyMToS,               o, 1);
+      o = payload.writeUIntLE(1 << cis.phySToM,               o, 1);
+      o = payload.writeUIntLE(cis.rtnMToS,                    o, 1);
+      o = payload.writeUIntLE(cis.rtnSToM,                    o, 1);
+    }
+
+    return payload;
+  }
+
+  // Returns connection handles of the CISes, in the order they were configured
+  static outParams(params?: Buffer): number[] {
+    if (!params || params.length < 2) {
+      throw makeParserError(HciParserError.InvalidPayloadSize);
+    }
+    const count = params.readUInt8(1);
+    if (params.length < 2 + count * 2) {
+      throw makeParserError(HciParserError.InvalidPayloadSize);
+    }
+    const connectionHandles: number[] = [];
+    for (let i = 0; i < count; i++) {
+      connectionHandles.push(params.readUInt16LE(2 + i * 2));
+    }
+    return connectionHandles;
+  }
+}
+
+export interface LeCreateCis {
+  cisConnectionHandle: number;
+  aclConnectionHandle: number;
+}
+
+export class LeCreateCis {
+  static inParams(cis: LeCreateCis[]): Buffer {
+    const payload = Buffer.allocUnsafe(1 + cis.length * 4);
+
+    let o = 0;
+    o = payload.writeUIntLE(cis.length, o, 1);
+    for (const entry of cis) {
+      o = payload.writeUIntLE(entry.cisConnectionHandle, o, 2);
+      o = payload.writeUIntLE(entry.aclConnectionHandle, o, 2);
+    }
+
+    return payload;
+  }
+}
+
+export class LeRemoveCig {
+  static inParams(cigId: number): Buffer {
+    const payload = Buffer.allocUnsafe(1);
+    payload.writeUIntLE(cigId, 0, 1);
+    return payload;
+  }
+}
+
+export class LeRejectCisRequest {
+  static inParams(connectionHandle: number, reason: HciErrorCode): Buffer {
+    const payload = Buffer.allocUnsafe(3);
+
+    let o = 0;
+    o = payload.writeUIntLE(connectionHandle, o, 2);
+    o = payload.writeUIntLE(reason,           o, 1);
+
+    return payload;
+  }
+}
+
+export enum LeIsoDataPathDirection {
+  Input  = 0, // Host to Controller
+  Output = 1, // Controller to Host
+}
+
+export enum LeIsoDataPathId {
+  Hci = 0x00, // Vendor specific data paths use 0x01 to 0xFE
+}
+
+export enum LeCodingFormat {
+  ULawLog        = 0x00,
+  ALawLog        = 0x01,
+  Cvsd           = 0x02,
+  Transparent    = 0x03,
+  LinearPcm      = 0x04,
+  Msbc           = 0x05,
+  Lc3            = 0x06,
+  G729A          = 0x07,
+  VendorSpecific = 0xFF,
+}
+
+export interface LeIsoDataPath {
+  dataPathDirection: LeIsoDataPathDirection;
+  dataPathId: number;
+  codingFormat?: LeCodingFormat;
+  companyId?: number;
+  vendorCodecId?: number;
+  controllerDelayUs?: number;
+  codecConfiguration?: Buffer;
+}
+
+export class LeIsoDataPath {
+  static inParams(connectionHandle: number, params: LeIsoDataPath): Buffer {
+    const codecConfiguration = params.codecConfiguration ?? Buffer.alloc(0);
+
+    const payload = Buffer.allocUnsafe(13 + codecConfiguration.length);
+
+    let o = 0;
+    o = payload.writeUIntLE(connectionHandle,                                  o, 2);
+    o = payload.writeUIntLE(params.dataPathDirection,                          o, 1);
+    o = payload.writeUIntLE(params.dataPathId,                                 o, 1);
+    o = payload.writeUIntLE(params.codingFormat ?? LeCodingFormat.Transparent, o, 1);
+    o = payload.writeUIntLE(params.companyId ?? 0,                             o, 2);
+    o = payload.writeUIntLE(params.vendorCodecId ?? 0,                         o, 2);
+    o = payload.writeUIntLE(params.controllerDelayUs ?? 0,                     o, 3);
+    o = payload.writeUIntLE(codecConfiguration.length,                         o, 1);
+    codecConfiguration.copy(payload, o);
+
+    return payload;
+  }
+}
+
+export class LeRemoveIsoDataPath {
+  static inParams(connectionHandle: number, directions: LeIsoDataPathDirection[]): Buffer {
+    const payload = Buffer.allocUnsafe(3);
+
+    let o = 0;
+    o = payload.writeUIntLE(connectionHandle,          o, 2);
+    o = payload.writeUIntLE(buildBitfield(directions), o, 1);
+
+    return payload;
+  }
+}
+
+// Broadcast Code is zero padded to 16 octets, BIG is not encrypted without it
+const writeBroadcastCode = (payload: Buffer, broadcastCode: Buffer | undefined, o: number): number => {
+  if (broadcastCode && broadcastCode.length > 16) {
+    throw makeParserError(HciParserError.InvalidPayloadSize);
+  }
+  o = payload.writeUIntLE(broadcastCode ? 1 : 0, o, 1);
+  payload.fill(0, o, o + 16);
+  broadcastCode?.copy(payload, o);
+  return o + 16;
+};
+
+export interface LeCreateBig {
+  bigHandle: number;
+  advertisingHandle: number;
+  numBis: number;
+  sduIntervalUs: number;
+  maxSdu: number;
+  maxTransportLatencyMs: number;
+  rtn: number;
+  phy: LePhy;
+  packing: LeCigPacking;
+  framing: LeCigFraming;
+  broadcastCode?: Buffer;
+}
+
+export class LeCreateBig {
+  static inParams(params: LeCreateBig): Buffer {
+    const payload = Buffer.allocUnsafe(31);
+
+    let o = 0;
+    o = payload.writeUIntLE(params.bigHandle,             o, 1);
+    o = payload.writeUIntLE(params.advertisingHandle,     o, 1);
+    o = payload.writeUIntLE(params.numBis,                o, 1);
+    o = payload.writeUIntLE(params.sduIntervalUs,         o, 3);
+    o = payload.writeUIntLE(params.maxSdu,                o, 2);
+    o = payload.writeUIntLE(params.maxTransportLatencyMs, o, 2);
+    o = payload.writeUIntLE(params.rtn,                   o, 1);
+    o = payload.writeUIntLE(1 << params.phy,              o, 1);
+    o = payload.writeUIntLE(params.packing,               o, 1);
+    o = payload.writeUIntLE(params.framing,               o, 1);
+    o = writeBroadcastCode(payload, params.broadcastCode, o);
+
+    return payload;
+  }
+}
+
+export class LeTerminateBig {
+  static inParams(bigHandle: number, reason: HciErrorCode): Buffer {
+    const payload = Buffer.allocUnsafe(2);
+
+    let o = 0;
+    o = payload.writeUIntLE(bigHandle, o, 1);
+    o = payload.writeUIntLE(reason,    o, 1);
+
+    return payload;
+  }
+}
+
+export interface LeBigCreateSync {
+  bigHandle: number;
+  syncHandle: number;
+  broadcastCode?: Buffer;
+  // Maximum subevents used to receive each payload, 0 lets the controller decide
+  mse: number;
+  bigSyncTimeoutMs: number;
+  // BIS indices within the BIG, starting from 1
+  bis: number[];
+}
+
+export class LeBigCreateSync {
+  static inParams(params: LeBigCreateSync): Buffer {
+    const bigSyncTimeout = Math.round(params.bigSyncTimeoutMs / 10);
+
+    const payload = Buffer.allocUnsafe(24 + params.bis.length);
+
+    let o = 0;
+    o = payload.writeUIntLE(params.bigHandle,             o, 1);
+    o = payload.writeUIntLE(params.syncHandle,            o, 2);
+    o = writeBroadcastCode(payload, params.broadcastCode, o);
+    o = payload.writeUIntLE(params.mse,                   o, 1);
+    o = payload.writeUIntLE(bigSyncTimeout,               o, 2);
+    o = payload.writeUIntLE(params.bis.length,            o, 1);
+
+    for (const bis of params.bis) {
+      o = payload.writeUIntLE(bis,                        o, 1);
+    }
+
+    return payload;
+  }
+}
+
+export class LeBigTerminateSync {
+  static inParams(bigHandle: number): Buffer {
+    const payload = Buffer.allocUnsafe(1);
+    payload.writeUIntLE(bigHandle, 0, 1);
+    return payload;
+  }
+}
+
 export interface LeExtendedScanParameters {
   ownAddressType: LeOwnAddressType;
   scanningFilterPolicy: LeScanningFilterPolicy;
@@ -0,0 +1,68 @@
+import { Hci } from './Hci';
+import { HciManufacturer, HciVendor } from './HciVendor';
+import { ZephyrTxPower, ZephyrTxPowerHandleType } from './HciZephyr';
+import { AbortOptions } from '../utils/Abort';
+
+// SoftDevice Controller, the TX power commands use Zephyr opcodes
+export enum HciOcfNordicCommands {
+  WriteTxPower                                        = 0x000E, // * SDC Zephyr Write Tx Power
+  ReadTxPower                                         = 0x000F, // * SDC Zephyr Read Tx Power
+  ReadSupportedVsCommands                             = 0x0100, // SDC Read Supported Vendor Specific Commands
+  LlpmModeSet                                         = 0x0101, // SDC Low Latency Packet Mode Set
+  ConnUpdate                                          = 0x0102, // SDC Connection Update
+  ConnEventExtend                                     = 0x0103, // SDC Connection Event Extend
+  QosConnEventReportEnable                            = 0x0104, // SDC QoS Connection Event Report Enable
+  EventLengthSet                                      = 0x0105, // * SDC Event Length Set
+  PeriodicAdvEventLengthSet                           = 0x0106, // * SDC Periodic Advertising Event Length Set
+}
+
+export class NordicEventLength {
+  static inParams(eventLengthUs: number): Buffer {
+    const payload = Buffer.allocUnsafe(4);
+    payload.writeUInt32LE(eventLengthUs, 0);
+    return payload;
+  }
+}
+
+export class HciNordic extends HciVendor {
+  constructor(hci: Hci) {
+    super(hci, [HciManufacturer.NordicSemiconductor]);
+  }
+
+  // Returns the power selected by the controller, closest to the requested one
+  public async writeTxPower(
+    handleType: ZephyrTxPowerHandleType,
+    handle: number,
+    txPowerDbm: number,
+    options?: AbortOptions,
+  ): Promise<number> {
+    const ocf = HciOcfNordicCommands.WriteTxPower;
+    const payload = ZephyrTxPower.inParams(handleType, handle, txPowerDbm);
+    const result = await this.command(ocf, payload, options);
+    return ZephyrTxPower.outParams(result).txPowerDbm;
+  }
+
+  public async readTxPower(
+    handleType: ZephyrTxPowerHandleType,
+    handle: number,
+    options?: AbortOptions,
+  ): Promise<number> {
+    const ocf = HciOcfNordicCommands.ReadTxPower;
+    const payload = ZephyrTxPower.inParams(handleType, handle);
+    const result = await this.command(ocf, payload, options);
+    return ZephyrTxPower.outParams(result).txPowerDbm;
+  }
+
+  // Maximum time reserved for a connection event of new connections
+  public async setEventLength(eventLengthUs: number, options?: AbortOptions): Promise<void> {
+    const ocf = HciOcfNordicCommands.EventLengthSet;
+    const payload = NordicEventLength.inParams(eventLengthUs);
+    await this.command(ocf, payload, options);
+  }
+
+  public async setPeriodicAdvEventLength(eventLengthUs: number, options?: AbortOptions): Promise<void> {
+    const ocf = HciOcfNordicCommands.PeriodicAdvEventLengthSet;
+    const payload = NordicEventLength.inParams(eventLengthUs);
+    await this.command(ocf, payload, options);
+  }
+}
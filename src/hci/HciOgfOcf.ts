@@ -6,6 +6,7 @@ export enum HciOgf {
   StatusParameters                                    = 0x05,
   TestingCommands                                     = 0x06,
   LeControllerCommands                                = 0x08,
+  VendorSpecificCommands                              = 0x3F,
 }
 
 export enum HciOcfLinkControlCommands {
@@ -347,3 +348,14 @@ export enum HciOcfLeControllerCommands {
   SetPathLossReportingEnable                          = 0x0079, // LE Set Path Loss Reporting Enable
   SetTransmitPowerReportingEnable                     = 0x007A, // LE Set Transmit Power Reporting Enable
 }
+
+// OCF names of each command group, by OGF
+export const HciOcfNames: { [ogf: number]: { [ocf: number]: string } } = {
+  [HciOgf.LinkControlCommands]:        HciOcfLinkControlCommands,
+  [HciOgf.LinkPolicyCommands]:         HicOcfLinkPolicyCommands,
+  [HciOgf.ControlAndBasebandCommands]: HciOcfControlAndBasebandCommands,
+  [HciOgf.InformationParameters]:      HciOcfInformationParameters,
+  [HciOgf.StatusParameters]:           HciOcfStatusParameters,
+  [HciOgf.TestingCommands]:            HciOcfTestingCommands,
+  [HciOgf.LeControllerCommands]:       HciOcfLeControllerCommands,
+};
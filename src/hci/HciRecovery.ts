@@ -0,0 +1,136 @@
+import Debug from 'debug';
+import { EventEmitter } from 'events';
+
+import { Hci } from './Hci';
+import { getHciErrorMessage, HciErrorCode } from './HciError';
+import {
+  DisconnectionCompleteEvent, LeConnectionCompleteEvent
+} from './HciEvent';
+
+const debug = Debug('nble-hci-recovery');
+
+export type HciRecoveryCause = 'HardwareError' | 'ControllerReset' | 'Requested';
+
+export interface HciRecoveryInit {
+  attempts?: number;
+  retryDelayMs?: number;
+  // Host initialisation repeated after the controller configuration is restored
+  init?: (hci: Hci) => Promise<void>;
+}
+
+export declare interface HciRecovery {
+  on(event: 'recoveryStart',  listener: (cause: HciRecoveryCause) => void): this;
+  on(event: 'recovered',      listener: () => void): this;
+  on(event: 'recoveryFailed', listener: (err: Error) => void): this;
+}
+
+export class HciRecovery extends EventEmitter {
+  private attempts: number;
+  private retryDelayMs: number;
+  private init: ((hci: Hci) => Promise<void>) | null;
+  private connections = new Set<number>();
+  private recovery: Promise<void> | null = null;
+
+  constructor(private hci: Hci, init: HciRecoveryInit = {}) {
+    super();
+
+    this.attempts     = init.attempts     ?? 3;
+    this.retryDelayMs = init.retryDelayMs ?? 1000;
+    this.init         = init.init         ?? null;
+
+    hci.on('HardwareError',                this.onHardwareError);
+    hci.on('ControllerReset',              this.onControllerReset);
+    hci.on('LeConnectionComplete',         this.onLeConnectionComplete);
+    hci.on('LeEnhancedConnectionComplete', this.onLeConnectionComplete);
+    hci.on('DisconnectionComplete',        this.onDisconnectionComplete);
+  }
+
+  public destroy(): void {
+    this.hci.removeListener('HardwareError',                this.onHardwareError);
+    this.hci.removeListener('ControllerReset',              this.onControllerReset);
+    this.hci.removeListener('LeConnectionComplete',         this.onLeConnectionComplete);
+    this.hci.removeListener('LeEnhancedConnectionComplete', this.onLeConnectionComplete);
+    this.hci.removeListener('DisconnectionComplete',        this.onDisconnectionComplete);
+  }
+
+  public isRecovering(): boolean {
+    return this.recovery !== null;
+  }
+
+  public async recover(cause: HciRecoveryCause = 'Requested'): Promise<void> {
+    if (!this.recovery) {
+      this.recovery = this.run(cause).finally(() => this.recovery = null);
+    }
+    return await this.recovery;
+  }
+
+  private async run(cause: HciRecoveryCause): Promise<void> {
+    debug(`recovery started: ${cause}`);
+    this.emit('recoveryStart', cause);
+
+    // Reset clears the journal, keep what has to be restored
+    const configuration = this.hci.getConfiguration();
+
+    this.dropConnections();
+
+    let error: Error = new Error('Controller recovery failed');
+
+    for (let attempt = 1; attempt <= this.attempts; attempt++) {
+      try {
+        await this.hci.reset();
+        await this.hci.restoreConfiguration(configuration);
+        await this.init?.(this.hci);
+
+        debug('recovered');
+        this.emit('recovered');
+        return;
+      } catch (err) {
+        debug(`recovery attempt ${attempt} failed: ${err.message}`);
+        error = err;
+      }
+      if (attempt < this.attempts) {
+        await new Promise((resolve) => setTimeout(resolve, this.retryDelayMs));
+      }
+    }
+
+    this.emit('recoveryFailed', error);
+    throw error;
+  }
+
+  // Controller forgets its links, consumers learn it from a disconnection
+  private dropConnections(): void {
+    const reason = {
+      code: HciErrorCode.HardwareFailure,
+      message: getHciErrorMessage(HciErrorCode.HardwareFailure),
+    };
+    for (const connectionHandle of [...this.connections]) {
+      const event: DisconnectionCompleteEvent = { connectionHandle, reason };
+      this.hci.emit('DisconnectionComplete', null, event);
+    }
+    this.connections.clear();
+  }
+
+  private onHardwareError = (hardwareCode: number): void => {
+    debug(`hardware error: ${hardwareCode}`);
+    this.recover('HardwareError').catch((err) => debug(`recovery failed: ${err.message}`));
+  }
+
+  private onControllerReset = (requested: boolean): void => {
+    if (requested) {
+      return;
+    }
+    this.recover('ControllerReset').catch((err) => debug(`recovery failed: ${err.message}`));
+  }
+
+  private onLeConnectionComplete = (err: Error|null, event: LeConnectionCompleteEvent): void => {
+    if (err === null) {
+      this.connections.add(event.connectionHandle);
+    }
+  }
+
+  private onDisconnectionComplete = (err: Error|null, event: DisconnectionCompleteEvent): void => {
+    if (err === null) {
+      this.connections.delete(event.connectionHandle);
+    }
+  }
+}
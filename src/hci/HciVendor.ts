@@ -0,0 +1,39 @@
+import { Hci } from './Hci';
+import { HciParserError, makeParserError } from './HciError';
+import { LocalVersionInformation } from './HciInformationParameters';
+import { AbortOptions } from '../utils/Abort';
+
+// Bluetooth SIG company identifiers
+export enum HciManufacturer {
+  NordicSemiconductor = 0x0059,
+  LinuxFoundation     = 0x05F1, // Zephyr Project
+}
+
+export abstract class HciVendor {
+  private enabled = false;
+
+  protected constructor(protected hci: Hci, private manufacturers: HciManufacturer[]) {
+  }
+
+  // Vendor commands have different meaning on every controller,
+  // nothing is sent before the manufacturer is known
+  public async detect(options?: AbortOptions): Promise<boolean> {
+    const version: LocalVersionInformation =
+      this.hci.getCapabilities()?.version ??
+      await this.hci.readLocalVersionInformation(options);
+
+    this.enabled = this.manufacturers.includes(version.manufacturerName);
+    return this.enabled;
+  }
+
+  public isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  protected async command(ocf: number, payload?: Buffer, options?: AbortOptions): Promise<Buffer> {
+    if (!this.enabled) {
+      throw makeParserError(HciParserError.Unsupported);
+    }
+    return await this.hci.vendorCommand(ocf, payload, options);
+  }
+}
@@ -0,0 +1,220 @@
+import { Hci } from './Hci';
+import { HciParserError, makeParserError } from './HciError';
+import { HciManufacturer, HciVendor } from './HciVendor';
+import { Address } from '../utils/Address';
+import { AbortOptions } from '../utils/Abort';
+import { bitGet } from '../utils/Utils';
+
+export enum HciOcfZephyrCommands {
+  ReadVersionInfo                                     = 0x0001, // * Zephyr Read Version Information
+  ReadSupportedCommands                               = 0x0002, // * Zephyr Read Supported Commands
+  ReadSupportedFeatures                               = 0x0003, // Zephyr Read Supported Features
+  SetEventMask                                        = 0x0004, // Zephyr Set Event Mask
+  Reset                                               = 0x0005, // Zephyr Reset
+  WriteBdAddr                                         = 0x0006, // * Zephyr Write BD_ADDR
+  SetTraceEnable                                      = 0x0007, // Zephyr Set Trace Enable
+  ReadBuildInfo                                       = 0x0008, // Zephyr Read Build Information
+  ReadStaticAddresses                                 = 0x0009, // * Zephyr Read Static Addresses
+  ReadKeyHierarchyRoots                               = 0x000A, // Zephyr Read Key Hierarchy Roots
+  ReadChipTemperature                                 = 0x000B, // Zephyr Read Chip Temperature
+  ReadHostStackCommands                               = 0x000C, // Zephyr Read Host Stack Commands
+  SetScanRequestReports                               = 0x000D, // Zephyr Set Scan Request Reports
+  WriteTxPowerLevel                                   = 0x000E, // * Zephyr Write Tx Power Level
+  ReadTxPowerLevel                                    = 0x000F, // * Zephyr Read Tx Power Level
+}
+
+export interface ZephyrVersionInfo {
+  hwPlatform: number;
+  hwVariant:  number;
+  fwVariant:  number;
+  fwVersion:  number;
+  fwRevision: number;
+  fwBuild:    number;
+}
+
+export class ZephyrVersionInfo {
+  static outParams(params?: Buffer): ZephyrVersionInfo {
+    if (!params || params.length < 12) {
+      throw makeParserError(HciParserError.InvalidPayloadSize);
+    }
+
+    let o = 0;
+    const hwPlatform = params.readUIntLE(o, 2); o += 2;
+    const hwVariant  = params.readUIntLE(o, 2); o += 2;
+    const fwVariant  = params.readUIntLE(o, 1); o += 1;
+    const fwVersion  = params.readUIntLE(o, 1); o += 1;
+    const fwRevision = params.readUIntLE(o, 2); o += 2;
+    const fwBuild    = params.readUIntLE(o, 4); o += 4;
+
+    return { hwPlatform, hwVariant, fwVariant, fwVersion, fwRevision, fwBuild };
+  }
+}
+
+export interface ZephyrSupportedCommands {
+  readVersionInfo:       boolean;
+  readSupportedCommands: boolean;
+  readSupportedFeatures: boolean;
+  setEventMask:          boolean;
+  reset:                 boolean;
+  writeBdAddr:           boolean;
+  setTraceEnable:        boolean;
+  readBuildInfo:         boolean;
+  readStaticAddresses:   boolean;
+  readKeyHierarchyRoots: boolean;
+  readChipTemperature:   boolean;
+  readHostStackCommands: boolean;
+  setScanRequestReports: boolean;
+  writeTxPowerLevel:     boolean;
+  readTxPowerLevel:      boolean;
+}
+
+export class ZephyrSupportedCommands {
+  static outParams(params?: Buffer): ZephyrSupportedCommands {
+    if (!params || params.length < 64) {
+      throw makeParserError(HciParserError.InvalidPayloadSize);
+    }
+    return {
+      readVersionInfo:       bitGet(params[0], 0),
+      readSupportedCommands: bitGet(params[0], 1),
+      readSupportedFeatures: bitGet(params[0], 2),
+      setEventMask:          bitGet(params[0], 3),
+      reset:                 bitGet(params[0], 4),
+      writeBdAddr:           bitGet(params[0], 5),
+      setTraceEnable:        bitGet(params[0], 6),
+      readBuildInfo:         bitGet(params[0], 7),
+      readStaticAddresses:   bitGet(params[1], 0),
+      readKeyHierarchyRoots: bitGet(params[1], 1),
+      readChipTemperature:   bitGet(params[1], 2),
+      readHostStackCommands: bitGet(params[1], 3),
+      setScanRequestReports: bitGet(params[1], 4),
+      writeTxPowerLevel:     bitGet(params[1], 5),
+      readTxPowerLevel:      bitGet(params[1], 6),
+    };
+  }
+}
+
+export class ZephyrWriteBdAddr {
+  static inParams(address: Address): Buffer {
+    const payload = Buffer.allocUnsafe(6);
+    payload.writeUIntLE(address.toNumeric(), 0, 6);
+    return payload;
+  }
+}
+
+export interface ZephyrStaticAddress {
+  address: Address;
+  identityRoot: Buffer;
+}
+
+export class ZephyrStaticAddresses {
+  static outParams(params?: Buffer): ZephyrStaticAddress[] {
+    if (!params || params.length < 1 || params.length < 1 + params[0] * 22) {
+      throw makeParserError(HciParserError.InvalidPayloadSize);
+    }
+
+    const addresses: ZephyrStaticAddress[] = [];
+
+    for (let i = 0, o = 1; i < params[0]; i++, o += 22) {
+      const address      = Address.from(params.readUIntLE(o, 6));
+      const identityRoot = params.slice(o + 6, o + 22);
+      addresses.push({ address, identityRoot });
+    }
+
+    return addresses;
+  }
+}
+
+export enum ZephyrTxPowerHandleType {
+  Advertising = 0x00,
+  Scanning    = 0x01,
+  Connection  = 0x02,
+}
+
+export interface ZephyrTxPower {
+  handleType: ZephyrTxPowerHandleType;
+  handle:     number;
+  txPowerDbm: number;
+}
+
+export class ZephyrTxPower {
+  static inParams(handleType: ZephyrTxPowerHandleType, handle: number, txPowerDbm?: number): Buffer {
+    const payload = Buffer.allocUnsafe(txPowerDbm === undefined ? 3 : 4);
+
+    let o = 0;
+    o = payload.writeUIntLE(handleType, o, 1);
+    o = payload.writeUIntLE(handle,     o, 2);
+    if (txPowerDbm !== undefined) {
+      o = payload.writeInt8(txPowerDbm, o);
+    }
+
+    return payload;
+  }
+
+  static outParams(params?: Buffer): ZephyrTxPower {
+    if (!params || params.length < 4) {
+      throw makeParserError(HciParserError.InvalidPayloadSize);
+    }
+
+    let o = 0;
+    const handleType = params.readUIntLE(o, 1); o += 1;
+    const handle     = params.readUIntLE(o, 2); o += 2;
+    const txPowerDbm = params.readInt8(o);      o += 1;
+
+    return { handleType, handle, txPowerDbm };
+  }
+}
+
+export class HciZephyr extends HciVendor {
+  constructor(hci: Hci) {
+    super(hci, [HciManufacturer.LinuxFoundation]);
+  }
+
+  public async readVersionInfo(options?: AbortOptions): Promise<ZephyrVersionInfo> {
+    const ocf = HciOcfZephyrCommands.ReadVersionInfo;
+    const result = await this.command(ocf, undefined, options);
+    return ZephyrVersionInfo.outParams(result);
+  }
+
+  public async readSupportedCommands(options?: AbortOptions): Promise<ZephyrSupportedCommands> {
+    const ocf = HciOcfZephyrCommands.ReadSupportedCommands;
+    const result = await this.command(ocf, undefined, options);
+    return ZephyrSupportedCommands.outParams(result);
+  }
+
+  // Takes effect after the next HCI Reset
+  public async writeBdAddr(address: Address, options?: AbortOptions): Promise<void> {
+    const ocf = HciOcfZephyrCommands.WriteBdAddr;
+    const payload = ZephyrWriteBdAddr.inParams(address);
+    await this.command(ocf, payload, options);
+  }
+
+  public async readStaticAddresses(options?: AbortOptions): Promise<ZephyrStaticAddress[]> {
+    const ocf = HciOcfZephyrCommands.ReadStaticAddresses;
+    const result = await this.command(ocf, undefined, options);
+    return ZephyrStaticAddresses.outParams(result);
+  }
+
+  // Returns the power selected by the controller, closest to the requested one
+  public async writeTxPowerLevel(
+    handleType: ZephyrTxPowerHandleType,
+    handle: number,
+    txPowerDbm: number,
+    options?: AbortOptions,
+  ): Promise<number> {
+    const ocf = HciOcfZephyrCommands.WriteTxPowerLevel;
+    const payload = ZephyrTxPower.inParams(handleType, handle, txPowerDbm);
+    const result = await this.command(ocf, payload, options);
+    return ZephyrTxPower.outParams(result).txPowerDbm;
+  }
+
+  public async readTxPowerLevel(
+    handleType: ZephyrTxPowerHandleType,
+    handle: number,
+    options?: AbortOptions,
+  ): Promise<number> {
+    const ocf = HciOcfZephyrCommands.ReadTxPowerLevel;
+    const payload = ZephyrTxPower.inParams(handleType, handle);
+    const result = await this.command(ocf, payload, options);
+    return ZephyrTxPower.outParams(result).txPowerDbm;
+  }
+}
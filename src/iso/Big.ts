@@ -0,0 +1,204 @@
+import { EventEmitter } from 'events';
+import { Hci } from '../hci/Hci';
+import { HciError, HciErrorCode } from '../hci/HciError';
+import {
+  LeBigSyncEstablishedEvent, LeBigSyncLostEvent, LeCreateBigCompleteEvent, LeTerminateBigCompleteEvent
+} from '../hci/HciEvent';
+import {
+  LeBigCreateSync, LeCigFraming, LeCigPacking, LeCreateBig, LeIsoDataPath, LeIsoDataPathDirection, LeIsoDataPathId,
+  LePhy
+} from '../hci/HciLeController';
+import { AbortOptions } from '../utils/Abort';
+
+// Strings are UTF-8 encoded, the controller receives the code zero padded to 16 octets
+export type BroadcastCode = string | Buffer;
+
+export type BigCreateOptions =
+  Partial<Omit<LeCreateBig, 'advertisingHandle' | 'broadcastCode'>> & { broadcastCode?: BroadcastCode } & AbortOptions;
+export type BigSyncOptions =
+  Partial<Omit<LeBigCreateSync, 'syncHandle' | 'bis' | 'broadcastCode'>> & { broadcastCode?: BroadcastCode } & AbortOptions;
+
+// The direction follows the role, BIS data goes from the source to receivers only
+export type BisDataPathOptions = Partial<Omit<LeIsoDataPath, 'dataPathDirection'>> & AbortOptions;
+
+const toBroadcastCode = (code?: BroadcastCode): Buffer | undefined => {
+  return typeof code === 'string' ? Buffer.from(code, 'utf8') : code;
+};
+
+export declare interface Big {
+  on(event: 'terminated', listener: (reason: HciErrorCode) => void): this;
+}
+
+// Broadcast source, BIGInfo is sent in the periodic advertising of the advertising set
+export class Big extends EventEmitter {
+  private active = true;
+
+  private constructor(
+    private hci: Hci,
+    public readonly bigHandle: number,
+    public readonly advertisingHandle: number,
+    public readonly encrypted: boolean,
+    public readonly info: LeCreateBigCompleteEvent,
+  ) {
+    super();
+    hci.on('LeTerminateBigComplete', this.onTerminateBigComplete);
+  }
+
+  // Periodic advertising has to be enabled on the advertising set
+  public static async create(hci: Hci, advertisingHandle: number, opts?: BigCreateOptions): Promise<Big> {
+    const bigHandle = opts?.bigHandle ?? 0;
+    const broadcastCode = toBroadcastCode(opts?.broadcastCode);
+
+    const info = await hci.leCreateBigAndWait({
+      bigHandle,
+      advertisingHandle,
+      numBis:                opts?.numBis                ?? 1,
+      sduIntervalUs:         opts?.sduIntervalUs         ?? 10000,
+      maxSdu:                opts?.maxSdu                ?? 40,
+      maxTransportLatencyMs: opts?.maxTransportLatencyMs ?? 10,
+      rtn:                   opts?.rtn                   ?? 2,
+      phy:                   opts?.phy                   ?? LePhy.Phy2M,
+      packing:               opts?.packing               ?? LeCigPacking.Sequential,
+      framing:               opts?.framing               ?? LeCigFraming.Unframed,
+      broadcastCode,
+    }, opts);
+
+    return new Big(hci, bigHandle, advertisingHandle, broadcastCode !== undefined, info);
+  }
+
+  // BIS connection handles, in BIS index order
+  public get connectionHandles(): number[] {
+    return this.info.connectionHandles;
+  }
+
+  public isActive(): boolean {
+    return this.active;
+  }
+
+  public async setupDataPath(connectionHandle: number, opts?: BisDataPathOptions): Promise<void> {
+    await this.hci.leSetupIsoDataPath(connectionHandle, {
+      dataPathDirection:  LeIsoDataPathDirection.Input,
+      dataPathId:         opts?.dataPathId ?? LeIsoDataPathId.Hci,
+      codingFormat:       opts?.codingFormat,
+      companyId:          opts?.companyId,
+      vendorCodecId:      opts?.vendorCodecId,
+      controllerDelayUs:  opts?.controllerDelayUs,
+      codecConfiguration: opts?.codecConfiguration,
+    }, opts);
+  }
+
+  public async terminate(
+    reason = HciErrorCode.ConnTerminatedByRemoteUser,
+    options?: AbortOptions,
+  ): Promise<void> {
+    if (!this.active) {
+      return;
+    }
+    const terminated = this.hci.waitFor(
+      'LeTerminateBigComplete', (event) => event.bigHandle === this.bigHandle, options
+    );
+    terminated.catch(() => {});
+    await this.hci.leTerminateBig(this.bigHandle, reason, options);
+    await terminated;
+  }
+
+  private onTerminateBigComplete = (event: LeTerminateBigCompleteEvent): void => {
+    if (event.bigHandle !== this.bigHandle) {
+      return;
+    }
+
+    this.active = false;
+    this.hci.removeListener('LeTerminateBigComplete', this.onTerminateBigComplete);
+
+    this.emit('terminated', event.reason);
+  }
+}
+
+export declare interface BigSync {
+  on(event: 'lost', listener: (reason: HciErrorCode) => void): this;
+}
+
+// Broadcast receiver, synchronizes to BISes of a BIG found over periodic advertising sync
+export class BigSync extends EventEmitter {
+  private active = true;
+
+  private constructor(
+    private hci: Hci,
+    public readonly bigHandle: number,
+    public readonly syncHandle: number,
+    public readonly info: LeBigSyncEstablishedEvent,
+  ) {
+    super();
+    hci.on('LeBigSyncLost', this.onBigSyncLost);
+  }
+
+  // BIS indices start from 1, BIGInfo reports tell how many BISes the BIG has
+  public static async create(hci: Hci, syncHandle: number, bis: number[], opts?: BigSyncOptions): Promise<BigSync> {
+    const bigHandle = opts?.bigHandle ?? 0;
+
+    try {
+      const info = await hci.leBigCreateSyncAndWait({
+        bigHandle,
+        syncHandle,
+        broadcastCode:    toBroadcastCode(opts?.broadcastCode),
+        mse:              opts?.mse              ?? 0,
+        bigSyncTimeoutMs: opts?.bigSyncTimeoutMs ?? 1000,
+        bis,
+      }, opts);
+
+      return new BigSync(hci, bigHandle, syncHandle, info);
+    } catch (err) {
+      // Aborted or timed out, controller is still synchronizing. The cancelled
+      // BIG Sync Established it reports is consumed here, not by the next create()
+      if (!(err instanceof HciError)) {
+        const cancelled = hci.waitFor(
+          'LeBigSyncEstablished', (error, event) => error !== null && event.bigHandle === bigHandle
+        );
+        cancelled.catch(() => {});
+        await hci.leBigTerminateSync(bigHandle).then(() => cancelled).catch(() => {});
+      }
+      throw err;
+    }
+  }
+
+  public get connectionHandles(): number[] {
+    return this.info.connectionHandles;
+  }
+
+  public isActive(): boolean {
+    return this.active;
+  }
+
+  public async setupDataPath(connectionHandle: number, opts?: BisDataPathOptions): Promise<void> {
+    await this.hci.leSetupIsoDataPath(connectionHandle, {
+      dataPathDirection:  LeIsoDataPathDirection.Output,
+      dataPathId:         opts?.dataPathId ?? LeIsoDataPathId.Hci,
+      codingFormat:       opts?.codingFormat,
+      companyId:          opts?.companyId,
+      vendorCodecId:      opts?.vendorCodecId,
+      controllerDelayUs:  opts?.controllerDelayUs,
+      codecConfiguration: opts?.codecConfiguration,
+    }, opts);
+  }
+
+  public async terminate(options?: AbortOptions): Promise<void> {
+    if (!this.active) {
+      return;
+    }
+    await this.hci.leBigTerminateSync(this.bigHandle, options);
+    this.close();
+  }
+
+  private onBigSyncLost = (event: LeBigSyncLostEvent): void => {
+    if (event.bigHandle !== this.bigHandle || !this.active) {
+      return;
+    }
+    this.close();
+    this.emit('lost', event.reason);
+  }
+
+  private close(): void {
+    this.active = false;
+    this.hci.removeListener('LeBigSyncLost', this.onBigSyncLost);
+  }
+}
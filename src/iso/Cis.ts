@@ -0,0 +1,134 @@
+import Debug from 'debug';
+import { EventEmitter } from 'events';
+import { Hci } from '../hci/Hci';
+import { HciDisconnectReason, HciError } from '../hci/HciError';
+import {
+  DisconnectionCompleteEvent, LeCisEstablishedEvent, LeCisRequestEvent, LeConnectionRole
+} from '../hci/HciEvent';
+import {
+  LeCigFraming, LeCigPacking, LeCigParameters, LeCisParameters, LeHostFeature, LeIsoDataPath,
+  LeIsoDataPathDirection, LeIsoDataPathId, LePhy
+} from '../hci/HciLeController';
+import { AbortOptions } from '../utils/Abort';
+
+const debug = Debug('nble-cis');
+
+export type CisCreateOptions =
+  Partial<Omit<LeCigParameters, 'cis'>> & Partial<LeCisParameters> & AbortOptions;
+export type CisDataPathOptions = Partial<Omit<LeIsoDataPath, 'dataPathDirection'>> & AbortOptions;
+
+export declare interface Cis {
+  on(event: 'disconnected', listener: (reason: DisconnectionCompleteEvent['reason']) => void): this;
+}
+
+export class Cis extends EventEmitter {
+  private connected = true;
+
+  private constructor(
+    private hci: Hci,
+    public readonly role: LeConnectionRole,
+    public readonly cigId: number,
+    public readonly cisId: number,
+    public readonly aclConnectionHandle: number,
+    public readonly info: LeCisEstablishedEvent,
+  ) {
+    super();
+    hci.on('DisconnectionComplete', this.onDisconnectionComplete);
+  }
+
+  // Configures a CIG holding a single CIS and establishes it over the ACL connection,
+  // both hosts have to call enableHostSupport() before connecting
+  public static async create(hci: Hci, aclConnectionHandle: number, opts?: CisCreateOptions): Promise<Cis> {
+    const cigId = opts?.cigId ?? 0;
+    const cisId = opts?.cisId ?? 0;
+
+    const [connectionHandle] = await hci.leSetCigParameters({
+      cigId,
+      sduIntervalMToSUs:         opts?.sduIntervalMToSUs         ?? 10000,
+      sduIntervalSToMUs:         opts?.sduIntervalSToMUs         ?? 10000,
+      worstCaseSca:              opts?.worstCaseSca              ?? 0,
+      packing:                   opts?.packing                   ?? LeCigPacking.Sequential,
+      framing:                   opts?.framing                   ?? LeCigFraming.Unframed,
+      maxTransportLatencyMToSMs: opts?.maxTransportLatencyMToSMs ?? 10,
+      maxTransportLatencySToMMs: opts?.maxTransportLatencySToMMs ?? 10,
+      cis: [{
+        cisId,
+        maxSduMToS: opts?.maxSduMToS ?? 40,
+        maxSduSToM: opts?.maxSduSToM ?? 40,
+        phyMToS:    opts?.phyMToS    ?? LePhy.Phy2M,
+        phySToM:    opts?.phySToM    ?? LePhy.Phy2M,
+        rtnMToS:    opts?.rtnMToS    ?? 2,
+        rtnSToM:    opts?.rtnSToM    ?? 2,
+      }],
+    }, opts);
+
+    try {
+      const info = await hci.leCreateCisAndWait(connectionHandle, aclConnectionHandle, opts);
+      return new Cis(hci, LeConnectionRole.Master, cigId, cisId, aclConnectionHandle, info);
+    } catch (err) {
+      await hci.leRemoveCig(cigId).catch((err) => debug(`removeCig failed: ${err.message}`));
+      throw err;
+    }
+  }
+
+  // Has to be called while there are no connections, the feature is exchanged when connecting
+  public static async enableHostSupport(hci: Hci, options?: AbortOptions): Promise<void> {
+    await hci.leSetHostFeature(LeHostFeature.IsochronousChannels, true, options);
+  }
+
+  public static async accept(hci: Hci, request: LeCisRequestEvent, options?: AbortOptions): Promise<Cis> {
+    const info = await hci.leAcceptCisRequestAndWait(request.cisConnectionHandle, options);
+    return new Cis(hci, LeConnectionRole.Slave, request.cigId, request.cisId, request.aclConnectionHandle, info);
+  }
+
+  public get connectionHandle(): number {
+    return this.info.connectionHandle;
+  }
+
+  public isConnected(): boolean {
+    return this.connected;
+  }
+
+  // Without a data path ID, SDUs are exchanged over HCI
+  public async setupDataPath(direction: LeIsoDataPathDirection, opts?: CisDataPathOptions): Promise<void> {
+    await this.hci.leSetupIsoDataPath(this.connectionHandle, {
+      dataPathDirection:  direction,
+      dataPathId:         opts?.dataPathId ?? LeIsoDataPathId.Hci,
+      codingFormat:       opts?.codingFormat,
+      companyId:          opts?.companyId,
+      vendorCodecId:      opts?.vendorCodecId,
+      controllerDelayUs:  opts?.controllerDelayUs,
+      codecConfiguration: opts?.codecConfiguration,
+    }, opts);
+  }
+
+  public async removeDataPath(directions: LeIsoDataPathDirection[], options?: AbortOptions): Promise<void> {
+    await this.hci.leRemoveIsoDataPath(this.connectionHandle, directions, options);
+  }
+
+  public async disconnect(
+    reason: HciDisconnectReason = HciDisconnectReason.ConnTerminatedByRemoteUser,
+    options?: AbortOptions,
+  ): Promise<void> {
+    if (!this.connected) {
+      return;
+    }
+    await this.hci.disconnect(this.connectionHandle, reason, options);
+  }
+
+  private onDisconnectionComplete = (err: HciError|null, event: DisconnectionCompleteEvent): void => {
+    if (err !== null || event.connectionHandle !== this.connectionHandle) {
+      return;
+    }
+
+    this.connected = false;
+    this.hci.removeListener('DisconnectionComplete', this.onDisconnectionComplete);
+
+    // The CIG was configured for this CIS only
+    if (this.role === LeConnectionRole.Master) {
+      this.hci.leRemoveCig(this.cigId).catch((err) => debug(`removeCig failed: ${err.message}`));
+    }
+
+    this.emit('disconnected', event.reason);
+  }
+}
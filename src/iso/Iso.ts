@@ -0,0 +1,31 @@
+export enum IsoDataBoundary {
+  FirstFrag = 0, // First fragment of a fragmented SDU
+  NextFrag  = 1, // Continuation fragment of a fragmented SDU
+  Complete  = 2, // Complete SDU
+  LastFrag  = 3, // Last fragment of a fragmented SDU
+}
+
+export enum IsoPacketStatus {
+  Valid           = 0, // Valid data, the complete SDU was received correctly
+  PossiblyInvalid = 1, // Possibly invalid data, contents may contain errors or parts may be missing
+  Lost            = 2, // Part(s) of the data were not received correctly
+}
+
+// Sequence number, SDU length and status are carried by
+// the first fragment or the complete SDU only
+export interface IsoDataPacket {
+  boundary: IsoDataBoundary;
+  timestampUs?: number;
+  sequenceNumber?: number;
+  sduLength?: number;
+  packetStatus?: IsoPacketStatus;
+  data: Buffer;
+}
+
+export interface IsoSdu {
+  sequenceNumber: number;
+  timestampUs?: number;
+  // Reported by the controller, not used when sending
+  packetStatus?: IsoPacketStatus;
+  data: Buffer;
+}
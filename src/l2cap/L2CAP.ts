@@ -25,7 +25,8 @@ interface AclFragments {
 }
 
 export declare interface L2CAP {
-  on(event: 'AttData', listener: (connectionHandle: number, payload: Buffer) => void): this;
+  on(event: 'AttData',      listener: (connectionHandle: number, payload: Buffer) => void): this;
+  on(event: 'Disconnected', listener: (connectionHandle: number, reason: DisconnectionCompleteEvent['reason']) => void): this;
 }
 
 export class L2CAP extends EventEmitter {
@@ -38,6 +39,8 @@ export class L2CAP extends EventEmitter {
   private aclQueue: AclQueueEntry[] = [];
   private aclConnections: Map<number, { pending: number }> = new Map();
   private aclFragments: Map<number, AclFragments> = new Map();
+  private aclRxQueue: { connectionHandle: number, packet: AclDataPacket }[] = [];
+  private paused = false;
 
   constructor(private hci: Hci) {
     super();
@@ -73,6 +76,25 @@ export class L2CAP extends EventEmitter {
     this.hci.removeListener('AclData',                      this.onAclData);
   }
 
+  // Packets received while paused are not reported as completed, with host
+  // flow control the controller stops sending once host buffers are used up
+  public pause(): void {
+    this.paused = true;
+  }
+
+  public resume(): void {
+    this.paused = false;
+
+    while (!this.paused && this.aclRxQueue.length > 0) {
+      const { connectionHandle, packet } = this.aclRxQueue.shift()!;
+      this.receiveAclData(connectionHandle, packet);
+    }
+  }
+
+  public isPaused(): boolean {
+    return this.paused;
+  }
+
   public async writeAclData(connectionHandle: number, channelId: L2capChannelId, payload: Buffer): Promise<void> {
     const l2capLength = this.l2capHeader + payload.length;
 
@@ -118,7 +140,7 @@ export class L2CAP extends EventEmitter {
         continue;
       }
 
-      const { connectionHandle, fragment } = aclEntry;
+      const { connectionHandle, fragment, boundary, broadcast } = aclEntry;
 
       const connection = this.aclConnections.get(connectionHandle);
       if (!connection) {
@@ -127,11 +149,7 @@ export class L2CAP extends EventEmitter {
 
       connection.pending++;
 
-      await this.hci.writeAclData(connectionHandle, {
-        boundary:   AclDataBoundary.FirstNoFlushFrag,
-        broadcast:  AclDataBroadcast.PointToPoint,
-        data:       fragment,
-      });
+      await this.hci.writeAclData(connectionHandle, { boundary, broadcast, data: fragment });
 
       debug(`Write ACL fragment, pending ${connection.pending}`);
     }
@@ -166,7 +184,11 @@ export class L2CAP extends EventEmitter {
 
     this.aclQueue = this.aclQueue.filter(acl => acl.connectionHandle !== event.connectionHandle);
     this.aclConnections.delete(event.connectionHandle);
+    this.aclFragments.delete(event.connectionHandle);
+    this.aclRxQueue = this.aclRxQueue.filter(acl => acl.connectionHandle !== event.connectionHandle);
     this.flushAcl();
+
+    this.emit('Disconnected', event.connectionHandle, event.reason);
   }
 
   private onNumberOfCompletedPackets = (event: NumberOfCompletedPacketsEntry[]): void => {
@@ -187,6 +209,19 @@ export class L2CAP extends EventEmitter {
   }
 
   private onAclData = (connectionHandle: number, event: AclDataPacket): void => {
+    if (this.paused) {
+      this.aclRxQueue.push({ connectionHandle, packet: event });
+      return;
+    }
+    this.receiveAclData(connectionHandle, event);
+  }
+
+  private receiveAclData(connectionHandle: number, event: AclDataPacket): void {
+    this.processAclData(connectionHandle, event);
+    this.hci.completeAclPackets(connectionHandle);
+  }
+
+  private processAclData(connectionHandle: number, event: AclDataPacket): void {
     debug('acl-data', connectionHandle, event);
 
     if (event.boundary === AclDataBoundary.FirstFrag) {
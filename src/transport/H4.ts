@@ -1,80 +1,159 @@
+import Debug from 'debug';
+
 import { HciPacketType } from '../hci/HciPacketType';
+import { RingBuffer } from '../utils/RingBuffer';
+
+const debug = Debug('nble-h4');
+
+export interface H4Packet { type: number; packet: Buffer; }
 
-enum ParserState {
-  Type, Header, Payload,
+// Limits of packets received by the host, controller buffer
+// sizes only apply to packets sent to the controller
+export interface H4Init {
+  maxAclDataLength?: number;
+  maxIsoDataLength?: number;
 }
 
-type PacketHdrSize = Partial<Record<number, number>>;
+interface ByteSource {
+  length: number;
+  peek: (offset: number) => number;
+}
 
-export interface H4Packet { type: number; packet: Buffer; }
+enum ParseResult {
+  NeedMoreData = -1,
+  Skip         = -2,
+}
 
-export class H4 {
-  private readonly headerSize: PacketHdrSize = {};
+const headerSize: Partial<Record<number, number>> = {
+  [HciPacketType.HciCommand]:  3,
+  [HciPacketType.HciAclData]:  4,
+  [HciPacketType.HciSyncData]: 3,
+  [HciPacketType.HciEvent]:    2,
+  [HciPacketType.HciIsoData]:  4,
+};
 
-  private parserState = ParserState.Type;
-  private parserPacketType = 0;
-  private parserPacketData = Buffer.allocUnsafe(0);
+export class H4 {
+  private readonly ring = new RingBuffer();
 
-  private parserHeaderSize = 0;
-  private parserPacketSize = 0;
+  private readonly maxAclDataLength: number;
+  private readonly maxIsoDataLength: number;
 
-  constructor() {
-    this.headerSize[HciPacketType.HciCommand]  = 3;
-    this.headerSize[HciPacketType.HciAclData]  = 4;
-    this.headerSize[HciPacketType.HciSyncData] = 3;
-    this.headerSize[HciPacketType.HciEvent]    = 2;
-    this.headerSize[HciPacketType.HciIsoData]  = 4;
+  constructor(init: H4Init = {}) {
+    this.maxAclDataLength = init.maxAclDataLength ?? 4096;
+    this.maxIsoDataLength = init.maxIsoDataLength ?? 4096;
   }
 
-  public parse(data: Buffer): H4Packet | null {
-    this.parserPacketData = Buffer.concat([ this.parserPacketData, data ]);
-
-    if (this.parserState === ParserState.Type) {
-      if (this.parserPacketData.length > 0) {
-        this.parserPacketType = this.parserPacketData[0];
-        this.parserPacketData = this.parserPacketData.slice(1);
-        this.parserHeaderSize = this.headerSize[this.parserPacketType] ?? 0;
+  public reset(): void {
+    this.ring.clear();
+  }
 
-        this.parserState = ParserState.Header;
+  public parse(data: Buffer): H4Packet[] {
+    const packets: H4Packet[] = [];
+
+    let o = 0;
+
+    // Packets which are fully contained in the chunk are
+    // returned without copying when nothing is buffered.
+    if (this.ring.length === 0) {
+      const source: ByteSource = {
+        length: 0,
+        peek: (offset) => data[o + offset],
+      };
+      while (o < data.length) {
+        source.length = data.length - o;
+        const size = this.parsePacketSize(source);
+        if (size === ParseResult.NeedMoreData) {
+          break;
+        }
+        if (size === ParseResult.Skip) {
+          o += 1;
+          continue;
+        }
+        packets.push({ type: data[o], packet: data.slice(o + 1, o + size) });
+        o += size;
+      }
+      if (o === data.length) {
+        return packets;
       }
     }
 
-    if (this.parserState === ParserState.Header) {
-      if (this.parserPacketData.length >= this.parserHeaderSize) {
-        this.parserPacketSize = this.parserHeaderSize + this.getPayloadSize();
+    this.ring.push(o === 0 ? data : data.slice(o));
 
-        this.parserState = ParserState.Payload;
+    const source: ByteSource = {
+      length: 0,
+      peek: (offset) => this.ring.peek(offset),
+    };
+    while (this.ring.length > 0) {
+      source.length = this.ring.length;
+      const size = this.parsePacketSize(source);
+      if (size === ParseResult.NeedMoreData) {
+        break;
+      }
+      if (size === ParseResult.Skip) {
+        this.ring.skip(1);
+        continue;
       }
+      const type = this.ring.peek(0);
+      this.ring.skip(1);
+      packets.push({ type, packet: this.ring.read(size - 1) });
     }
 
-    if (this.parserState === ParserState.Payload) {
-      if (this.parserPacketData.length >= this.parserPacketSize) {
-        const packet = this.parserPacketData.slice(0, this.parserPacketSize);
-        this.parserPacketData = this.parserPacketData.slice(this.parserPacketSize);
+    return packets;
+  }
 
-        this.parserState = ParserState.Type;
+  // Returns size of the packet including packet indicator
+  private parsePacketSize(source: ByteSource): number {
+    const type = source.peek(0);
+    const hdrSize = headerSize[type];
 
-        return { type: this.parserPacketType, packet };
-      }
+    if (hdrSize === undefined) {
+      debug(`unknown packet type 0x${type.toString(16)}, resync`);
+      return ParseResult.Skip;
+    }
+    if (source.length < 1 + hdrSize) {
+      return ParseResult.NeedMoreData;
     }
 
-    return null;
-  }
+    const u8 = (offset: number) => source.peek(1 + offset);
+    const u16 = (offset: number) => u8(offset) | (u8(offset + 1) << 8);
 
-  private getPayloadSize(): number {
-    switch (this.parserPacketType) {
+    let payloadSize = 0;
+    let maxPayloadSize = 0xFF;
+
+    switch (type) {
       case HciPacketType.HciCommand:
-        return this.parserPacketData.readUInt8(2);
+        payloadSize = u8(2);
+        break;
       case HciPacketType.HciAclData:
-        return this.parserPacketData.readUInt16LE(2);
+        payloadSize = u16(2);
+        maxPayloadSize = this.maxAclDataLength;
+        break;
       case HciPacketType.HciSyncData:
-        return this.parserPacketData.readUInt8(2);
+        payloadSize = u8(2);
+        break;
       case HciPacketType.HciEvent:
-        return this.parserPacketData.readUInt8(1);
+        payloadSize = u8(1);
+        break;
       case HciPacketType.HciIsoData:
-        // TODO: it is not clear to me how to parse size
+        // ISO_Data_Load_Length, 14 bits, RFU bits must be 0
+        if ((u16(2) & 0xC000) !== 0) {
+          debug('invalid ISO data header, resync');
+          return ParseResult.Skip;
+        }
+        payloadSize = u16(2) & 0x3FFF;
+        maxPayloadSize = this.maxIsoDataLength;
         break;
     }
-    return 0;
+
+    if (payloadSize > maxPayloadSize) {
+      debug(`packet too long (type ${type}, size ${payloadSize}), resync`);
+      return ParseResult.Skip;
+    }
+
+    const size = 1 + hdrSize + payloadSize;
+    if (source.length < size) {
+      return ParseResult.NeedMoreData;
+    }
+    return size;
   }
 }
@@ -0,0 +1,67 @@
+import { EventEmitter } from 'events';
+import Debug from 'debug';
+
+import { H4 } from './H4';
+import { HciTransport, HciTransportStream } from './HciTransport';
+import { HciPacketType } from '../hci/HciPacketType';
+
+const debug = Debug('nble-h4');
+
+export class H4Transport extends EventEmitter implements HciTransport {
+  private h4 = new H4();
+  private opened = false;
+
+  public constructor(private readonly stream: HciTransportStream) {
+    super();
+  }
+
+  public async open(): Promise<void> {
+    if (this.opened) {
+      return;
+    }
+    this.opened = true;
+    this.h4 = new H4();
+
+    this.stream.on('data',  this.onStreamData);
+    this.stream.on('error', this.onStreamError);
+    this.stream.on('close', this.onStreamClose);
+  }
+
+  public async close(): Promise<void> {
+    if (!this.opened) {
+      return;
+    }
+    this.detach();
+    this.emit('close');
+  }
+
+  public send(packetType: HciPacketType, data: Buffer): void {
+    if (!this.opened) {
+      debug('send: transport not opened');
+      return;
+    }
+    this.stream.write(Buffer.concat([ Buffer.from([ packetType ]), data ]));
+  }
+
+  private detach(): void {
+    this.opened = false;
+    this.stream.removeListener('data',  this.onStreamData);
+    this.stream.removeListener('error', this.onStreamError);
+    this.stream.removeListener('close', this.onStreamClose);
+  }
+
+  private onStreamData = (data: Buffer): void => {
+    for (const { type, packet } of this.h4.parse(data)) {
+      this.emit('packet', type, packet);
+    }
+  }
+
+  private onStreamError = (err: Error): void => {
+    this.emit('error', err);
+  }
+
+  private onStreamClose = (): void => {
+    this.detach();
+    this.emit('close');
+  }
+}
@@ -1,6 +1,6 @@
 import { crc16ccitt } from 'crc';
 
-interface H5Header {
+export interface H5Header {
   seqNum: number;
   ackNum: number;
   crcPresent: 0|1;
@@ -9,16 +9,16 @@ interface H5Header {
   payloadLength: number;
 }
 
-type H5Packet = H5Header & { payload?: Buffer; };
+export type H5Packet = H5Header & { payload?: Buffer; };
 
-enum H5TransportRetCode {
+export enum H5TransportRetCode {
   ParserSlipPayloadSize           = 1,
   ParserSlipCalculatedPayloadSize = 2,
   ParserHeaderChecksum            = 3,
   ParserPacketChecksum            = 4,
 }
 
-interface EncoderData {
+export interface EncoderData {
   seqNum: number,
   ackNum: number,
   crcPresent: 0|1,
@@ -27,7 +27,7 @@ interface EncoderData {
   payload: Buffer;
 }
 
-type DecoderResult = (
+export type DecoderResult = (
   { code: 0 } & H5Packet) |
   { code: H5TransportRetCode };
 
@@ -49,9 +49,10 @@ export class H5 {
   private readonly payloadLengthPos               = 4;
 
   public encode(data: EncoderData): Buffer {
-    const packet: number[] = [];
+    const packetLength = this.h5HeaderLength + data.payload.length;
+    const packet = Buffer.allocUnsafe(packetLength + (data.crcPresent ? 2 : 0));
 
-    this.addHeader(packet, {
+    this.writeHeader(packet, {
       seqNum:         data.seqNum,
       ackNum:         data.ackNum,
       crcPresent:     data.crcPresent,
@@ -60,45 +61,37 @@ export class H5 {
       payloadLength:  data.payload.length,
     });
 
-    packet.push(...data.payload);
+    data.payload.copy(packet, this.h5HeaderLength);
 
     if (data.crcPresent) {
-      this.addCrc16(packet);
+      const crc16 = this.calculateCrc16Checksum(packet.subarray(0, packetLength));
+      packet.writeUInt16LE(crc16, packetLength);
     }
 
-    return Buffer.from(packet);
+    return packet;
   }
 
-  private addHeader(packet: number[], hdr: H5Header): void {
-    packet.push(
+  private writeHeader(packet: Buffer, hdr: H5Header): void {
+    packet[0] = (
       ((hdr.seqNum         & this.seqNumMask        ) << this.seqNumPos        ) |
       ((hdr.ackNum         & this.ackNumMask        ) << this.ackNumPos        ) |
       ((hdr.crcPresent     & this.crcPresentMask    ) << this.crcPresentPos    ) |
       ((hdr.reliablePacket & this.reliablePacketMask) << this.reliablePacketPos)
     );
-
-    packet.push(
+    packet[1] = (
       ((hdr.packetType    & this.packetTypeMask              ) << this.packetTypePos   ) |
       ((hdr.payloadLength & this.payloadLengthFirstNibbleMask) << this.payloadLengthPos)
     );
-
-    packet.push(
+    packet[2] = (
       ((hdr.payloadLength & this.payloadLengthSecondNibbleMask) >> this.payloadLengthPos)
     );
-
-    packet.push(this.calculateHeaderChecksum(Buffer.from(packet)))
+    packet[3] = this.calculateHeaderChecksum(packet);
   }
 
   private calculateHeaderChecksum(hdr: Buffer): number {
     return ~((hdr[0] + hdr[1] + hdr[2]) & 0xFF) & 0xFF;
   }
 
-  private addCrc16(packet: number[]): void {
-    const crc16 = this.calculateCrc16Checksum(Buffer.from(packet));
-    packet.push((crc16 >> 0) & 0xFF);
-    packet.push((crc16 >> 8) & 0xFF);
-  }
-
   private calculateCrc16Checksum(packet: Buffer): number {
     // let crc = 0xFFFF;
     // for (const byte of packet) {
@@ -124,7 +117,7 @@ export class H5 {
     const packetType     = ((slipPayload[1] >> this.packetTypePos    ) & this.packetTypeMask    );
     const payloadLength  = (
       ((slipPayload[1] >> this.payloadLengthPos) & this.payloadLengthFirstNibbleMask) |
-      ((slipPayload[2] << this.payloadLengthPos) & 0xFF)
+      ((slipPayload[2] << this.payloadLengthPos) & this.payloadLengthSecondNibbleMask)
     );
     const headerChecksum = slipPayload[3];
 
@@ -146,7 +139,7 @@ export class H5 {
         (slipPayload[payloadLength + this.h5HeaderLength + 1] << 8)
       );
       const calculatedPacketChecksum = this.calculateCrc16Checksum(
-        slipPayload.slice(0, payloadLength + this.h5HeaderLength)
+        slipPayload.subarray(0, payloadLength + this.h5HeaderLength)
       );
       if (packetChecksum !== calculatedPacketChecksum) {
         return { code: H5TransportRetCode.ParserPacketChecksum };
@@ -0,0 +1,465 @@
+import Debug from 'debug';
+import { EventEmitter } from 'events';
+
+import { H5, H5Packet, H5TransportRetCode } from './H5';
+import { Slip } from './Slip';
+import { HciPacketType } from '../hci/HciPacketType';
+
+const debug = Debug('nble-h5');
+
+// Three-wire UART Transport Layer [Vol 4, Part D]
+
+export enum H5LinkState {
+  Closed, Uninitialized, Initialized, Active,
+}
+
+enum H5LinkControl {
+  Sync          = 0x01,
+  SyncResponse  = 0x02,
+  Config        = 0x03,
+  ConfigResponse= 0x04,
+  Wakeup        = 0x05,
+  Woken         = 0x06,
+  Sleep         = 0x07,
+}
+
+const H5LinkControlMessages: Record<H5LinkControl, Buffer> = {
+  [H5LinkControl.Sync]:           Buffer.from([0x01, 0x7E]),
+  [H5LinkControl.SyncResponse]:   Buffer.from([0x02, 0x7D]),
+  [H5LinkControl.Config]:         Buffer.from([0x03, 0xFC]),
+  [H5LinkControl.ConfigResponse]: Buffer.from([0x04, 0x7B]),
+  [H5LinkControl.Wakeup]:         Buffer.from([0x05, 0xFA]),
+  [H5LinkControl.Woken]:          Buffer.from([0x06, 0xF9]),
+  [H5LinkControl.Sleep]:          Buffer.from([0x07, 0x78]),
+};
+
+interface H5LinkInit {
+  write: (data: Buffer) => void;
+  windowSize?: number;
+  crc?: boolean;
+  linkEstablishmentIntervalMs?: number;
+  retransmissionTimeoutMs?: number;
+  maxRetransmissions?: number;
+}
+
+interface H5Config {
+  windowSize: number;
+  crc: boolean;
+}
+
+interface H5WaitActive {
+  promise: Promise<void>;
+  resolve: () => void;
+  reject: (err: Error) => void;
+}
+
+interface H5TxPacket {
+  seqNum: number;
+  packetType: HciPacketType;
+  payload: Buffer;
+}
+
+export declare interface H5Link {
+  on(event: 'data',  listener: (packetType: HciPacketType, data: Buffer) => void): this;
+  on(event: 'state', listener: (state: H5LinkState) => void): this;
+  // Peer reset detected or link reset after too many retransmissions
+  on(event: 'reset', listener: () => void): this;
+}
+
+export class H5Link extends EventEmitter {
+  private readonly h5 = new H5();
+  private readonly slip = new Slip();
+
+  private readonly write: (data: Buffer) => void;
+  private readonly localConfig: H5Config;
+  private readonly linkEstablishmentIntervalMs: number;
+  private readonly retransmissionTimeoutMs: number;
+  private readonly maxRetransmissions: number;
+
+  private state = H5LinkState.Closed;
+  private config: H5Config;
+
+  private txSeqNum = 0;
+  private rxAckNum = 0;
+  private txQueue: H5TxPacket[] = [];
+  private unacked: H5TxPacket[] = [];
+  private retransmissions = 0;
+  private ackPending = false;
+
+  private linkTimer: NodeJS.Timeout | null = null;
+  private retransmissionTimer: NodeJS.Timeout | null = null;
+
+  // Shared by every open() issued before the link became active
+  private waitActive: H5WaitActive | null = null;
+
+  public constructor(init: H5LinkInit) {
+    super();
+
+    this.write = init.write;
+    this.localConfig = {
+      windowSize: Math.min(Math.max(init.windowSize ?? 4, 1), 7),
+      crc: init.crc ?? true,
+    };
+    this.config = { ...this.localConfig };
+    this.linkEstablishmentIntervalMs = init.linkEstablishmentIntervalMs ?? 250;
+    this.retransmissionTimeoutMs     = init.retransmissionTimeoutMs     ?? 250;
+    this.maxRetransmissions          = init.maxRetransmissions          ?? 10;
+  }
+
+  public getState(): H5LinkState {
+    return this.state;
+  }
+
+  public isActive(): boolean {
+    return this.state === H5LinkState.Active;
+  }
+
+  public async open(): Promise<void> {
+    if (this.state === H5LinkState.Active) {
+      return;
+    }
+
+    const waitActive = this.waitActive ?? this.createWaitActive();
+
+    if (this.state === H5LinkState.Closed) {
+      this.resetLink();
+    }
+
+    await waitActive.promise;
+  }
+
+  public close(): void {
+    this.stopLinkTimer();
+    this.stopRetransmissionTimer();
+
+    this.txQueue = [];
+    this.unacked = [];
+    this.slip.resetDecoder();
+    this.setState(H5LinkState.Closed);
+
+    if (this.waitActive) {
+      this.waitActive.reject(new Error('H5 link closed'));
+      this.waitActive = null;
+    }
+  }
+
+  public send = (packetType: HciPacketType, data: Buffer): void => {
+    if (!this.isReliable(packetType)) {
+      this.sendPacket({ seqNum: 0, packetType, payload: data }, false);
+      return;
+    }
+    this.txQueue.push({ seqNum: 0, packetType, payload: data });
+    this.flush();
+  }
+
+  public onSerialData(data: Buffer): void {
+    for (const frame of this.slip.decode(data)) {
+      const result = this.h5.decode(frame);
+      const code = result.code;
+      if (code !== 0) {
+        debug(`dropping frame, decoder error ${H5TransportRetCode[code]}`);
+        continue;
+      }
+      this.onPacket(result as H5Packet);
+    }
+  }
+
+  private onPacket(packet: H5Packet): void {
+    const payload = packet.payload ?? Buffer.allocUnsafe(0);
+
+    if (packet.packetType === HciPacketType.LinkControl) {
+      return this.onLinkControl(payload);
+    }
+
+    if (this.state !== H5LinkState.Active) {
+      debug(`dropping packet (type ${packet.packetType}), link not active`);
+      return;
+    }
+
+    this.onAck(packet.ackNum);
+
+    if (packet.reliablePacket) {
+      if (packet.seqNum !== this.rxAckNum) {
+        debug(`out of order packet ${packet.seqNum}, expected ${this.rxAckNum}`);
+        this.scheduleAck();
+        return;
+      }
+      this.rxAckNum = (this.rxAckNum + 1) & 0x07;
+      this.scheduleAck();
+    }
+
+    if (packet.packetType === HciPacketType.Ack) {
+      return;
+    }
+
+    this.emit('data', packet.packetType, payload);
+  }
+
+  private onLinkControl(payload: Buffer): void {
+    if (payload.length < 2) {
+      debug(`invalid link control message`);
+      return;
+    }
+
+    const type: H5LinkControl = payload[0];
+
+    switch (type) {
+      case H5LinkControl.Sync:
+        if (this.state === H5LinkState.Active) {
+          debug('peer reset detected');
+          this.emit('reset');
+          this.resetLink();
+        }
+        this.sendLinkControl(H5LinkControl.SyncResponse);
+        break;
+
+      case H5LinkControl.SyncResponse:
+        if (this.state === H5LinkState.Uninitialized) {
+          this.setState(H5LinkState.Initialized);
+          this.sendLinkControl(H5LinkControl.Config, this.buildConfigField(this.localConfig));
+          this.startLinkTimer();
+        }
+        break;
+
+      case H5LinkControl.Config:
+        if (this.state !== H5LinkState.Uninitialized) {
+          this.sendLinkControl(H5LinkControl.ConfigResponse, this.buildConfigField(this.localConfig));
+        }
+        break;
+
+      case H5LinkControl.ConfigResponse:
+        if (this.state === H5LinkState.Initialized) {
+          const peerConfig = this.parseConfigField(payload[2]);
+          this.config = {
+            windowSize: Math.min(this.localConfig.windowSize, peerConfig.windowSize),
+            crc:        this.localConfig.crc && peerConfig.crc,
+          };
+          debug(`link active, config: ${JSON.stringify(this.config)}`);
+          this.stopLinkTimer();
+          this.setState(H5LinkState.Active);
+          if (this.waitActive) {
+            this.waitActive.resolve();
+            this.waitActive = null;
+          }
+          this.flush();
+        }
+        break;
+
+      case H5LinkControl.Wakeup:
+        this.sendLinkControl(H5LinkControl.Woken);
+        break;
+
+      case H5LinkControl.Woken:
+      case H5LinkControl.Sleep:
+        break;
+
+      default:
+        debug(`unknown link control message ${type}`);
+        break;
+    }
+  }
+
+  private onAck(ackNum: number): void {
+    if (this.unacked.length === 0) {
+      return;
+    }
+
+    const numAcked = (ackNum - this.unacked[0].seqNum) & 0x07;
+    if (numAcked === 0 || numAcked > this.unacked.length) {
+      return;
+    }
+
+    this.unacked.splice(0, numAcked);
+    this.retransmissions = 0;
+    this.stopRetransmissionTimer();
+
+    if (this.unacked.length > 0) {
+      this.startRetransmissionTimer();
+    }
+
+    this.flush();
+  }
+
+  private flush(): void {
+    if (this.state !== H5LinkState.Active) {
+      return;
+    }
+
+    while (this.txQueue.length > 0 && this.unacked.length < this.config.windowSize) {
+      const packet = this.txQueue.shift()!;
+      packet.seqNum = this.txSeqNum;
+      this.txSeqNum = (this.txSeqNum + 1) & 0x07;
+
+      this.unacked.push(packet);
+      this.sendPacket(packet, true);
+    }
+
+    if (this.unacked.length > 0 && this.retransmissionTimer === null) {
+      this.startRetransmissionTimer();
+    }
+  }
+
+  private onRetransmissionTimeout = (): void => {
+    this.retransmissionTimer = null;
+
+    if (this.unacked.length === 0) {
+      return;
+    }
+
+    if (++this.retransmissions > this.maxRetransmissions) {
+      debug('too many retransmissions, resetting link');
+      this.emit('reset');
+      this.resetLink();
+      return;
+    }
+
+    debug(`retransmitting ${this.unacked.length} packet(s)`);
+
+    for (const packet of this.unacked) {
+      this.sendPacket(packet, true);
+    }
+
+    this.startRetransmissionTimer();
+  }
+
+  private scheduleAck(): void {
+    if (this.ackPending) {
+      return;
+    }
+    this.ackPending = true;
+
+    setImmediate(() => {
+      // Link may have been closed or reset in the meantime
+      if (!this.ackPending || !this.isActive()) {
+        return;
+      }
+      this.sendPacket({ seqNum: 0, packetType: HciPacketType.Ack, payload: Buffer.allocUnsafe(0) }, false);
+    });
+  }
+
+  private sendPacket(packet: H5TxPacket, reliable: boolean): void {
+    this.ackPending = false;
+
+    const frame = this.h5.encode({
+      seqNum:         packet.seqNum,
+      ackNum:         this.rxAckNum,
+      crcPresent:     this.config.crc ? 1 : 0,
+      reliablePacket: reliable ? 1 : 0,
+      packetType:     packet.packetType,
+      payload:        packet.payload,
+    });
+
+    this.write(this.slip.encode(frame));
+  }
+
+  private sendLinkControl(type: H5LinkControl, config?: number): void {
+    const message = H5LinkControlMessages[type];
+    const payload = config === undefined ? message : Buffer.from([ ...message, config ]);
+
+    const frame = this.h5.encode({
+      seqNum:         0,
+      ackNum:         0,
+      crcPresent:     0,
+      reliablePacket: 0,
+      packetType:     HciPacketType.LinkControl,
+      payload,
+    });
+
+    this.write(this.slip.encode(frame));
+  }
+
+  private resetLink(): void {
+    this.stopLinkTimer();
+    this.stopRetransmissionTimer();
+
+    // Packets which were not acknowledged are lost, the peer
+    // starts from scratch and has to be re-initialised anyway.
+    this.unacked = [];
+    this.txSeqNum = 0;
+    this.rxAckNum = 0;
+    this.retransmissions = 0;
+    this.ackPending = false;
+    this.config = { ...this.localConfig };
+
+    this.setState(H5LinkState.Uninitialized);
+    this.sendLinkControl(H5LinkControl.Sync);
+    this.startLinkTimer();
+  }
+
+  private createWaitActive(): H5WaitActive {
+    let resolve: () => void = () => {};
+    let reject: (err: Error) => void = () => {};
+    const promise = new Promise<void>((res, rej) => {
+      resolve = res;
+      reject = rej;
+    });
+    this.waitActive = { promise, resolve, reject };
+    return this.waitActive;
+  }
+
+  private startLinkTimer(): void {
+    this.stopLinkTimer();
+    this.linkTimer = setInterval(() => {
+      if (this.state === H5LinkState.Uninitialized) {
+        this.sendLinkControl(H5LinkControl.Sync);
+      } else if (this.state === H5LinkState.Initialized) {
+        this.sendLinkControl(H5LinkControl.Config, this.buildConfigField(this.localConfig));
+      }
+    }, this.linkEstablishmentIntervalMs);
+  }
+
+  private stopLinkTimer(): void {
+    if (this.linkTimer) {
+      clearInterval(this.linkTimer);
+      this.linkTimer = null;
+    }
+  }
+
+  private startRetransmissionTimer(): void {
+    this.stopRetransmissionTimer();
+    this.retransmissionTimer = setTimeout(this.onRetransmissionTimeout, this.retransmissionTimeoutMs);
+  }
+
+  private stopRetransmissionTimer(): void {
+    if (this.retransmissionTimer) {
+      clearTimeout(this.retransmissionTimer);
+      this.retransmissionTimer = null;
+    }
+  }
+
+  private setState(state: H5LinkState): void {
+    if (this.state === state) {
+      return;
+    }
+    debug(`state ${H5LinkState[this.state]} -> ${H5LinkState[state]}`);
+    this.state = state;
+    this.emit('state', state);
+  }
+
+  private buildConfigField(config: H5Config): number {
+    return (config.windowSize & 0x07) | ((config.crc ? 1 : 0) << 4);
+  }
+
+  private parseConfigField(field?: number): H5Config {
+    if (field === undefined) {
+      // Config field is optional, defaults: window 1, no CRC
+      return { windowSize: 1, crc: false };
+    }
+    return {
+      windowSize: field & 0x07,
+      crc: ((field >> 4) & 0x01) === 1,
+    };
+  }
+
+  private isReliable(packetType: HciPacketType): boolean {
+    switch (packetType) {
+      case HciPacketType.HciCommand:
+      case HciPacketType.HciAclData:
+      case HciPacketType.HciEvent:
+      case HciPacketType.HciIsoData:
+      case HciPacketType.VendorSpecific:
+        return true;
+    }
+    return false;
+  }
+}
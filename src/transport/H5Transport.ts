@@ -0,0 +1,89 @@
+import { EventEmitter } from 'events';
+import Debug from 'debug';
+
+import { H5Link } from './H5Link';
+import { HciTransport, HciTransportStream } from './HciTransport';
+import { HciPacketType } from '../hci/HciPacketType';
+
+const debug = Debug('nble-h5');
+
+interface H5TransportInit {
+  windowSize?: number;
+  crc?: boolean;
+  linkEstablishmentIntervalMs?: number;
+  retransmissionTimeoutMs?: number;
+  maxRetransmissions?: number;
+}
+
+export declare interface H5Transport {
+  on(event: 'packet', listener: (packetType: HciPacketType, data: Buffer) => void): this;
+  on(event: 'error',  listener: (err: Error) => void): this;
+  on(event: 'close',  listener: () => void): this;
+  on(event: 'reset',  listener: () => void): this;
+}
+
+export class H5Transport extends EventEmitter implements HciTransport {
+  private readonly link: H5Link;
+  private opened = false;
+
+  public constructor(private readonly stream: HciTransportStream, init: H5TransportInit = {}) {
+    super();
+
+    this.link = new H5Link({
+      ...init,
+      write: (data) => this.stream.write(data),
+    });
+    this.link.on('data',  (packetType, data) => this.emit('packet', packetType, data));
+    this.link.on('reset', () => this.emit('reset'));
+  }
+
+  public async open(): Promise<void> {
+    if (this.opened) {
+      return;
+    }
+    this.opened = true;
+
+    this.stream.on('data',  this.onStreamData);
+    this.stream.on('error', this.onStreamError);
+    this.stream.on('close', this.onStreamClose);
+
+    await this.link.open();
+  }
+
+  public async close(): Promise<void> {
+    if (!this.opened) {
+      return;
+    }
+    this.detach();
+    this.emit('close');
+  }
+
+  public send(packetType: HciPacketType, data: Buffer): void {
+    if (!this.opened) {
+      debug('send: transport not opened');
+      return;
+    }
+    this.link.send(packetType, data);
+  }
+
+  private detach(): void {
+    this.opened = false;
+    this.link.close();
+    this.stream.removeListener('data',  this.onStreamData);
+    this.stream.removeListener('error', this.onStreamError);
+    this.stream.removeListener('close', this.onStreamClose);
+  }
+
+  private onStreamData = (data: Buffer): void => {
+    this.link.onSerialData(data);
+  }
+
+  private onStreamError = (err: Error): void => {
+    this.emit('error', err);
+  }
+
+  private onStreamClose = (): void => {
+    this.detach();
+    this.emit('close');
+  }
+}
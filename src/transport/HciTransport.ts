@@ -0,0 +1,22 @@
+import { EventEmitter } from 'events';
+import { HciPacketType } from '../hci/HciPacketType';
+
+export interface HciTransport extends EventEmitter {
+  open(): Promise<void>;
+  close(): Promise<void>;
+  send(packetType: HciPacketType, data: Buffer): void;
+
+  on(event: 'packet', listener: (packetType: HciPacketType, data: Buffer) => void): this;
+  on(event: 'error',  listener: (err: Error) => void): this;
+  on(event: 'close',  listener: () => void): this;
+}
+
+export interface HciTransportStream {
+  write(data: Buffer): unknown;
+  on(event: 'data',  listener: (data: Buffer) => void): unknown;
+  on(event: 'error', listener: (err: Error) => void): unknown;
+  on(event: 'close', listener: () => void): unknown;
+  removeListener(event: 'data',  listener: (data: Buffer) => void): unknown;
+  removeListener(event: 'error', listener: (err: Error) => void): unknown;
+  removeListener(event: 'close', listener: () => void): unknown;
+}
@@ -0,0 +1,56 @@
+import { EventEmitter } from 'events';
+import Debug from 'debug';
+
+import { HciTransport } from './HciTransport';
+import { HciPacketType } from '../hci/HciPacketType';
+
+const debug = Debug('nble-memory');
+
+export class MemoryTransport extends EventEmitter implements HciTransport {
+  private peer: MemoryTransport | null = null;
+  private opened = false;
+
+  public static createPair(): [MemoryTransport, MemoryTransport] {
+    const a = new MemoryTransport();
+    const b = new MemoryTransport();
+    a.peer = b;
+    b.peer = a;
+    return [a, b];
+  }
+
+  public async open(): Promise<void> {
+    this.opened = true;
+  }
+
+  public async close(): Promise<void> {
+    if (!this.opened) {
+      return;
+    }
+    this.opened = false;
+    this.emit('close');
+  }
+
+  public isOpen(): boolean {
+    return this.opened;
+  }
+
+  // Sent packets are delivered to the peer, without peer
+  // the transport works as a loopback.
+  public send(packetType: HciPacketType, data: Buffer): void {
+    if (!this.opened) {
+      debug('send: transport not opened');
+      return;
+    }
+    const target = this.peer ?? this;
+    const packet = Buffer.from(data);
+    setImmediate(() => target.inject(packetType, packet));
+  }
+
+  public inject(packetType: HciPacketType, data: Buffer): void {
+    if (!this.opened) {
+      debug(`inject: transport not opened, dropping packet (type ${packetType})`);
+      return;
+    }
+    this.emit('packet', packetType, data);
+  }
+}
@@ -0,0 +1,211 @@
+import { EventEmitter } from 'events';
+import fs from 'fs';
+import Debug from 'debug';
+
+import { HciTransport } from './HciTransport';
+import { HciPacketType } from '../hci/HciPacketType';
+import { BtsnoopDirection, BtsnoopRecord } from '../btsnoop/Btsnoop';
+import { BtsnoopReader } from '../btsnoop/BtsnoopReader';
+import { PcapReader } from '../btsnoop/PcapReader';
+
+const debug = Debug('nble-replay');
+
+export enum ReplayMode {
+  Realtime,
+  AsFastAsPossible,
+}
+
+interface ReplayTransportInit {
+  path?: string;
+  records?: BtsnoopRecord[];
+  mode?: ReplayMode;
+  strict?: boolean;
+}
+
+export interface ReplayMismatch {
+  index: number;
+  expected: { packetType: HciPacketType, data: Buffer };
+  actual: { packetType: HciPacketType, data: Buffer };
+}
+
+export declare interface ReplayTransport {
+  on(event: 'packet',   listener: (packetType: HciPacketType, data: Buffer) => void): this;
+  on(event: 'error',    listener: (err: Error) => void): this;
+  on(event: 'close',    listener: () => void): this;
+  // Emitted from send(), every difference is reported here; in strict mode the
+  // replay also stops and 'error' follows asynchronously if anyone listens
+  on(event: 'mismatch', listener: (mismatch: ReplayMismatch) => void): this;
+  on(event: 'end',      listener: () => void): this;
+}
+
+export class ReplayTransport extends EventEmitter implements HciTransport {
+  private readonly records: BtsnoopRecord[];
+  private readonly mode: ReplayMode;
+  private readonly strict: boolean;
+
+  private index = 0;
+  private sentQueue: { packetType: HciPacketType, data: Buffer }[] = [];
+  private mismatches: ReplayMismatch[] = [];
+  private timer: NodeJS.Timeout | null = null;
+  private opened = false;
+  private ended = false;
+  private error: Error | null = null;
+
+  public static load(path: string): BtsnoopRecord[] {
+    const data = fs.readFileSync(path);
+    if (BtsnoopReader.isBtsnoop(data)) {
+      return BtsnoopReader.read(data);
+    }
+    if (PcapReader.isPcap(data)) {
+      return PcapReader.read(data);
+    }
+    throw new Error(`${path}: unknown capture file format`);
+  }
+
+  public constructor(init: ReplayTransportInit) {
+    super();
+
+    if (init.records) {
+      this.records = init.records;
+    } else if (init.path) {
+      this.records = ReplayTransport.load(init.path);
+    } else {
+      throw new Error('Either path or records has to be specified');
+    }
+
+    this.mode   = init.mode   ?? ReplayMode.AsFastAsPossible;
+    this.strict = init.strict ?? true;
+  }
+
+  public getMismatches(): ReplayMismatch[] {
+    return [ ...this.mismatches ];
+  }
+
+  public isEnded(): boolean {
+    return this.ended;
+  }
+
+  public async open(): Promise<void> {
+    if (this.opened) {
+      return;
+    }
+    this.opened = true;
+    this.schedule();
+  }
+
+  public async close(): Promise<void> {
+    if (!this.opened) {
+      return;
+    }
+    this.opened = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.emit('close');
+  }
+
+  public async waitForEnd(): Promise<void> {
+    if (this.error) {
+      throw this.error;
+    }
+    if (this.ended) {
+      return;
+    }
+    return new Promise<void>((resolve, reject) => {
+      const onEnd = () => {
+        this.removeListener('error', onError);
+        resolve();
+      };
+      const onError = (err: Error) => {
+        this.removeListener('end', onEnd);
+        reject(err);
+      };
+      this.once('end', onEnd);
+      this.once('error', onError);
+    });
+  }
+
+  public send(packetType: HciPacketType, data: Buffer): void {
+    if (!this.opened) {
+      return;
+    }
+    this.sentQueue.push({ packetType, data: Buffer.from(data) });
+    this.schedule();
+  }
+
+  private schedule(): void {
+    if (this.timer || !this.opened || this.ended) {
+      return;
+    }
+
+    const record = this.records[this.index];
+    if (!record) {
+      return this.end();
+    }
+
+    if (record.direction === BtsnoopDirection.Sent) {
+      const actual = this.sentQueue.shift();
+      if (!actual) {
+        // Wait for the stack
+        return;
+      }
+      this.verify(record, actual);
+      this.index++;
+      return this.schedule();
+    }
+
+    let delay = 0;
+    if (this.mode === ReplayMode.Realtime && this.index > 0) {
+      const previous = this.records[this.index - 1];
+      delay = Math.max(Number(record.timestamp - previous.timestamp) / 1000, 0);
+    }
+
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.index++;
+      this.emit('packet', record.packetType, record.data);
+      this.schedule();
+    }, delay);
+  }
+
+  private verify(record: BtsnoopRecord, actual: { packetType: HciPacketType, data: Buffer }): void {
+    if (record.packetType === actual.packetType && record.data.equals(actual.data)) {
+      return;
+    }
+
+    const mismatch: ReplayMismatch = {
+      index: this.index,
+      expected: { packetType: record.packetType, data: record.data },
+      actual,
+    };
+    debug(
+      `mismatch at record ${mismatch.index}: ` +
+      `expected ${record.packetType}:${record.data.toString('hex')}, ` +
+      `actual ${actual.packetType}:${actual.data.toString('hex')}`
+    );
+
+    this.mismatches.push(mismatch);
+    this.emit('mismatch', mismatch);
+
+    if (this.strict) {
+      const err = new Error(`Replay mismatch at record ${mismatch.index}`);
+      this.ended = true;
+      this.error = err;
+      // Not thrown into the stack which is sending the packet
+      setImmediate(() => {
+        if (this.listenerCount('error') > 0) {
+          this.emit('error', err);
+        }
+      });
+    }
+  }
+
+  private end(): void {
+    this.ended = true;
+    if (this.sentQueue.length > 0) {
+      debug(`${this.sentQueue.length} packet(s) sent after end of capture`);
+    }
+    this.emit('end');
+  }
+}
@@ -3,52 +3,74 @@ enum SlipDecoderState {
 }
 
 export class Slip {
-  private readonly END     = 0x0C; // indicates end of packet
+  private readonly END     = 0xC0; // indicates end of packet
   private readonly ESC     = 0xDB; // indicates byte stuffing
   private readonly ESC_END = 0xDC; // ESC ESC_END means END data byte
   private readonly ESC_ESC = 0xDD; // ESC ESC_ESC means ESC data byte
 
+  private readonly escapedEnd = Buffer.from([ this.END ]);
+  private readonly escapedEsc = Buffer.from([ this.ESC ]);
+
   private decoderState = SlipDecoderState.WaitBeg;
-  private decoderData: number[] = [];
+  private decoderData = Buffer.allocUnsafe(512);
+  private decoderLength = 0;
 
+  // Output is not taken from a scratch buffer like the decoder's, stream
+  // writes keep a reference to it until the data is flushed
   public encode(data: Buffer): Buffer {
-    const encoded = [this.END];
-
+    let escaped = 0;
     for (const byte of data) {
-      switch (byte) {
-        case this.END:
-          encoded.push(this.ESC);
-          encoded.push(this.ESC_END);
-          break;
-        case this.ESC:
-          encoded.push(this.ESC);
-          encoded.push(this.ESC_ESC);
-          break;
-        default:
-          encoded.push(byte);
-          break;
+      if (byte === this.END || byte === this.ESC) {
+        escaped++;
+      }
+    }
+
+    const encoded = Buffer.allocUnsafe(data.length + escaped + 2);
+    let o = 0;
+
+    encoded[o++] = this.END;
+
+    if (escaped === 0) {
+      o += data.copy(encoded, o);
+    } else {
+      for (const byte of data) {
+        switch (byte) {
+          case this.END:
+            encoded[o++] = this.ESC;
+            encoded[o++] = this.ESC_END;
+            break;
+          case this.ESC:
+            encoded[o++] = this.ESC;
+            encoded[o++] = this.ESC_ESC;
+            break;
+          default:
+            encoded[o++] = byte;
+            break;
+        }
       }
     }
 
-    encoded.push(this.END);
-    return Buffer.from(encoded);
+    encoded[o++] = this.END;
+    return encoded;
   }
 
   public resetDecoder(): void {
     this.decoderState = SlipDecoderState.WaitBeg;
-    this.decoderData = [];
+    this.decoderLength = 0;
   }
 
   public decode(data: Buffer): Buffer[] {
     const result: Buffer[] = [];
 
-    for (const byte of data) {
+    for (let i = 0; i < data.length; i++) {
+      const byte = data[i];
+
       switch (this.decoderState) {
         case SlipDecoderState.WaitBeg:
           switch (byte) {
             case this.END:
               this.decoderState = SlipDecoderState.WaitEnd;
-              this.decoderData = [];
+              this.decoderLength = 0;
               break;
             default:
               // skip
@@ -62,24 +84,31 @@ export class Slip {
               this.decoderState = SlipDecoderState.WaitEndEsc;
               break;
             case this.END:
-              if (this.decoderData.length > 0) {
-                result.push(Buffer.from(this.decoderData));
-                this.decoderData = [];
+              if (this.decoderLength > 0) {
+                result.push(Buffer.from(this.decoderData.subarray(0, this.decoderLength)));
+                this.decoderLength = 0;
               }
               break;
-            default:
-              this.decoderData.push(byte);
+            default: {
+              // Copy whole run of non-special bytes at once
+              let end = i + 1;
+              while (end < data.length && data[end] !== this.END && data[end] !== this.ESC) {
+                end++;
+              }
+              this.pushDecoderBytes(data.subarray(i, end));
+              i = end - 1;
               break;
+            }
           }
           break;
 
         case SlipDecoderState.WaitEndEsc:
           switch (byte) {
             case this.ESC_END:
-              this.decoderData.push(this.END);
+              this.pushDecoderBytes(this.escapedEnd);
               break;
             case this.ESC_ESC:
-              this.decoderData.push(this.ESC);
+              this.pushDecoderBytes(this.escapedEsc);
               break;
           }
           this.decoderState = SlipDecoderState.WaitEnd;
@@ -89,4 +118,18 @@ export class Slip {
 
     return result;
   }
+
+  private pushDecoderBytes(bytes: Buffer): void {
+    const length = this.decoderLength + bytes.length;
+    if (length > this.decoderData.length) {
+      let capacity = this.decoderData.length * 2;
+      while (capacity < length) {
+        capacity *= 2;
+      }
+      const data = Buffer.allocUnsafe(capacity);
+      this.decoderData.copy(data, 0, 0, this.decoderLength);
+      this.decoderData = data;
+    }
+    this.decoderLength += bytes.copy(this.decoderData, this.decoderLength);
+  }
 }
@@ -0,0 +1,250 @@
+import { EventEmitter } from 'events';
+import fs from 'fs';
+import net from 'net';
+import Debug from 'debug';
+
+import { H4 } from './H4';
+import { HciTransport } from './HciTransport';
+import { HciPacketType } from '../hci/HciPacketType';
+
+const debug = Debug('nble-socket');
+
+interface SocketTransportInit {
+  // TCP
+  host?: string;
+  port?: number;
+  // Unix domain socket
+  path?: string;
+
+  listen?: boolean;
+  reconnect?: boolean;
+  reconnectIntervalMs?: number;
+}
+
+export declare interface SocketTransport {
+  on(event: 'packet',     listener: (packetType: HciPacketType, data: Buffer) => void): this;
+  on(event: 'error',      listener: (err: Error) => void): this;
+  on(event: 'close',      listener: () => void): this;
+  on(event: 'connect',    listener: () => void): this;
+  on(event: 'disconnect', listener: () => void): this;
+}
+
+export class SocketTransport extends EventEmitter implements HciTransport {
+  private readonly init: SocketTransportInit;
+  private readonly reconnect: boolean;
+  private readonly reconnectIntervalMs: number;
+
+  private h4 = new H4();
+  private socket: net.Socket | null = null;
+  // Connection attempt which has not completed yet
+  private pendingSocket: net.Socket | null = null;
+  private server: net.Server | null = null;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private closing = false;
+
+  public constructor(init: SocketTransportInit) {
+    super();
+
+    if (init.path === undefined && init.port === undefined) {
+      throw new Error('Either path or port has to be specified');
+    }
+
+    this.init = init;
+    this.reconnect = init.reconnect ?? true;
+    this.reconnectIntervalMs = init.reconnectIntervalMs ?? 1000;
+  }
+
+  public isConnected(): boolean {
+    return this.socket !== null;
+  }
+
+  public async open(): Promise<void> {
+    this.closing = false;
+
+    const waitConnected = new Promise<void>((resolve, reject) => {
+      const onConnect = () => {
+        this.removeListener('error', onError);
+        resolve();
+      };
+      const onError = (err: Error) => {
+        this.removeListener('connect', onConnect);
+        reject(err);
+      };
+      this.once('connect', onConnect);
+      this.once('error', onError);
+    });
+
+    if (this.init.listen) {
+      this.listen().catch((err) => this.emit('error', err));
+    } else {
+      this.connect();
+    }
+
+    await waitConnected;
+  }
+
+  public async close(): Promise<void> {
+    this.closing = true;
+
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+
+    this.pendingSocket?.destroy();
+    this.pendingSocket = null;
+    this.socket?.destroy();
+    this.socket = null;
+
+    if (this.server) {
+      const server = this.server;
+      this.server = null;
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+
+    this.emit('close');
+  }
+
+  public send(packetType: HciPacketType, data: Buffer): void {
+    if (!this.socket) {
+      debug(`send: not connected, dropping packet (type ${packetType})`);
+      return;
+    }
+    this.socket.write(Buffer.concat([ Buffer.from([ packetType ]), data ]));
+  }
+
+  private async listen(): Promise<void> {
+    if (this.init.path !== undefined) {
+      await this.removeStaleSocket(this.init.path);
+    }
+    if (this.closing) {
+      return;
+    }
+
+    const server = net.createServer((socket) => {
+      if (this.socket) {
+        debug('dropping previous connection');
+        this.socket.destroy();
+      }
+      this.attach(socket);
+    });
+    server.on('error', (err) => this.emit('error', err));
+
+    if (this.init.path !== undefined) {
+      server.listen(this.init.path);
+    } else {
+      server.listen(this.init.port, this.init.host);
+    }
+
+    this.server = server;
+  }
+
+  // Left behind by a previous run that did not close the server, a socket
+  // which still accepts connections belongs to a live server and is kept
+  private async removeStaleSocket(path: string): Promise<void> {
+    try {
+      if (!fs.statSync(path).isSocket()) {
+        return;
+      }
+    } catch (err) {
+      if (err.code !== 'ENOENT') {
+        debug(`stale socket: ${err.message}`);
+      }
+      return;
+    }
+
+    const stale = await new Promise<boolean>((resolve) => {
+      const probe = net.connect(path);
+      probe.once('connect', () => {
+        probe.destroy();
+        resolve(false);
+      });
+      probe.once('error', (err: NodeJS.ErrnoException) => resolve(err.code === 'ECONNREFUSED'));
+    });
+    if (!stale) {
+      debug(`socket in use: ${path}`);
+      return;
+    }
+
+    try {
+      fs.unlinkSync(path);
+    } catch (err) {
+      debug(`stale socket: ${err.message}`);
+    }
+  }
+
+  private connect(): void {
+    this.reconnectTimer = null;
+
+    const socket = this.init.path !== undefined ?
+      net.connect(this.init.path) :
+      net.connect(this.init.port!, this.init.host ?? 'localhost');
+
+    this.pendingSocket = socket;
+
+    socket.once('connect', () => {
+      this.pendingSocket = null;
+      if (this.closing) {
+        socket.destroy();
+        return;
+      }
+      this.attach(socket);
+    });
+    socket.once('error', (err) => {
+      if (this.socket === socket) {
+        return;
+      }
+      if (this.pendingSocket === socket) {
+        this.pendingSocket = null;
+      }
+      if (this.reconnect && !this.closing) {
+        debug(`connect failed: ${err.message}`);
+        this.scheduleReconnect();
+      } else {
+        this.emit('error', err);
+      }
+    });
+  }
+
+  private attach(socket: net.Socket): void {
+    debug(`connected`);
+
+    this.h4 = new H4();
+    this.socket = socket;
+
+    socket.setNoDelay(true);
+    socket.on('data', (data) => this.onSocketData(data));
+    // Connection errors are followed by 'close', which drives the reconnect
+    socket.on('error', (err) => debug(`socket error: ${err.message}`));
+    socket.on('close', () => this.onSocketClose(socket));
+
+    this.emit('connect');
+  }
+
+  private onSocketData(data: Buffer): void {
+    for (const { type, packet } of this.h4.parse(data)) {
+      this.emit('packet', type, packet);
+    }
+  }
+
+  private onSocketClose(socket: net.Socket): void {
+    if (this.socket !== socket) {
+      return;
+    }
+    debug(`disconnected`);
+
+    this.socket = null;
+    this.emit('disconnect');
+
+    if (!this.init.listen) {
+      this.scheduleReconnect();
+    }
+  }
+
+  private scheduleReconnect(): void {
+    if (this.closing || !this.reconnect || this.reconnectTimer) {
+      return;
+    }
+    this.reconnectTimer = setTimeout(() => this.connect(), this.reconnectIntervalMs);
+  }
+}
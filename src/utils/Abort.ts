@@ -0,0 +1,33 @@
+// Structural subset of AbortSignal, @types/node 14 does not declare it
+export interface AbortSignal {
+  readonly aborted: boolean;
+  addEventListener(type: 'abort', listener: () => void, options?: { once?: boolean }): void;
+  removeEventListener(type: 'abort', listener: () => void): void;
+}
+
+export interface AbortOptions {
+  signal?: AbortSignal;
+  timeoutMs?: number;
+}
+
+export class AbortError extends Error {
+  public code = 'ABORT_ERR';
+
+  constructor(message = 'The operation was aborted') {
+    super(message);
+
+    this.name = this.constructor.name;
+
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, this.constructor);
+    }
+  }
+}
+
+export function onAbort(signal: AbortSignal | undefined, listener: () => void): () => void {
+  if (!signal) {
+    return () => {};
+  }
+  signal.addEventListener('abort', listener, { once: true });
+  return () => signal.removeEventListener('abort', listener);
+}
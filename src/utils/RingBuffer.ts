@@ -0,0 +1,79 @@
+export class RingBuffer {
+  private buffer: Buffer;
+  private head = 0;
+  private size = 0;
+
+  public constructor(capacity = 1024) {
+    this.buffer = Buffer.allocUnsafe(capacity);
+  }
+
+  public get length(): number {
+    return this.size;
+  }
+
+  public push(data: Buffer): void {
+    this.reserve(this.size + data.length);
+
+    const tail = (this.head + this.size) % this.buffer.length;
+    const firstPart = Math.min(data.length, this.buffer.length - tail);
+
+    data.copy(this.buffer, tail, 0, firstPart);
+    data.copy(this.buffer, 0, firstPart);
+
+    this.size += data.length;
+  }
+
+  public peek(offset: number): number {
+    if (offset >= this.size) {
+      throw new RangeError('RingBuffer: offset out of range');
+    }
+    return this.buffer[(this.head + offset) % this.buffer.length];
+  }
+
+  public read(length: number): Buffer {
+    const data = Buffer.allocUnsafe(length);
+    const firstPart = Math.min(length, this.buffer.length - this.head);
+
+    this.buffer.copy(data, 0, this.head, this.head + firstPart);
+    this.buffer.copy(data, firstPart, 0, length - firstPart);
+
+    this.skip(length);
+    return data;
+  }
+
+  public skip(length: number): void {
+    if (length > this.size) {
+      throw new RangeError('RingBuffer: length out of range');
+    }
+    this.head = (this.head + length) % this.buffer.length;
+    this.size -= length;
+    if (this.size === 0) {
+      this.head = 0;
+    }
+  }
+
+  public clear(): void {
+    this.head = 0;
+    this.size = 0;
+  }
+
+  private reserve(capacity: number): void {
+    if (capacity <= this.buffer.length) {
+      return;
+    }
+
+    let newCapacity = this.buffer.length * 2;
+    while (newCapacity < capacity) {
+      newCapacity *= 2;
+    }
+
+    const buffer = Buffer.allocUnsafe(newCapacity);
+    const length = this.size;
+    const data = this.read(length);
+    data.copy(buffer, 0);
+
+    this.buffer = buffer;
+    this.head = 0;
+    this.size = length;
+  }
+}
@@ -0,0 +1,129 @@
+const assert = require('assert');
+
+const { Hci } = require('../lib/src/hci/Hci');
+const { L2CAP } = require('../lib/src/l2cap/L2CAP');
+const { Att } = require('../lib/src/att/Att');
+const { VirtualAir } = require('../lib/src/controller/VirtualAir');
+const {
+  LeAdvertisingChannelMap, LeAdvertisingEventProperties, LeAdvertisingFilterPolicy, LeInitiatorFilterPolicy,
+  LeOwnAddressType, LePeerAddressType, LePrimaryAdvertisingPhy, LeSecondaryAdvertisingPhy,
+} = require('../lib/src/hci/HciLeController');
+
+async function connect(pair) {
+  const [transportA, transportB] = pair.transports;
+  await transportA.open();
+  await transportB.open();
+
+  const server = new Hci({ transport: transportA, autoEventMask: true });
+  const client = new Hci({ transport: transportB, autoEventMask: true });
+  await server.reset();
+  await client.reset();
+
+  const serverL2cap = new L2CAP(server);
+  const clientL2cap = new L2CAP(client);
+  await serverL2cap.init();
+  await clientL2cap.init();
+
+  const serverAddress = pair.controllers[0].getAddress();
+
+  await server.leSetExtendedAdvertisingParameters(0, {
+    advertisingEventProperties:      [LeAdvertisingEventProperties.Connectable],
+    primaryAdvertisingIntervalMinMs: 20,
+    primaryAdvertisingIntervalMaxMs: 20,
+    primaryAdvertisingChannelMap:    [
+      LeAdvertisingChannelMap.Channel37, LeAdvertisingChannelMap.Channel38, LeAdvertisingChannelMap.Channel39,
+    ],
+    ownAddressType:                  LeOwnAddressType.PublicDeviceAddress,
+    peerAddressType:                 LePeerAddressType.PublicDeviceAddress,
+    peerAddress:                     serverAddress,
+    advertisingFilterPolicy:         LeAdvertisingFilterPolicy.Any,
+    primaryAdvertisingPhy:           LePrimaryAdvertisingPhy.Phy1M,
+    secondaryAdvertisingMaxSkip:     0,
+    secondaryAdvertisingPhy:         LeSecondaryAdvertisingPhy.Phy1M,
+    advertisingSid:                  0,
+    scanRequestNotificationEnable:   false,
+  });
+  await server.leSetExtendedAdvertisingEnable({ enable: true, sets: [{ advertHandle: 0 }] });
+
+  const serverConnected = server.waitFor('LeEnhancedConnectionComplete', (err) => !err, { timeoutMs: 2000 });
+  const clientConnected = client.waitFor('LeEnhancedConnectionComplete', (err) => !err, { timeoutMs: 2000 });
+
+  await client.leExtendedCreateConnection({
+    initiatorFilterPolicy: LeInitiatorFilterPolicy.PeerAddress,
+    ownAddressType:        LeOwnAddressType.PublicDeviceAddress,
+    peerAddressType:       LePeerAddressType.PublicDeviceAddress,
+    peerAddress:           serverAddress,
+    initiatingPhy: {
+      Phy1M: {
+        scanIntervalMs:          100,
+        scanWindowMs:            100,
+        connectionIntervalMinMs: 30,
+        connectionIntervalMaxMs: 30,
+        connectionLatency:       0,
+        supervisionTimeoutMs:    1000,
+        minCeLengthMs:           0,
+        maxCeLengthMs:           0,
+      },
+    },
+  });
+
+  const [, serverEvent] = await serverConnected;
+  const [, clientEvent] = await clientConnected;
+
+  return {
+    server: new Att(serverL2cap, serverEvent.connectionHandle),
+    client: new Att(clientL2cap, clientEvent.connectionHandle),
+  };
+}
+
+describe('Att over VirtualAir', function() {
+  this.timeout(5000);
+
+  let pair;
+  let server;
+  let client;
+  let value = Buffer.alloc(0);
+
+  before(async function() {
+    pair = await VirtualAir.createLinkedPair({ advertisingIntervalMs: 10 });
+    ({ server, client } = await connect(pair));
+
+    server.on('ExchangeMtuReq', () => server.exchangeMtuRsp({ mtu: 517 }));
+    server.on('WriteReq', (req) => {
+      value = req.attributeValue;
+      server.writeRsp({});
+    });
+    server.on('ReadReq', () => server.readRsp({ attributeValue: value }));
+  });
+
+  after(async function() {
+    server.destroy();
+    client.destroy();
+    await pair.air.close();
+    await Promise.all(pair.transports.map((transport) => transport.close()));
+    await Promise.all(pair.controllers.map((controller) => controller.close()));
+  });
+
+  it('exchanges MTU', async function() {
+    const rsp = await client.exchangeMtuReq({ mtu: 517 });
+    assert.strictEqual(rsp.mtu, 517);
+  });
+
+  it('writes and reads back a value', async function() {
+    await client.writeReq({ attributeHandle: 1, attributeValue: Buffer.from('hello') });
+    const rsp = await client.readReq({ attributeHandle: 1 });
+    assert.deepStrictEqual(rsp.attributeValue, Buffer.from('hello'));
+  });
+
+  it('transfers PDUs larger than a single ACL fragment', async function() {
+    const data = Buffer.alloc(400);
+    for (let i = 0; i < data.length; i++) {
+      data[i] = i & 0xFF;
+    }
+    await client.writeReq({ attributeHandle: 1, attributeValue: data });
+    assert.deepStrictEqual(value, data);
+
+    const rsp = await client.readReq({ attributeHandle: 1 });
+    assert.deepStrictEqual(rsp.attributeValue, data);
+  });
+});
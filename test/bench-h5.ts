@@ -0,0 +1,97 @@
+import { crc16ccitt } from 'crc';
+
+import { H5 } from '../src/transport/H5';
+import { Slip } from '../src/transport/Slip';
+
+// Reference number[] based implementation, kept for comparison only
+
+class LegacySlip {
+  public encode(data: Buffer): Buffer {
+    const encoded = [0xC0];
+    for (const byte of data) {
+      switch (byte) {
+        case 0xC0: encoded.push(0xDB, 0xDC); break;
+        case 0xDB: encoded.push(0xDB, 0xDD); break;
+        default:   encoded.push(byte);       break;
+      }
+    }
+    encoded.push(0xC0);
+    return Buffer.from(encoded);
+  }
+
+  private escape = false;
+  private data: number[] = [];
+
+  public decode(data: Buffer): Buffer[] {
+    const result: Buffer[] = [];
+    for (const byte of data) {
+      if (this.escape) {
+        this.data.push(byte === 0xDC ? 0xC0 : 0xDB);
+        this.escape = false;
+      } else if (byte === 0xDB) {
+        this.escape = true;
+      } else if (byte === 0xC0) {
+        if (this.data.length > 0) {
+          result.push(Buffer.from(this.data));
+          this.data = [];
+        }
+      } else {
+        this.data.push(byte);
+      }
+    }
+    return result;
+  }
+}
+
+function legacyH5Encode(seqNum: number, ackNum: number, packetType: number, payload: Buffer): Buffer {
+  const packet: number[] = [];
+  packet.push((seqNum & 7) | ((ackNum & 7) << 3) | (1 << 6) | (1 << 7));
+  packet.push((packetType & 0x0F) | ((payload.length & 0x0F) << 4));
+  packet.push((payload.length & 0xFF0) >> 4);
+  packet.push(~((packet[0] + packet[1] + packet[2]) & 0xFF) & 0xFF);
+  packet.push(...payload);
+  const crc16 = crc16ccitt(Buffer.from(packet), 0xFFFF);
+  packet.push((crc16 >> 0) & 0xFF);
+  packet.push((crc16 >> 8) & 0xFF);
+  return Buffer.from(packet);
+}
+
+function measure(name: string, iterations: number, bytes: number, fn: () => void): void {
+  fn(); // warm up
+  const start = process.hrtime.bigint();
+  for (let i = 0; i < iterations; i++) {
+    fn();
+  }
+  const elapsedMs = Number(process.hrtime.bigint() - start) / 1e6;
+  const throughput = (iterations * bytes) / (elapsedMs / 1000) / (1024 * 1024);
+  console.log(`${name.padEnd(24)} ${elapsedMs.toFixed(1).padStart(8)} ms ${throughput.toFixed(1).padStart(8)} MiB/s`);
+}
+
+const iterations = 20000;
+const payload = Buffer.alloc(251);
+for (let i = 0; i < payload.length; i++) {
+  payload[i] = i; // includes bytes which have to be escaped
+}
+
+const h5 = new H5();
+const slip = new Slip();
+const legacySlip = new LegacySlip();
+
+const encoderData = {
+  seqNum: 1, ackNum: 2, crcPresent: 1 as const, reliablePacket: 1 as const, packetType: 2, payload,
+};
+const frame = slip.encode(h5.encode(encoderData));
+const stream = Buffer.concat(Array(16).fill(frame));
+
+measure('legacy h5+slip encode', iterations, payload.length, () => {
+  legacySlip.encode(legacyH5Encode(1, 2, 2, payload));
+});
+measure('h5+slip encode', iterations, payload.length, () => {
+  slip.encode(h5.encode(encoderData));
+});
+measure('legacy slip+h5 decode', iterations / 16, stream.length, () => {
+  legacySlip.decode(stream).forEach((f) => h5.decode(f));
+});
+measure('slip+h5 decode', iterations / 16, stream.length, () => {
+  slip.decode(stream).forEach((f) => h5.decode(f));
+});
@@ -0,0 +1,217 @@
+const assert = require('assert');
+
+const { Hci } = require('../lib/src/hci/Hci');
+const { HciError, HciErrorCode } = require('../lib/src/hci/HciError');
+const { AdvData, AdvDataType } = require('../lib/src/gap/AdvData');
+const { Gap } = require('../lib/src/gap/Gap');
+const { VirtualAir } = require('../lib/src/controller/VirtualAir');
+const { Big, BigSync } = require('../lib/src/iso/Big');
+const {
+  LeAdvertisingChannelMap, LeAdvertisingFilterPolicy, LeOwnAddressType, LePeerAddressType,
+  LePrimaryAdvertisingPhy, LeSecondaryAdvertisingPhy,
+} = require('../lib/src/hci/HciLeController');
+
+const advertisingSid = 1;
+
+async function setup(pair) {
+  const [transportA, transportB] = pair.transports;
+  await transportA.open();
+  await transportB.open();
+
+  const source = new Hci({ transport: transportA, autoEventMask: true });
+  const receiver = new Hci({ transport: transportB, autoEventMask: true });
+  await source.reset();
+  await receiver.reset();
+
+  await source.leSetExtendedAdvertisingParameters(0, {
+    advertisingEventProperties:      [],
+    primaryAdvertisingIntervalMinMs: 20,
+    primaryAdvertisingIntervalMaxMs: 20,
+    primaryAdvertisingChannelMap:    [
+      LeAdvertisingChannelMap.Channel37, LeAdvertisingChannelMap.Channel38, LeAdvertisingChannelMap.Channel39,
+    ],
+    ownAddressType:                  LeOwnAddressType.PublicDeviceAddress,
+    peerAddressType:                 LePeerAddressType.PublicDeviceAddress,
+    peerAddress:                     pair.controllers[1].getAddress(),
+    advertisingFilterPolicy:         LeAdvertisingFilterPolicy.Any,
+    primaryAdvertisingPhy:           LePrimaryAdvertisingPhy.Phy1M,
+    secondaryAdvertisingMaxSkip:     0,
+    secondaryAdvertisingPhy:         LeSecondaryAdvertisingPhy.Phy1M,
+    advertisingSid,
+    scanRequestNotificationEnable:   false,
+  });
+
+  const sourceGap = new Gap(source);
+  await sourceGap.startPeriodicAdvertising(0, Buffer.from('broadcast'));
+  await source.leSetExtendedAdvertisingEnable({ enable: true, sets: [{ advertHandle: 0 }] });
+
+  const receiverGap = new Gap(receiver);
+  await receiverGap.setScanParameters({ ownAddressType: LeOwnAddressType.PublicDeviceAddress });
+  await receiverGap.startScanning();
+  const periodicSync = await receiverGap.syncToPeriodicAdvertiser(pair.controllers[0].getAddress(), advertisingSid, {
+    advertiserAddressType: LePeerAddressType.PublicDeviceAddress,
+    timeoutMs:             2000,
+  });
+  await receiverGap.stopScanning();
+
+  return { source, sourceGap, receiver, receiverGap, periodicSync };
+}
+
+function bigInfoField(encrypted) {
+  const data = Buffer.alloc(encrypted ? 57 : 33);
+  let o = 0;
+  o = data.writeUIntLE(100 | (8 << 15) | (2 << 27), o, 4); // 3000 us offset, 10 ms ISO interval, 2 BISes
+  o = data.writeUIntLE(3 | (1 << 5), o, 1);                // NSE 3, BN 1
+  o = data.writeUIntLE(1000, o, 3);                        // Sub-interval
+  o = data.writeUIntLE(2000 | (3 << 20), o, 3);            // BIS spacing, IRC 3
+  o = data.writeUIntLE(40, o, 2);                          // Max PDU
+  o = data.writeUIntLE(0x12345678, o, 4);                  // Seed access address
+  o = data.writeUIntLE(10000 | (40 << 20), o, 4);          // SDU interval, max SDU
+  o = data.writeUIntLE(0xABCD, o, 2);                      // Base CRC init
+  o = data.writeUIntLE(0x1FFFFFFFFF + 2 * 2 ** 37, o, 5);  // Channel map, 2M PHY
+  o = data.writeUIntLE(5 + 2 ** 39, o, 5);                 // Payload count, framed
+  if (encrypted) {
+    data.fill(0x11, o, o + 8);
+    data.fill(0x22, o + 8, o + 24);
+  }
+  return Buffer.concat([Buffer.from([data.length + 1, AdvDataType.BigInfo]), data]);
+}
+
+describe('Big over VirtualAir', function() {
+  this.timeout(5000);
+
+  let pair;
+  let hosts;
+
+  before(async function() {
+    pair = await VirtualAir.createLinkedPair({ advertisingIntervalMs: 10 });
+    hosts = await setup(pair);
+  });
+
+  after(async function() {
+    hosts.sourceGap.destroy();
+    hosts.receiverGap.destroy();
+    await pair.air.close();
+    await Promise.all(pair.transports.map((transport) => transport.close()));
+    await Promise.all(pair.controllers.map((controller) => controller.close()));
+  });
+
+  function nextBigInfo() {
+    return hosts.receiver.waitFor(
+      'LeBigInfoAdvertisingReport', (report) => report.syncHandle === hosts.periodicSync.syncHandle, { timeoutMs: 2000 }
+    ).then(([report]) => report);
+  }
+
+  it('cancels BIG synchronization which does not complete in time', async function() {
+    // Source has no BIG yet
+    await assert.rejects(BigSync.create(hosts.receiver, hosts.periodicSync.syncHandle, [1], { timeoutMs: 50 }), /Timeout/i);
+    assert.deepStrictEqual(pair.controllers[1].getBigSyncRequests(), []);
+
+    // Cancelled request does not fail the next one
+    const synced = BigSync.create(hosts.receiver, hosts.periodicSync.syncHandle, [1], { timeoutMs: 2000 });
+    const big = await Big.create(hosts.source, 0);
+    const bigSync = await synced;
+    assert.strictEqual(bigSync.connectionHandles.length, 1);
+
+    const lost = new Promise((resolve) => bigSync.once('lost', resolve));
+    await big.terminate();
+    await lost;
+  });
+
+  it('synchronizes to the BISes of a BIG', async function() {
+    const big = await Big.create(hosts.source, 0, { numBis: 2, maxSdu: 60 });
+    assert.strictEqual(big.encrypted, false);
+    assert.strictEqual(big.connectionHandles.length, 2);
+    await big.setupDataPath(big.connectionHandles[0]);
+
+    const report = await nextBigInfo();
+    assert.strictEqual(report.numBis, 2);
+    assert.strictEqual(report.maxSdu, 60);
+    assert.strictEqual(report.encryption, false);
+
+    const bigSync = await BigSync.create(hosts.receiver, hosts.periodicSync.syncHandle, [1, 2]);
+    assert.strictEqual(bigSync.syncHandle, hosts.periodicSync.syncHandle);
+    assert.strictEqual(bigSync.connectionHandles.length, 2);
+    await bigSync.setupDataPath(bigSync.connectionHandles[1]);
+
+    const terminated = new Promise((resolve) => big.once('terminated', resolve));
+    const lost = new Promise((resolve) => bigSync.once('lost', resolve));
+    await big.terminate();
+    await terminated;
+    await lost;
+    assert.strictEqual(big.isActive(), false);
+    assert.strictEqual(bigSync.isActive(), false);
+  });
+
+  it('rejects BIS indices the BIG does not have', async function() {
+    const big = await Big.create(hosts.source, 0, { numBis: 1 });
+    await assert.rejects(BigSync.create(hosts.receiver, hosts.periodicSync.syncHandle, [2]), HciError);
+    await big.terminate();
+  });
+
+  it('requires the broadcast code of an encrypted BIG', async function() {
+    const big = await Big.create(hosts.source, 0, { broadcastCode: 'secret' });
+    assert.strictEqual(big.encrypted, true);
+    assert.strictEqual((await nextBigInfo()).encryption, true);
+
+    const syncHandle = hosts.periodicSync.syncHandle;
+    await assert.rejects(BigSync.create(hosts.receiver, syncHandle, [1]), (err) => {
+      return err instanceof HciError && err.errno === HciErrorCode.EncNotAccepted;
+    });
+    await assert.rejects(BigSync.create(hosts.receiver, syncHandle, [1], { broadcastCode: 'wrong' }), (err) => {
+      return err instanceof HciError && err.errno === HciErrorCode.ConnectionTerminatedMic;
+    });
+
+    const bigSync = await BigSync.create(hosts.receiver, syncHandle, [1], { broadcastCode: Buffer.from('secret') });
+    assert.strictEqual(bigSync.connectionHandles.length, 1);
+
+    await bigSync.terminate();
+    assert.strictEqual(bigSync.isActive(), false);
+    await big.terminate();
+  });
+});
+
+describe('AdvData BIGInfo', function() {
+  it('decodes an unencrypted BIGInfo', function() {
+    const { bigInfo } = AdvData.parse(bigInfoField(false));
+    assert.deepStrictEqual(bigInfo, {
+      bigOffsetUs:       3000,
+      isoIntervalMs:     10,
+      numBis:            2,
+      nse:               3,
+      bn:                1,
+      subIntervalUs:     1000,
+      pto:               0,
+      bisSpacingUs:      2000,
+      irc:               3,
+      maxPdu:            40,
+      seedAccessAddress: 0x12345678,
+      sduIntervalUs:     10000,
+      maxSdu:            40,
+      baseCrcInit:       0xABCD,
+      channelMap:        0x1FFFFFFFFF,
+      phy:               2,
+      bisPayloadCount:   5,
+      framing:           1,
+      encryption:        false,
+    });
+  });
+
+  it('decodes GIV and GSKD of an encrypted BIGInfo', function() {
+    const { bigInfo } = AdvData.parse(bigInfoField(true));
+    assert.strictEqual(bigInfo.encryption, true);
+    assert.deepStrictEqual(bigInfo.giv, Buffer.alloc(8, 0x11));
+    assert.deepStrictEqual(bigInfo.gskd, Buffer.alloc(16, 0x22));
+  });
+
+  it('ignores a BIGInfo of invalid length', function() {
+    const field = bigInfoField(false);
+    const truncated = Buffer.concat([Buffer.from([field[0] - 1]), field.slice(1, -1)]);
+    assert.strictEqual(AdvData.parse(truncated).bigInfo, undefined);
+  });
+
+  it('builds and parses a broadcast code', function() {
+    const broadcastCode = Buffer.from('0123456789abcdef');
+    assert.deepStrictEqual(AdvData.parse(AdvData.build({ broadcastCode })).broadcastCode, broadcastCode);
+  });
+});
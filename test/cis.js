@@ -0,0 +1,164 @@
+const assert = require('assert');
+
+const { Hci } = require('../lib/src/hci/Hci');
+const { HciError } = require('../lib/src/hci/HciError');
+const { LeConnectionRole } = require('../lib/src/hci/HciEvent');
+const { VirtualAir } = require('../lib/src/controller/VirtualAir');
+const { Cis } = require('../lib/src/iso/Cis');
+const {
+  LeAdvertisingChannelMap, LeAdvertisingEventProperties, LeAdvertisingFilterPolicy, LeInitiatorFilterPolicy,
+  LeIsoDataPathDirection, LeOwnAddressType, LePeerAddressType, LePhy, LePrimaryAdvertisingPhy,
+  LeSecondaryAdvertisingPhy,
+} = require('../lib/src/hci/HciLeController');
+
+async function connect(pair) {
+  const [transportA, transportB] = pair.transports;
+  await transportA.open();
+  await transportB.open();
+
+  const peripheral = new Hci({ transport: transportA, autoEventMask: true });
+  const central = new Hci({ transport: transportB, autoEventMask: true });
+  await peripheral.reset();
+  await central.reset();
+  await Cis.enableHostSupport(peripheral);
+  await Cis.enableHostSupport(central);
+
+  const peripheralAddress = pair.controllers[0].getAddress();
+
+  await peripheral.leSetExtendedAdvertisingParameters(0, {
+    advertisingEventProperties:      [LeAdvertisingEventProperties.Connectable],
+    primaryAdvertisingIntervalMinMs: 20,
+    primaryAdvertisingIntervalMaxMs: 20,
+    primaryAdvertisingChannelMap:    [
+      LeAdvertisingChannelMap.Channel37, LeAdvertisingChannelMap.Channel38, LeAdvertisingChannelMap.Channel39,
+    ],
+    ownAddressType:                  LeOwnAddressType.PublicDeviceAddress,
+    peerAddressType:                 LePeerAddressType.PublicDeviceAddress,
+    peerAddress:                     peripheralAddress,
+    advertisingFilterPolicy:         LeAdvertisingFilterPolicy.Any,
+    primaryAdvertisingPhy:           LePrimaryAdvertisingPhy.Phy1M,
+    secondaryAdvertisingMaxSkip:     0,
+    secondaryAdvertisingPhy:         LeSecondaryAdvertisingPhy.Phy1M,
+    advertisingSid:                  0,
+    scanRequestNotificationEnable:   false,
+  });
+  await peripheral.leSetExtendedAdvertisingEnable({ enable: true, sets: [{ advertHandle: 0 }] });
+
+  const peripheralConnected = peripheral.waitFor('LeEnhancedConnectionComplete', (err) => !err, { timeoutMs: 2000 });
+  const centralConnected = central.waitFor('LeEnhancedConnectionComplete', (err) => !err, { timeoutMs: 2000 });
+
+  await central.leExtendedCreateConnection({
+    initiatorFilterPolicy: LeInitiatorFilterPolicy.PeerAddress,
+    ownAddressType:        LeOwnAddressType.PublicDeviceAddress,
+    peerAddressType:       LePeerAddressType.PublicDeviceAddress,
+    peerAddress:           peripheralAddress,
+    initiatingPhy: {
+      Phy1M: {
+        scanIntervalMs:          100,
+        scanWindowMs:            100,
+        connectionIntervalMinMs: 30,
+        connectionIntervalMaxMs: 30,
+        connectionLatency:       0,
+        supervisionTimeoutMs:    1000,
+        minCeLengthMs:           0,
+        maxCeLengthMs:           0,
+      },
+    },
+  });
+
+  const [, centralEvent] = await centralConnected;
+  const [, peripheralEvent] = await peripheralConnected;
+
+  return {
+    central, peripheral,
+    centralAclHandle:    centralEvent.connectionHandle,
+    peripheralAclHandle: peripheralEvent.connectionHandle,
+  };
+}
+
+function delay(ms) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+describe('Cis over VirtualAir', function() {
+  this.timeout(5000);
+
+  let pair;
+  let hosts;
+
+  before(async function() {
+    pair = await VirtualAir.createLinkedPair({ advertisingIntervalMs: 10 });
+    hosts = await connect(pair);
+  });
+
+  after(async function() {
+    await pair.air.close();
+    await Promise.all(pair.transports.map((transport) => transport.close()));
+    await Promise.all(pair.controllers.map((controller) => controller.close()));
+  });
+
+  function acceptNext() {
+    return new Promise((resolve, reject) => {
+      hosts.peripheral.once('LeCisRequest', (request) => Cis.accept(hosts.peripheral, request).then(resolve, reject));
+    });
+  }
+
+  it('establishes a CIS over the ACL connection', async function() {
+    const accepted = acceptNext();
+    const centralCis = await Cis.create(hosts.central, hosts.centralAclHandle, {
+      cigId: 1, cisId: 2, phyMToS: LePhy.Phy1M, phySToM: LePhy.Phy2M,
+    });
+    const peripheralCis = await accepted;
+
+    assert.strictEqual(centralCis.role, LeConnectionRole.Master);
+    assert.strictEqual(centralCis.aclConnectionHandle, hosts.centralAclHandle);
+    assert.strictEqual(peripheralCis.role, LeConnectionRole.Slave);
+    assert.strictEqual(peripheralCis.aclConnectionHandle, hosts.peripheralAclHandle);
+    assert.deepStrictEqual([peripheralCis.cigId, peripheralCis.cisId], [1, 2]);
+
+    // Event reports PHYs by value, 1M is 1 and 2M is 2
+    assert.strictEqual(centralCis.info.phyMToS, 1);
+    assert.strictEqual(centralCis.info.phySToM, 2);
+    assert.ok(centralCis.info.isoIntervalMs > 0);
+    assert.strictEqual(peripheralCis.info.isoIntervalMs, centralCis.info.isoIntervalMs);
+    assert.ok(pair.controllers[1].getCisConnection(centralCis.connectionHandle));
+
+    const centralDisconnected = new Promise((resolve) => centralCis.once('disconnected', resolve));
+    const peripheralDisconnected = new Promise((resolve) => peripheralCis.once('disconnected', resolve));
+    await peripheralCis.disconnect();
+    await centralDisconnected;
+    await peripheralDisconnected;
+    assert.strictEqual(centralCis.isConnected(), false);
+    assert.strictEqual(peripheralCis.isConnected(), false);
+
+    // The CIG is removed once its CIS is gone
+    await delay(20);
+    assert.deepStrictEqual(pair.controllers[1].getCisConnections(), []);
+  });
+
+  it('removes the CIG when the peer rejects the CIS', async function() {
+    hosts.peripheral.once('LeCisRequest', (request) => {
+      hosts.peripheral.leRejectCisRequest(request.cisConnectionHandle).catch(() => {});
+    });
+
+    await assert.rejects(Cis.create(hosts.central, hosts.centralAclHandle, { cigId: 3 }), HciError);
+    assert.deepStrictEqual(pair.controllers[1].getCisConnections(), []);
+  });
+
+  it('sets up and removes data paths', async function() {
+    const accepted = acceptNext();
+    const centralCis = await Cis.create(hosts.central, hosts.centralAclHandle);
+    const peripheralCis = await accepted;
+
+    await centralCis.setupDataPath(LeIsoDataPathDirection.Input);
+    await peripheralCis.setupDataPath(LeIsoDataPathDirection.Output);
+    await assert.rejects(centralCis.setupDataPath(LeIsoDataPathDirection.Input), HciError);
+
+    await centralCis.removeDataPath([LeIsoDataPathDirection.Input]);
+    await assert.rejects(centralCis.removeDataPath([LeIsoDataPathDirection.Input]), HciError);
+
+    const disconnected = new Promise((resolve) => peripheralCis.once('disconnected', resolve));
+    await centralCis.disconnect();
+    await disconnected;
+  });
+});
@@ -0,0 +1,43 @@
+import { readFileSync } from 'fs';
+
+import { BtsnoopRecord } from '../src/btsnoop/Btsnoop';
+import { BtsnoopReader } from '../src/btsnoop/BtsnoopReader';
+import { PcapReader } from '../src/btsnoop/PcapReader';
+import { Dissector } from '../src/dissector/Dissector';
+
+// Usage: dissect [-v] [file], reads stdin without a file or with '-'
+
+function readRecords(data: Buffer): BtsnoopRecord[] {
+  if (BtsnoopReader.isBtsnoop(data)) {
+    return BtsnoopReader.read(data);
+  }
+  if (PcapReader.isPcap(data)) {
+    return PcapReader.read(data);
+  }
+  throw new Error('neither btsnoop nor pcap file');
+}
+
+function formatTime(timestamp: bigint): string {
+  const seconds = timestamp / 1000000n;
+  const micros  = timestamp % 1000000n;
+  return `${seconds}.${micros.toString().padStart(6, '0')}`;
+}
+
+const args = process.argv.slice(2);
+const verbose = args.includes('-v');
+const file = args.find((arg) => arg !== '-v') ?? '-';
+
+try {
+  const records = readRecords(readFileSync(file === '-' ? 0 : file));
+  const dissector = new Dissector();
+  const start = records[0]?.timestamp ?? 0n;
+
+  for (const record of records) {
+    const packet = dissector.dissect(record.packetType, record.data, record.direction);
+    const time = formatTime(record.timestamp - start).padStart(14);
+    console.log(verbose ? `${time} ${Dissector.format(packet)}` : `${time} ${packet.summary}`);
+  }
+} catch (err) {
+  console.error(`dissect: ${err.message}`);
+  process.exitCode = 1;
+}
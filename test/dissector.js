@@ -0,0 +1,112 @@
+const assert = require('assert');
+
+const { BtsnoopDirection } = require('../lib/src/btsnoop/Btsnoop');
+const { Dissector } = require('../lib/src/dissector/Dissector');
+const { HciSupportedCommands } = require('../lib/src/hci/HciCapabilities');
+
+function h4(...bytes) {
+  return Buffer.from(bytes);
+}
+
+describe('Dissector', function() {
+  let dissector;
+
+  beforeEach(function() {
+    dissector = new Dissector();
+  });
+
+  describe('command names', function() {
+    it('names commands of each group', function() {
+      assert.strictEqual(Dissector.commandName(0x0C03), 'Reset');
+      assert.strictEqual(Dissector.commandName(0x1009), 'Read Bd Addr');
+      assert.strictEqual(Dissector.commandName(0x200C), 'LE Set Scan Enable');
+      assert.strictEqual(Dissector.commandName(0xFC01), 'Vendor');
+      assert.strictEqual(Dissector.commandName(0x0C00), 'Unknown');
+    });
+
+    it('names opcode 0x0000 NOP', function() {
+      assert.strictEqual(Dissector.commandName(0x0000), 'NOP');
+    });
+
+    it('shares OCF names with Supported Commands', function() {
+      assert.strictEqual(HciSupportedCommands.commandName(0x0C03), 'reset');
+      assert.strictEqual(HciSupportedCommands.commandName(0x200C), 'leSetScanEnable');
+      assert.strictEqual(HciSupportedCommands.commandName(0x0000), null);
+    });
+  });
+
+  describe('summary', function() {
+    it('summarizes a command', function() {
+      const packet = dissector.dissectH4(h4(0x01, 0x0C, 0x20, 0x02, 0x01, 0x00));
+      assert.strictEqual(packet.summary, '< HCI Command: LE Set Scan Enable (0x08|0x000c) plen 2');
+    });
+
+    it('summarizes Command Complete for NOP', function() {
+      const packet = dissector.dissectH4(h4(0x04, 0x0E, 0x03, 0x01, 0x00, 0x00));
+      assert.strictEqual(packet.summary, '> HCI Event: Command Complete (0x0e) plen 3, NOP (0x00|0x0000)');
+    });
+
+    it('summarizes an LE Meta event with its subevent', function() {
+      const packet = dissector.dissectH4(h4(
+        0x04, 0x3E, 0x0B, 0x07, 0x40, 0x00, 0xFB, 0x00, 0x48, 0x08, 0xFB, 0x00, 0x48, 0x08,
+      ));
+      assert.strictEqual(packet.summary, '> HCI Event: LE Meta Event (0x3e) plen 11, LE Data Length Change (0x07)');
+    });
+
+    it('summarizes reassembled L2CAP', function() {
+      const first = dissector.dissectH4(h4(0x02, 0x40, 0x20, 0x05, 0x00, 0x03, 0x00, 0x04, 0x00, 0x0A), BtsnoopDirection.Received);
+      const last  = dissector.dissectH4(h4(0x02, 0x40, 0x10, 0x02, 0x00, 0x01, 0x00), BtsnoopDirection.Received);
+
+      assert.strictEqual(first.summary, '> ACL Data RX: Handle 64 flags 0x02 dlen 5');
+      assert.strictEqual(last.summary, '> ACL Data RX: Handle 64 flags 0x01 dlen 2, ATT: Read Req (0x0a)');
+    });
+
+    it('summarizes a malformed packet', function() {
+      const packet = dissector.dissectH4(h4(0x04, 0x0E, 0x01));
+      assert.strictEqual(packet.summary, 'HciEvent: malformed packet');
+    });
+  });
+
+  describe('tree', function() {
+    it('lists Command Complete fields and decoded return parameters', function() {
+      const packet = dissector.dissectH4(h4(0x04, 0x0E, 0x0A, 0x01, 0x09, 0x10, 0x00, 0x01, 0x02, 0x03, 0x04, 0x05, 0x06));
+      assert.deepStrictEqual(packet.tree, {
+        label:    'HCI Event',
+        value:    'Command Complete (0x0e)',
+        children: [
+          { label: 'Num HCI Command Packets', value: '1',                          children: undefined },
+          { label: 'Command',                 value: 'Read Bd Addr (0x04|0x0009)', children: undefined },
+          { label: 'Status',                  value: 'Success (0x00)',             children: undefined },
+          { label: 'Return Parameters',       value: '06:05:04:03:02:01',          children: undefined },
+        ],
+      });
+    });
+
+    it('keeps return parameters of failed commands as bytes', function() {
+      const packet = dissector.dissectH4(h4(0x04, 0x0E, 0x05, 0x01, 0x09, 0x10, 0x0C, 0xAB));
+      assert.deepStrictEqual(packet.tree.children.slice(2).map((n) => [n.label, n.value]), [
+        ['Status', 'Command Disallowed (0x0c)'],
+        ['Return Parameters', 'ab'],
+      ]);
+    });
+
+    it('nests decoded ATT fields under L2CAP', function() {
+      dissector.dissectH4(h4(0x02, 0x40, 0x20, 0x05, 0x00, 0x03, 0x00, 0x04, 0x00, 0x0A), BtsnoopDirection.Received);
+      const packet = dissector.dissectH4(h4(0x02, 0x40, 0x10, 0x02, 0x00, 0x01, 0x00), BtsnoopDirection.Received);
+
+      const l2cap = packet.tree.children.find((n) => n.label === 'L2CAP');
+      const att = l2cap.children.find((n) => n.label === 'ATT');
+      assert.strictEqual(att.value, 'Read Req (0x0a)');
+      assert.deepStrictEqual(att.children.map((n) => [n.label, n.value]), [['attributeHandle', '1']]);
+    });
+
+    it('formats the tree indented under the summary', function() {
+      const packet = dissector.dissectH4(h4(0x04, 0x0E, 0x03, 0x01, 0x00, 0x00));
+      assert.strictEqual(Dissector.format(packet), [
+        '> HCI Event: Command Complete (0x0e) plen 3, NOP (0x00|0x0000)',
+        '        Num HCI Command Packets: 1',
+        '        Command: NOP (0x00|0x0000)',
+      ].join('\n'));
+    });
+  });
+});
@@ -0,0 +1,151 @@
+const assert = require('assert');
+
+const { Hci } = require('../lib/src/hci/Hci');
+const { HciPacketType } = require('../lib/src/hci/HciPacketType');
+const { Gap } = require('../lib/src/gap/Gap');
+const { VirtualAir } = require('../lib/src/controller/VirtualAir');
+const {
+  LeAdvertisingChannelMap, LeAdvertisingFilterPolicy, LeOwnAddressType, LePeerAddressType,
+  LePeriodicAdvertisingDataOperation, LePrimaryAdvertisingPhy, LeSecondaryAdvertisingPhy,
+} = require('../lib/src/hci/HciLeController');
+
+const SetPeriodicAdvertisingDataOpcode = 0x203F;
+const advertisingSid = 3;
+
+async function setup(pair) {
+  const [transportA, transportB] = pair.transports;
+  await transportA.open();
+  await transportB.open();
+
+  const advertiser = new Hci({ transport: transportA, autoEventMask: true });
+  const scanner = new Hci({ transport: transportB, autoEventMask: true });
+  await advertiser.reset();
+  await scanner.reset();
+
+  // Periodic advertising needs a non-connectable, non-scannable set
+  await advertiser.leSetExtendedAdvertisingParameters(0, {
+    advertisingEventProperties:      [],
+    primaryAdvertisingIntervalMinMs: 20,
+    primaryAdvertisingIntervalMaxMs: 20,
+    primaryAdvertisingChannelMap:    [
+      LeAdvertisingChannelMap.Channel37, LeAdvertisingChannelMap.Channel38, LeAdvertisingChannelMap.Channel39,
+    ],
+    ownAddressType:                  LeOwnAddressType.PublicDeviceAddress,
+    peerAddressType:                 LePeerAddressType.PublicDeviceAddress,
+    peerAddress:                     pair.controllers[1].getAddress(),
+    advertisingFilterPolicy:         LeAdvertisingFilterPolicy.Any,
+    primaryAdvertisingPhy:           LePrimaryAdvertisingPhy.Phy1M,
+    secondaryAdvertisingMaxSkip:     0,
+    secondaryAdvertisingPhy:         LeSecondaryAdvertisingPhy.Phy1M,
+    advertisingSid,
+    scanRequestNotificationEnable:   false,
+  });
+
+  const scannerGap = new Gap(scanner);
+  await scannerGap.setScanParameters({ ownAddressType: LeOwnAddressType.PublicDeviceAddress });
+
+  return { advertiser, advertiserGap: new Gap(advertiser), scannerGap };
+}
+
+function bytes(length, seed = 0) {
+  return Buffer.from(Array.from({ length }, (_, i) => (i + seed) & 0xFF));
+}
+
+describe('Gap periodic advertising over VirtualAir', function() {
+  this.timeout(5000);
+
+  let pair;
+  let hosts;
+  let operations;
+
+  before(async function() {
+    pair = await VirtualAir.createLinkedPair({ advertisingIntervalMs: 10 });
+    hosts = await setup(pair);
+
+    const transport = pair.transports[0];
+    const send = transport.send.bind(transport);
+    transport.send = (packetType, data) => {
+      if (packetType === HciPacketType.HciCommand && data.readUInt16LE(0) === SetPeriodicAdvertisingDataOpcode) {
+        operations.push({ operation: data[4], length: data[5] });
+      }
+      send(packetType, data);
+    };
+  });
+
+  beforeEach(function() {
+    operations = [];
+  });
+
+  after(async function() {
+    hosts.advertiserGap.destroy();
+    hosts.scannerGap.destroy();
+    await pair.air.close();
+    await Promise.all(pair.transports.map((transport) => transport.close()));
+    await Promise.all(pair.controllers.map((controller) => controller.close()));
+  });
+
+  function periodicData() {
+    return pair.controllers[0].getAdvertisingSets().find((set) => set.advertisingHandle === 0).periodicData;
+  }
+
+  it('sends data fitting a single command as complete', async function() {
+    const data = bytes(252);
+    await hosts.advertiserGap.startPeriodicAdvertising(0, data, { periodicAdvertisingIntervalMinMs: 100 });
+
+    assert.deepStrictEqual(operations, [{ operation: LePeriodicAdvertisingDataOperation.Complete, length: 252 }]);
+    assert.deepStrictEqual(periodicData(), data);
+
+    await hosts.advertiserGap.stopPeriodicAdvertising(0);
+  });
+
+  it('fragments data above 252 bytes', async function() {
+    const data = bytes(600, 1);
+    await hosts.advertiserGap.setPeriodicAdvertisingData(0, data);
+
+    assert.deepStrictEqual(operations, [
+      { operation: LePeriodicAdvertisingDataOperation.FragmentFirst,        length: 252 },
+      { operation: LePeriodicAdvertisingDataOperation.FragmentIntermediate, length: 252 },
+      { operation: LePeriodicAdvertisingDataOperation.FragmentLast,         length: 96 },
+    ]);
+    assert.deepStrictEqual(periodicData(), data);
+  });
+
+  it('ends fragmented data exactly at a command boundary', async function() {
+    const data = bytes(504, 2);
+    await hosts.advertiserGap.setPeriodicAdvertisingData(0, data);
+
+    assert.deepStrictEqual(operations.map((o) => o.operation), [
+      LePeriodicAdvertisingDataOperation.FragmentFirst, LePeriodicAdvertisingDataOperation.FragmentLast,
+    ]);
+    assert.deepStrictEqual(periodicData(), data);
+  });
+
+  it('delivers fragmented data to a synchronized scanner', async function() {
+    const data = bytes(1000, 3);
+    await hosts.advertiserGap.startPeriodicAdvertising(0, data, { periodicAdvertisingIntervalMinMs: 100 });
+    await hosts.advertiser.leSetExtendedAdvertisingEnable({ enable: true, sets: [{ advertHandle: 0 }] });
+
+    await hosts.scannerGap.startScanning();
+    const sync = await hosts.scannerGap.syncToPeriodicAdvertiser(pair.controllers[0].getAddress(), advertisingSid, {
+      advertiserAddressType: LePeerAddressType.PublicDeviceAddress,
+      timeoutMs:             2000,
+    });
+    await hosts.scannerGap.stopScanning();
+
+    const received = await new Promise((resolve) => sync.once('data', resolve));
+    assert.deepStrictEqual(received, data);
+
+    await sync.terminate();
+    await hosts.advertiser.leSetExtendedAdvertisingEnable({ enable: false, sets: [{ advertHandle: 0 }] });
+    await hosts.advertiserGap.stopPeriodicAdvertising(0);
+  });
+
+  it('rejects fragmented data while periodic advertising is enabled', async function() {
+    await hosts.advertiserGap.startPeriodicAdvertising(0, bytes(10));
+    await assert.rejects(hosts.advertiserGap.setPeriodicAdvertisingData(0, bytes(300)), /Command Disallowed/i);
+
+    await hosts.advertiserGap.setPeriodicAdvertisingData(0, bytes(200, 4));
+    assert.deepStrictEqual(periodicData(), bytes(200, 4));
+    await hosts.advertiserGap.stopPeriodicAdvertising(0);
+  });
+});
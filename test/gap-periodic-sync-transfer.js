@@ -0,0 +1,219 @@
+const assert = require('assert');
+
+const { Hci } = require('../lib/src/hci/Hci');
+const { Gap } = require('../lib/src/gap/Gap');
+const { VirtualAir } = require('../lib/src/controller/VirtualAir');
+const { VirtualController } = require('../lib/src/controller/VirtualController');
+const { MemoryTransport } = require('../lib/src/transport/MemoryTransport');
+const {
+  LeAdvertisingChannelMap, LeAdvertisingEventProperties, LeAdvertisingFilterPolicy, LeInitiatorFilterPolicy,
+  LeOwnAddressType, LePeerAddressType, LePeriodicAdvertisingCreateSyncOptions,
+  LePeriodicAdvertisingSyncTransferMode, LePrimaryAdvertisingPhy, LeSecondaryAdvertisingPhy,
+} = require('../lib/src/hci/HciLeController');
+
+const syncTransferParameters = {
+  mode:          LePeriodicAdvertisingSyncTransferMode.SyncReportsEnabled,
+  skip:          0,
+  syncTimeoutMs: 2000,
+};
+
+async function createHost(air, controllerInit) {
+  const [transport, controllerTransport] = MemoryTransport.createPair();
+  const controller = new VirtualController({ ...controllerInit, transport: controllerTransport });
+  await controller.open();
+  air.attach(controller);
+  await transport.open();
+
+  const hci = new Hci({ transport, autoEventMask: true });
+  await hci.reset();
+  return { controller, transport, hci, gap: new Gap(hci) };
+}
+
+async function setAdvertisingParameters(host, advertHandle, advertisingEventProperties, advertisingSid) {
+  await host.hci.leSetExtendedAdvertisingParameters(advertHandle, {
+    advertisingEventProperties,
+    primaryAdvertisingIntervalMinMs: 20,
+    primaryAdvertisingIntervalMaxMs: 20,
+    primaryAdvertisingChannelMap:    [
+      LeAdvertisingChannelMap.Channel37, LeAdvertisingChannelMap.Channel38, LeAdvertisingChannelMap.Channel39,
+    ],
+    ownAddressType:                  LeOwnAddressType.PublicDeviceAddress,
+    peerAddressType:                 LePeerAddressType.PublicDeviceAddress,
+    peerAddress:                     host.controller.getAddress(),
+    advertisingFilterPolicy:         LeAdvertisingFilterPolicy.Any,
+    primaryAdvertisingPhy:           LePrimaryAdvertisingPhy.Phy1M,
+    secondaryAdvertisingMaxSkip:     0,
+    secondaryAdvertisingPhy:         LeSecondaryAdvertisingPhy.Phy1M,
+    advertisingSid,
+    scanRequestNotificationEnable:   false,
+  });
+}
+
+async function startPeriodicAdvertising(host, advertHandle, advertisingSid, data) {
+  await setAdvertisingParameters(host, advertHandle, [], advertisingSid);
+  await host.gap.startPeriodicAdvertising(advertHandle, data);
+  await host.hci.leSetExtendedAdvertisingEnable({ enable: true, sets: [{ advertHandle }] });
+}
+
+// Central connects to the peripheral, which advertises on set 0
+async function connect(central, peripheral) {
+  await setAdvertisingParameters(peripheral, 0, [LeAdvertisingEventProperties.Connectable], 0);
+  await peripheral.hci.leSetExtendedAdvertisingEnable({ enable: true, sets: [{ advertHandle: 0 }] });
+
+  const peripheralConnected = peripheral.hci.waitFor('LeEnhancedConnectionComplete', (err) => !err, { timeoutMs: 2000 });
+  const centralConnected = central.hci.waitFor('LeEnhancedConnectionComplete', (err) => !err, { timeoutMs: 2000 });
+
+  await central.hci.leExtendedCreateConnection({
+    initiatorFilterPolicy: LeInitiatorFilterPolicy.PeerAddress,
+    ownAddressType:        LeOwnAddressType.PublicDeviceAddress,
+    peerAddressType:       LePeerAddressType.PublicDeviceAddress,
+    peerAddress:           peripheral.controller.getAddress(),
+    initiatingPhy: {
+      Phy1M: {
+        scanIntervalMs:          100,
+        scanWindowMs:            100,
+        connectionIntervalMinMs: 30,
+        connectionIntervalMaxMs: 30,
+        connectionLatency:       0,
+        supervisionTimeoutMs:    1000,
+        minCeLengthMs:           0,
+        maxCeLengthMs:           0,
+      },
+    },
+  });
+
+  const [, centralEvent] = await centralConnected;
+  const [, peripheralEvent] = await peripheralConnected;
+  return [centralEvent.connectionHandle, peripheralEvent.connectionHandle];
+}
+
+function nextTransfer(host) {
+  return new Promise((resolve) => host.gap.once('periodicSyncTransfer', (...args) => resolve(args)));
+}
+
+function nextData(sync) {
+  return new Promise((resolve) => sync.once('data', resolve));
+}
+
+describe('Gap periodic advertising sync transfer over VirtualAir', function() {
+  this.timeout(5000);
+
+  const broadcasterData = Buffer.from('broadcaster');
+  const peripheralData = Buffer.from('peripheral');
+
+  let air;
+  let broadcaster;
+  let central;
+  let peripheral;
+  let centralHandle;
+  let peripheralHandle;
+
+  before(async function() {
+    air = new VirtualAir({ advertisingIntervalMs: 10 });
+    broadcaster = await createHost(air);
+    central = await createHost(air, { periodicAdvertiserListSize: 2 });
+    peripheral = await createHost(air);
+
+    // Defaults apply to connections created afterwards
+    await peripheral.hci.leSetDefaultPeriodicAdvertisingSyncTransferParameters(syncTransferParameters);
+
+    await startPeriodicAdvertising(broadcaster, 0, 2, broadcasterData);
+    await startPeriodicAdvertising(peripheral, 1, 1, peripheralData);
+    [centralHandle, peripheralHandle] = await connect(central, peripheral);
+
+    await central.gap.setScanParameters({ ownAddressType: LeOwnAddressType.PublicDeviceAddress });
+  });
+
+  after(async function() {
+    const hosts = [broadcaster, central, peripheral];
+    hosts.forEach((host) => host.gap.destroy());
+    await air.close();
+    await Promise.all(hosts.map((host) => host.transport.close()));
+    await Promise.all(hosts.map((host) => host.controller.close()));
+  });
+
+  it('manages the periodic advertiser list', async function() {
+    const entry = {
+      advertiserAddressType: LePeerAddressType.PublicDeviceAddress,
+      advertiserAddress:     broadcaster.controller.getAddress(),
+      advertisingSid:        2,
+    };
+
+    assert.strictEqual(await central.hci.leReadPeriodicAdvertiserListSize(), 2);
+    await central.hci.leAddDeviceToPeriodicAdvertiserList(entry);
+    await central.hci.leAddDeviceToPeriodicAdvertiserList({ ...entry, advertisingSid: 3 });
+    await assert.rejects(central.hci.leAddDeviceToPeriodicAdvertiserList({ ...entry, advertisingSid: 4 }), /Memory Capacity Exceeded/i);
+
+    await central.hci.leRemoveDeviceFromPeriodicAdvertiserList({ ...entry, advertisingSid: 3 });
+    await assert.rejects(central.hci.leRemoveDeviceFromPeriodicAdvertiserList({ ...entry, advertisingSid: 3 }));
+    assert.ok(central.controller.isInPeriodicAdvertiserList(entry.advertiserAddressType, entry.advertiserAddress, 2));
+
+    await central.hci.leClearPeriodicAdvertiserList();
+    assert.ok(!central.controller.isInPeriodicAdvertiserList(entry.advertiserAddressType, entry.advertiserAddress, 2));
+  });
+
+  it('synchronizes with an advertiser from the periodic advertiser list', async function() {
+    await central.hci.leAddDeviceToPeriodicAdvertiserList({
+      advertiserAddressType: LePeerAddressType.PublicDeviceAddress,
+      advertiserAddress:     broadcaster.controller.getAddress(),
+      advertisingSid:        2,
+    });
+
+    await central.gap.startScanning();
+    const event = await central.hci.lePeriodicAdvertisingCreateSyncAndWait({
+      options:               [LePeriodicAdvertisingCreateSyncOptions.UsePeriodicAdvertiserList],
+      advertisingSid:        0,
+      advertiserAddressType: LePeerAddressType.PublicDeviceAddress,
+      advertiserAddress:     central.controller.getAddress(),
+      skip:                  0,
+      syncTimeoutMs:         2000,
+    }, { timeoutMs: 2000 });
+    await central.gap.stopScanning();
+
+    assert.strictEqual(event.advertisingSid, 2);
+    assert.strictEqual(event.advertiserAddress.toString(), broadcaster.controller.getAddress().toString());
+
+    await central.hci.lePeriodicAdvertisingTerminateSync(event.syncHandle);
+    await central.hci.leClearPeriodicAdvertiserList();
+  });
+
+  it('receives advertising set info from the connected advertiser', async function() {
+    await central.hci.leSetPeriodicAdvertisingSyncTransferParameters(centralHandle, syncTransferParameters);
+
+    const transfer = nextTransfer(central);
+    await peripheral.gap.transferPeriodicAdvertisingSetInfo(1, peripheralHandle, 0x1234);
+    const [sync, connectionHandle, serviceData] = await transfer;
+
+    assert.strictEqual(connectionHandle, centralHandle);
+    assert.strictEqual(serviceData, 0x1234);
+    assert.strictEqual(sync.info.advertisingSid, 1);
+    assert.deepStrictEqual(await nextData(sync), peripheralData);
+
+    await sync.terminate();
+  });
+
+  it('transfers a synchronization to the connected peer', async function() {
+    await central.gap.startScanning();
+    const sync = await central.gap.syncToPeriodicAdvertiser(broadcaster.controller.getAddress(), 2, {
+      advertiserAddressType: LePeerAddressType.PublicDeviceAddress,
+      timeoutMs:             2000,
+    });
+    await central.gap.stopScanning();
+
+    const transfer = nextTransfer(peripheral);
+    await sync.transfer(centralHandle, 0x0042);
+    const [received, connectionHandle, serviceData] = await transfer;
+
+    assert.strictEqual(connectionHandle, peripheralHandle);
+    assert.strictEqual(serviceData, 0x0042);
+    assert.strictEqual(received.info.advertiserAddress.toString(), broadcaster.controller.getAddress().toString());
+    assert.deepStrictEqual(await nextData(received), broadcasterData);
+
+    await received.terminate();
+    await sync.terminate();
+  });
+
+  it('rejects transfer of an unknown advertising set', async function() {
+    await assert.rejects(peripheral.gap.transferPeriodicAdvertisingSetInfo(5, peripheralHandle), /Unknown Advertising Identifier/i);
+  });
+});
@@ -0,0 +1,181 @@
+const assert = require('assert');
+
+const { Hci } = require('../lib/src/hci/Hci');
+const { HciPacketType } = require('../lib/src/hci/HciPacketType');
+const { LePeriodicAdvDataStatus } = require('../lib/src/hci/HciEvent');
+const { Gap } = require('../lib/src/gap/Gap');
+const { VirtualAir } = require('../lib/src/controller/VirtualAir');
+const {
+  LeAdvertisingChannelMap, LeAdvertisingFilterPolicy, LeOwnAddressType, LePeerAddressType,
+  LePrimaryAdvertisingPhy, LeSecondaryAdvertisingPhy,
+} = require('../lib/src/hci/HciLeController');
+
+const advertisingSid = 5;
+
+async function setup(pair, data) {
+  const [transportA, transportB] = pair.transports;
+  await transportA.open();
+  await transportB.open();
+
+  const advertiser = new Hci({ transport: transportA, autoEventMask: true });
+  const scanner = new Hci({ transport: transportB, autoEventMask: true });
+  await advertiser.reset();
+  await scanner.reset();
+
+  await advertiser.leSetExtendedAdvertisingParameters(0, {
+    advertisingEventProperties:      [],
+    primaryAdvertisingIntervalMinMs: 20,
+    primaryAdvertisingIntervalMaxMs: 20,
+    primaryAdvertisingChannelMap:    [
+      LeAdvertisingChannelMap.Channel37, LeAdvertisingChannelMap.Channel38, LeAdvertisingChannelMap.Channel39,
+    ],
+    ownAddressType:                  LeOwnAddressType.PublicDeviceAddress,
+    peerAddressType:                 LePeerAddressType.PublicDeviceAddress,
+    peerAddress:                     pair.controllers[1].getAddress(),
+    advertisingFilterPolicy:         LeAdvertisingFilterPolicy.Any,
+    primaryAdvertisingPhy:           LePrimaryAdvertisingPhy.Phy1M,
+    secondaryAdvertisingMaxSkip:     0,
+    secondaryAdvertisingPhy:         LeSecondaryAdvertisingPhy.Phy1M,
+    advertisingSid,
+    scanRequestNotificationEnable:   false,
+  });
+
+  const advertiserGap = new Gap(advertiser);
+  await advertiserGap.startPeriodicAdvertising(0, data);
+  await advertiser.leSetExtendedAdvertisingEnable({ enable: true, sets: [{ advertHandle: 0 }] });
+
+  const scannerGap = new Gap(scanner);
+  await scannerGap.setScanParameters({ ownAddressType: LeOwnAddressType.PublicDeviceAddress });
+  await scannerGap.startScanning();
+
+  return { advertiser, advertiserGap, scanner, scannerGap };
+}
+
+function periodicReport(syncHandle, dataStatus, data) {
+  const payload = Buffer.alloc(7);
+  payload.writeUInt16LE(syncHandle, 0);
+  payload[2] = 0x7F;
+  payload[3] = 0x7F;
+  payload[4] = 0xFF;
+  payload[5] = dataStatus;
+  payload[6] = data.length;
+  return Buffer.concat([Buffer.from([0x3E, 1 + payload.length + data.length, 0x0F]), payload, data]);
+}
+
+function bytes(length, seed = 0) {
+  return Buffer.from(Array.from({ length }, (_, i) => (i + seed) & 0xFF));
+}
+
+function delay(ms) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+describe('Gap periodic advertising sync over VirtualAir', function() {
+  this.timeout(5000);
+
+  const data = bytes(600);
+
+  let pair;
+  let hosts;
+  let address;
+
+  before(async function() {
+    pair = await VirtualAir.createLinkedPair({ advertisingIntervalMs: 10 });
+    hosts = await setup(pair, data);
+    address = pair.controllers[0].getAddress();
+  });
+
+  after(async function() {
+    hosts.advertiserGap.destroy();
+    hosts.scannerGap.destroy();
+    await pair.air.close();
+    await Promise.all(pair.transports.map((transport) => transport.close()));
+    await Promise.all(pair.controllers.map((controller) => controller.close()));
+  });
+
+  function sync(opts) {
+    return hosts.scannerGap.syncToPeriodicAdvertiser(address, advertisingSid, {
+      advertiserAddressType: LePeerAddressType.PublicDeviceAddress,
+      timeoutMs:             2000,
+      ...opts,
+    });
+  }
+
+  it('reassembles data reported in several fragments', async function() {
+    const periodicSync = await sync();
+    assert.strictEqual(periodicSync.info.advertisingSid, advertisingSid);
+    assert.strictEqual(periodicSync.info.advertiserAddress.toString(), address.toString());
+
+    const reports = [];
+    const onReport = (report) => reports.push(report);
+    hosts.scanner.on('LePeriodicAdvertisingReport', onReport);
+
+    const [received, report] = await new Promise((resolve) => periodicSync.once('data', (...args) => resolve(args)));
+    hosts.scanner.removeListener('LePeriodicAdvertisingReport', onReport);
+
+    assert.deepStrictEqual(received, data);
+    assert.strictEqual(report.dataStatus, LePeriodicAdvDataStatus.Complete);
+    assert.ok(reports.length >= 3);
+
+    await periodicSync.terminate();
+    assert.strictEqual(periodicSync.isClosed(), true);
+    assert.deepStrictEqual(pair.controllers[1].getPeriodicSyncs(), []);
+  });
+
+  it('drops data the controller truncated', async function() {
+    const periodicSync = await sync({ syncTimeoutMs: 2000 });
+
+    // Only injected reports reach the host while the train is paused
+    await hosts.advertiserGap.stopPeriodicAdvertising(0);
+    await delay(30);
+
+    const received = [];
+    periodicSync.on('data', (d) => received.push(d));
+
+    const { syncHandle } = periodicSync;
+    hosts.scanner.onData(HciPacketType.HciEvent, periodicReport(syncHandle, LePeriodicAdvDataStatus.IncompleteMoreData, bytes(10)));
+    hosts.scanner.onData(HciPacketType.HciEvent, periodicReport(syncHandle, LePeriodicAdvDataStatus.IncompleteTruncated, bytes(5)));
+    assert.deepStrictEqual(received, []);
+
+    hosts.scanner.onData(HciPacketType.HciEvent, periodicReport(syncHandle, LePeriodicAdvDataStatus.Complete, bytes(4, 9)));
+    assert.deepStrictEqual(received, [bytes(4, 9)]);
+
+    await periodicSync.terminate();
+    await hosts.advertiser.leSetPeriodicAdvertisingEnable(0, true);
+  });
+
+  it('emits lost once the advertiser stops', async function() {
+    const periodicSync = await sync({ syncTimeoutMs: 100 });
+    const lost = new Promise((resolve) => periodicSync.once('lost', resolve));
+
+    await hosts.advertiserGap.stopPeriodicAdvertising(0);
+    await lost;
+    assert.strictEqual(periodicSync.isClosed(), true);
+
+    await hosts.advertiser.leSetPeriodicAdvertisingEnable(0, true);
+  });
+
+  it('cancels synchronization which does not complete in time', async function() {
+    await assert.rejects(
+      hosts.scannerGap.syncToPeriodicAdvertiser(address, advertisingSid + 1, {
+        advertiserAddressType: LePeerAddressType.PublicDeviceAddress,
+        timeoutMs:             100,
+      }),
+      /Timeout/i,
+    );
+    assert.strictEqual(pair.controllers[1].getPeriodicSyncRequest(), null);
+
+    // Controller accepts a new request afterwards
+    const periodicSync = await sync();
+    await periodicSync.terminate();
+  });
+
+  it('loses synchronizations on controller reset', async function() {
+    const periodicSync = await sync();
+    const lost = new Promise((resolve) => periodicSync.once('lost', resolve));
+
+    await hosts.scanner.reset();
+    await lost;
+    assert.strictEqual(periodicSync.isClosed(), true);
+  });
+});
@@ -0,0 +1,73 @@
+const assert = require('assert');
+
+const { H4 } = require('../lib/src/transport/H4');
+const { HciPacketType } = require('../lib/src/hci/HciPacketType');
+
+const event = Buffer.from([HciPacketType.HciEvent, 0x0E, 0x04, 0x01, 0x03, 0x0C, 0x00]);
+const acl = Buffer.from([HciPacketType.HciAclData, 0x40, 0x20, 0x03, 0x00, 0xAA, 0xBB, 0xCC]);
+
+function iso(length) {
+  const packet = Buffer.alloc(5 + length, 0x5A);
+  packet[0] = HciPacketType.HciIsoData;
+  packet.writeUInt16LE(0x0060, 1);
+  packet.writeUInt16LE(length, 3);
+  return packet;
+}
+
+function parseAll(h4, chunks) {
+  return chunks.flatMap((chunk) => h4.parse(chunk));
+}
+
+function packetOf(raw) {
+  return { type: raw[0], packet: raw.subarray(1) };
+}
+
+describe('H4', function() {
+  it('parses several packets from one chunk', function() {
+    const packets = new H4().parse(Buffer.concat([event, acl, event]));
+    assert.deepStrictEqual(packets, [packetOf(event), packetOf(acl), packetOf(event)]);
+  });
+
+  it('reassembles packets split across chunks', function() {
+    const stream = Buffer.concat([event, acl, iso(300), event]);
+    for (const chunkSize of [1, 2, 3, 7, 64]) {
+      const chunks = [];
+      for (let i = 0; i < stream.length; i += chunkSize) {
+        chunks.push(stream.subarray(i, i + chunkSize));
+      }
+      const packets = parseAll(new H4(), chunks);
+      assert.deepStrictEqual(packets, [packetOf(event), packetOf(acl), packetOf(iso(300)), packetOf(event)]);
+    }
+  });
+
+  it('resyncs after garbage', function() {
+    const garbage = Buffer.from([0xFF, 0x00, 0x42]);
+    const packets = parseAll(new H4(), [Buffer.concat([garbage, event]), garbage, acl]);
+    assert.deepStrictEqual(packets, [packetOf(event), packetOf(acl)]);
+  });
+
+  it('skips packets longer than the configured limit', function() {
+    const long = Buffer.from([HciPacketType.HciAclData, 0x40, 0x20, 0x06, 0x00, ...Buffer.alloc(6, 0xEE)]);
+    const packets = new H4({ maxAclDataLength: 2 }).parse(Buffer.concat([long, event]));
+    assert.deepStrictEqual(packets, [packetOf(event)]);
+  });
+
+  it('reads 14 bit ISO data load length', function() {
+    const packet = iso(0x1000);
+    const packets = new H4({ maxIsoDataLength: 0x3FFF }).parse(packet);
+    assert.deepStrictEqual(packets, [packetOf(packet)]);
+  });
+
+  it('rejects ISO headers with RFU length bits set', function() {
+    const invalid = Buffer.from([HciPacketType.HciIsoData, 0x60, 0x00, 0x06, 0x40, ...Buffer.alloc(6, 0xEE)]);
+    const packets = new H4().parse(Buffer.concat([invalid, event]));
+    assert.deepStrictEqual(packets, [packetOf(event)]);
+  });
+
+  it('drops buffered data on reset', function() {
+    const h4 = new H4();
+    assert.deepStrictEqual(h4.parse(acl.subarray(0, 4)), []);
+    h4.reset();
+    assert.deepStrictEqual(h4.parse(event), [packetOf(event)]);
+  });
+});
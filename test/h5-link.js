@@ -0,0 +1,208 @@
+const assert = require('assert');
+const { EventEmitter } = require('events');
+
+const { H5Link, H5LinkState } = require('../lib/src/transport/H5Link');
+const { H5Transport } = require('../lib/src/transport/H5Transport');
+const { HciPacketType } = require('../lib/src/hci/HciPacketType');
+
+// In-memory serial line, frames written on one end arrive on the other in a later tick
+class Wire extends EventEmitter {
+  constructor() {
+    super();
+    this.peer = null;
+    this.connected = true;
+    this.drop = () => false;
+  }
+
+  static createPair() {
+    const a = new Wire();
+    const b = new Wire();
+    a.peer = b;
+    b.peer = a;
+    return [a, b];
+  }
+
+  write(data) {
+    if (!this.connected || this.drop(data)) {
+      return;
+    }
+    setImmediate(() => this.peer.emit('data', data));
+  }
+}
+
+const timings = {
+  linkEstablishmentIntervalMs: 10,
+  retransmissionTimeoutMs:     10,
+};
+
+function createLink(wire, init = {}) {
+  const link = new H5Link({ ...timings, ...init, write: (data) => wire.write(data) });
+  wire.on('data', (data) => link.onSerialData(data));
+  return link;
+}
+
+function createLinkPair(init = {}) {
+  const wires = Wire.createPair();
+  const links = wires.map((wire) => createLink(wire, init));
+  return { wires, links };
+}
+
+function receive(link, count) {
+  return new Promise((resolve) => {
+    const packets = [];
+    link.on('data', (packetType, data) => {
+      packets.push([packetType, data]);
+      if (packets.length === count) {
+        resolve(packets);
+      }
+    });
+  });
+}
+
+function isReliableFrame(data) {
+  // END, header byte 0 with the reliable bit set
+  return data.length > 1 && (data[1] & 0x80) !== 0;
+}
+
+describe('H5Link', function() {
+  this.timeout(5000);
+
+  let links = [];
+
+  afterEach(function() {
+    links.forEach((link) => link.close());
+  });
+
+  it('goes through sync and config before becoming active', async function() {
+    const pair = createLinkPair();
+    links = pair.links;
+
+    const states = [];
+    links[0].on('state', (state) => states.push(state));
+
+    await Promise.all(links.map((link) => link.open()));
+    assert.deepStrictEqual(states, [H5LinkState.Uninitialized, H5LinkState.Initialized, H5LinkState.Active]);
+    assert.ok(links.every((link) => link.isActive()));
+  });
+
+  it('settles every pending open() together', async function() {
+    const pair = createLinkPair();
+    links = pair.links;
+
+    const first = links[0].open();
+    const second = links[0].open();
+    await links[1].open();
+    await Promise.all([first, second]);
+    assert.ok(links[0].isActive());
+
+    const [, wire] = Wire.createPair();
+    const lonely = createLink(wire);
+    const results = [lonely.open(), lonely.open()].map((p) => p.catch((err) => err.message));
+    lonely.close();
+    assert.deepStrictEqual(await Promise.all(results), ['H5 link closed', 'H5 link closed']);
+  });
+
+  it('delivers reliable packets in order', async function() {
+    const pair = createLinkPair({ windowSize: 2 });
+    links = pair.links;
+    await Promise.all(links.map((link) => link.open()));
+
+    const received = receive(links[1], 10);
+    for (let i = 0; i < 10; i++) {
+      links[0].send(HciPacketType.HciEvent, Buffer.from([i, 0xC0, 0xDB]));
+    }
+
+    const packets = await received;
+    assert.deepStrictEqual(packets.map(([, data]) => data[0]), [0, 1, 2, 3, 4, 5, 6, 7, 8, 9]);
+    assert.ok(packets.every(([packetType]) => packetType === HciPacketType.HciEvent));
+  });
+
+  it('retransmits packets which were not acknowledged', async function() {
+    const pair = createLinkPair();
+    links = pair.links;
+    await Promise.all(links.map((link) => link.open()));
+
+    let dropped = 0;
+    pair.wires[0].drop = (data) => {
+      if (!isReliableFrame(data) || dropped === 3) {
+        return false;
+      }
+      dropped++;
+      return true;
+    };
+
+    const received = receive(links[1], 2);
+    links[0].send(HciPacketType.HciCommand, Buffer.from([0x01]));
+    links[0].send(HciPacketType.HciCommand, Buffer.from([0x02]));
+
+    const packets = await received;
+    assert.strictEqual(dropped, 3);
+    assert.deepStrictEqual(packets.map(([, data]) => data[0]), [1, 2]);
+  });
+
+  it('resets the link after too many retransmissions', async function() {
+    const pair = createLinkPair({ maxRetransmissions: 2 });
+    links = pair.links;
+    await Promise.all(links.map((link) => link.open()));
+
+    pair.wires[0].connected = false;
+    const reset = new Promise((resolve) => links[0].once('reset', resolve));
+    links[0].send(HciPacketType.HciAclData, Buffer.from([0x01]));
+
+    await reset;
+    assert.strictEqual(links[0].getState(), H5LinkState.Uninitialized);
+
+    pair.wires[0].connected = true;
+    await new Promise((resolve) => links[0].on('state', (state) => state === H5LinkState.Active && resolve()));
+  });
+
+  it('resynchronises when the peer resets', async function() {
+    const pair = createLinkPair();
+    links = pair.links;
+    await Promise.all(links.map((link) => link.open()));
+
+    const reset = new Promise((resolve) => links[0].once('reset', resolve));
+    links[1].close();
+    await links[1].open();
+    await reset;
+
+    const received = receive(links[0], 1);
+    links[1].send(HciPacketType.HciEvent, Buffer.from([0x0E]));
+    assert.deepStrictEqual((await received)[0][1], Buffer.from([0x0E]));
+  });
+
+  it('does not acknowledge after close', async function() {
+    const pair = createLinkPair();
+    links = pair.links;
+    await Promise.all(links.map((link) => link.open()));
+
+    let closed = false;
+    let written = 0;
+    pair.wires[1].drop = () => {
+      written += closed ? 1 : 0;
+      return false;
+    };
+    links[1].on('data', () => {
+      links[1].close();
+      closed = true;
+    });
+
+    links[0].send(HciPacketType.HciEvent, Buffer.from([0x0E]));
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    assert.strictEqual(written, 0);
+  });
+});
+
+describe('H5Transport', function() {
+  it('exchanges packets once both ends are open', async function() {
+    const [a, b] = Wire.createPair();
+    const transports = [new H5Transport(a, timings), new H5Transport(b, timings)];
+    await Promise.all(transports.map((transport) => transport.open()));
+
+    const received = new Promise((resolve) => transports[1].once('packet', (...args) => resolve(args)));
+    transports[0].send(HciPacketType.HciCommand, Buffer.from([0x03, 0x0C, 0x00]));
+    assert.deepStrictEqual(await received, [HciPacketType.HciCommand, Buffer.from([0x03, 0x0C, 0x00])]);
+
+    await Promise.all(transports.map((transport) => transport.close()));
+  });
+});
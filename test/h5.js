@@ -1,21 +1,95 @@
-const H5 = require('../lib/H5').default;
-
 const assert = require('assert');
 
+const { H5, H5TransportRetCode } = require('../lib/src/transport/H5');
+const { Slip } = require('../lib/src/transport/Slip');
+
 describe('H5', function() {
+  const h5 = new H5();
+
   describe('encode()', function() {
-    it('should return -1 when the value is not present', function() {
-      // assert.strictEqual([1, 2, 3].indexOf(4), -1);
-      const h5 = new H5();
+    it('writes header, payload and CRC', function() {
       const packet = h5.encode({
-        seqNum: 0,
-        ackNum: 0,
+        seqNum: 1,
+        ackNum: 2,
         crcPresent: 1,
         reliablePacket: 1,
-        packetType: 1,
-        payload: [],
+        packetType: 2,
+        payload: Buffer.from([0x01, 0x02, 0x03]),
+      });
+      assert.strictEqual(packet.length, 4 + 3 + 2);
+      assert.strictEqual(packet[0], 0xD1);
+      assert.strictEqual(packet[1], 0x32);
+      assert.strictEqual(packet[2], 0x00);
+      assert.strictEqual((packet[0] + packet[1] + packet[2] + packet[3]) & 0xFF, 0xFF);
+      assert.deepStrictEqual(packet.subarray(4, 7), Buffer.from([0x01, 0x02, 0x03]));
+    });
+
+    it('omits CRC when not requested', function() {
+      const packet = h5.encode({
+        seqNum: 0, ackNum: 0, crcPresent: 0, reliablePacket: 0, packetType: 0, payload: Buffer.alloc(0),
       });
-      console.log(packet);
+      assert.strictEqual(packet.length, 4);
     });
   });
+
+  describe('decode()', function() {
+    it('decodes what was encoded', function() {
+      const payload = Buffer.alloc(300, 0xC0);
+      const result = h5.decode(h5.encode({
+        seqNum: 7, ackNum: 3, crcPresent: 1, reliablePacket: 1, packetType: 4, payload,
+      }));
+      assert.strictEqual(result.code, 0);
+      assert.strictEqual(result.seqNum, 7);
+      assert.strictEqual(result.ackNum, 3);
+      assert.strictEqual(result.reliablePacket, 1);
+      assert.strictEqual(result.packetType, 4);
+      assert.strictEqual(result.payloadLength, 300);
+      assert.deepStrictEqual(result.payload, payload);
+    });
+
+    it('rejects truncated packets', function() {
+      assert.strictEqual(h5.decode(Buffer.from([0x00, 0x00])).code, H5TransportRetCode.ParserSlipPayloadSize);
+
+      const packet = h5.encode({
+        seqNum: 0, ackNum: 0, crcPresent: 0, reliablePacket: 0, packetType: 1, payload: Buffer.alloc(4),
+      });
+      const result = h5.decode(packet.subarray(0, packet.length - 1));
+      assert.strictEqual(result.code, H5TransportRetCode.ParserSlipCalculatedPayloadSize);
+    });
+
+    it('rejects corrupted header and payload', function() {
+      const encoderData = {
+        seqNum: 0, ackNum: 0, crcPresent: 1, reliablePacket: 1, packetType: 2, payload: Buffer.alloc(4),
+      };
+
+      const badHeader = h5.encode(encoderData);
+      badHeader[3] ^= 0xFF;
+      assert.strictEqual(h5.decode(badHeader).code, H5TransportRetCode.ParserHeaderChecksum);
+
+      const badPayload = h5.encode(encoderData);
+      badPayload[5] ^= 0xFF;
+      assert.strictEqual(h5.decode(badPayload).code, H5TransportRetCode.ParserPacketChecksum);
+    });
+  });
+});
+
+describe('Slip', function() {
+  it('escapes END and ESC bytes', function() {
+    const slip = new Slip();
+    const encoded = slip.encode(Buffer.from([0x01, 0xC0, 0xDB, 0x02]));
+    assert.deepStrictEqual(encoded, Buffer.from([0xC0, 0x01, 0xDB, 0xDC, 0xDB, 0xDD, 0x02, 0xC0]));
+  });
+
+  it('decodes frames split across chunks', function() {
+    const slip = new Slip();
+    const first = Buffer.from([0x01, 0xC0, 0xDB, 0x02]);
+    const second = Buffer.alloc(1000, 0xDB);
+    const stream = Buffer.concat([Buffer.from([0x55]), slip.encode(first), slip.encode(second)]);
+
+    const frames = [];
+    for (let i = 0; i < stream.length; i += 7) {
+      frames.push(...slip.decode(stream.subarray(i, i + 7)));
+    }
+    assert.deepStrictEqual(frames, [first, second]);
+  });
 });
@@ -0,0 +1,105 @@
+const assert = require('assert');
+
+const { Hci } = require('../lib/src/hci/Hci');
+const { HciPacketType } = require('../lib/src/hci/HciPacketType');
+
+const SetEventMaskOpcode = 0x0C01;
+
+function createHci(cmdTimeout) {
+  const sent = [];
+  const hci = new Hci({
+    send: (packetType, data) => {
+      if (packetType === HciPacketType.HciCommand) {
+        sent.push(data.readUInt16LE(0));
+      }
+    },
+    cmdTimeout,
+  });
+  return { hci, sent };
+}
+
+function commandComplete(hci, numHciPackets, opcode, status) {
+  const params = [numHciPackets, opcode & 0xFF, opcode >> 8];
+  if (status !== undefined) {
+    params.push(status);
+  }
+  hci.onData(HciPacketType.HciEvent, Buffer.from([0x0E, params.length, ...params]));
+}
+
+function settled(promise) {
+  return promise.then(() => 'resolved', (err) => err);
+}
+
+describe('HciCmd', function() {
+  it('sends a single command until the controller grants credits', async function() {
+    const { hci, sent } = createHci();
+    const results = [hci.setEventMask(), hci.setEventMask(), hci.setEventMask()];
+    assert.deepStrictEqual(sent, [SetEventMaskOpcode]);
+
+    for (let i = 0; i < results.length; i++) {
+      commandComplete(hci, 1, SetEventMaskOpcode, 0x00);
+    }
+    await Promise.all(results);
+    assert.strictEqual(sent.length, 3);
+  });
+
+  it('applies credits granted by Command Complete for NOP', async function() {
+    const { hci, sent } = createHci();
+    commandComplete(hci, 3, 0x0000);
+
+    const results = [hci.setEventMask(), hci.setEventMask(), hci.setEventMask(), hci.setEventMask()];
+    assert.strictEqual(sent.length, 3);
+
+    commandComplete(hci, 1, SetEventMaskOpcode, 0x00);
+    assert.strictEqual(sent.length, 4);
+
+    for (let i = 0; i < 3; i++) {
+      commandComplete(hci, 1, SetEventMaskOpcode, 0x00);
+    }
+    await Promise.all(results);
+  });
+
+  it('rejects only the command the controller failed', async function() {
+    const { hci } = createHci();
+    commandComplete(hci, 2, 0x0000);
+
+    const first = settled(hci.setEventMask());
+    const second = settled(hci.setEventMask());
+    commandComplete(hci, 1, SetEventMaskOpcode, 0x12);
+    commandComplete(hci, 1, SetEventMaskOpcode, 0x00);
+
+    assert.ok(await first instanceof Error);
+    assert.strictEqual(await second, 'resolved');
+  });
+
+  it('restores the credit of a command that timed out', async function() {
+    const { hci, sent } = createHci(20);
+    const first = settled(hci.setEventMask());
+    const second = hci.setEventMask({}, { timeoutMs: 1000 });
+    assert.strictEqual(sent.length, 1);
+
+    const err = await first;
+    assert.strictEqual(err.message, 'Command timeout');
+    assert.strictEqual(sent.length, 2);
+
+    commandComplete(hci, 1, SetEventMaskOpcode, 0x00);
+    await second;
+  });
+
+  it('keeps the credit of an aborted command until it times out', async function() {
+    const { hci, sent } = createHci(20);
+    const controller = new AbortController();
+    const first = settled(hci.setEventMask({}, { signal: controller.signal }));
+    const second = hci.setEventMask({}, { timeoutMs: 1000 });
+    controller.abort();
+
+    assert.strictEqual((await first).name, 'AbortError');
+    assert.strictEqual(sent.length, 1);
+
+    await new Promise((resolve) => setTimeout(resolve, 40));
+    assert.strictEqual(sent.length, 2);
+
+    commandComplete(hci, 1, SetEventMaskOpcode, 0x00);
+    await second;
+  });
+});
@@ -0,0 +1,95 @@
+const assert = require('assert');
+
+const { Hci } = require('../lib/src/hci/Hci');
+const { HciPacketType } = require('../lib/src/hci/HciPacketType');
+
+const SetEventMaskOpcode = 0x0C01;
+const LeSetEventMaskOpcode = 0x2001;
+
+// Completes every command, records the programmed masks
+function createHci() {
+  const masks = { events: [], leEvents: [] };
+  const hci = new Hci({
+    autoEventMask: true,
+    send: (packetType, data) => {
+      const opcode = data.readUInt16LE(0);
+      if (opcode === SetEventMaskOpcode) {
+        masks.events.push(data.readBigUInt64LE(3));
+      } else if (opcode === LeSetEventMaskOpcode) {
+        masks.leEvents.push(data.readBigUInt64LE(3));
+      }
+      const event = Buffer.from([0x0E, 0x04, 0x01, opcode & 0xFF, opcode >> 8, 0x00]);
+      setImmediate(() => hci.onData(HciPacketType.HciEvent, event));
+    },
+  });
+  return { hci, masks };
+}
+
+function dataLengthChange(connectionHandle) {
+  const event = Buffer.from([0x3E, 0x0B, 0x07, 0, 0, 0xFB, 0x00, 0x48, 0x08, 0xFB, 0x00, 0x48, 0x08]);
+  event.writeUInt16LE(connectionHandle, 3);
+  return event;
+}
+
+function bit(mask, n) {
+  return (mask >> BigInt(n)) & 1n;
+}
+
+// Lets queued mask updates reach the controller
+function settle() {
+  return new Promise((resolve) => setTimeout(resolve, 10));
+}
+
+describe('Hci autoEventMask', function() {
+  it('enables events handled by Hci without listeners', async function() {
+    const { hci, masks } = createHci();
+    await hci.reset();
+    await settle();
+
+    const events = masks.events[masks.events.length - 1];
+    assert.strictEqual(bit(events, 4), 1n, 'Disconnection Complete');
+    assert.strictEqual(bit(events, 15), 1n, 'Hardware Error');
+
+    const leEvents = masks.leEvents[masks.leEvents.length - 1];
+    assert.strictEqual(bit(leEvents, 0), 1n, 'LE Connection Complete');
+    assert.strictEqual(bit(leEvents, 17), 1n, 'LE Advertising Set Terminated');
+    assert.strictEqual(bit(leEvents, 6), 0n, 'LE Data Length Change');
+  });
+
+  it('keeps the event of back-to-back waiters enabled', async function() {
+    const { hci, masks } = createHci();
+    await hci.reset();
+    await settle();
+    const programmed = masks.leEvents.length;
+
+    for (let connectionHandle = 1; connectionHandle <= 3; connectionHandle++) {
+      const waiter = hci.waitFor('LeDataLengthChange', (event) => event.connectionHandle === connectionHandle);
+      hci.onData(HciPacketType.HciEvent, dataLengthChange(connectionHandle));
+      await waiter;
+    }
+    await settle();
+
+    // Enabled for the first waiter, disabled after the last one
+    assert.strictEqual(masks.leEvents.length, programmed + 2);
+    assert.strictEqual(bit(masks.leEvents[programmed], 6), 1n);
+    assert.strictEqual(bit(masks.leEvents[programmed + 1], 6), 0n);
+  });
+
+  it('disables the event once no waiter or listener remains', async function() {
+    const { hci, masks } = createHci();
+    await hci.reset();
+    await settle();
+
+    const listener = () => {};
+    hci.on('LeDataLengthChange', listener);
+    const waiter = hci.waitFor('LeDataLengthChange');
+    hci.onData(HciPacketType.HciEvent, dataLengthChange(1));
+    await waiter;
+    await settle();
+    assert.strictEqual(bit(masks.leEvents[masks.leEvents.length - 1], 6), 1n);
+
+    hci.removeListener('LeDataLengthChange', listener);
+    await settle();
+    assert.strictEqual(bit(masks.leEvents[masks.leEvents.length - 1], 6), 0n);
+  });
+});
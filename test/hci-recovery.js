@@ -0,0 +1,116 @@
+const assert = require('assert');
+
+const { Hci } = require('../lib/src/hci/Hci');
+const { HciRecovery } = require('../lib/src/hci/HciRecovery');
+const { VirtualController } = require('../lib/src/controller/VirtualController');
+const { MemoryTransport } = require('../lib/src/transport/MemoryTransport');
+const { Address } = require('../lib/src/utils/Address');
+const {
+  LeAdvertisingChannelMap, LeAdvertisingDataOperation, LeAdvertisingEventProperties, LeAdvertisingFilterPolicy,
+  LeOwnAddressType, LePeerAddressType, LePrimaryAdvertisingPhy, LeSecondaryAdvertisingPhy,
+} = require('../lib/src/hci/HciLeController');
+
+const randomAddress = Address.from('C0:11:22:33:44:55');
+const advertisingData = Buffer.from('0201060403414243', 'hex');
+
+async function configureAdvertising(hci) {
+  await hci.leSetRandomAddress(randomAddress);
+  await hci.leSetExtendedAdvertisingParameters(0, {
+    advertisingEventProperties:      [LeAdvertisingEventProperties.Connectable],
+    primaryAdvertisingIntervalMinMs: 20,
+    primaryAdvertisingIntervalMaxMs: 20,
+    primaryAdvertisingChannelMap:    [
+      LeAdvertisingChannelMap.Channel37, LeAdvertisingChannelMap.Channel38, LeAdvertisingChannelMap.Channel39,
+    ],
+    ownAddressType:                  LeOwnAddressType.RandomDeviceAddress,
+    peerAddressType:                 LePeerAddressType.PublicDeviceAddress,
+    peerAddress:                     randomAddress,
+    advertisingFilterPolicy:         LeAdvertisingFilterPolicy.Any,
+    primaryAdvertisingPhy:           LePrimaryAdvertisingPhy.Phy1M,
+    secondaryAdvertisingMaxSkip:     0,
+    secondaryAdvertisingPhy:         LeSecondaryAdvertisingPhy.Phy1M,
+    advertisingSid:                  0,
+    scanRequestNotificationEnable:   false,
+  });
+  await hci.leSetExtendedAdvertisingData(0, {
+    operation: LeAdvertisingDataOperation.Complete,
+    fragment:  false,
+    data:      advertisingData,
+  });
+  await hci.leSetExtendedAdvertisingEnable({ enable: true, sets: [{ advertHandle: 0 }] });
+}
+
+function assertAdvertising(controller) {
+  const [set] = controller.getAdvertisingSets();
+  assert.ok(set, 'advertising set restored');
+  assert.strictEqual(set.enabled, true);
+  assert.deepStrictEqual(set.data, advertisingData);
+  assert.strictEqual(controller.getOwnAddress(1).address.toString(), randomAddress.toString());
+}
+
+describe('HciRecovery', function() {
+  this.timeout(5000);
+
+  let controller;
+  let transport;
+  let hci;
+  let recovery;
+  let causes;
+
+  beforeEach(async function() {
+    const [host, controllerTransport] = MemoryTransport.createPair();
+    controller = new VirtualController({ transport: controllerTransport });
+    transport = host;
+    await controller.open();
+    await transport.open();
+
+    hci = new Hci({ transport });
+    await hci.reset();
+
+    recovery = new HciRecovery(hci, { retryDelayMs: 10 });
+    causes = [];
+    recovery.on('recoveryStart', (cause) => causes.push(cause));
+  });
+
+  afterEach(async function() {
+    recovery.destroy();
+    await transport.close();
+    await controller.close();
+  });
+
+  it('replays the journal after an unsolicited Reset completion', async function() {
+    await configureAdvertising(hci);
+
+    const recovered = new Promise((resolve) => recovery.once('recovered', resolve));
+    controller.restart();
+    assert.strictEqual(controller.getAdvertisingSets().length, 0);
+
+    await recovered;
+    assert.deepStrictEqual(causes, ['ControllerReset']);
+    assertAdvertising(controller);
+  });
+
+  it('treats Command Complete for NOP with commands in flight as a reset', async function() {
+    await configureAdvertising(hci);
+
+    const recovered = new Promise((resolve) => recovery.once('recovered', resolve));
+    const pending = hci.leReadBufferSize().then(() => null, (err) => err);
+    controller.restart(true);
+
+    const err = await pending;
+    assert.strictEqual(err?.message, 'Command cancelled by controller reset');
+
+    await recovered;
+    assert.deepStrictEqual(causes, ['ControllerReset']);
+    assertAdvertising(controller);
+  });
+
+  it('takes Command Complete for NOP on an idle link as credits only', async function() {
+    controller.restart(true);
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    assert.strictEqual(recovery.isRecovering(), false);
+    assert.deepStrictEqual(causes, []);
+    await hci.leReadBufferSize();
+  });
+});
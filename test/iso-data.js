@@ -0,0 +1,194 @@
+const assert = require('assert');
+
+const { Hci } = require('../lib/src/hci/Hci');
+const { HciPacketType } = require('../lib/src/hci/HciPacketType');
+const { VirtualAir } = require('../lib/src/controller/VirtualAir');
+const { Cis } = require('../lib/src/iso/Cis');
+const { IsoDataBoundary } = require('../lib/src/iso/Iso');
+const {
+  LeAdvertisingChannelMap, LeAdvertisingEventProperties, LeAdvertisingFilterPolicy, LeInitiatorFilterPolicy,
+  LeIsoDataPathDirection, LeOwnAddressType, LePeerAddressType, LePrimaryAdvertisingPhy, LeSecondaryAdvertisingPhy,
+} = require('../lib/src/hci/HciLeController');
+
+const isoDataPacketLength = 40;
+const totalNumIsoDataPackets = 2;
+
+async function connect(pair) {
+  const [transportA, transportB] = pair.transports;
+  await transportA.open();
+  await transportB.open();
+
+  const peripheral = new Hci({ transport: transportA, autoEventMask: true });
+  const central = new Hci({ transport: transportB, autoEventMask: true });
+  await peripheral.reset();
+  await central.reset();
+  await Cis.enableHostSupport(peripheral);
+  await Cis.enableHostSupport(central);
+
+  const peripheralAddress = pair.controllers[0].getAddress();
+
+  await peripheral.leSetExtendedAdvertisingParameters(0, {
+    advertisingEventProperties:      [LeAdvertisingEventProperties.Connectable],
+    primaryAdvertisingIntervalMinMs: 20,
+    primaryAdvertisingIntervalMaxMs: 20,
+    primaryAdvertisingChannelMap:    [
+      LeAdvertisingChannelMap.Channel37, LeAdvertisingChannelMap.Channel38, LeAdvertisingChannelMap.Channel39,
+    ],
+    ownAddressType:                  LeOwnAddressType.PublicDeviceAddress,
+    peerAddressType:                 LePeerAddressType.PublicDeviceAddress,
+    peerAddress:                     peripheralAddress,
+    advertisingFilterPolicy:         LeAdvertisingFilterPolicy.Any,
+    primaryAdvertisingPhy:           LePrimaryAdvertisingPhy.Phy1M,
+    secondaryAdvertisingMaxSkip:     0,
+    secondaryAdvertisingPhy:         LeSecondaryAdvertisingPhy.Phy1M,
+    advertisingSid:                  0,
+    scanRequestNotificationEnable:   false,
+  });
+  await peripheral.leSetExtendedAdvertisingEnable({ enable: true, sets: [{ advertHandle: 0 }] });
+
+  const centralConnected = central.waitFor('LeEnhancedConnectionComplete', (err) => !err, { timeoutMs: 2000 });
+
+  await central.leExtendedCreateConnection({
+    initiatorFilterPolicy: LeInitiatorFilterPolicy.PeerAddress,
+    ownAddressType:        LeOwnAddressType.PublicDeviceAddress,
+    peerAddressType:       LePeerAddressType.PublicDeviceAddress,
+    peerAddress:           peripheralAddress,
+    initiatingPhy: {
+      Phy1M: {
+        scanIntervalMs:          100,
+        scanWindowMs:            100,
+        connectionIntervalMinMs: 30,
+        connectionIntervalMaxMs: 30,
+        connectionLatency:       0,
+        supervisionTimeoutMs:    1000,
+        minCeLengthMs:           0,
+        maxCeLengthMs:           0,
+      },
+    },
+  });
+  const [, event] = await centralConnected;
+
+  const accepted = new Promise((resolve, reject) => {
+    peripheral.once('LeCisRequest', (request) => Cis.accept(peripheral, request).then(resolve, reject));
+  });
+  const centralCis = await Cis.create(central, event.connectionHandle, { maxSduMToS: 200 });
+  const peripheralCis = await accepted;
+
+  await centralCis.setupDataPath(LeIsoDataPathDirection.Input);
+  await peripheralCis.setupDataPath(LeIsoDataPathDirection.Output);
+
+  return { central, peripheral, centralCis, peripheralCis };
+}
+
+function sduHeader(sequenceNumber, sduLength) {
+  const header = Buffer.alloc(4);
+  header.writeUInt16LE(sequenceNumber, 0);
+  header.writeUInt16LE(sduLength, 2);
+  return header;
+}
+
+function bytes(length) {
+  return Buffer.from(Array.from({ length }, (_, i) => i & 0xFF));
+}
+
+describe('ISO data over VirtualAir', function() {
+  this.timeout(5000);
+
+  let pair;
+  let hosts;
+  let sentIsoPackets;
+  let sdus;
+
+  before(async function() {
+    const controller = { isoDataPacketLength, totalNumIsoDataPackets };
+    pair = await VirtualAir.createLinkedPair({ advertisingIntervalMs: 10 }, [controller, controller]);
+    hosts = await connect(pair);
+
+    const transport = pair.transports[1];
+    const send = transport.send.bind(transport);
+    transport.send = (packetType, data) => {
+      if (packetType === HciPacketType.HciIsoData) {
+        sentIsoPackets.push(data);
+      }
+      send(packetType, data);
+    };
+
+    hosts.peripheral.on('IsoSdu', (connectionHandle, sdu) => sdus.push(sdu));
+  });
+
+  beforeEach(function() {
+    sentIsoPackets = [];
+    sdus = [];
+  });
+
+  after(async function() {
+    await pair.air.close();
+    await Promise.all(pair.transports.map((transport) => transport.close()));
+    await Promise.all(pair.controllers.map((controller) => controller.close()));
+  });
+
+  function nextSdu() {
+    return new Promise((resolve) => hosts.peripheral.once('IsoSdu', (connectionHandle, sdu) => resolve(sdu)));
+  }
+
+  it('reads ISO buffer size of the controller', async function() {
+    const bufferSize = await hosts.central.leReadBufferSizeV2();
+    assert.strictEqual(bufferSize.isoDataPacketLength, isoDataPacketLength);
+    assert.strictEqual(bufferSize.totalNumIsoDataPackets, totalNumIsoDataPackets);
+  });
+
+  it('fragments SDUs and sends them as the controller completes packets', async function() {
+    const data = bytes(130);
+    const received = nextSdu();
+    await hosts.central.writeIsoSdu(hosts.centralCis.connectionHandle, { sequenceNumber: 7, data });
+
+    // Controller has buffers for two packets, the rest waits for Number Of Completed Packets
+    assert.strictEqual(sentIsoPackets.length, totalNumIsoDataPackets);
+
+    const sdu = await received;
+    assert.strictEqual(sdu.sequenceNumber, 7);
+    assert.deepStrictEqual(sdu.data, data);
+
+    const boundaries = sentIsoPackets.map((packet) => (packet.readUInt16LE(0) >> 12) & 0x03);
+    assert.deepStrictEqual(boundaries, [
+      IsoDataBoundary.FirstFrag, IsoDataBoundary.NextFrag, IsoDataBoundary.NextFrag, IsoDataBoundary.LastFrag,
+    ]);
+    assert.ok(sentIsoPackets.every((packet) => packet.length - 4 <= isoDataPacketLength));
+  });
+
+  it('drops continuation fragments without a first fragment', async function() {
+    const controller = pair.controllers[0];
+    const connectionHandle = hosts.peripheralCis.connectionHandle;
+
+    controller.sendIsoData(connectionHandle, IsoDataBoundary.NextFrag, bytes(8));
+    controller.sendIsoData(connectionHandle, IsoDataBoundary.LastFrag, bytes(8));
+    controller.sendIsoData(connectionHandle, IsoDataBoundary.Complete, Buffer.concat([sduHeader(1, 3), bytes(3)]));
+
+    await nextSdu();
+    assert.deepStrictEqual(sdus.map((sdu) => sdu.data), [bytes(3)]);
+  });
+
+  it('drops SDUs which overrun their declared length', async function() {
+    const controller = pair.controllers[0];
+    const connectionHandle = hosts.peripheralCis.connectionHandle;
+
+    controller.sendIsoData(connectionHandle, IsoDataBoundary.FirstFrag, Buffer.concat([sduHeader(2, 10), bytes(8)]));
+    controller.sendIsoData(connectionHandle, IsoDataBoundary.LastFrag, bytes(8));
+    controller.sendIsoData(connectionHandle, IsoDataBoundary.Complete, Buffer.concat([sduHeader(3, 3), bytes(3)]));
+
+    await nextSdu();
+    assert.deepStrictEqual(sdus.map((sdu) => sdu.sequenceNumber), [3]);
+  });
+
+  it('delivers SDUs shorter than their declared length as received', async function() {
+    const controller = pair.controllers[0];
+    const connectionHandle = hosts.peripheralCis.connectionHandle;
+
+    controller.sendIsoData(connectionHandle, IsoDataBoundary.FirstFrag, Buffer.concat([sduHeader(4, 20), bytes(8)]));
+    controller.sendIsoData(connectionHandle, IsoDataBoundary.LastFrag, bytes(4));
+
+    const sdu = await nextSdu();
+    assert.strictEqual(sdu.sequenceNumber, 4);
+    assert.deepStrictEqual(sdu.data, Buffer.concat([bytes(8), bytes(4)]));
+  });
+});
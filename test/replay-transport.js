@@ -0,0 +1,73 @@
+const assert = require('assert');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+const { Hci } = require('../lib/src/hci/Hci');
+const { BtsnoopWriter } = require('../lib/src/btsnoop/BtsnoopWriter');
+const { VirtualController } = require('../lib/src/controller/VirtualController');
+const { MemoryTransport } = require('../lib/src/transport/MemoryTransport');
+const { ReplayTransport } = require('../lib/src/transport/ReplayTransport');
+
+async function capture(file) {
+  const [host, transport] = MemoryTransport.createPair();
+  const controller = new VirtualController({ transport });
+  await controller.open();
+  await host.open();
+
+  const snoop = new BtsnoopWriter({ path: file });
+  snoop.open();
+
+  const hci = new Hci({ transport: host, snoop });
+  await hci.reset();
+  await hci.readBdAddr();
+
+  snoop.close();
+  await host.close();
+  await controller.close();
+  return { files: snoop.getFiles(), address: controller.getAddress() };
+}
+
+describe('ReplayTransport', function() {
+  let files;
+  let address;
+
+  before(async function() {
+    ({ files, address } = await capture(path.join(os.tmpdir(), `nble-${process.pid}-replay.btsnoop`)));
+  });
+
+  after(function() {
+    files.forEach((file) => fs.unlinkSync(file));
+  });
+
+  it('replays a capture the stack matches', async function() {
+    const replay = new ReplayTransport({ path: files[0] });
+    await replay.open();
+
+    const hci = new Hci({ transport: replay });
+    await hci.reset();
+    const bdAddr = await hci.readBdAddr();
+    await replay.waitForEnd();
+
+    assert.strictEqual(bdAddr.toString(), address.toString());
+    assert.deepStrictEqual(replay.getMismatches(), []);
+    await replay.close();
+  });
+
+  it('reports a capture the stack does not match', async function() {
+    const replay = new ReplayTransport({ path: files[0] });
+    await replay.open();
+
+    const mismatches = [];
+    replay.on('mismatch', (mismatch) => mismatches.push(mismatch));
+
+    const hci = new Hci({ transport: replay, cmdTimeout: 50 });
+    await hci.reset();
+    await assert.rejects(hci.readLocalVersionInformation(), /Command timeout/);
+
+    assert.strictEqual(mismatches.length, 1);
+    assert.strictEqual(mismatches[0].index, 2);
+    await assert.rejects(replay.waitForEnd(), /Replay mismatch at record 2/);
+    await replay.close();
+  });
+});
@@ -0,0 +1,48 @@
+const assert = require('assert');
+
+const { RingBuffer } = require('../lib/src/utils/RingBuffer');
+
+function bytes(from, length) {
+  return Buffer.from(Array.from({ length }, (_, i) => (from + i) & 0xFF));
+}
+
+describe('RingBuffer', function() {
+  it('reads back what was pushed', function() {
+    const ring = new RingBuffer(8);
+    ring.push(bytes(0, 5));
+    assert.strictEqual(ring.length, 5);
+    assert.strictEqual(ring.peek(4), 4);
+    assert.deepStrictEqual(ring.read(5), bytes(0, 5));
+    assert.strictEqual(ring.length, 0);
+  });
+
+  it('wraps around the end of its storage', function() {
+    const ring = new RingBuffer(8);
+    ring.push(bytes(0, 6));
+    ring.skip(5);
+    ring.push(bytes(6, 6));
+
+    assert.strictEqual(ring.length, 7);
+    assert.strictEqual(ring.peek(0), 5);
+    assert.strictEqual(ring.peek(6), 11);
+    assert.deepStrictEqual(ring.read(7), bytes(5, 7));
+  });
+
+  it('grows keeping wrapped data in order', function() {
+    const ring = new RingBuffer(8);
+    ring.push(bytes(0, 6));
+    ring.skip(4);
+    ring.push(bytes(6, 5));
+    ring.push(bytes(11, 20));
+
+    assert.strictEqual(ring.length, 27);
+    assert.deepStrictEqual(ring.read(27), bytes(4, 27));
+  });
+
+  it('rejects access beyond stored data', function() {
+    const ring = new RingBuffer(8);
+    ring.push(bytes(0, 2));
+    assert.throws(() => ring.peek(2), RangeError);
+    assert.throws(() => ring.skip(3), RangeError);
+  });
+});
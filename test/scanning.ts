@@ -1,6 +1,6 @@
 import SerialPort from 'serialport';
 
-import { H4 } from '../src/transport/H4';
+import { H4Transport } from '../src/transport/H4Transport';
 import { Hci } from '../src/hci/Hci';
 import { Address } from '../src/utils/Address';
 import { AdvData } from '../src/gap/AdvData';
@@ -23,25 +23,13 @@ import { LeExtAdvReport } from '../src/hci/HciEvent';
     const portInfo = await findHciPort();
     const port = await openHciPort(portInfo);
 
-    const hci = new Hci({
-      send: (packetType, data) => {
-        port.write([packetType, ...data]);
-      },
-    });
-
-    const h4 = new H4();
-    port.on('data', (data) => {
-      let result = h4.parse(data);
-      do {
-        if (result) {
-          hci.onData(result.type, result.packet);
-          result = h4.parse(Buffer.allocUnsafe(0));
-        }
-      } while (result);
-    });
-    port.on('error', (err) => {
+    const transport = new H4Transport(port);
+    transport.on('error', (err) => {
       console.log(err);
     });
+    await transport.open();
+
+    const hci = new Hci({ transport });
 
     await hci.reset();
 
@@ -1,7 +1,7 @@
 import SerialPort from 'serialport';
 import Debug from 'debug';
 
-import { H4, H4Packet } from '../src/transport/H4';
+import { H4Transport } from '../src/transport/H4Transport';
 import { Hci } from '../src/hci/Hci';
 import { Address } from '../src/utils/Address';
 import { AdvData } from '../src/gap/AdvData';
@@ -35,27 +35,13 @@ const debug = Debug('nble-main');
     const portInfo = await findHciPort();
     const port = await openHciPort(portInfo);
 
-    const hci = new Hci({
-      send: (packetType, data) => {
-        port.write([packetType, ...data]);
-      },
-    });
-
-    const h4 = new H4();
-    port.on('data', (data) => {
-      let result: H4Packet | null = null;
-
-      // debug(`h4-data-beg`);
-      while ((result = h4.parse(data)) !== null) {
-        // debug(`h4-data: ${result.type}`);
-        hci.onData(result.type, result.packet);
-        data = Buffer.allocUnsafe(0);
-      }
-      // debug(`h4-data-end`);
-    });
-    port.on('error', (err) => {
+    const transport = new H4Transport(port);
+    transport.on('error', (err) => {
       console.log(err);
     });
+    await transport.open();
+
+    const hci = new Hci({ transport });
 
     await hci.reset();
 
@@ -0,0 +1,71 @@
+const assert = require('assert');
+const childProcess = require('child_process');
+const fs = require('fs');
+const net = require('net');
+const os = require('os');
+const path = require('path');
+
+const { SocketTransport } = require('../lib/src/transport/SocketTransport');
+const { HciPacketType } = require('../lib/src/hci/HciPacketType');
+
+function socketPath(name) {
+  return path.join(os.tmpdir(), `nble-${process.pid}-${name}.sock`);
+}
+
+describe('SocketTransport', function() {
+  this.timeout(5000);
+
+  it('replaces a stale unix socket', async function() {
+    const file = socketPath('stale');
+    // Server which crashed, the socket file stays behind
+    childProcess.spawnSync(process.execPath, ['-e', `
+      require('net').createServer().listen(${JSON.stringify(file)}, () => process.kill(process.pid, 'SIGKILL'));
+    `]);
+    assert.ok(fs.existsSync(file));
+
+    const server = new SocketTransport({ path: file, listen: true });
+    const opened = server.open();
+    const client = new SocketTransport({ path: file, reconnectIntervalMs: 10 });
+    await client.open();
+    await opened;
+
+    const received = new Promise((resolve) => server.once('packet', (...args) => resolve(args)));
+    client.send(HciPacketType.HciCommand, Buffer.from([0x03, 0x0C, 0x00]));
+    assert.deepStrictEqual(await received, [HciPacketType.HciCommand, Buffer.from([0x03, 0x0C, 0x00])]);
+
+    await client.close();
+    await server.close();
+  });
+
+  it('keeps a unix socket of a live server', async function() {
+    const file = socketPath('live');
+    const live = net.createServer();
+    await new Promise((resolve) => live.listen(file, resolve));
+
+    const server = new SocketTransport({ path: file, listen: true });
+    await assert.rejects(server.open(), { code: 'EADDRINUSE' });
+    await server.close();
+
+    const connected = new Promise((resolve) => live.once('connection', resolve));
+    const socket = net.connect(file);
+    (await connected).destroy();
+    socket.destroy();
+    await new Promise((resolve) => live.close(resolve));
+  });
+
+  it('drops a connection attempt which completes after close', async function() {
+    const server = net.createServer();
+    await new Promise((resolve) => server.listen(0, '127.0.0.1', resolve));
+
+    const client = new SocketTransport({ host: '127.0.0.1', port: server.address().port });
+    let connects = 0;
+    client.on('connect', () => connects++);
+    client.open().catch(() => {});
+    await client.close();
+
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    assert.strictEqual(connects, 0);
+    assert.strictEqual(client.isConnected(), false);
+    await new Promise((resolve) => server.close(resolve));
+  });
+});